@@ -3,7 +3,8 @@ import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react'
 import { 
   DatabaseSchema, AppStep, BuilderState, QueryResult, DbCredentials, 
   AppSettings, DEFAULT_SETTINGS, VirtualRelation, DashboardItem, QueryTab,
-  TabResultsState, ConnectionGroup
+  TabResultsState, ConnectionGroup, TransactionAction, TabExecutionError, SchemaFocusRequest,
+  QueryParamInput, ScriptResult, SimulationConfig, OfflineSnapshot
 } from './types';
 import { Loader2, Database, Plus, X } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
@@ -29,11 +30,20 @@ import LogAnalyzerModal from '@/components/LogAnalyzerModal';
 import TemplateModal from '@/components/TemplateModal';
 import SqlExtractorModal from '@/components/SqlExtractorModal';
 import SchemaWikiModal from '@/components/SchemaWikiModal';
+import SimulationDataModal from '@/components/SimulationDataModal';
+import OfflineSnapshotModal from '@/components/OfflineSnapshotModal';
+import TunnelStatusBadge from '@/components/TunnelStatusBadge';
 import UpdateModal from '@/components/UpdateModal';
+import Dialog from '@/components/common/Dialog';
 import { generateSqlFromBuilderState } from '@/services/geminiService';
 import { generateLocalSql } from '@/services/localSqlService';
-import { executeQueryReal } from '@/services/dbService';
-import { executeOfflineQuery, initializeSimulation, SimulationData } from '@/services/simulationService';
+import { closeBackendSession, controlTransaction, cancelExecution, executeQueryStream, fetchNextPage, executeScript } from '@/services/dbService';
+import { splitSqlStatements, pickDefaultStatement, locateStatements } from '@/services/sqlScriptService';
+import { bindSqlParams, BoundQuery } from '@/services/sqlParamService';
+import { parseSql, isDataModifying } from '@/services/sqlParser';
+import { initializeSimulation, SimulationData } from '@/services/simulationService';
+import { createSimulationConfig } from '@/services/dataGeneratorService';
+import { executeOfflineScript, executeOfflineSql } from '@/services/sqlInterpreter';
 import { Toaster, toast } from 'react-hot-toast';
 
 const INITIAL_BUILDER_STATE: BuilderState = {
@@ -113,6 +123,7 @@ const App: React.FC = () => {
   const [showSettings, setShowSettings] = useState(false);
   const [settingsTab, setSettingsTab] = useState<'interface' | 'ai' | 'database' | 'diagnostics'>('interface');
   const [showDiagram, setShowDiagram] = useState(false);
+  const [schemaFocus, setSchemaFocus] = useState<SchemaFocusRequest | null>(null);
   const [showHistory, setShowHistory] = useState(false);
   const [showShortcuts, setShowShortcuts] = useState(false);
   const [showCheatSheet, setShowCheatSheet] = useState(false);
@@ -121,6 +132,8 @@ const App: React.FC = () => {
   const [showTemplates, setShowTemplates] = useState(false);
   const [showSqlExtractor, setShowSqlExtractor] = useState(false);
   const [showWiki, setShowWiki] = useState(false);
+  const [showSimulationData, setShowSimulationData] = useState(false);
+  const [showSnapshot, setShowSnapshot] = useState(false);
   
   const [updateInfo, setUpdateInfo] = useState<any>(null);
   const [remoteVersions, setRemoteVersions] = useState<any>(null);
@@ -130,6 +143,7 @@ const App: React.FC = () => {
   const manualCheckRef = useRef(false);
 
   const generationIdRef = useRef(0);
+  const [closeConfirm, setCloseConfirm] = useState<{ message: string, onConfirm: () => void } | null>(null);
 
   // Computations
   const activeConnection = useMemo(() => 
@@ -154,6 +168,43 @@ const App: React.FC = () => {
     }));
   }, [activeConnectionId, activeConnection]);
 
+  const updateQueryTabById = useCallback((connectionId: string, tabId: string, updater: (tab: QueryTab) => Partial<QueryTab>) => {
+    setConnections(prev => prev.map(c => {
+      if (c.id !== connectionId) return c;
+      return { ...c, tabs: c.tabs.map(t => t.id === tabId ? { ...t, ...updater(t) } : t) };
+    }));
+  }, []);
+
+  const isRealConnection = (conn: ConnectionGroup | null): boolean => !!conn?.credentials && conn.credentials.host !== 'simulated';
+
+  const hasOpenTransaction = (tab: QueryTab) => !!tab.transaction && tab.transaction.status !== 'idle';
+
+  // Sincroniza o indicador da aba com o status real da sessão (o usuário pode digitar BEGIN/COMMIT no editor)
+  const refreshTabTransaction = async (conn: ConnectionGroup, tabId: string) => {
+    if (!isRealConnection(conn)) return;
+    try {
+      const tx = await controlTransaction(conn.credentials!, tabId, 'status');
+      updateQueryTabById(conn.id, tabId, () => ({ transaction: { status: tx.status, startedAt: tx.startedAt, savepoints: tx.savepoints } }));
+    } catch (e: any) {
+      console.warn(`[TRANSACTION] Falha ao consultar status da aba ${tabId}:`, e.message);
+    }
+  };
+
+  const handleTransactionAction = async (action: TransactionAction, savepoint?: string) => {
+    if (!activeConnection || !activeQuery || !isRealConnection(activeConnection)) return;
+    const conn = activeConnection;
+    const tabId = activeQuery.id;
+    try {
+      const tx = await controlTransaction(conn.credentials!, tabId, action, { name: savepoint });
+      updateQueryTabById(conn.id, tabId, () => ({ transaction: { status: tx.status, startedAt: tx.startedAt, savepoints: tx.savepoints } }));
+      if (action === 'commit' && tx.rolledBack) toast.error("A transação estava abortada: o COMMIT foi convertido em ROLLBACK.");
+      else toast.success(tx.command || action.toUpperCase());
+    } catch (e: any) {
+      toast.error(e.message || "Falha no controle de transação");
+      refreshTabTransaction(conn, tabId);
+    }
+  };
+
   const handleAddConnection = () => {
     console.log("[WORKSPACE] Adicionando novo grupo de conexão.");
     const newConn = createNewConnectionGroup();
@@ -162,15 +213,52 @@ const App: React.FC = () => {
     setGlobalStep('connection');
   };
 
+  // Snapshot vira um novo grupo de conexão simulado; a conexão real de origem continua aberta
+  const handleSnapshotCreated = (snapshot: OfflineSnapshot) => {
+    console.log(`[WORKSPACE] Abrindo snapshot offline "${snapshot.schema.name}".`);
+    const newConn: ConnectionGroup = {
+      ...createNewConnectionGroup(),
+      name: snapshot.schema.name,
+      schema: snapshot.schema,
+      credentials: { host: 'simulated', port: '0000', user: 'snapshot_user', database: snapshot.schema.name, color: activeConnection?.contextColor },
+      simulationData: snapshot.data,
+      contextColor: activeConnection?.contextColor
+    };
+    setConnections(prev => [...prev, newConn]);
+    setActiveConnectionId(newConn.id);
+    setGlobalStep('query');
+  };
+
+  // Libera no backend a sessão dedicada de cada aba (conexões simuladas não possuem sessão)
+  const releaseTabSessions = (conn: ConnectionGroup, tabIds: string[]) => {
+    if (!conn.credentials || conn.credentials.host === 'simulated') return;
+    tabIds.forEach(tabId => {
+      closeBackendSession(tabId).catch(e => console.warn(`[WORKSPACE] Falha ao encerrar sessão da aba ${tabId}:`, e.message));
+    });
+  };
+
   const handleCloseConnection = (id: string) => {
     if (connections.length === 1) {
         toast.error("Mantenha pelo menos um banco de dados ativo.");
         return;
     }
-    const newConns = connections.filter(c => c.id !== id);
-    setConnections(newConns);
-    if (activeConnectionId === id) setActiveConnectionId(newConns[newConns.length - 1].id);
-    console.log(`[WORKSPACE] Conexão ${id} encerrada.`);
+    const closing = connections.find(c => c.id === id);
+    const doClose = () => {
+      if (closing) releaseTabSessions(closing, closing.tabs.map(t => t.id));
+      const newConns = connections.filter(c => c.id !== id);
+      setConnections(newConns);
+      if (activeConnectionId === id) setActiveConnectionId(newConns[newConns.length - 1].id);
+      console.log(`[WORKSPACE] Conexão ${id} encerrada.`);
+    };
+    const openTxTabs = closing?.tabs.filter(hasOpenTransaction) || [];
+    if (openTxTabs.length > 0) {
+      setCloseConfirm({
+        message: `As abas ${openTxTabs.map(t => `"${t.name}"`).join(', ')} possuem transações abertas. Fechar a conexão descartará todas as alterações não confirmadas (ROLLBACK).`,
+        onConfirm: doClose
+      });
+      return;
+    }
+    doClose();
   };
 
   const handleAddQueryTab = () => {
@@ -187,11 +275,23 @@ const App: React.FC = () => {
   const handleCloseQueryTab = (id: string) => {
     if (!activeConnection) return;
     if (activeConnection.tabs.length === 1) return;
-    const newTabs = activeConnection.tabs.filter(t => t.id !== id);
-    updateActiveConnection(conn => ({
-        tabs: newTabs,
-        activeTabId: activeConnection.activeTabId === id ? newTabs[newTabs.length - 1].id : activeConnection.activeTabId
-    }));
+    const doClose = () => {
+      releaseTabSessions(activeConnection, [id]);
+      const newTabs = activeConnection.tabs.filter(t => t.id !== id);
+      updateActiveConnection(conn => ({
+          tabs: newTabs,
+          activeTabId: activeConnection.activeTabId === id ? newTabs[newTabs.length - 1].id : activeConnection.activeTabId
+      }));
+    };
+    const closing = activeConnection.tabs.find(t => t.id === id);
+    if (closing && hasOpenTransaction(closing)) {
+      setCloseConfirm({
+        message: `A aba "${closing.name}" possui uma transação ${closing.transaction?.status === 'failed' ? 'abortada' : 'aberta'}. Fechá-la descartará as alterações não confirmadas (ROLLBACK).`,
+        onConfirm: doClose
+      });
+      return;
+    }
+    doClose();
   };
 
   // Init & Persistence
@@ -203,7 +303,7 @@ const App: React.FC = () => {
             if (diskData) {
                 Object.entries(diskData).forEach(([k, v]) => localStorage.setItem(k, v as string));
                 const s = localStorage.getItem('psqlBuddy-settings');
-                if (s) setSettings(JSON.parse(s));
+                if (s) setSettings({ ...DEFAULT_SETTINGS, ...JSON.parse(s) });
             }
         }
         const initial = createNewConnectionGroup();
@@ -290,12 +390,16 @@ const App: React.FC = () => {
     }
   }, [activeConnectionId, activeConnection?.schema, isHydrated]);
 
-  const handleSchemaLoaded = (loadedSchema: DatabaseSchema, creds: DbCredentials) => {
+  const handleSchemaLoaded = (loadedSchema: DatabaseSchema, creds: DbCredentials, config?: SimulationConfig, fixtureData?: SimulationData) => {
     console.log(`[CONNECTION] Schema carregado para: ${creds.database}. Iniciando workspace.`);
+    // Fixture traz os dados prontos (a configuração, se houver, só registra como foram gerados)
+    const simulationConfig = fixtureData ? config : loadedSchema.connectionSource === 'simulated' ? (config || createSimulationConfig()) : undefined;
+    if (simulationConfig && !fixtureData) console.log(`[SIMULATION] Gerando dados com seed ${simulationConfig.seed} (${simulationConfig.rowCount} linhas por tabela).`);
     updateActiveConnection(() => ({
        schema: loadedSchema,
        credentials: creds,
-       simulationData: loadedSchema.connectionSource === 'simulated' ? initializeSimulation(loadedSchema) : {},
+       simulationData: fixtureData || (simulationConfig ? initializeSimulation(loadedSchema, simulationConfig) : {}),
+       simulationConfig,
        name: creds.database || loadedSchema.name,
        contextColor: creds.color
     }));
@@ -320,29 +424,171 @@ const App: React.FC = () => {
     }
   };
 
-  const handleExecuteQuery = async (sqlOverride?: string) => {
+  const handleExecuteQuery = async (sqlOverride?: string, paramInputs?: Record<string, QueryParamInput>) => {
     if (!activeConnection?.credentials || !activeConnection.schema || !activeQuery) return;
     const sqlToRun = sqlOverride || activeQuery.queryResult?.sql;
     if (!sqlToRun) return;
 
-    updateActiveQuery(() => ({ isExecuting: true }));
+    const conn = activeConnection;
+    const tabId = activeQuery.id;
+    const executionId = crypto.randomUUID();
+    updateActiveQuery(() => ({ isExecuting: true, activeExecutionId: executionId, executionError: null }));
+    let bound: BoundQuery | null = null;
+    // Após o await a aba ativa pode ter mudado: o resultado volta sempre para a aba de origem
     try {
-       let data = activeConnection.credentials.host === 'simulated'
-          ? executeOfflineQuery(activeConnection.schema, activeConnection.simulationData, activeQuery.builderState)
-          : await executeQueryReal(activeConnection.credentials, sqlToRun);
+       let data: any[] = [];
+       let pagination: QueryTab['pagination'] = null;
+       let resultFields: QueryTab['resultFields'] = undefined;
+       let resultNotices: QueryTab['resultNotices'] = [];
+       let scriptResults: QueryTab['scriptResults'] = null;
+       let activeStatement: number | undefined = undefined;
+       let executionError: TabExecutionError | null = null;
+       let script: ScriptResult | null = null;
+       const statements = splitSqlStatements(sqlToRun);
+       // :nome vira $n e os valores seguem como params; o texto original continua no editor
+       bound = paramInputs ? bindSqlParams(sqlToRun, paramInputs) : null;
+       if (bound && statements.length > 1) throw new Error('Consultas com parâmetros precisam ter um único comando.');
+       if (activeConnection.credentials.host === 'simulated') {
+          // Modo simulado: o SQL do editor roda no interpretador em memória e as alterações ficam na conexão
+          const offline = statements.length > 1
+             ? executeOfflineScript(activeConnection.schema, activeConnection.simulationData, statements, activeQuery.scriptErrorMode || 'stop')
+             : null;
+          const single = offline ? null : executeOfflineSql(activeConnection.schema, activeConnection.simulationData, bound ? bound.sql : sqlToRun, bound?.params);
+          const simulationData = (offline || single)!.data;
+          if (simulationData !== activeConnection.simulationData) {
+             setConnections(prev => prev.map(c => c.id === conn.id ? { ...c, simulationData } : c));
+          }
+          if (offline) script = offline;
+          else {
+             data = single!.rows;
+             resultFields = single!.fields;
+          }
+       } else if (statements.length > 1) {
+          script = await executeScript(activeConnection.credentials, statements, tabId, {
+             executionId,
+             statementTimeoutMs: activeQuery.statementTimeoutMs || undefined,
+             onError: activeQuery.scriptErrorMode || 'stop',
+             maxRows: settings.maxResultRows
+          });
+       } else {
+          const page = await executeQueryStream(activeConnection.credentials, bound ? bound.sql : sqlToRun, tabId, {
+             executionId,
+             params: bound?.params,
+             statementTimeoutMs: activeQuery.statementTimeoutMs || undefined,
+             pageSize: settings.resultPageSize,
+             maxRows: settings.maxResultRows
+          });
+          data = page.rows;
+          resultFields = page.fields;
+          resultNotices = page.notices || [];
+          pagination = { cursorId: page.cursorId, fetched: page.fetched, hasMore: page.hasMore, capped: page.capped, estimatedRows: page.estimatedRows ?? null };
+          if (page.capped) toast(`Resultado limitado a ${settings.maxResultRows.toLocaleString()} linhas (teto configurado).`, { icon: '⚠️' });
+       }
+       if (script) {
+          scriptResults = script.statements;
+          activeStatement = pickDefaultStatement(script.statements);
+          data = scriptResults[activeStatement].rows;
+          resultFields = scriptResults[activeStatement].fields;
+          const failed = script.statements.filter(r => r.status === 'error');
+          if (failed.length > 0 && failed[0].errorDetails) {
+             // A posição do PostgreSQL é relativa ao comando; o marcador do editor precisa dela no texto inteiro
+             const { errorDetails, index } = failed[0];
+             const offset = locateStatements(sqlToRun, statements)[index];
+             executionError = { ...errorDetails, sql: sqlToRun, statementIndex: index, position: errorDetails.position ? errorDetails.position + offset : undefined };
+          }
+          if (script.halted && failed.length > 0) toast.error(`Script interrompido no comando ${failed[0].index + 1}: ${failed[0].error}`);
+          else if (failed.length > 0) toast(`${failed.length} de ${statements.length} comandos falharam.`, { icon: '⚠️' });
+       }
        
-       updateActiveQuery(() => ({ 
+       updateQueryTabById(conn.id, tabId, () => ({ 
          executionResult: data, 
+         pagination,
+         resultFields,
+         resultNotices,
+         scriptResults,
+         executionError,
          currentStep: 'results', 
          isExecuting: false,
-         resultsState: { ...INITIAL_RESULTS_STATE }
+         activeExecutionId: null,
+         resultsState: { ...INITIAL_RESULTS_STATE, activeStatement }
        }));
     } catch (e: any) { 
-      updateActiveQuery(() => ({ isExecuting: false }));
+      // Cancelamento/timeout não têm posição nem objeto envolvido: basta o toast
+      const position = e.details?.position && bound ? bound.toOriginalPosition(e.details.position) : e.details?.position;
+      const executionError: TabExecutionError | null = e.details?.code && e.details.code !== '57014' ? { ...e.details, position, sql: sqlToRun } : null;
+      updateQueryTabById(conn.id, tabId, () => ({ isExecuting: false, activeExecutionId: null, executionError }));
       toast.error(e.message || "Falha na execução");
+    } finally {
+      refreshTabTransaction(conn, tabId);
+    }
+  };
+
+  // Consultas de leitura rodam direto; o resto (DML, DDL) passa pelas travas e pela simulação do Preview
+  const handleRunTemplate = (sql: string, paramValues?: Record<string, QueryParamInput>) => {
+    updateActiveQuery(() => ({ queryResult: { sql, explanation: '', tips: [], paramValues }, currentStep: 'preview' }));
+    setGlobalStep('query');
+    const nodes = parseSql(sql);
+    const readOnly = nodes.length > 0 && nodes.every(n => n.kind === 'select' || n.kind === 'values') && !isDataModifying(nodes);
+    if (!readOnly) {
+      toast('Template não é só leitura: revise e confirme no Preview.', { icon: '🛡️' });
+      return;
+    }
+    handleExecuteQuery(sql, paramValues);
+  };
+
+  const handleFetchNextPage = async () => {
+    if (!activeConnection?.credentials || !activeQuery?.pagination?.cursorId) return;
+    const conn = activeConnection;
+    const tabId = activeQuery.id;
+    const executionId = crypto.randomUUID();
+    updateQueryTabById(conn.id, tabId, () => ({ activeExecutionId: executionId }));
+    try {
+      const page = await fetchNextPage(conn.credentials!, tabId, activeQuery.pagination.cursorId, {
+        executionId,
+        pageSize: settings.resultPageSize,
+        maxRows: settings.maxResultRows
+      });
+      updateQueryTabById(conn.id, tabId, (tab) => ({
+        executionResult: [...tab.executionResult, ...page.rows],
+        resultNotices: [...(tab.resultNotices || []), ...(page.notices || [])],
+        activeExecutionId: null,
+        pagination: { cursorId: page.cursorId, fetched: page.fetched, hasMore: page.hasMore, capped: page.capped, estimatedRows: tab.pagination?.estimatedRows ?? null }
+      }));
+      if (page.capped) toast(`Teto de ${settings.maxResultRows.toLocaleString()} linhas atingido.`, { icon: '⚠️' });
+    } catch (e: any) {
+      // Cursor perdido (sessão encerrada/transação finalizada): encerra a paginação
+      updateQueryTabById(conn.id, tabId, (tab) => ({ activeExecutionId: null, pagination: tab.pagination ? { ...tab.pagination, cursorId: null, hasMore: false } : null }));
+      toast.error(e.message || "Falha ao carregar próxima página");
     }
   };
 
+  const handleSelectStatement = (index: number) => {
+    updateActiveQuery(q => {
+      const statement = q.scriptResults?.[index];
+      if (!statement) return {};
+      return { executionResult: statement.rows, resultFields: statement.fields, resultsState: { ...INITIAL_RESULTS_STATE, activeStatement: index } };
+    });
+  };
+
+  const handleCancelExecution = async () => {
+    const executionId = activeQuery?.activeExecutionId;
+    if (!executionId) return;
+    try {
+      const result = await cancelExecution(executionId);
+      if (result.success) toast(result.message, { icon: '⏹️' });
+      else toast.error(result.message);
+    } catch (e: any) {
+      toast.error(e.message || "Falha ao cancelar execução");
+    }
+  };
+
+  /** Abre o builder com o SchemaViewer focado na tabela/colunas citadas (ex: constraint de um erro). */
+  const handleFocusSchema = (request: Omit<SchemaFocusRequest, 'requestId'>) => {
+    setSchemaFocus({ ...request, requestId: Date.now() });
+    setGlobalStep('query');
+    updateActiveQuery(() => ({ currentStep: 'builder' }));
+  };
+
   const handleNavigate = (step: AppStep) => {
     console.log(`[NAVIGATION] Solicitado passo: ${step}`);
     if (step === 'connection') {
@@ -380,6 +626,8 @@ const App: React.FC = () => {
         onOpenLogAnalyzer={() => setShowLogAnalyzer(true)} onOpenTemplates={() => setShowTemplates(true)}
         onOpenSqlExtractor={() => setShowSqlExtractor(true)} 
         onOpenWiki={() => setShowWiki(true)}
+        onOpenSimulationData={activeConnection?.schema && activeConnection.credentials?.host === 'simulated' ? () => setShowSimulationData(true) : undefined}
+        onOpenSnapshot={activeConnection?.schema && activeConnection.credentials && activeConnection.credentials.host !== 'simulated' ? () => setShowSnapshot(true) : undefined}
         onCheckUpdate={() => { 
           const electron = (window as any).electron;
           if (electron) {
@@ -405,6 +653,7 @@ const App: React.FC = () => {
                     {conn.contextColor && <div className="absolute top-0 left-0 right-0 h-0.5 rounded-t-lg" style={{ backgroundColor: conn.contextColor }} />}
                     <Database className="w-3 h-3 mr-2 opacity-50" />
                     <span className="truncate flex-1">{conn.name}</span>
+                    {conn.credentials?.ssh && <TunnelStatusBadge credentials={conn.credentials} />}
                     {connections.length > 1 && (
                         <button onClick={(e) => { e.stopPropagation(); handleCloseConnection(conn.id); }} className="ml-2 opacity-0 group-hover:opacity-100 hover:text-red-500 transition-opacity"><X size={10} /></button>
                     )}
@@ -422,6 +671,8 @@ const App: React.FC = () => {
                 onSwitch={(id) => updateActiveConnection(() => ({ activeTabId: id }))} 
                 onClose={handleCloseQueryTab} 
                 onAdd={handleAddQueryTab} 
+                canUseTransactions={isRealConnection(activeConnection)}
+                onTransactionAction={handleTransactionAction}
             />
         )}
         
@@ -446,7 +697,7 @@ const App: React.FC = () => {
                             schema={activeConnection.schema} state={activeQuery.builderState} 
                             onStateChange={(s) => updateActiveQuery(() => ({ builderState: s }))} 
                             onGenerate={handleGenerateSql} isGenerating={activeQuery.isGenerating} 
-                            settings={settings} 
+                            settings={settings} schemaFocus={schemaFocus}
                           />
                        )}
                        {globalStep === 'query' && activeQuery?.currentStep === 'queryflow' && (
@@ -456,18 +707,35 @@ const App: React.FC = () => {
                           <PreviewStep 
                             queryResult={activeQuery.queryResult} onExecute={handleExecuteQuery} 
                             onBack={() => updateActiveQuery(() => ({ currentStep: 'builder' }))} 
-                            isExecuting={activeQuery.isExecuting} isValidating={false} 
-                            schema={activeConnection.schema || undefined} settings={settings} credentials={activeConnection.credentials} />
+                            isExecuting={activeQuery.isExecuting} isValidating={false} validationDisabled={!settings.enableSqlValidation} 
+                            schema={activeConnection.schema || undefined} virtualRelations={virtualRelations} settings={settings} credentials={activeConnection.credentials}
+                            onCancel={isRealConnection(activeConnection) ? handleCancelExecution : undefined}
+                            statementTimeoutMs={activeQuery.statementTimeoutMs ?? 0}
+                            onStatementTimeoutChange={isRealConnection(activeConnection) ? (ms) => updateActiveQuery(() => ({ statementTimeoutMs: ms })) : undefined}
+                            scriptErrorMode={activeQuery.scriptErrorMode || 'stop'}
+                            onScriptErrorModeChange={isRealConnection(activeConnection) ? (mode) => updateActiveQuery(() => ({ scriptErrorMode: mode })) : undefined}
+                            executionError={activeQuery.executionError}
+                            onDismissError={() => updateActiveQuery(() => ({ executionError: null }))}
+                            onFocusSchema={handleFocusSchema} />
                        )}
                        {globalStep === 'query' && activeQuery?.currentStep === 'results' && activeQuery.executionResult && (
                           <ResultsStep 
-                            data={activeQuery.executionResult} sql={activeQuery.queryResult?.sql || ''} 
+                            data={activeQuery.executionResult} sql={activeQuery.scriptResults?.[activeQuery.resultsState.activeStatement ?? 0]?.sql || activeQuery.queryResult?.sql || ''} 
                             onBackToBuilder={() => updateActiveQuery(() => ({ currentStep: 'builder' }))} 
                             onNewConnection={() => setGlobalStep('connection')} settings={settings} 
                             onShowToast={(m) => toast(m)} credentials={activeConnection.credentials} 
                             schema={activeConnection.schema || undefined} 
                             resultsState={activeQuery.resultsState} 
                             onResultsStateChange={(p) => updateActiveQuery(q => ({ resultsState: { ...q.resultsState, ...p } }))}
+                            sessionId={activeQuery.id}
+                            transaction={activeQuery.transaction}
+                            pagination={activeQuery.pagination || undefined}
+                            onFetchNextPage={handleFetchNextPage}
+                            fields={activeQuery.resultFields}
+                            notices={activeQuery.resultNotices}
+                            scriptResults={activeQuery.scriptResults || undefined}
+                            onSelectStatement={handleSelectStatement}
+                            onSessionWrite={() => refreshTabTransaction(activeConnection, activeQuery.id)}
                           />
                        )}
                        {globalStep === 'datadiff' && (
@@ -492,9 +760,39 @@ const App: React.FC = () => {
       {showCheatSheet && <SqlCheatSheetModal onClose={() => setShowCheatSheet(false)} />}
       {showVirtualRelations && activeConnection?.schema && <VirtualRelationsModal schema={activeConnection.schema} existingRelations={virtualRelations} onAddRelation={r => setVirtualRelations(p => [...p, r])} onRemoveRelation={id => setVirtualRelations(p => p.filter(r => r.id !== id))} onClose={() => setShowVirtualRelations(false)} credentials={activeConnection.credentials} />}
       {showLogAnalyzer && activeConnection?.schema && <LogAnalyzerModal schema={activeConnection.schema} onClose={() => setShowLogAnalyzer(false)} onRunSql={sql => { updateActiveQuery(() => ({ queryResult: { sql, explanation: '', tips: [] }, currentStep: 'preview' })); setGlobalStep('query'); }} />}
-      {showTemplates && <TemplateModal onClose={() => setShowTemplates(false)} onRunTemplate={sql => { updateActiveQuery(() => ({ queryResult: { sql, explanation: '', tips: [] }, currentStep: 'preview' })); setGlobalStep('query'); }} />}
+      {showTemplates && <TemplateModal onClose={() => setShowTemplates(false)} onRunTemplate={handleRunTemplate} />}
       {showSqlExtractor && <SqlExtractorModal onClose={() => setShowSqlExtractor(false)} onRunSql={sql => { updateActiveQuery(() => ({ queryResult: { sql, explanation: '', tips: [] }, currentStep: 'preview' })); setGlobalStep('query'); }} settings={settings} />}
       {showWiki && activeConnection?.schema && <SchemaWikiModal schema={activeConnection.schema} onClose={() => setShowWiki(false)} />}
+      {showSimulationData && activeConnection?.schema && (
+        <SimulationDataModal
+          name={activeConnection.name}
+          schema={activeConnection.schema}
+          data={activeConnection.simulationData}
+          config={activeConnection.simulationConfig}
+          onApply={(simulationData, schema, simulationConfig) => updateActiveConnection(() => ({ simulationData, schema, simulationConfig }))}
+          onClose={() => setShowSimulationData(false)}
+        />
+      )}
+      {showSnapshot && activeConnection?.schema && activeConnection.credentials && (
+        <OfflineSnapshotModal
+          schema={activeConnection.schema}
+          credentials={activeConnection.credentials}
+          defaultMaskSensitive={settings.enableDataMasking}
+          onCreate={handleSnapshotCreated}
+          onClose={() => setShowSnapshot(false)}
+        />
+      )}
+      {closeConfirm && (
+        <Dialog
+          isOpen={true}
+          type="danger"
+          title="Transação Aberta"
+          message={closeConfirm.message}
+          confirmLabel="Fechar e Descartar"
+          onConfirm={closeConfirm.onConfirm}
+          onClose={() => setCloseConfirm(null)}
+        />
+      )}
       {updateInfo && (
         <UpdateModal 
           updateInfo={updateInfo} 
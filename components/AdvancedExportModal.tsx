@@ -4,17 +4,21 @@ import { jsPDF } from 'jspdf';
 import 'jspdf-autotable';
 import html2canvas from 'html2canvas';
 import { toast } from 'react-hot-toast';
+import { ResultField } from '../types';
+import { buildFieldMap, getColumnKind, formatTypedValue, toSqlLiteral } from '../services/pgTypeService';
 
 interface AdvancedExportModalProps {
   data: any[];
   columns: string[];
   tableName: string | null;
+  fields?: ResultField[];
   onClose: () => void;
 }
 
 type ExportFormat = 'csv' | 'json' | 'sql' | 'markdown' | 'pdf';
 
-const AdvancedExportModal: React.FC<AdvancedExportModalProps> = ({ data, columns, tableName, onClose }) => {
+const AdvancedExportModal: React.FC<AdvancedExportModalProps> = ({ data, columns, tableName, fields, onClose }) => {
+  const fieldMap = useMemo(() => buildFieldMap(fields), [fields]);
   const [format, setFormat] = useState<ExportFormat>('csv');
   const [selectedColumns, setSelectedColumns] = useState<string[]>(columns);
   const [includeHeaders, setIncludeHeaders] = useState(true);
@@ -51,7 +55,7 @@ const AdvancedExportModal: React.FC<AdvancedExportModalProps> = ({ data, columns
             selectedColumns.map(col => {
               const val = row[col];
               if (val === null) return '';
-              const str = String(val).replace(/"/g, '""');
+              const str = formatTypedValue(val, getColumnKind(fieldMap[col])).replace(/"/g, '""');
               return `"${str}"`;
             }).join(delimiter)
           ).join('\n');
@@ -66,12 +70,7 @@ const AdvancedExportModal: React.FC<AdvancedExportModalProps> = ({ data, columns
           const table = tableName || 'exported_table';
           const sql = exportData.map(row => {
             const keys = selectedColumns.join(', ');
-            const values = selectedColumns.map(col => {
-              const val = row[col];
-              if (val === null) return 'NULL';
-              if (typeof val === 'string') return `'${val.replace(/'/g, "''")}'`;
-              return String(val);
-            }).join(', ');
+            const values = selectedColumns.map(col => toSqlLiteral(row[col], fieldMap[col])).join(', ');
             return `INSERT INTO ${table} (${keys}) VALUES (${values});`;
           }).join('\n');
           downloadFile(sql, `${fileName}.sql`, 'text/plain');
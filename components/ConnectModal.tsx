@@ -1,7 +1,7 @@
 
 import React, { useState } from 'react';
 import { Database, Server, ShieldCheck, Loader2, AlertTriangle, Info, FileCode, Bot, Wand2, HardDrive } from 'lucide-react';
-import { DatabaseSchema, SAMPLE_SCHEMA, DbCredentials } from '../types';
+import { DatabaseSchema, SAMPLE_SCHEMA, DbCredentials, DdlParseResult } from '../types';
 import { generateSchemaFromTopic, parseSchemaFromDDL } from '../services/geminiService';
 import { toast } from 'react-hot-toast';
 
@@ -29,6 +29,7 @@ const ConnectModal: React.FC<ConnectModalProps> = ({ onClose, onSchemaLoaded })
   
   // DDL / File State
   const [ddlText, setDdlText] = useState('');
+  const [ddlReport, setDdlReport] = useState<DdlParseResult | null>(null);
 
   const handleConnect = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -77,10 +78,20 @@ const ConnectModal: React.FC<ConnectModalProps> = ({ onClose, onSchemaLoaded })
     if (!ddlText.trim()) return;
     setLoading(true);
     try {
-      const schema = await parseSchemaFromDDL(ddlText);
-      if (dbName) schema.name = dbName;
-      onSchemaLoaded(schema);
-      toast.success("DDL importado com sucesso!");
+      // Com avisos, o primeiro clique só mostra o relatório; o segundo confirma a importação
+      const result = ddlReport || await parseSchemaFromDDL(ddlText, dbName || undefined);
+      if (result.schema.tables.length === 0) {
+        setDdlReport(result);
+        toast.error("Nenhuma tabela encontrada no DDL.");
+        return;
+      }
+      if (result.warnings.length > 0 && !ddlReport) {
+        setDdlReport(result);
+        toast(`${result.warnings.length} comando(s) não suportado(s) no DDL.`, { icon: '⚠️' });
+        return;
+      }
+      onSchemaLoaded(result.schema);
+      toast.success(`DDL importado: ${result.schema.tables.length} tabela(s).`);
       onClose();
     } catch (error) {
       toast.error("Falha ao processar DDL.");
@@ -151,12 +162,25 @@ const ConnectModal: React.FC<ConnectModalProps> = ({ onClose, onSchemaLoaded })
              <div className="space-y-4">
                 <div>
                    <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Nome</label>
-                   <input type="text" value={dbName} onChange={(e) => setDbName(e.target.value)} className="w-full px-3 py-2 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500" />
+                   <input type="text" value={dbName} onChange={(e) => { setDbName(e.target.value); setDdlReport(null); }} className="w-full px-3 py-2 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500" />
                 </div>
                 <div>
                   <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">SQL DDL</label>
-                  <textarea value={ddlText} onChange={(e) => setDdlText(e.target.value)} placeholder="CREATE TABLE..." className="w-full h-40 p-3 text-xs font-mono border border-slate-200 dark:border-slate-700 dark:bg-slate-900 rounded outline-none focus:ring-2 focus:ring-indigo-500" />
+                  <textarea value={ddlText} onChange={(e) => { setDdlText(e.target.value); setDdlReport(null); }} placeholder="CREATE TABLE... (aceita a saída de pg_dump --schema-only)" className="w-full h-40 p-3 text-xs font-mono border border-slate-200 dark:border-slate-700 dark:bg-slate-900 rounded outline-none focus:ring-2 focus:ring-indigo-500" />
                 </div>
+                {ddlReport && (
+                  <div className="p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg text-xs text-amber-800 dark:text-amber-200 space-y-2">
+                    <p className="font-bold flex items-center gap-1.5">
+                      <AlertTriangle className="w-3.5 h-3.5" />
+                      {ddlReport.schema.tables.length} tabela(s), {ddlReport.warnings.length} aviso(s), {ddlReport.ignoredStatements} comando(s) sem efeito ignorado(s)
+                    </p>
+                    <ul className="max-h-32 overflow-y-auto space-y-1 font-mono text-[10px]">
+                      {ddlReport.warnings.map((w, i) => (
+                        <li key={i}><span className="font-bold">L{w.line}</span> {w.message} <span className="opacity-60">{w.statement}</span></li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
              </div>
           )}
 
@@ -175,7 +199,7 @@ const ConnectModal: React.FC<ConnectModalProps> = ({ onClose, onSchemaLoaded })
                   disabled={loading}
                   className="flex-[2] py-2.5 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-lg transition-all flex items-center justify-center gap-2 text-sm"
                 >
-                   {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Confirmar'}
+                   {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : mode === 'ddl' && ddlReport && ddlReport.schema.tables.length > 0 ? 'Importar mesmo assim' : 'Confirmar'}
                 </button>
              )}
           </div>
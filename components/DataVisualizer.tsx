@@ -2,7 +2,8 @@
 import React, { useMemo, useState, useEffect } from 'react';
 import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, AreaChart, Area } from 'recharts';
 import { BarChart3, LineChart as LineChartIcon, AreaChart as AreaChartIcon, AlertCircle, Settings2, CheckSquare, Square, Loader2 } from 'lucide-react';
-import { ChartConfig } from '../types';
+import { ChartConfig, ResultField } from '../types';
+import { buildFieldMap, getColumnKind, toNumber } from '../services/pgTypeService';
 import { ChartSkeleton } from './common/Skeleton';
 
 interface DataVisualizerProps {
@@ -10,15 +11,30 @@ interface DataVisualizerProps {
   chartConfig: ChartConfig;
   onConfigChange: (cfg: ChartConfig) => void;
   onDrillDown?: (col: string, val: any) => void;
+  fields?: ResultField[];
 }
 
-const DataVisualizer: React.FC<DataVisualizerProps> = ({ data, chartConfig, onConfigChange, onDrillDown }) => {
+const DataVisualizer: React.FC<DataVisualizerProps> = ({ data, chartConfig, onConfigChange, onDrillDown, fields }) => {
   const [configOpen, setConfigOpen] = useState(false);
   const [isInitializing, setIsInitializing] = useState(true);
 
   // 1. Process Data (Ensure numbers are numbers) & Extract Keys
   const { processedData, allKeys, potentialNumberKeys } = useMemo(() => {
     if (!data || data.length === 0) return { processedData: [], allKeys: [], potentialNumberKeys: [] };
+
+    // Com metadados reais, só colunas numéricas do PostgreSQL viram séries (exceto chaves primárias)
+    if (fields && fields.length > 0) {
+       const fieldMap = buildFieldMap(fields);
+       const numericKeys = fields.filter(f => getColumnKind(f) === 'number').map(f => f.name);
+       const typedData = data.map(row => {
+          const newRow: any = { ...row };
+          numericKeys.forEach(key => { newRow[key] = toNumber(row[key]); });
+          return newRow;
+       });
+       const keys = fields.map(f => f.name);
+       const seriesKeys = numericKeys.filter(k => !fieldMap[k].isPrimaryKey);
+       return { processedData: typedData, allKeys: keys, potentialNumberKeys: seriesKeys.length > 0 ? seriesKeys : numericKeys };
+    }
     
     const cleanData = data.map(row => {
        const newRow: any = { ...row };
@@ -49,7 +65,7 @@ const DataVisualizer: React.FC<DataVisualizerProps> = ({ data, chartConfig, onCo
     }
 
     return { processedData: cleanData, allKeys: allUniqueKeys, potentialNumberKeys: numKeys };
-  }, [data]);
+  }, [data, fields]);
 
   // 2. Initialize Defaults (Heuristics)
   useEffect(() => {
@@ -64,7 +80,8 @@ const DataVisualizer: React.FC<DataVisualizerProps> = ({ data, chartConfig, onCo
     }
 
     const timer = setTimeout(() => {
-      const defaultX = allKeys.find(k => {
+      const temporalKey = fields?.find(f => ['date', 'timestamp'].includes(getColumnKind(f)))?.name;
+      const defaultX = temporalKey || allKeys.find(k => {
          const kLower = k.toLowerCase();
          return kLower.includes('name') || kLower.includes('date') || kLower.includes('time') || kLower.includes('country') || kLower.includes('category');
       }) || allKeys.find(k => {
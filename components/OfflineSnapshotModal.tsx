@@ -0,0 +1,162 @@
+import React, { useState, useMemo } from 'react';
+import { DatabaseSchema, DbCredentials, OfflineSnapshot, SnapshotOptions, SnapshotProgress, Table } from '../types';
+import { X, Camera, Loader2, Search, Shuffle, GitBranch, EyeOff, AlertTriangle } from 'lucide-react';
+import { collectSnapshotTables, takeOfflineSnapshot } from '../services/snapshotService';
+import { toast } from 'react-hot-toast';
+
+interface OfflineSnapshotModalProps {
+  schema: DatabaseSchema;
+  credentials: DbCredentials;
+  defaultMaskSensitive: boolean;
+  onCreate: (snapshot: OfflineSnapshot) => void;
+  onClose: () => void;
+}
+
+const tableIdOf = (table: Table) => `${table.schema || 'public'}.${table.name}`;
+
+const OfflineSnapshotModal: React.FC<OfflineSnapshotModalProps> = ({ schema, credentials, defaultMaskSensitive, onCreate, onClose }) => {
+  const [options, setOptions] = useState<SnapshotOptions>({
+    rowsPerTable: 100,
+    strategy: 'fk-closure',
+    tables: schema.tables.map(tableIdOf),
+    maskSensitive: defaultMaskSensitive
+  });
+  const [search, setSearch] = useState('');
+  const [progress, setProgress] = useState<SnapshotProgress | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const visibleTables = schema.tables.filter(t => tableIdOf(t).toLowerCase().includes(search.toLowerCase()));
+  const included = useMemo(() => collectSnapshotTables(schema, options), [schema, options.tables, options.strategy]);
+  const addedByClosure = included.length - options.tables.length;
+
+  const toggleTable = (id: string) => setOptions(prev => ({
+    ...prev,
+    tables: prev.tables.includes(id) ? prev.tables.filter(t => t !== id) : [...prev.tables, id]
+  }));
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    console.log(`[SNAPSHOT] Iniciando snapshot offline de ${credentials.database} (${options.strategy}, ${options.rowsPerTable} linhas/tabela).`);
+    try {
+      const snapshot = await takeOfflineSnapshot(credentials, schema, options, setProgress);
+      snapshot.warnings.forEach(w => console.warn(`[SNAPSHOT] ${w}`));
+      console.log(`[SNAPSHOT] Concluído: ${snapshot.rowCount} linhas em ${snapshot.schema.tables.length} tabelas.`);
+      if (snapshot.warnings.length > 0) toast(`Snapshot criado com ${snapshot.warnings.length} aviso(s); veja o console.`, { icon: '⚠️' });
+      else toast.success(`Snapshot offline criado: ${snapshot.rowCount} linhas.`);
+      onCreate(snapshot);
+      onClose();
+    } catch (e: any) {
+      console.error("[SNAPSHOT] Falha", e);
+      toast.error(`Falha no snapshot: ${e.message}`);
+    } finally {
+      setIsRunning(false);
+      setProgress(null);
+    }
+  };
+
+  const strategyCard = (value: SnapshotOptions['strategy'], title: string, description: string, icon: React.ReactNode) => (
+    <button
+      type="button"
+      onClick={() => setOptions({ ...options, strategy: value })}
+      className={`flex-1 p-4 rounded-xl border text-left transition-all ${options.strategy === value ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/20' : 'border-slate-200 dark:border-slate-700 hover:border-indigo-300'}`}
+    >
+      <div className="flex items-center gap-2 text-sm font-bold text-slate-800 dark:text-white">{icon} {title}</div>
+      <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{description}</p>
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[80] bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200" onClick={isRunning ? undefined : onClose}>
+      <div className="bg-white dark:bg-slate-900 w-full max-w-3xl max-h-[85vh] rounded-xl shadow-2xl border border-slate-200 dark:border-slate-700 flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100 dark:border-slate-800 bg-slate-50 dark:bg-slate-900/50">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-indigo-100 dark:bg-indigo-900/30 rounded-lg text-indigo-600 dark:text-indigo-400">
+              <Camera className="w-5 h-5" />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-slate-800 dark:text-white">Snapshot Offline</h3>
+              <p className="text-xs text-slate-500 dark:text-slate-400">Copia schema e uma amostra de {credentials.database} para uma conexão simulada.</p>
+            </div>
+          </div>
+          <button onClick={onClose} disabled={isRunning} className="p-2 hover:bg-slate-200 dark:hover:bg-slate-800 rounded-lg text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200 transition-colors disabled:opacity-40">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-6">
+          <div className="flex gap-3">
+            {strategyCard('fk-closure', 'Fechamento de FKs', 'Amostra e busca as linhas-pai referenciadas: joins funcionam offline.', <GitBranch className="w-4 h-4 text-indigo-500" />)}
+            {strategyCard('tablesample', 'TABLESAMPLE', 'Amostra aleatória independente por tabela; mais rápido, com FKs órfãs.', <Shuffle className="w-4 h-4 text-indigo-500" />)}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2">Linhas por Tabela</label>
+              <input
+                type="number"
+                min={1}
+                value={options.rowsPerTable}
+                onChange={e => setOptions({ ...options, rowsPerTable: parseInt(e.target.value) || 1 })}
+                className="w-full px-4 py-2.5 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl text-sm text-slate-800 dark:text-white focus:ring-2 focus:ring-indigo-500"
+              />
+            </div>
+            <label className="flex items-center justify-between p-3 mt-6 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl cursor-pointer">
+              <span className="flex items-center gap-2 text-sm font-bold text-slate-700 dark:text-slate-300"><EyeOff className="w-4 h-4 text-slate-400" /> Mascarar dados sensíveis</span>
+              <input type="checkbox" checked={options.maskSensitive} onChange={e => setOptions({ ...options, maskSensitive: e.target.checked })} className="w-4 h-4 accent-indigo-600" />
+            </label>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Tabelas ({options.tables.length}/{schema.tables.length})</label>
+              <div className="flex gap-3 text-xs font-bold">
+                <button type="button" onClick={() => setOptions({ ...options, tables: schema.tables.map(tableIdOf) })} className="text-indigo-600 dark:text-indigo-400 hover:underline">Todas</button>
+                <button type="button" onClick={() => setOptions({ ...options, tables: [] })} className="text-slate-500 hover:underline">Nenhuma</button>
+              </div>
+            </div>
+            <div className="relative mb-2">
+              <Search className="absolute left-3 top-2.5 w-4 h-4 text-slate-400" />
+              <input value={search} onChange={e => setSearch(e.target.value)} placeholder="Filtrar tabelas..." className="w-full pl-9 pr-3 py-2 text-sm bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-800 dark:text-white" />
+            </div>
+            <div className="max-h-56 overflow-y-auto custom-scrollbar border border-slate-100 dark:border-slate-800 rounded-lg divide-y divide-slate-100 dark:divide-slate-800">
+              {visibleTables.map(t => {
+                const id = tableIdOf(t);
+                const viaClosure = !options.tables.includes(id) && included.includes(id);
+                return (
+                  <label key={id} className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800/50">
+                    <input type="checkbox" checked={options.tables.includes(id)} onChange={() => toggleTable(id)} className="w-4 h-4 accent-indigo-600" />
+                    <span className="font-mono text-xs text-slate-700 dark:text-slate-300 truncate">{id}</span>
+                    {viaClosure && <span className="ml-auto text-[10px] font-bold text-indigo-500 uppercase shrink-0">via FK</span>}
+                  </label>
+                );
+              })}
+            </div>
+            {addedByClosure > 0 && (
+              <p className="text-xs text-slate-500 mt-2 flex items-center gap-1.5"><AlertTriangle className="w-3.5 h-3.5 text-amber-500" /> {addedByClosure} tabela(s) referenciada(s) entram junto pelo fechamento de FKs.</p>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-3 bg-slate-50 dark:bg-slate-900 border-t border-slate-100 dark:border-slate-800 text-xs text-slate-500 dark:text-slate-400 flex justify-between items-center gap-4">
+          <span className="truncate">
+            {progress
+              ? progress.phase === 'sample' ? `Amostrando ${progress.table} (${progress.done + 1}/${progress.total})...` : `Buscando linhas-pai em ${progress.table} (rodada ${progress.done})...`
+              : `${included.length} tabela(s) no snapshot`}
+          </span>
+          <div className="flex items-center gap-3 shrink-0">
+            <button onClick={onClose} disabled={isRunning} className="px-4 py-2 font-bold text-slate-500 hover:text-slate-800 dark:hover:text-slate-200 disabled:opacity-40">Cancelar</button>
+            <button onClick={handleRun} disabled={isRunning || included.length === 0} className="px-5 py-2 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-lg flex items-center gap-2 disabled:opacity-40">
+              {isRunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <Camera className="w-4 h-4" />} Criar Snapshot
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OfflineSnapshotModal;
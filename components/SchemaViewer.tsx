@@ -1,6 +1,6 @@
 
 import React, { useState, useMemo, useEffect, useCallback, memo, useDeferredValue, useRef } from 'react';
-import { DatabaseSchema, Table, Column } from '../types';
+import { DatabaseSchema, Table, Column, SchemaFocusRequest } from '../types';
 import { Database, Table as TableIcon, Key, Search, ChevronDown, ChevronRight, Link, ArrowUpRight, ArrowDownLeft, X, ArrowUpDown, ArrowUp, ArrowDown, Pencil, Check, Filter, PlusCircle, Target, CornerDownRight, Loader2, ArrowRight, Folder, FolderOpen, Play, Info, Star, Copy } from 'lucide-react';
 import { toast } from 'react-hot-toast';
 import { Skeleton } from './common/Skeleton';
@@ -14,6 +14,7 @@ interface SchemaViewerProps {
   selectedTableIds?: string[];
   onToggleTable?: (tableId: string) => void;
   onPreviewTable?: (tableName: string) => void;
+  focusRequest?: SchemaFocusRequest | null;
 }
 
 type SortField = 'name' | 'type' | 'key';
@@ -121,6 +122,7 @@ const SchemaColumnItem = memo(({
     if (col.isPrimaryKey || col.isForeignKey) {
        lines.push(`Index: idx_${tableName}_${col.name}`);
     }
+    if (col.description) lines.push(`Comentário: ${col.description}`);
     return lines.join('\n');
   };
   
@@ -440,7 +442,7 @@ const SchemaTableItem = memo(({
 
 const SchemaViewer: React.FC<SchemaViewerProps> = ({ 
   schema, onRegenerateClick, loading = false, onDescriptionChange,
-  selectionMode = false, selectedTableIds = [], onToggleTable, onPreviewTable
+  selectionMode = false, selectedTableIds = [], onToggleTable, onPreviewTable, focusRequest
 }) => {
   const [inputValue, setInputValue] = useState('');
   const [debouncedTerm, setDebouncedTerm] = useState('');
@@ -500,6 +502,29 @@ const SchemaViewer: React.FC<SchemaViewerProps> = ({
   const [hoveredColumnRef, setHoveredColumnRef] = useState<string | null>(null);
   const [selectedColumnKey, setSelectedColumnKey] = useState<string | null>(null);
 
+  const [focusBanner, setFocusBanner] = useState<{ tableId: string; columns: string[]; label?: string } | null>(null);
+
+  // Foco vindo de fora (ex: constraint citada num erro do editor): filtra, expande e fixa o destaque
+  useEffect(() => {
+    if (!focusRequest) return;
+    const table = (schema.tables || []).find(t => t && getTableId(t) === focusRequest.tableId);
+    if (!table) {
+      toast.error(`Tabela ${focusRequest.tableId} não está no schema carregado.`);
+      return;
+    }
+    const tableId = getTableId(table);
+    const columns = (focusRequest.columns || []).filter(c => (table.columns || []).some(col => col?.name === c));
+    setInputValue(table.name);
+    setExpandedTables(prev => new Set(prev).add(tableId));
+    if (columns.length > 0) {
+      const colKey = `${tableId}.${columns[0]}`;
+      setSelectedColumnKey(colKey);
+      setHoveredColumnKey(colKey);
+      setHoveredColumnRef(table.columns.find(c => c?.name === columns[0])?.references || null);
+    }
+    setFocusBanner({ tableId, columns, label: focusRequest.label });
+  }, [focusRequest?.requestId]);
+
   const deferredHoveredTableId = useDeferredValue(hoveredTableId);
   const deferredHoveredColumnRef = useDeferredValue(hoveredColumnRef);
   const deferredHoveredColumnKey = useDeferredValue(hoveredColumnKey);
@@ -848,6 +873,15 @@ const SchemaViewer: React.FC<SchemaViewerProps> = ({
              </select>
            </div>
         </div>
+        {focusBanner && (
+           <div className="flex items-start gap-2 px-2 py-1.5 rounded bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-200 dark:border-indigo-800 text-[10px] text-indigo-700 dark:text-indigo-300">
+              <Target className="w-3 h-3 mt-0.5 shrink-0" />
+              <span className="flex-1 min-w-0 break-words">
+                 {focusBanner.label && <strong className="font-mono">{focusBanner.label}</strong>}{focusBanner.label && ' · '}{focusBanner.tableId}{focusBanner.columns.length > 0 && ` (${focusBanner.columns.join(', ')})`}
+              </span>
+              <button onClick={(e) => { e.stopPropagation(); setFocusBanner(null); setInputValue(''); }} className="text-indigo-400 hover:text-indigo-600"><X className="w-3 h-3" /></button>
+           </div>
+        )}
         <div className="flex justify-between items-center px-1">
            <span className="text-[10px] text-slate-400 font-medium">{filteredTables.length} tabelas {filteredTables.length > totalVisibleCount && `(Exibindo ${totalVisibleCount})`}</span>
            <div className="flex gap-2">
@@ -8,6 +8,7 @@ import {
   Bug, Loader2, Database, User, Server, Hash, Shield, Terminal, ZapOff, ActivitySquare,
   LayoutGrid, Monitor, Moon, Sun, ChevronRight, Gauge, GitCompare, GitBranch, FlaskConical, Tag, Info, Github, GitCommit, Radio, Binary,
   UserCheck,
+  AlignLeft,
   Cpu,
   Lock,
   ShieldAlert,
@@ -16,10 +17,13 @@ import {
   UploadCloud,
   FileDown,
   History,
-  EyeOff
+  EyeOff,
+  Layers,
+  Network
 } from 'lucide-react';
-import { AppSettings, DatabaseSchema, DbCredentials } from '../types';
-import { runFullHealthCheck, HealthStatus, runRandomizedStressTest, StressTestLog } from '../services/healthService';
+import { AppSettings, DatabaseSchema, DbCredentials, BackendSession, BackendPoolInfo, SqlFormatStyle, SshTunnelStatus } from '../types';
+import { listBackendSessions, closeBackendSession } from '../services/dbService';
+import { runFullHealthCheck, HealthStatus, runRandomizedStressTest, runOfflineDifferentialTest, StressTestLog } from '../services/healthService';
 import { SimulationData } from '../services/simulationService';
 import { toast } from 'react-hot-toast';
 
@@ -70,14 +74,47 @@ export default function SettingsModal({
   const logContainerRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const [backendSessions, setBackendSessions] = useState<BackendSession[]>([]);
+  const [backendPools, setBackendPools] = useState<BackendPoolInfo[]>([]);
+  const [backendTunnels, setBackendTunnels] = useState<SshTunnelStatus[]>([]);
+  const [isLoadingSessions, setIsLoadingSessions] = useState(false);
+
   const isConnected = !!schema;
 
+  const loadBackendSessions = async () => {
+    setIsLoadingSessions(true);
+    try {
+      const data = await listBackendSessions();
+      setBackendSessions(data.sessions);
+      setBackendPools(data.pools);
+      setBackendTunnels(data.tunnels || []);
+    } catch (e: any) {
+      console.warn("[SETTINGS] Backend indisponível para listar sessões:", e.message);
+      setBackendSessions([]);
+      setBackendPools([]);
+      setBackendTunnels([]);
+    } finally {
+      setIsLoadingSessions(false);
+    }
+  };
+
+  const handleCloseBackendSession = async (sessionId: string) => {
+    try {
+      await closeBackendSession(sessionId);
+      toast.success("Sessão encerrada.");
+      loadBackendSessions();
+    } catch (e: any) {
+      toast.error(`Falha ao encerrar sessão: ${e.message}`);
+    }
+  };
+
   useEffect(() => {
     if (activeTab === 'diagnostics') {
       console.log("[SETTINGS] Aba diagnóstico ativa. Verificando versões...");
       if ((window as any).electron) {
         (window as any).electron.send('refresh-remote-versions');
       }
+      loadBackendSessions();
     }
   }, [activeTab]);
 
@@ -123,6 +160,23 @@ export default function SettingsModal({
     }
   };
 
+  const handleRunDifferentialTest = async () => {
+    setIsStressing(true);
+    setStressLogs([]);
+    console.log("[SETTINGS] Comparando motor offline com o SQL gerado...");
+    try {
+      const passed = await runOfflineDifferentialTest(schema || null, simulationData, (newLog) => {
+        setStressLogs(prev => [...prev, newLog]);
+      });
+      if (passed) toast.success("Motor offline e SQL gerado concordam em todos os casos.");
+      else toast.error("Divergências encontradas entre o motor offline e o SQL gerado.");
+    } catch (e) {
+      console.error("[SETTINGS] Falha no teste diferencial", e);
+    } finally {
+      setIsStressing(false);
+    }
+  };
+
   const handleExportWorkspace = () => {
     console.log("[WORKSPACE] Iniciando exportação completa de dados...");
     const workspaceData: Record<string, string> = {};
@@ -344,7 +398,52 @@ export default function SettingsModal({
                             </div>
                             <Toggle checked={formData.advancedMode} onChange={val => setFormData({...formData, advancedMode: val})} colorClass="peer-checked:bg-orange-500" />
                          </div>
+
+                         <div className="p-4 bg-white dark:bg-slate-800 border border-slate-100 dark:border-slate-800 rounded-2xl flex items-center justify-between hover:shadow-sm transition-all group">
+                            <div className="flex items-center gap-4">
+                               <div className="p-2.5 bg-teal-50 dark:bg-teal-950/30 text-teal-600 dark:text-teal-400 rounded-xl group-hover:scale-110 transition-transform">
+                                  <ShieldCheck className="w-5 h-5" />
+                               </div>
+                               <div>
+                                  <span className="text-sm font-black text-slate-700 dark:text-slate-200 block leading-tight">Validação do SQL no Editor</span>
+                                  <p className="text-xs text-slate-500">Confere sintaxe, tabelas e colunas contra o schema carregado, sem IA e sem ir ao banco.</p>
+                               </div>
+                            </div>
+                            <Toggle checked={formData.enableSqlValidation} onChange={val => setFormData({...formData, enableSqlValidation: val})} colorClass="peer-checked:bg-teal-500" />
+                         </div>
+                      </div>
+                   </section>
+
+                   <section>
+                      <h4 className="text-xs font-black text-slate-400 uppercase tracking-widest mb-4 flex items-center gap-2">
+                         <AlignLeft className="w-4 h-4" /> Formatação SQL
+                      </h4>
+                      <div className="grid grid-cols-2 gap-3">
+                         <div>
+                            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1 block">Palavras-chave</label>
+                            <select value={formData.sqlFormat.keywordCase} onChange={e => setFormData({...formData, sqlFormat: {...formData.sqlFormat, keywordCase: e.target.value as SqlFormatStyle['keywordCase']}})} className="w-full p-3 bg-white dark:bg-slate-800 border border-slate-100 dark:border-slate-800 rounded-2xl text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500">
+                               <option value="upper">MAIÚSCULAS</option>
+                               <option value="lower">minúsculas</option>
+                               <option value="preserve">Manter como escrito</option>
+                            </select>
+                         </div>
+                         <div>
+                            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1 block">Vírgulas</label>
+                            <select value={formData.sqlFormat.commaStyle} onChange={e => setFormData({...formData, sqlFormat: {...formData.sqlFormat, commaStyle: e.target.value as SqlFormatStyle['commaStyle']}})} className="w-full p-3 bg-white dark:bg-slate-800 border border-slate-100 dark:border-slate-800 rounded-2xl text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500">
+                               <option value="trailing">No fim da linha (a,)</option>
+                               <option value="leading">No início da linha (, a)</option>
+                            </select>
+                         </div>
+                         <div>
+                            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1 block">Indentação (espaços)</label>
+                            <input type="number" min={1} max={8} value={formData.sqlFormat.indentSize} onChange={e => setFormData({...formData, sqlFormat: {...formData.sqlFormat, indentSize: Math.min(8, Math.max(1, parseInt(e.target.value) || 2))}})} className="w-full p-3 bg-white dark:bg-slate-800 border border-slate-100 dark:border-slate-800 rounded-2xl text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500" />
+                         </div>
+                         <div>
+                            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1 block">Largura da linha</label>
+                            <input type="number" min={40} value={formData.sqlFormat.lineWidth} onChange={e => setFormData({...formData, sqlFormat: {...formData.sqlFormat, lineWidth: parseInt(e.target.value) || 80}})} className="w-full p-3 bg-white dark:bg-slate-800 border border-slate-100 dark:border-slate-800 rounded-2xl text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500" />
+                         </div>
                       </div>
+                      <p className="text-[10px] text-slate-400 mt-2">Usada pelo botão Format e por Shift+Alt+F no editor SQL.</p>
                    </section>
 
                    <section>
@@ -411,17 +510,7 @@ export default function SettingsModal({
                    </div>
                    <div className={`space-y-6 transition-all duration-500 ${!formData.enableAiGeneration ? 'opacity-30 grayscale pointer-events-none' : ''}`}>
                       <div className="grid grid-cols-2 gap-4">
-                        <div className="p-5 bg-white dark:bg-slate-800 border border-slate-100 dark:border-slate-800 rounded-2xl flex flex-col gap-4">
-                           <div className="flex items-center justify-between">
-                              <ShieldCheck className="w-6 h-6 text-emerald-500" />
-                              <Toggle checked={formData.enableAiValidation} onChange={val => setFormData({...formData, enableAiValidation: val})} colorClass="peer-checked:bg-emerald-500" />
-                           </div>
-                           <div>
-                              <span className="text-sm font-black text-slate-700 dark:text-slate-100 block">Validação em Tempo Real</span>
-                              <p className="text-[11px] text-slate-500 mt-1">Verifica a sintaxe do SQL gerado automaticamente.</p>
-                           </div>
-                        </div>
-                        <div className="p-5 bg-white dark:bg-slate-800 border border-slate-100 dark:border-slate-800 rounded-2xl flex flex-col gap-4">
+                        <div className="col-span-2 p-5 bg-white dark:bg-slate-800 border border-slate-100 dark:border-slate-800 rounded-2xl flex flex-col gap-4">
                            <div className="flex items-center justify-between">
                               <Lightbulb className="w-6 h-6 text-amber-500" />
                               <Toggle checked={formData.enableAiTips} onChange={val => setFormData({...formData, enableAiTips: val})} colorClass="peer-checked:bg-amber-500" />
@@ -476,6 +565,20 @@ export default function SettingsModal({
                          <div className="flex items-center gap-6"><input type="number" value={formData.defaultDiffLimit} onChange={e => setFormData({...formData, defaultDiffLimit: parseInt(e.target.value) || 500})} className="w-full p-4 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-2xl text-lg font-black text-center text-indigo-600 dark:text-indigo-400 shadow-sm" /></div>
                          <p className="text-[10px] text-indigo-700/60 dark:text-indigo-300/60 mt-3 font-medium">Amostra de registros a carregar para auditoria.</p>
                       </div>
+                      <div className="p-6 bg-indigo-50/50 dark:bg-indigo-950/20 border border-indigo-100/50 dark:border-indigo-900/30 rounded-[2rem]">
+                         <div className="flex items-center justify-between mb-4">
+                            <div className="flex items-center gap-2"><Layers className="w-4 h-4 text-indigo-500" /><span className="text-xs font-black uppercase tracking-widest text-indigo-900 dark:text-indigo-200">Página de Resultados</span></div>
+                         </div>
+                         <div className="flex items-center gap-6"><input type="number" min={1} value={formData.resultPageSize} onChange={e => setFormData({...formData, resultPageSize: parseInt(e.target.value) || 1000})} className="w-full p-4 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-2xl text-lg font-black text-center text-indigo-600 dark:text-indigo-400 shadow-sm" /></div>
+                         <p className="text-[10px] text-indigo-700/60 dark:text-indigo-300/60 mt-3 font-medium">Linhas lidas do cursor a cada "Próxima página".</p>
+                      </div>
+                      <div className="p-6 bg-indigo-50/50 dark:bg-indigo-950/20 border border-indigo-100/50 dark:border-indigo-900/30 rounded-[2rem]">
+                         <div className="flex items-center justify-between mb-4">
+                            <div className="flex items-center gap-2"><ShieldAlert className="w-4 h-4 text-indigo-500" /><span className="text-xs font-black uppercase tracking-widest text-indigo-900 dark:text-indigo-200">Teto de Linhas</span></div>
+                         </div>
+                         <div className="flex items-center gap-6"><input type="number" min={1} value={formData.maxResultRows} onChange={e => setFormData({...formData, maxResultRows: parseInt(e.target.value) || 50000})} className="w-full p-4 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-2xl text-lg font-black text-center text-indigo-600 dark:text-indigo-400 shadow-sm" /></div>
+                         <p className="text-[10px] text-indigo-700/60 dark:text-indigo-300/60 mt-3 font-medium">Máximo de linhas mantidas em memória por resultado.</p>
+                      </div>
                    </div>
                 </div>
              )}
@@ -534,6 +637,66 @@ export default function SettingsModal({
                          </div>
                       </div>
                    </section>
+
+                   <section className="bg-white dark:bg-slate-800 p-8 border border-slate-100 dark:border-slate-800 rounded-[2.5rem] shadow-sm">
+                      <div className="flex items-center justify-between mb-6">
+                         <div className="flex items-center gap-4">
+                            <div className="p-3 bg-emerald-100 dark:bg-emerald-900/30 text-emerald-600 dark:text-emerald-400 rounded-2xl"><Radio className="w-6 h-6" /></div>
+                            <div><h4 className="text-lg font-black text-slate-800 dark:text-white uppercase tracking-tight leading-none">Sessões do Backend</h4><p className="text-xs text-slate-500 mt-1">Pools por perfil, túneis SSH e sessões dedicadas de cada aba de query.</p></div>
+                         </div>
+                         <button type="button" onClick={loadBackendSessions} disabled={isLoadingSessions} className="p-2 text-slate-400 hover:text-indigo-500 transition-colors">{isLoadingSessions ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}</button>
+                      </div>
+                      <div className="space-y-2">
+                         {backendPools.map(pool => (
+                            <div key={pool.profile} className="flex items-center justify-between p-3 bg-slate-50 dark:bg-slate-900 rounded-xl border border-slate-100 dark:border-slate-800">
+                               <div className="flex items-center gap-2 min-w-0"><Server className="w-3.5 h-3.5 text-slate-400 shrink-0" /><span className="text-xs font-mono font-bold text-slate-600 dark:text-slate-300 truncate">{pool.profile}</span></div>
+                               <span className="text-[10px] font-black text-slate-400 uppercase shrink-0">Pool: {pool.totalCount - pool.idleCount} ativas / {pool.idleCount} ociosas</span>
+                            </div>
+                         ))}
+                         {backendTunnels.map(tunnel => (
+                            <div key={tunnel.label} className="flex items-center justify-between p-3 bg-slate-50 dark:bg-slate-900 rounded-xl border border-slate-100 dark:border-slate-800" title={tunnel.lastError || undefined}>
+                               <div className="flex items-center gap-2 min-w-0"><Network className="w-3.5 h-3.5 text-slate-400 shrink-0" /><span className="text-xs font-mono font-bold text-slate-600 dark:text-slate-300 truncate">{tunnel.label}</span></div>
+                               <span className={`text-[10px] font-black uppercase shrink-0 ${tunnel.status === 'open' ? 'text-emerald-500' : tunnel.status === 'failed' ? 'text-rose-500' : 'text-amber-500'}`}>Túnel: {tunnel.status}{tunnel.localPort ? ` · :${tunnel.localPort}` : ''}{tunnel.reconnects > 0 ? ` · ${tunnel.reconnects} reconexões` : ''}</span>
+                            </div>
+                         ))}
+                         {backendSessions.map(session => (
+                            <div key={session.id} className="flex items-center justify-between p-3 bg-slate-50 dark:bg-slate-900 rounded-xl border border-slate-100 dark:border-slate-800">
+                               <div className="flex items-center gap-2 min-w-0">
+                                  <span className={`w-2 h-2 rounded-full shrink-0 ${session.busy ? 'bg-amber-500 animate-pulse' : 'bg-emerald-500'}`} />
+                                  <span className="text-xs font-mono font-bold text-slate-600 dark:text-slate-300 truncate">{session.profile}</span>
+                                  <span className="text-[10px] font-black text-slate-400 uppercase shrink-0">PID {session.pid ?? '?'} · usada às {new Date(session.lastUsed).toLocaleTimeString()}</span>
+                               </div>
+                               <button type="button" onClick={() => handleCloseBackendSession(session.id)} className="p-1.5 text-slate-400 hover:text-rose-500 transition-colors" title="Encerrar sessão"><XCircle className="w-4 h-4" /></button>
+                            </div>
+                         ))}
+                         {backendPools.length === 0 && backendTunnels.length === 0 && backendSessions.length === 0 && !isLoadingSessions && (
+                            <p className="text-xs text-slate-400 font-medium text-center py-4">Nenhuma sessão aberta no backend.</p>
+                         )}
+                      </div>
+                   </section>
+
+                   <section className="bg-white dark:bg-slate-800 p-8 border border-slate-100 dark:border-slate-800 rounded-[2.5rem] shadow-sm">
+                      <div className="flex items-center justify-between mb-6">
+                         <div className="flex items-center gap-4">
+                            <div className="p-3 bg-amber-100 dark:bg-amber-900/30 text-amber-600 dark:text-amber-400 rounded-2xl"><Bug className="w-6 h-6" /></div>
+                            <div><h4 className="text-lg font-black text-slate-800 dark:text-white uppercase tracking-tight leading-none">Motor Offline</h4><p className="text-xs text-slate-500 mt-1">Consultas aleatórias do builder comparadas com o SQL gerado no modo simulado.</p></div>
+                         </div>
+                         <div className="flex items-center gap-2">
+                            <button type="button" onClick={handleRunStressTest} disabled={isStressing} className="px-4 py-2 bg-slate-100 dark:bg-slate-900 text-slate-600 dark:text-slate-300 text-[10px] font-black uppercase rounded-xl flex items-center gap-2 disabled:opacity-50"><Activity className="w-3.5 h-3.5" /> Estresse</button>
+                            <button type="button" onClick={handleRunDifferentialTest} disabled={isStressing} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-[10px] font-black uppercase rounded-xl flex items-center gap-2 disabled:opacity-50">{isStressing ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <GitCompare className="w-3.5 h-3.5" />} Diferencial</button>
+                         </div>
+                      </div>
+                      <div ref={logContainerRef} className="max-h-64 overflow-y-auto custom-scrollbar space-y-1 p-3 bg-slate-950 rounded-2xl font-mono text-[11px]">
+                         {stressLogs.map((log, idx) => (
+                            <div key={idx} className={`flex gap-2 ${log.status === 'ok' ? 'text-emerald-400' : 'text-rose-400'}`}>
+                               <span className="text-slate-500 shrink-0">#{log.iteration}</span>
+                               <span className="font-bold shrink-0">[{log.type}]</span>
+                               <span className="whitespace-pre-wrap break-all">{log.detail}</span>
+                            </div>
+                         ))}
+                         {stressLogs.length === 0 && <p className="text-slate-500 text-center py-4">Nenhum teste executado.</p>}
+                      </div>
+                   </section>
                 </div>
              )}
           </div>
@@ -6,7 +6,7 @@ import {
   ChevronLeft, ChevronRight, Map, History, GitCompare, Link, 
   FileSearch, FileText, Scissors, BookOpen, Rocket, Tag, 
   CloudDownload, Keyboard, Zap, LayoutGrid, Github, HeartPulse, Route,
-  Boxes
+  Boxes, DatabaseZap, Camera
 } from 'lucide-react';
 
 interface SidebarProps {
@@ -24,6 +24,8 @@ interface SidebarProps {
   onOpenTemplates: () => void;
   onOpenSqlExtractor: () => void;
   onOpenWiki: () => void;
+  onOpenSimulationData?: () => void; // Só em conexões simuladas
+  onOpenSnapshot?: () => void; // Só em conexões reais
   onCheckUpdate: () => void;
 }
 
@@ -40,7 +42,7 @@ const Sidebar: React.FC<SidebarProps> = ({
   currentStep, onNavigate, schema, hasResults = false, onOpenSettings, 
   onOpenDiagram, onOpenHistory, onOpenShortcuts, onOpenCheatSheet, 
   onOpenVirtualRelations, onOpenLogAnalyzer, onOpenTemplates, 
-  onOpenSqlExtractor, onOpenWiki, onCheckUpdate
+  onOpenSqlExtractor, onOpenWiki, onOpenSimulationData, onOpenSnapshot, onCheckUpdate
 }) => {
   const [isCollapsed, setIsCollapsed] = useState(false);
 
@@ -142,6 +144,8 @@ const Sidebar: React.FC<SidebarProps> = ({
               {toolItem('Vínculos Manuais', <Link className="w-4.5 h-4.5" />, onOpenVirtualRelations)}
               {toolItem('Mapa do Schema', <Map className="w-4.5 h-4.5" />, onOpenDiagram)}
               {toolItem('Histórico', <History className="w-4.5 h-4.5" />, onOpenHistory)}
+              {onOpenSimulationData && toolItem('Dados Simulados', <DatabaseZap className="w-4.5 h-4.5" />, onOpenSimulationData)}
+              {onOpenSnapshot && toolItem('Snapshot Offline', <Camera className="w-4.5 h-4.5" />, onOpenSnapshot)}
             </div>
           )}
         </div>
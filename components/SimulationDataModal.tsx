@@ -0,0 +1,295 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { DatabaseSchema, SimulationConfig, Table } from '../types';
+import { X, Database, Upload, Plus, Trash2, Dices, FileJson, FileCode, ChevronLeft, ChevronRight, Save, AlertTriangle } from 'lucide-react';
+import { SimulationData } from '../services/simulationService';
+import { createSimulationConfig, generateSimulationData, parseSimulationSeed } from '../services/dataGeneratorService';
+import { createFixture, formatFixtureCell, parseFixture, parseFixtureCell, serializeFixtureJson, serializeFixtureSql } from '../services/fixtureService';
+import { toast } from 'react-hot-toast';
+
+interface SimulationDataModalProps {
+  name: string;
+  schema: DatabaseSchema;
+  data: SimulationData;
+  config?: SimulationConfig;
+  onApply: (data: SimulationData, schema: DatabaseSchema, config?: SimulationConfig) => void;
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 50;
+
+const tableIdOf = (table: Table) => `${table.schema || 'public'}.${table.name}`;
+
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const SimulationDataModal: React.FC<SimulationDataModalProps> = ({ name, schema, data, config, onApply, onClose }) => {
+  // Rascunho: nada chega à conexão até "Aplicar"
+  const [draftSchema, setDraftSchema] = useState<DatabaseSchema>(schema);
+  const [draftData, setDraftData] = useState<SimulationData>(data);
+  const [draftConfig, setDraftConfig] = useState<SimulationConfig | undefined>(config);
+  const [isDirty, setIsDirty] = useState(false);
+  const [selectedTableId, setSelectedTableId] = useState<string>(schema.tables[0] ? tableIdOf(schema.tables[0]) : '');
+  const [page, setPage] = useState(0);
+  const [seedInput, setSeedInput] = useState(config ? String(config.seed) : '');
+  const [editing, setEditing] = useState<{ row: number, column: string, text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const table = useMemo(() => draftSchema.tables.find(t => tableIdOf(t) === selectedTableId) || null, [draftSchema, selectedTableId]);
+  const rows = (table && draftData[selectedTableId]) || [];
+  const pageCount = Math.max(1, Math.ceil(rows.length / PAGE_SIZE));
+  const pageRows = rows.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+  const updateRows = (tableId: string, updater: (rows: any[]) => any[]) => {
+    setDraftData(prev => ({ ...prev, [tableId]: updater(prev[tableId] || []) }));
+    setIsDirty(true);
+  };
+
+  const selectTable = (tableId: string) => {
+    setSelectedTableId(tableId);
+    setPage(0);
+    setEditing(null);
+  };
+
+  const commitEdit = () => {
+    if (!editing || !table) return;
+    const column = table.columns.find(c => c.name === editing.column)!;
+    try {
+      const value = parseFixtureCell(editing.text, column);
+      if (value !== rows[editing.row][editing.column]) {
+        updateRows(selectedTableId, prev => prev.map((r, i) => i === editing.row ? { ...r, [editing.column]: value } : r));
+      }
+      setEditing(null);
+    } catch (e: any) {
+      toast.error(e.message);
+    }
+  };
+
+  const handleAddRow = () => {
+    if (!table) return;
+    const row: Record<string, any> = {};
+    table.columns.forEach(c => {
+      // PK numérica recebe o próximo valor; o resto começa como NULL
+      row[c.name] = c.isPrimaryKey && /int|serial/i.test(c.type) ? Math.max(0, ...rows.map(r => Number(r[c.name]) || 0)) + 1 : null;
+    });
+    updateRows(selectedTableId, prev => [...prev, row]);
+    setPage(Math.floor(rows.length / PAGE_SIZE));
+  };
+
+  const handleDeleteRow = (index: number) => {
+    updateRows(selectedTableId, prev => prev.filter((_, i) => i !== index));
+    setEditing(null);
+    if (page > 0 && page * PAGE_SIZE >= rows.length - 1) setPage(page - 1);
+  };
+
+  const handleRegenerate = () => {
+    // Mantém contagens e geradores por coluna da configuração atual; seed em branco sorteia outro
+    const seed = parseSimulationSeed(seedInput) ?? createSimulationConfig().seed;
+    const nextConfig = draftConfig ? { ...draftConfig, seed } : createSimulationConfig({ seed });
+    try {
+      setDraftData(generateSimulationData(draftSchema, nextConfig));
+      setDraftConfig(nextConfig);
+      setSeedInput(String(nextConfig.seed));
+      setIsDirty(true);
+      setEditing(null);
+      toast.success(`Dados regenerados com seed ${nextConfig.seed}.`);
+    } catch (e: any) {
+      toast.error(e.message);
+    }
+  };
+
+  const handleExport = (format: 'json' | 'sql') => {
+    const fixture = createFixture(name, draftSchema, draftData, draftConfig);
+    const baseName = `PSQLBuddy_Fixture_${name.replace(/[^\w-]+/g, '_')}`;
+    if (format === 'json') downloadFile(serializeFixtureJson(fixture), `${baseName}.json`, 'application/json');
+    else downloadFile(serializeFixtureSql(fixture), `${baseName}.sql`, 'application/sql');
+    console.log(`[FIXTURE] Exportada como ${format.toUpperCase()}: ${Object.values(draftData).reduce((n, r) => n + r.length, 0)} linhas.`);
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    console.log(`[FIXTURE] Lendo arquivo: ${file.name}`);
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const result = parseFixture(event.target?.result as string, draftSchema);
+        setDraftSchema(result.schema);
+        setDraftData(result.data);
+        setDraftConfig(result.config);
+        setSeedInput(result.config ? String(result.config.seed) : '');
+        setSelectedTableId(result.schema.tables[0] ? tableIdOf(result.schema.tables[0]) : '');
+        setPage(0);
+        setEditing(null);
+        setIsDirty(true);
+        result.warnings.forEach(w => console.warn(`[FIXTURE] ${w}`));
+        if (result.warnings.length > 0) toast(`Fixture importada com ${result.warnings.length} aviso(s); veja o console.`, { icon: '⚠️' });
+        else toast.success("Fixture importada. Aplique para usar na conexão.");
+      } catch (err: any) {
+        console.error("[FIXTURE] Falha na importação:", err);
+        toast.error(`Erro ao importar fixture: ${err.message}`);
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleApply = () => {
+    onApply(draftData, draftSchema, draftConfig);
+    toast.success("Dados simulados atualizados.");
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[80] bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200" onClick={onClose}>
+      <div className="bg-white dark:bg-slate-900 w-full max-w-6xl h-[85vh] rounded-xl shadow-2xl border border-slate-200 dark:border-slate-700 flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100 dark:border-slate-800 bg-slate-50 dark:bg-slate-900/50 gap-4">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="p-2 bg-indigo-100 dark:bg-indigo-900/30 rounded-lg text-indigo-600 dark:text-indigo-400">
+              <Database className="w-5 h-5" />
+            </div>
+            <div className="min-w-0">
+              <h3 className="text-lg font-bold text-slate-800 dark:text-white truncate">Dados Simulados</h3>
+              <p className="text-xs text-slate-500 dark:text-slate-400">Edite, regenere ou troque por uma fixture (JSON ou dump SQL).</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <div className="flex items-center bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg overflow-hidden">
+              <input
+                type="text"
+                value={seedInput}
+                onChange={e => setSeedInput(e.target.value)}
+                placeholder="Seed aleatório"
+                className="w-32 px-3 py-1.5 text-xs bg-transparent text-slate-700 dark:text-slate-200 outline-none"
+              />
+              <button onClick={handleRegenerate} className="px-3 py-1.5 text-xs font-bold text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 border-l border-slate-200 dark:border-slate-700 flex items-center gap-1.5" title="Gerar novamente todas as tabelas">
+                <Dices className="w-3.5 h-3.5" /> Regenerar
+              </button>
+            </div>
+            <button onClick={() => fileInputRef.current?.click()} className="px-3 py-1.5 text-xs font-bold text-slate-600 dark:text-slate-300 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg hover:border-indigo-400 flex items-center gap-1.5">
+              <Upload className="w-3.5 h-3.5" /> Importar
+            </button>
+            <input ref={fileInputRef} type="file" accept=".json,.sql" onChange={handleImport} className="hidden" />
+            <button onClick={() => handleExport('json')} className="px-3 py-1.5 text-xs font-bold text-slate-600 dark:text-slate-300 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg hover:border-indigo-400 flex items-center gap-1.5">
+              <FileJson className="w-3.5 h-3.5" /> JSON
+            </button>
+            <button onClick={() => handleExport('sql')} className="px-3 py-1.5 text-xs font-bold text-slate-600 dark:text-slate-300 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg hover:border-indigo-400 flex items-center gap-1.5">
+              <FileCode className="w-3.5 h-3.5" /> SQL
+            </button>
+            <button onClick={onClose} className="p-2 hover:bg-slate-200 dark:hover:bg-slate-800 rounded-lg text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200 transition-colors">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 flex overflow-hidden">
+          {/* Tabelas */}
+          <div className="w-64 shrink-0 border-r border-slate-100 dark:border-slate-800 overflow-y-auto custom-scrollbar p-3 space-y-1 bg-slate-50/50 dark:bg-slate-950/20">
+            {draftSchema.tables.map(t => {
+              const id = tableIdOf(t);
+              return (
+                <button
+                  key={id}
+                  onClick={() => selectTable(id)}
+                  className={`w-full flex items-center justify-between px-3 py-2 rounded-lg text-xs font-bold transition-all ${id === selectedTableId ? 'bg-indigo-600 text-white' : 'text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800'}`}
+                >
+                  <span className="truncate">{id}</span>
+                  <span className={`text-[10px] font-mono shrink-0 ml-2 ${id === selectedTableId ? 'text-indigo-200' : 'text-slate-400'}`}>{(draftData[id] || []).length}</span>
+                </button>
+              );
+            })}
+          </div>
+
+          {/* Linhas */}
+          <div className="flex-1 overflow-auto bg-white dark:bg-slate-900">
+            {!table ? (
+              <div className="h-full flex items-center justify-center text-slate-400 text-sm">Nenhuma tabela no schema.</div>
+            ) : (
+              <table className="w-full text-left text-sm border-collapse">
+                <thead className="bg-slate-50 dark:bg-slate-800 sticky top-0 shadow-sm z-10">
+                  <tr>
+                    <th className="w-10 border-b border-slate-200 dark:border-slate-700"></th>
+                    {table.columns.map(col => (
+                      <th key={col.name} className="px-3 py-2 font-semibold text-slate-600 dark:text-slate-300 text-xs whitespace-nowrap border-b border-slate-200 dark:border-slate-700">
+                        {col.name} <span className="text-[10px] font-mono font-normal text-slate-400">{col.type}{col.isPrimaryKey ? ' · PK' : ''}{col.isForeignKey ? ' · FK' : ''}</span>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                  {pageRows.map((row, k) => {
+                    const index = page * PAGE_SIZE + k;
+                    return (
+                      <tr key={index} className="hover:bg-slate-50 dark:hover:bg-slate-800/50 group">
+                        <td className="px-2 text-center">
+                          <button onClick={() => handleDeleteRow(index)} className="p-1 text-slate-300 hover:text-rose-500 opacity-0 group-hover:opacity-100 transition-opacity" title="Excluir linha"><Trash2 className="w-3.5 h-3.5" /></button>
+                        </td>
+                        {table.columns.map(col => {
+                          const isEditing = editing?.row === index && editing.column === col.name;
+                          const value = row[col.name];
+                          return (
+                            <td key={col.name} className="px-3 py-1.5 text-slate-600 dark:text-slate-400 whitespace-nowrap max-w-xs" onDoubleClick={() => setEditing({ row: index, column: col.name, text: formatFixtureCell(value) })}>
+                              {isEditing ? (
+                                <input
+                                  autoFocus
+                                  value={editing.text}
+                                  onChange={e => setEditing({ ...editing, text: e.target.value })}
+                                  onBlur={commitEdit}
+                                  onKeyDown={e => { if (e.key === 'Enter') commitEdit(); if (e.key === 'Escape') setEditing(null); }}
+                                  placeholder="NULL"
+                                  className="w-full px-2 py-1 text-xs font-mono bg-white dark:bg-slate-800 border border-indigo-400 rounded outline-none text-slate-800 dark:text-white"
+                                />
+                              ) : value === null || value === undefined ? (
+                                <span className="text-[10px] bg-slate-100 dark:bg-slate-800 px-1.5 py-0.5 rounded text-slate-400 font-mono">NULL</span>
+                              ) : (
+                                <span className="block truncate text-xs font-mono" title="Clique duas vezes para editar">{formatFixtureCell(value)}</span>
+                              )}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-3 bg-slate-50 dark:bg-slate-900 border-t border-slate-100 dark:border-slate-800 text-xs text-slate-500 dark:text-slate-400 flex justify-between items-center gap-4">
+          <div className="flex items-center gap-3">
+            <button onClick={handleAddRow} disabled={!table} className="px-3 py-1.5 font-bold text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 rounded-lg flex items-center gap-1.5 disabled:opacity-40">
+              <Plus className="w-3.5 h-3.5" /> Nova linha
+            </button>
+            <div className="flex items-center gap-1">
+              <button onClick={() => setPage(Math.max(0, page - 1))} disabled={page === 0} className="p-1 rounded hover:bg-slate-200 dark:hover:bg-slate-800 disabled:opacity-30"><ChevronLeft className="w-4 h-4" /></button>
+              <span>Página {page + 1} de {pageCount} · {rows.length} linhas</span>
+              <button onClick={() => setPage(Math.min(pageCount - 1, page + 1))} disabled={page >= pageCount - 1} className="p-1 rounded hover:bg-slate-200 dark:hover:bg-slate-800 disabled:opacity-30"><ChevronRight className="w-4 h-4" /></button>
+            </div>
+            {draftConfig && <span className="font-mono text-slate-400">seed {draftConfig.seed}</span>}
+          </div>
+          <div className="flex items-center gap-3">
+            {isDirty && <span className="flex items-center gap-1 text-amber-600 dark:text-amber-400 font-bold"><AlertTriangle className="w-3.5 h-3.5" /> Alterações não aplicadas</span>}
+            <button onClick={onClose} className="px-4 py-2 font-bold text-slate-500 hover:text-slate-800 dark:hover:text-slate-200">Descartar</button>
+            <button onClick={handleApply} disabled={!isDirty} className="px-5 py-2 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-lg flex items-center gap-2 disabled:opacity-40">
+              <Save className="w-4 h-4" /> Aplicar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SimulationDataModal;
@@ -1,7 +1,7 @@
 
 import React from 'react';
-import { Plus, X, MessageSquare, Database, Terminal, Table } from 'lucide-react';
-import { QueryTab } from '../types';
+import { Plus, X, MessageSquare, Database, Terminal, Table, GitCommit, Undo2, Bookmark, Play } from 'lucide-react';
+import { QueryTab, TransactionAction } from '../types';
 
 interface TabBarProps {
   tabs: QueryTab[];
@@ -10,9 +10,15 @@ interface TabBarProps {
   onSwitch: (id: string) => void;
   onClose: (id: string) => void;
   onAdd: () => void;
+  canUseTransactions?: boolean; // Apenas conexões reais possuem sessão dedicada
+  onTransactionAction?: (action: TransactionAction, savepoint?: string) => void;
 }
 
-const TabBar: React.FC<TabBarProps> = ({ tabs, activeTabId, contextColor: globalContextColor, onSwitch, onClose, onAdd }) => {
+const TabBar: React.FC<TabBarProps> = ({ tabs, activeTabId, contextColor: globalContextColor, onSwitch, onClose, onAdd, canUseTransactions, onTransactionAction }) => {
+  const activeTab = tabs.find(t => t.id === activeTabId);
+  const activeTx = activeTab?.transaction;
+  const lastSavepoint = activeTx?.savepoints[activeTx.savepoints.length - 1];
+
   const getIcon = (step: string) => {
     switch (step) {
       case 'builder': return <MessageSquare className="w-3 h-3" />;
@@ -51,6 +57,16 @@ const TabBar: React.FC<TabBarProps> = ({ tabs, activeTabId, contextColor: global
               {getIcon(tab.currentStep)}
             </div>
             <span className="truncate flex-1 pr-4">{tab.name}</span>
+            {tab.transaction && tab.transaction.status !== 'idle' && (
+              <span
+                className={`mr-3 px-1.5 py-0.5 rounded text-[8px] font-black uppercase tracking-tighter shrink-0 ${tab.transaction.status === 'failed' ? 'bg-rose-500 text-white animate-pulse' : 'bg-amber-400 text-amber-950'}`}
+                title={tab.transaction.status === 'failed'
+                  ? 'Transação abortada: apenas ROLLBACK é aceito'
+                  : `Transação aberta desde ${new Date(tab.transaction.startedAt || Date.now()).toLocaleTimeString()}${tab.transaction.savepoints.length > 0 ? ` (${tab.transaction.savepoints.length} savepoints)` : ''}`}
+              >
+                TX
+              </span>
+            )}
             {tabs.length > 1 && (
               <button
                 onClick={(e) => { e.stopPropagation(); onClose(tab.id); }}
@@ -72,6 +88,37 @@ const TabBar: React.FC<TabBarProps> = ({ tabs, activeTabId, contextColor: global
       >
         <Plus className="w-4 h-4" />
       </button>
+
+      {canUseTransactions && onTransactionAction && activeTab && (
+        <div className="ml-auto flex items-center gap-1 shrink-0 pl-4">
+          {(!activeTx || activeTx.status === 'idle') ? (
+            <button onClick={() => onTransactionAction('begin')} className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-[10px] font-black uppercase tracking-tighter text-slate-500 hover:text-indigo-600 hover:bg-slate-200 dark:hover:bg-slate-800 transition-all" title="Abrir transação interativa nesta aba">
+              <Play className="w-3 h-3" /> Begin
+            </button>
+          ) : (
+            <>
+              {activeTx.status === 'active' && (
+                <button onClick={() => onTransactionAction('savepoint')} className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-[10px] font-black uppercase tracking-tighter text-slate-500 hover:text-indigo-600 hover:bg-slate-200 dark:hover:bg-slate-800 transition-all" title="Criar savepoint">
+                  <Bookmark className="w-3 h-3" /> Savepoint
+                </button>
+              )}
+              {lastSavepoint && (
+                <button onClick={() => onTransactionAction('rollback-to', lastSavepoint)} className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-[10px] font-black uppercase tracking-tighter text-slate-500 hover:text-amber-600 hover:bg-slate-200 dark:hover:bg-slate-800 transition-all" title={`ROLLBACK TO SAVEPOINT ${lastSavepoint}`}>
+                  <Undo2 className="w-3 h-3" /> {lastSavepoint}
+                </button>
+              )}
+              <button onClick={() => onTransactionAction('rollback')} className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-[10px] font-black uppercase tracking-tighter text-rose-500 hover:bg-rose-50 dark:hover:bg-rose-900/30 transition-all">
+                <Undo2 className="w-3 h-3" /> Rollback
+              </button>
+              {activeTx.status === 'active' && (
+                <button onClick={() => onTransactionAction('commit')} className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-[10px] font-black uppercase tracking-tighter bg-emerald-600 hover:bg-emerald-700 text-white transition-all">
+                  <GitCommit className="w-3 h-3" /> Commit
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -1,11 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import { X, FileText, Plus, Play, Trash2, Save, Code, Pencil } from 'lucide-react';
-import { QueryTemplate } from '../types';
+import { QueryTemplate, QueryParamInput } from '../types';
 import Dialog from './common/Dialog';
+import QueryParamsForm from './common/QueryParamsForm';
+import { scanSqlParams, bindSqlParams, resolveParamInputs, rememberParams } from '../services/sqlParamService';
+import { toast } from 'react-hot-toast';
 
 interface TemplateModalProps {
   onClose: () => void;
-  onRunTemplate: (sql: string) => void;
+  onRunTemplate: (sql: string, params?: Record<string, QueryParamInput>) => void;
 }
 
 const TemplateModal: React.FC<TemplateModalProps> = ({ onClose, onRunTemplate }) => {
@@ -13,7 +16,7 @@ const TemplateModal: React.FC<TemplateModalProps> = ({ onClose, onRunTemplate })
   const [view, setView] = useState<'list' | 'create' | 'run'>('list');
   const [newTemplate, setNewTemplate] = useState<{id?: string, name: string, sql: string, description: string}>({ name: '', sql: 'SELECT * FROM users WHERE id = :id', description: '' });
   const [selectedTemplate, setSelectedTemplate] = useState<QueryTemplate | null>(null);
-  const [params, setParams] = useState<Record<string, string>>({});
+  const [params, setParams] = useState<Record<string, QueryParamInput>>({});
   
   const [dialogConfig, setDialogConfig] = useState<{ isOpen: boolean, title: string, message: string, onConfirm: () => void } | null>(null);
 
@@ -27,10 +30,7 @@ const TemplateModal: React.FC<TemplateModalProps> = ({ onClose, onRunTemplate })
      localStorage.setItem('psqlBuddy-templates', JSON.stringify(list));
   };
 
-  const extractParams = (sql: string) => {
-     const matches = sql.match(/:[a-zA-Z0-9_]+/g);
-     return matches ? Array.from(new Set(matches.map(m => m.substring(1)))) : [];
-  };
+  const extractParams = (sql: string) => scanSqlParams(sql).names;
 
   const handleSave = () => {
      if (!newTemplate.name || !newTemplate.sql) return;
@@ -70,22 +70,28 @@ const TemplateModal: React.FC<TemplateModalProps> = ({ onClose, onRunTemplate })
      });
   };
 
+  const runScan = selectedTemplate ? scanSqlParams(selectedTemplate.sql) : null;
+
   const handlePrepareRun = (t: QueryTemplate) => {
      setSelectedTemplate(t);
-     const initialParams: Record<string, string> = {};
-     t.parameters.forEach(p => initialParams[p] = '');
-     setParams(initialParams);
+     setParams(resolveParamInputs(scanSqlParams(t.sql).names, t.lastParams));
      setView('run');
   };
 
+  // Os valores não entram no texto: seguem como binds ($1..$n) junto com o SQL do template.
+  // Posicionais só fazem sentido no próprio template, então ficam guardados nele.
   const handleRun = () => {
      if (!selectedTemplate) return;
-     let finalSql = selectedTemplate.sql;
-     Object.entries(params).forEach(([key, val]) => {
-        const safeVal = String(val).replace(/'/g, "''"); 
-        finalSql = finalSql.replace(new RegExp(`:${key}\\b`, 'g'), `'${safeVal}'`);
-     });
-     onRunTemplate(finalSql);
+     const scan = scanSqlParams(selectedTemplate.sql);
+     try {
+        bindSqlParams(selectedTemplate.sql, params);
+     } catch (e: any) {
+        toast.error(e.message);
+        return;
+     }
+     rememberParams(params);
+     if (scan.names.length > 0) saveTemplates(templates.map(t => t.id === selectedTemplate.id ? { ...t, lastParams: params } : t));
+     onRunTemplate(selectedTemplate.sql, scan.names.length > 0 ? params : undefined);
      onClose();
   };
 
@@ -136,7 +142,7 @@ const TemplateModal: React.FC<TemplateModalProps> = ({ onClose, onRunTemplate })
                               </div>
                            </div>
                            <div className="mt-3 flex gap-2">
-                              {t.parameters.map(p => <span key={p} className="text-[10px] bg-slate-200 dark:bg-slate-800 text-slate-600 dark:text-slate-300 px-2 py-0.5 rounded font-mono">:{p}</span>)}
+                              {t.parameters.map(p => <span key={p} className="text-[10px] bg-slate-200 dark:bg-slate-800 text-slate-600 dark:text-slate-300 px-2 py-0.5 rounded font-mono">{p.startsWith('$') ? p : `:${p}`}</span>)}
                            </div>
                         </div>
                      ))
@@ -173,13 +179,8 @@ const TemplateModal: React.FC<TemplateModalProps> = ({ onClose, onRunTemplate })
                   </div>
                   
                   <div className="space-y-3">
-                     {selectedTemplate.parameters.length === 0 ? <p className="text-xs text-slate-500">Este template não requer parâmetros.</p> : 
-                        selectedTemplate.parameters.map(param => (
-                           <div key={param}>
-                              <label className="block text-xs font-bold text-slate-500 uppercase mb-1">{param}</label>
-                              <input type="text" value={params[param]} onChange={e => setParams({...params, [param]: e.target.value})} className="w-full px-3 py-2 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded-lg text-sm outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500" placeholder={`Valor para ${param}`} />
-                           </div>
-                        ))
+                     {!runScan || runScan.names.length === 0 ? <p className="text-xs text-slate-500">{runScan?.error || 'Este template não requer parâmetros.'}</p> : 
+                        <QueryParamsForm names={runScan.names} values={params} onChange={setParams} positional={runScan.mode === 'positional'} onSubmit={handleRun} />
                      }
                   </div>
 
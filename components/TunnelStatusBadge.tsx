@@ -0,0 +1,59 @@
+import React, { useEffect, useState } from 'react';
+import { Network } from 'lucide-react';
+import { DbCredentials, SshTunnelStatus } from '../types';
+import { fetchTunnelStatus } from '../services/dbService';
+
+const POLL_INTERVAL_MS = 5000;
+const POLL_INTERVAL_UNSTABLE_MS = 1500; // Enquanto conecta/reconecta
+
+const STATUS_STYLE: Record<SshTunnelStatus['status'] | 'idle', { color: string, label: string }> = {
+  connecting: { color: 'text-amber-500 animate-pulse', label: 'Conectando' },
+  open: { color: 'text-emerald-500', label: 'Aberto' },
+  reconnecting: { color: 'text-amber-500 animate-pulse', label: 'Reconectando' },
+  failed: { color: 'text-rose-500', label: 'Falhou' },
+  closed: { color: 'text-slate-400', label: 'Fechado' },
+  idle: { color: 'text-slate-400', label: 'Inativo (abre na próxima query)' }
+};
+
+/** Estado do túnel SSH de uma conexão, consultado periodicamente no backend. */
+const TunnelStatusBadge: React.FC<{ credentials: DbCredentials }> = ({ credentials }) => {
+  const [tunnel, setTunnel] = useState<SshTunnelStatus | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+    const poll = async () => {
+      let next: SshTunnelStatus | null = null;
+      try {
+        next = await fetchTunnelStatus(credentials);
+        if (cancelled) return;
+        setTunnel(next);
+        setError('');
+      } catch (e: any) {
+        if (cancelled) return;
+        setError(e.message);
+      }
+      const unstable = next?.status === 'connecting' || next?.status === 'reconnecting';
+      timer = setTimeout(poll, unstable ? POLL_INTERVAL_UNSTABLE_MS : POLL_INTERVAL_MS);
+    };
+    poll();
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [credentials]);
+
+  const style = STATUS_STYLE[tunnel?.status || 'idle'];
+  const details = [
+    tunnel ? tunnel.label : `SSH ${credentials.ssh?.user}@${credentials.ssh?.host}`,
+    `Túnel: ${style.label}${tunnel?.localPort ? ` (porta local ${tunnel.localPort})` : ''}`,
+    tunnel?.reconnects ? `${tunnel.reconnects} reconexão(ões)` : '',
+    tunnel?.lastError || error
+  ].filter(Boolean).join('\n');
+
+  return (
+    <span title={details} className={`ml-2 shrink-0 ${error ? 'text-rose-500' : style.color}`}>
+      <Network className="w-3 h-3" />
+    </span>
+  );
+};
+
+export default TunnelStatusBadge;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { QueryParamInput, QueryParamType } from '../../types';
+
+interface QueryParamsFormProps {
+  names: string[];
+  values: Record<string, QueryParamInput>;
+  onChange: (values: Record<string, QueryParamInput>) => void;
+  positional?: boolean; // Nomes já vêm como $1..$n
+  onSubmit?: () => void;
+}
+
+const PARAM_TYPES: { value: QueryParamType; label: string }[] = [
+  { value: 'text', label: 'Texto' },
+  { value: 'number', label: 'Número' },
+  { value: 'date', label: 'Data' },
+  { value: 'timestamp', label: 'Data/Hora' },
+  { value: 'boolean', label: 'Booleano' },
+  { value: 'array', label: 'Lista' },
+  { value: 'null', label: 'NULL' }
+];
+
+const inputClass = "flex-1 min-w-0 px-3 py-1.5 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded-lg text-sm outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 disabled:opacity-50";
+
+/** Formulário de valores para binds ($1..$n ou :nome), com entrada adequada a cada tipo. */
+const QueryParamsForm: React.FC<QueryParamsFormProps> = ({ names, values, onChange, positional = false, onSubmit }) => {
+  const update = (name: string, patch: Partial<QueryParamInput>) => {
+    const current = values[name] || { type: 'text', value: '' };
+    onChange({ ...values, [name]: { ...current, ...patch } });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && onSubmit) { e.preventDefault(); onSubmit(); }
+  };
+
+  const renderInput = (name: string, input: QueryParamInput) => {
+    switch (input.type) {
+      case 'null':
+        return <input type="text" disabled value="NULL" className={`${inputClass} font-mono`} />;
+      case 'boolean':
+        return (
+          <select value={/^(true|t|1|sim|yes)$/i.test(input.value) ? 'true' : 'false'} onChange={e => update(name, { value: e.target.value })} className={inputClass}>
+            <option value="true">true</option>
+            <option value="false">false</option>
+          </select>
+        );
+      case 'date':
+        return <input type="date" value={input.value} onChange={e => update(name, { value: e.target.value })} onKeyDown={handleKeyDown} className={inputClass} />;
+      case 'timestamp':
+        return <input type="datetime-local" step="1" value={input.value} onChange={e => update(name, { value: e.target.value })} onKeyDown={handleKeyDown} className={inputClass} />;
+      case 'number':
+        return <input type="text" inputMode="decimal" value={input.value} onChange={e => update(name, { value: e.target.value })} onKeyDown={handleKeyDown} className={`${inputClass} font-mono`} placeholder="0" />;
+      case 'array':
+        return <input type="text" value={input.value} onChange={e => update(name, { value: e.target.value })} onKeyDown={handleKeyDown} className={`${inputClass} font-mono`} placeholder="a, b, c  ou  [1, 2, 3]" />;
+      default:
+        return <input type="text" value={input.value} onChange={e => update(name, { value: e.target.value })} onKeyDown={handleKeyDown} className={inputClass} placeholder={`Valor para ${name}`} />;
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {names.map(name => {
+        const input = values[name] || { type: 'text', value: '' };
+        return (
+          <div key={name} className="flex items-center gap-2">
+            <label className="w-32 shrink-0 text-xs font-mono font-bold text-slate-600 dark:text-slate-300 truncate" title={name}>{positional ? name : `:${name}`}</label>
+            <select
+              value={input.type}
+              onChange={e => update(name, { type: e.target.value as QueryParamType })}
+              className="w-28 shrink-0 px-2 py-1.5 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg text-xs outline-none text-slate-600 dark:text-slate-300"
+            >
+              {PARAM_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+            </select>
+            {renderInput(name, input)}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default QueryParamsForm;
@@ -1,6 +1,6 @@
 
 import React, { useState, useMemo, useEffect, useCallback, memo, useRef } from 'react';
-import { DatabaseSchema, BuilderState, ExplicitJoin, JoinType, Filter, Operator, OrderBy, AppSettings, SavedQuery, AggregateFunction, Column, Table, CalculatedColumn } from '../../types';
+import { DatabaseSchema, BuilderState, ExplicitJoin, JoinType, Filter, Operator, OrderBy, AppSettings, SavedQuery, AggregateFunction, Column, Table, CalculatedColumn, SchemaFocusRequest } from '../../types';
 import { Layers, ChevronRight, Settings2, RefreshCw, Search, X, CheckSquare, Square, Plus, Trash2, ArrowRightLeft, Filter as FilterIcon, ArrowDownAZ, List, Link2, ChevronDown, Save, FolderOpen, Calendar, Clock, Key, Combine, ArrowRight, ArrowLeft, FastForward, Target, CornerDownRight, Wand2, Loader2, Undo2, Redo2, Calculator, Sparkles, LayoutTemplate, PlayCircle, Eye, Info, ChevronUp, Link as LinkIcon } from 'lucide-react';
 import SchemaViewer from '../SchemaViewer';
 import { generateBuilderStateFromPrompt } from '../../services/geminiService';
@@ -20,6 +20,7 @@ interface BuilderStepProps {
   settings: AppSettings;
   onDescriptionChange?: (tableName: string, newDesc: string) => void;
   onPreviewTable?: (tableName: string) => void; 
+  schemaFocus?: SchemaFocusRequest | null;
 }
 
 type TabType = 'columns' | 'joins' | 'filters' | 'sortgroup';
@@ -428,7 +429,7 @@ const TableCard = memo(({
 
 // --- Main Component ---
 
-const BuilderStep: React.FC<BuilderStepProps> = ({ schema, state, onStateChange, onGenerate, onSkipAi, isGenerating, progressMessage, settings, onDescriptionChange, onPreviewTable }) => {
+const BuilderStep: React.FC<BuilderStepProps> = ({ schema, state, onStateChange, onGenerate, onSkipAi, isGenerating, progressMessage, settings, onDescriptionChange, onPreviewTable, schemaFocus }) => {
   const [activeTab, setActiveTab] = useState<TabType>(() => {
     return (localStorage.getItem(`psqlBuddy-tab-${schema.name}`) as TabType) || 'columns';
   });
@@ -1084,7 +1085,7 @@ const BuilderStep: React.FC<BuilderStepProps> = ({ schema, state, onStateChange,
       )}
       <div className="flex-1 flex gap-6 min-h-0">
         <div id="schema-viewer-panel" className="w-1/4 bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 flex flex-col overflow-hidden shadow-sm">
-          <SchemaViewer schema={schema} selectionMode={true} selectedTableIds={state.selectedTables} onToggleTable={toggleTable} onDescriptionChange={onDescriptionChange} onPreviewTable={onPreviewTable} />
+          <SchemaViewer schema={schema} selectionMode={true} selectedTableIds={state.selectedTables} onToggleTable={toggleTable} onDescriptionChange={onDescriptionChange} onPreviewTable={onPreviewTable} focusRequest={schemaFocus} />
         </div>
         <div id="builder-main-panel" className="flex-1 w-full bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 flex flex-col overflow-hidden shadow-sm relative">
            <div className="flex border-b border-slate-100 dark:border-slate-700">
@@ -1,24 +1,117 @@
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { DatabaseSchema, QueryResult, OptimizationAnalysis, AppSettings } from '../../types';
-import { Terminal, Play, ArrowLeft, CheckCircle2, ShieldAlert, Info, Copy, Check, Loader2, Lightbulb, ShieldOff, AlertCircle, AlignLeft, Minimize2, Split, Code2, Zap, TrendingUp, Gauge, X, Shield, Lock, Unlock, DatabaseZap, AlertTriangle, Sparkles } from 'lucide-react';
+import { DatabaseSchema, Table, QueryResult, DEFAULT_SETTINGS, OptimizationAnalysis, AppSettings, ScriptErrorMode, TabExecutionError, SchemaFocusRequest, ConstraintInfo, QueryParamInput, SqlValidationResult, VirtualRelation } from '../../types';
+import { Terminal, Play, ArrowLeft, CheckCircle2, ShieldAlert, Info, Copy, Check, Loader2, Lightbulb, ShieldOff, AlertCircle, AlignLeft, Minimize2, Split, Code2, Zap, TrendingUp, Gauge, X, Shield, Lock, Unlock, DatabaseZap, AlertTriangle, Sparkles, Square, Timer, ListOrdered, XCircle, Crosshair, Network, Variable, Wand2 } from 'lucide-react';
 import Editor, { useMonaco, DiffEditor } from '@monaco-editor/react';
-import { analyzeQueryPerformance } from '../../services/geminiService';
-import { executeDryRun } from '../../services/dbService';
+import { analyzeQueryPerformance, validateSqlQuery, fixSqlError } from '../../services/geminiService';
+import { executeDryRun, fetchConstraintInfo } from '../../services/dbService';
+import { validateSqlOffline } from '../../services/sqlValidationService';
+import { splitSqlStatements, locateStatements } from '../../services/sqlScriptService';
+import { scanSqlParams, bindSqlParams, resolveParamInputs, rememberParams } from '../../services/sqlParamService';
+import { formatSql } from '../../services/sqlFormatter';
+import { createSqlCompletion, SqlCompletionKind } from '../../services/sqlCompletionService';
+import { parseSql, walkStatements, isDataModifying, findUnfilteredWrites, findDestructiveStatements, findOpaqueStatements, resolveColumnTable } from '../../services/sqlParser';
+import QueryParamsForm from '../common/QueryParamsForm';
 import { toast } from 'react-hot-toast';
 
 interface PreviewStepProps {
   queryResult: QueryResult;
-  onExecute: (sqlOverride?: string) => void;
+  onExecute: (sqlOverride?: string, params?: Record<string, QueryParamInput>) => void;
   onBack: () => void;
   isExecuting: boolean;
   isValidating: boolean;
   validationDisabled?: boolean;
   schema?: DatabaseSchema;
+  virtualRelations?: VirtualRelation[];
   settings?: AppSettings;
   credentials?: any;
+  onCancel?: () => Promise<void>;
+  statementTimeoutMs?: number;
+  onStatementTimeoutChange?: (ms: number) => void;
+  scriptErrorMode?: ScriptErrorMode;
+  onScriptErrorModeChange?: (mode: ScriptErrorMode) => void;
+  executionError?: TabExecutionError | null;
+  onDismissError?: () => void;
+  onFocusSchema?: (request: Omit<SchemaFocusRequest, 'requestId'>) => void;
 }
 
+const STATEMENT_TIMEOUT_OPTIONS = [
+  { value: 0, label: 'Padrão do banco' },
+  { value: 5000, label: '5s' },
+  { value: 30000, label: '30s' },
+  { value: 60000, label: '1 min' },
+  { value: 300000, label: '5 min' },
+  { value: 900000, label: '15 min' }
+];
+
+const ERROR_MARKER_OWNER = 'psql-buddy-execution';
+const VALIDATION_MARKER_OWNER = 'psql-buddy-validation';
+const VALIDATION_DEBOUNCE_MS = 700;
+
+/** Erro estruturado do PostgreSQL: mensagem, SQLSTATE, detalhe, dica e o objeto envolvido. */
+const ExecutionErrorPanel: React.FC<{
+  error: TabExecutionError;
+  isStale: boolean;
+  location: { lineNumber: number; column: number } | null;
+  constraintInfo: ConstraintInfo | null;
+  onReveal: () => void;
+  onDismiss?: () => void;
+  onFocusSchema?: (request: Omit<SchemaFocusRequest, 'requestId'>) => void;
+  onApplyFix?: () => void;
+}> = ({ error, isStale, location, constraintInfo, onReveal, onDismiss, onFocusSchema, onApplyFix }) => {
+  const tableId = error.table ? `${error.schema || 'public'}.${error.table}` : null;
+  const focusColumns = constraintInfo?.columns || (error.column ? [error.column] : []);
+  return (
+    <div className="rounded-xl border overflow-hidden shrink-0 bg-red-50 border-red-200 dark:bg-red-900/10 dark:border-red-900/50">
+      <div className="p-4 flex items-start gap-3">
+        <XCircle className="w-5 h-5 text-red-600 shrink-0 mt-0.5" />
+        <div className="flex-1 min-w-0 space-y-2">
+          <div className="flex items-center gap-2 flex-wrap">
+            <h4 className="font-bold text-sm text-red-800 dark:text-red-200">{error.statementIndex !== undefined ? `Erro no comando ${error.statementIndex + 1}` : 'Erro na execução'}</h4>
+            {error.code && <span className="text-[10px] font-mono font-bold bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300 px-1.5 py-0.5 rounded" title="SQLSTATE">{error.code}</span>}
+            {location && !isStale && (
+              <button onClick={onReveal} className="text-[10px] font-bold text-red-600 dark:text-red-400 hover:underline flex items-center gap-1"><Crosshair className="w-3 h-3" /> Linha {location.lineNumber}, coluna {location.column}</button>
+            )}
+            {isStale && <span className="text-[10px] text-slate-400 italic">SQL alterado desde a execução</span>}
+          </div>
+          <p className="text-sm font-mono text-red-900 dark:text-red-100 break-words">{error.message}</p>
+          {error.detail && <p className="text-xs text-slate-600 dark:text-slate-300 break-words"><span className="font-bold">Detalhe:</span> {error.detail}</p>}
+          {error.hint && (
+            <p className="text-xs text-amber-800 dark:text-amber-200 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg px-3 py-2 flex items-start gap-2"><Lightbulb className="w-3.5 h-3.5 shrink-0 mt-0.5" /> {error.hint}</p>
+          )}
+          {error.internalQuery && (
+            <pre className="text-[11px] font-mono text-slate-500 bg-white/60 dark:bg-slate-900/50 rounded p-2 whitespace-pre-wrap">{error.internalQuery}{error.internalPosition ? `\n${' '.repeat(Math.max(0, error.internalPosition - 1))}^` : ''}</pre>
+          )}
+          {error.context && <pre className="text-[11px] font-mono text-slate-500 whitespace-pre-wrap">{error.context}</pre>}
+          {onApplyFix && !isStale && (
+            <button onClick={onApplyFix} className="text-xs font-bold text-indigo-600 dark:text-indigo-400 hover:underline flex items-center gap-1"><Wand2 className="w-3.5 h-3.5" /> Aplicar correção sugerida</button>
+          )}
+          {(error.constraint || tableId) && (
+            <div className="flex items-center gap-3 flex-wrap text-xs text-slate-600 dark:text-slate-300 pt-1">
+              {error.constraint && (
+                <span className="font-mono">
+                  <span className="font-sans font-bold">{constraintInfo?.type || 'Constraint'}</span> {error.constraint}
+                  {constraintInfo?.definition && <span className="text-slate-400"> — {constraintInfo.definition}</span>}
+                </span>
+              )}
+              {!error.constraint && error.column && <span className="font-mono">{tableId}.{error.column}</span>}
+              {tableId && onFocusSchema && (
+                <button
+                  onClick={() => onFocusSchema({ tableId: constraintInfo ? `${constraintInfo.schema}.${constraintInfo.table}` : tableId, columns: focusColumns, label: error.constraint })}
+                  className="flex items-center gap-1 font-bold text-indigo-600 dark:text-indigo-400 hover:underline"
+                >
+                  <Network className="w-3.5 h-3.5" /> Ver no schema
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+        {onDismiss && <button onClick={onDismiss} className="text-red-300 hover:text-red-600 shrink-0"><X className="w-4 h-4" /></button>}
+      </div>
+    </div>
+  );
+};
+
 interface SqlInsight {
   id: string;
   type: 'warning' | 'danger' | 'info';
@@ -26,9 +119,14 @@ interface SqlInsight {
   message: string;
 }
 
-const PreviewStep: React.FC<PreviewStepProps> = ({ queryResult, onExecute, onBack, isExecuting, isValidating, validationDisabled, schema, settings, credentials }) => {
+const PreviewStep: React.FC<PreviewStepProps> = ({ queryResult, onExecute, onBack, isExecuting, isValidating, validationDisabled, schema, virtualRelations, settings, credentials, onCancel, statementTimeoutMs = 0, onStatementTimeoutChange, scriptErrorMode = 'stop', onScriptErrorModeChange, executionError, onDismissError, onFocusSchema }) => {
   const [copied, setCopied] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
   const [editedSql, setEditedSql] = useState(queryResult.sql || '');
+  const statementCount = useMemo(() => splitSqlStatements(editedSql).length, [editedSql]);
+  const paramScan = useMemo(() => scanSqlParams(editedSql), [editedSql]);
+  const paramNamesKey = paramScan.names.join(',');
+  const [paramValues, setParamValues] = useState<Record<string, QueryParamInput>>(queryResult.paramValues || {});
   const [viewMode, setViewMode] = useState<'edit' | 'diff'>('edit');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<OptimizationAnalysis | null>(null);
@@ -41,59 +139,63 @@ const PreviewStep: React.FC<PreviewStepProps> = ({ queryResult, onExecute, onBac
   const [showDryRunConfirm, setShowDryRunConfirm] = useState(false);
 
   const monaco = useMonaco();
+  const editorRef = useRef<any>(null);
+  const [editorMountId, setEditorMountId] = useState(0);
+  const [constraintInfo, setConstraintInfo] = useState<ConstraintInfo | null>(null);
+  const [validation, setValidation] = useState<{ sql: string; result: SqlValidationResult } | null>(
+    queryResult.validation ? { sql: queryResult.sql, result: queryResult.validation } : null
+  );
+  const [isCheckingSql, setIsCheckingSql] = useState(false);
+  const [errorFix, setErrorFix] = useState<string | null>(null);
   const lastSourceSqlRef = useRef(queryResult.sql);
 
-  const isDml = useMemo(() => {
-     const sql = editedSql.trim().toUpperCase();
-     return /\b(UPDATE|DELETE|INSERT)\b/.test(sql);
-  }, [editedSql]);
+  // AST do editor: strings, comentários e CTEs não enganam as verificações abaixo
+  const sqlAst = useMemo(() => parseSql(editedSql), [editedSql]);
+
+  const isDml = useMemo(() => isDataModifying(sqlAst), [sqlAst]);
 
   // DBA Advisor - Motor de Heurísticas
   const dbaInsights = useMemo((): SqlInsight[] => {
     const insights: SqlInsight[] = [];
-    const sql = editedSql.trim();
-    const upperSql = sql.toUpperCase();
-    if (!sql) return [];
-
-    // 1. DML sem WHERE (MANTIDO)
-    const isUpdate = /\bUPDATE\b/.test(upperSql);
-    const isDelete = /\bDELETE\b/.test(upperSql);
-    const hasWhere = /\bWHERE\b/.test(upperSql);
-    if ((isUpdate || isDelete) && !hasWhere) {
+    if (sqlAst.length === 0) return [];
+
+    // 1. DML sem WHERE (inclusive dentro de CTEs)
+    findUnfilteredWrites(sqlAst).forEach((node, index) => {
        insights.push({
-          id: 'no-where',
+          id: `no-where-${index}`,
           type: 'danger',
           title: 'DML sem Filtro (WHERE)',
-          message: 'Esta operação afetará TODOS os registros da tabela. Recomendamos fortemente adicionar um filtro ou usar o modo de segurança.'
+          message: `${node.kind.toUpperCase()}${node.target ? ` em ${node.target.name}` : ''} afetará TODOS os registros da tabela. Recomendamos fortemente adicionar um filtro ou usar o modo de segurança.`
        });
-    }
+    });
 
-    // 2. Joins em colunas sem PK/FK (MANTIDO)
+    // 2. Joins em colunas sem PK/FK, com aliases resolvidos contra o schema
     if (schema) {
-       const joinRegex = /JOIN\s+([^\s]+)\s+ON\s+([^\s.]+)\.([^\s]+)\s*=\s*([^\s.]+)\.([^\s]+)/gi;
-       let match;
-       while ((match = joinRegex.exec(sql)) !== null) {
-          const [,, t1, c1, t2, c2] = match;
-          
-          const isKey = (tbl: string, col: string) => {
-             const table = schema.tables.find(t => t.name.toLowerCase() === tbl.toLowerCase());
-             const column = table?.columns.find(c => c.name.toLowerCase() === col.toLowerCase());
-             return column?.isPrimaryKey || column?.isForeignKey;
-          };
-
-          if (!isKey(t1, c1) && !isKey(t2, c2)) {
+       const seen = new Set<string>();
+       walkStatements(sqlAst, node => {
+          node.joins.forEach(join => join.equalities.forEach(([left, right]) => {
+             const l = resolveColumnTable(schema, node, left);
+             const r = resolveColumnTable(schema, node, right);
+             if (!l || !r) return;
+             const isKey = (table: Table, col: string) => {
+                const column = table.columns.find(c => c.name.toLowerCase() === col.toLowerCase());
+                return column?.isPrimaryKey || column?.isForeignKey;
+             };
+             const id = `unindexed-join-${l.table.name}.${left.name}-${r.table.name}.${right.name}`;
+             if (isKey(l.table, left.name) || isKey(r.table, right.name) || seen.has(id)) return;
+             seen.add(id);
              insights.push({
-                id: `unindexed-join-${t1}-${t2}`,
+                id,
                 type: 'warning',
                 title: 'Join sem Índice Detectado',
-                message: `O vínculo entre ${t1}.${c1} e ${t2}.${c2} parece ser feito em colunas não indexadas, o que pode causar Nested Loops extremamente lentos.`
+                message: `O vínculo entre ${l.table.name}.${left.name} e ${r.table.name}.${right.name} parece ser feito em colunas não indexadas, o que pode causar Nested Loops extremamente lentos.`
              });
-          }
-       }
+          }));
+       });
     }
 
     // 3. Inserções em lote ou TRUNCATE (MANTIDO)
-    if (/\bTRUNCATE\b/.test(upperSql)) {
+    if (findDestructiveStatements(sqlAst).some(node => node.kind === 'truncate')) {
        insights.push({
           id: 'truncate',
           type: 'danger',
@@ -103,49 +205,76 @@ const PreviewStep: React.FC<PreviewStepProps> = ({ queryResult, onExecute, onBac
     }
 
     return insights;
-  }, [editedSql, schema]);
+  }, [sqlAst, schema]);
 
   const safetyError = useMemo(() => {
-     const sql = editedSql.trim().toUpperCase();
-     if (!sql) return null;
+     if (sqlAst.length === 0) return null;
 
      if (settings?.blockDestructiveCommands) {
-        if (/\b(TRUNCATE|DROP)\b/.test(sql)) {
+        const destructive = findDestructiveStatements(sqlAst);
+        if (destructive.length > 0) {
+           const commands = Array.from(new Set(destructive.map(node => node.kind === 'alter' ? 'ALTER ... DROP' : node.keyword.toUpperCase())));
            return {
               type: 'BLOCK',
-              message: 'Comandos de destruição (TRUNCATE/DROP) estão bloqueados por governança do sistema.',
+              message: `Comandos de destruição (${commands.join('/')}) estão bloqueados por governança do sistema.`,
               icon: <Lock className="w-5 h-5 text-red-500" />
            };
         }
      }
 
      if (settings?.enableDmlSafety && !isSafetyUnlocked) {
-        const isUpdate = /\bUPDATE\b/.test(sql);
-        const isDelete = /\bDELETE\b/.test(sql);
-        const hasWhere = /\bWHERE\b/.test(sql);
-
-        if ((isUpdate || isDelete) && !hasWhere) {
+        const unfiltered = findUnfilteredWrites(sqlAst)[0];
+        if (unfiltered) {
+           return {
+              type: 'RISK',
+              message: `RISCO CRÍTICO: Detectado ${unfiltered.kind.toUpperCase()}${unfiltered.target ? ` em ${unfiltered.target.name}` : ''} sem cláusula WHERE. Isso afetará TODAS as linhas da tabela.`,
+              icon: <ShieldAlert className="w-6 h-6 text-rose-500" />
+           };
+        }
+        const opaque = findOpaqueStatements(sqlAst)[0];
+        if (opaque) {
            return {
               type: 'RISK',
-              message: `RISCO CRÍTICO: Detectado ${isUpdate ? 'UPDATE' : 'DELETE'} sem cláusula WHERE. Isso afetará TODAS as linhas da tabela.`,
+              message: `RISCO: ${opaque.keyword.toUpperCase()} executa código que não dá para analisar antes (pode alterar ou apagar dados). Revise o corpo antes de desbloquear.`,
               icon: <ShieldAlert className="w-6 h-6 text-rose-500" />
            };
         }
      }
 
      return null;
-  }, [editedSql, settings, isSafetyUnlocked]);
+  }, [sqlAst, settings, isSafetyUnlocked]);
+
+  useEffect(() => {
+    setParamValues(prev => resolveParamInputs(paramScan.names, prev));
+  }, [paramNamesKey]);
+
+  /** Valores dos placeholders, validados; undefined quando o SQL não tem parâmetros. */
+  const resolveBindings = (): Record<string, QueryParamInput> | undefined => {
+    if (paramScan.mode === 'none') return undefined;
+    bindSqlParams(editedSql, paramValues);
+    rememberParams(paramValues);
+    return paramValues;
+  };
 
   const handlePreExecution = async () => {
     if (isExecuting || !editedSql.trim()) return;
     if (!!safetyError && safetyError.type === 'BLOCK') return;
     if (!!safetyError && !isSafetyUnlocked) return;
 
+    let bindings: Record<string, QueryParamInput> | undefined;
+    try {
+       bindings = resolveBindings();
+    } catch (e: any) {
+       toast.error(e.message);
+       return;
+    }
+
     if (isDml && credentials && credentials.host !== 'simulated') {
        setIsDryRunning(true);
        setDryRunResult(null);
        try {
-          const res = await executeDryRun(credentials, editedSql);
+          const bound = bindings ? bindSqlParams(editedSql, bindings) : null;
+          const res = await executeDryRun(credentials, bound ? bound.sql : editedSql, bound?.params);
           setDryRunResult(res);
           setShowDryRunConfirm(true);
        } catch (e: any) {
@@ -154,7 +283,17 @@ const PreviewStep: React.FC<PreviewStepProps> = ({ queryResult, onExecute, onBac
           setIsDryRunning(false);
        }
     } else {
-       onExecute(editedSql);
+       onExecute(editedSql, bindings);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!onCancel || isCancelling) return;
+    setIsCancelling(true);
+    try {
+       await onCancel();
+    } finally {
+       setIsCancelling(false);
     }
   };
 
@@ -167,31 +306,189 @@ const PreviewStep: React.FC<PreviewStepProps> = ({ queryResult, onExecute, onBac
      };
      window.addEventListener('keydown', handleKeyDown);
      return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isExecuting, editedSql, isDml, safetyError, isSafetyUnlocked]);
+  }, [isExecuting, editedSql, isDml, safetyError, isSafetyUnlocked, paramValues]);
+
+  const formatStyle = settings?.sqlFormat || DEFAULT_SETTINGS.sqlFormat;
 
   useEffect(() => {
-    if (!monaco || !schema) return;
-    const disposable = monaco.languages.registerCompletionItemProvider('sql', {
+    if (!monaco) return;
+    const completion = createSqlCompletion(schema, virtualRelations, formatStyle.keywordCase);
+    const kinds: Record<SqlCompletionKind, number> = {
+      table: monaco.languages.CompletionItemKind.Class,
+      cte: monaco.languages.CompletionItemKind.Interface,
+      schema: monaco.languages.CompletionItemKind.Module,
+      column: monaco.languages.CompletionItemKind.Field,
+      join: monaco.languages.CompletionItemKind.Reference,
+      function: monaco.languages.CompletionItemKind.Function,
+      keyword: monaco.languages.CompletionItemKind.Keyword,
+      snippet: monaco.languages.CompletionItemKind.Snippet
+    };
+    const completionProvider = monaco.languages.registerCompletionItemProvider('sql', {
+      triggerCharacters: ['.'],
       provideCompletionItems: (model, position) => {
         const word = model.getWordUntilPosition(position);
         const range = { startLineNumber: position.lineNumber, endLineNumber: position.lineNumber, startColumn: word.startColumn, endColumn: word.endColumn };
-        const suggestions: any[] = [];
-        schema.tables.forEach(table => {
-           suggestions.push({ label: table.name, kind: monaco.languages.CompletionItemKind.Class, insertText: table.name, detail: `Table`, range });
-           table.columns.forEach(col => {
-              suggestions.push({ label: col.name, kind: monaco.languages.CompletionItemKind.Field, insertText: col.name, detail: `Column in ${table.name}`, range });
-           });
-        });
+        const suggestions = completion.complete(model.getValue(), model.getOffsetAt(position)).map(item => ({
+          label: item.label,
+          kind: kinds[item.kind],
+          insertText: item.insertText,
+          insertTextRules: item.snippet ? monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet : undefined,
+          detail: item.detail,
+          documentation: item.documentation ? { value: item.documentation } : undefined,
+          sortText: item.sortText ? `${item.sortText}${item.label}` : undefined,
+          range
+        }));
         return { suggestions };
       }
     });
-    return () => disposable.dispose();
-  }, [monaco, schema]);
+    const hoverProvider = monaco.languages.registerHoverProvider('sql', {
+      provideHover: (model, position) => {
+        const info = completion.hover(model.getValue(), model.getOffsetAt(position));
+        if (!info) return null;
+        const start = model.getPositionAt(info.start);
+        const end = model.getPositionAt(info.end);
+        return {
+          range: new monaco.Range(start.lineNumber, start.column, end.lineNumber, end.column),
+          contents: info.contents.map(value => ({ value }))
+        };
+      }
+    });
+    return () => { completionProvider.dispose(); hoverProvider.dispose(); };
+  }, [monaco, schema, virtualRelations, formatStyle.keywordCase]);
+
+  // Formatar documento/seleção (Shift+Alt+F e menu de contexto do Monaco)
+  useEffect(() => {
+    if (!monaco) return;
+    const documentProvider = monaco.languages.registerDocumentFormattingEditProvider('sql', {
+      provideDocumentFormattingEdits: (model) => [{ range: model.getFullModelRange(), text: formatSql(model.getValue(), formatStyle) }]
+    });
+    const rangeProvider = monaco.languages.registerDocumentRangeFormattingEditProvider('sql', {
+      provideDocumentRangeFormattingEdits: (model, range) => [{ range, text: formatSql(model.getValueInRange(range), formatStyle) }]
+    });
+    return () => { documentProvider.dispose(); rangeProvider.dispose(); };
+  }, [monaco, formatStyle]);
+
+  // Trecho do erro no editor: a posição informada pelo PostgreSQL, senão o comando do script que falhou
+  const errorRange = useMemo(() => {
+    if (!executionError || executionError.sql !== editedSql) return null;
+    if (executionError.position) {
+      const start = executionError.position - 1;
+      const tokenMatch = editedSql.slice(start).match(/^("(?:[^"]|"")*"|'(?:[^']|'')*'|[\w$.]+|\S)/);
+      return { start, end: start + (tokenMatch ? tokenMatch[0].length : 1) };
+    }
+    if (executionError.statementIndex !== undefined) {
+      const statements = splitSqlStatements(editedSql);
+      const stmt = statements[executionError.statementIndex];
+      if (!stmt) return null;
+      const start = locateStatements(editedSql, statements)[executionError.statementIndex];
+      return { start, end: start + stmt.length };
+    }
+    return null;
+  }, [executionError, editedSql]);
+
+  useEffect(() => {
+    const model = editorRef.current?.getModel();
+    if (!monaco || !model) return;
+    if (!executionError || !errorRange || viewMode !== 'edit') {
+      monaco.editor.setModelMarkers(model, ERROR_MARKER_OWNER, []);
+      return;
+    }
+    const start = model.getPositionAt(errorRange.start);
+    const end = model.getPositionAt(errorRange.end);
+    monaco.editor.setModelMarkers(model, ERROR_MARKER_OWNER, [{
+      severity: monaco.MarkerSeverity.Error,
+      message: executionError.hint ? `${executionError.message}\nDica: ${executionError.hint}` : executionError.message,
+      code: executionError.code,
+      source: 'PostgreSQL',
+      startLineNumber: start.lineNumber, startColumn: start.column,
+      endLineNumber: end.lineNumber, endColumn: end.column
+    }]);
+  }, [monaco, executionError, errorRange, viewMode, editorMountId]);
+
+  useEffect(() => {
+    setConstraintInfo(null);
+    if (!executionError?.constraint || !credentials || credentials.host === 'simulated') return;
+    let cancelled = false;
+    fetchConstraintInfo(credentials, executionError.constraint, executionError.schema, executionError.table)
+      .then(info => { if (!cancelled) setConstraintInfo(info); })
+      .catch(() => { /* Índice único sem constraint: o painel usa só os campos do erro */ });
+    return () => { cancelled = true; };
+  }, [executionError?.constraint, executionError?.schema, executionError?.table, credentials]);
+
+  // Correção sugerida para tabela/coluna inexistente no erro da execução
+  useEffect(() => {
+    setErrorFix(null);
+    if (!executionError || !schema) return;
+    let cancelled = false;
+    fixSqlError(executionError.sql, executionError.message, schema)
+      .then(fixed => { if (!cancelled && fixed !== executionError.sql) setErrorFix(fixed); });
+    return () => { cancelled = true; };
+  }, [executionError, schema]);
+
+  // Validação local (schema) após uma pausa na digitação; não toca no banco
+  useEffect(() => {
+    if (validationDisabled || !editedSql.trim()) {
+      setValidation(null);
+      return;
+    }
+    const timer = setTimeout(() => setValidation({ sql: editedSql, result: validateSqlOffline(editedSql, schema) }), VALIDATION_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [editedSql, schema, validationDisabled]);
+
+  const canCheckOnServer = !!credentials && credentials.host !== 'simulated';
+
+  // PREPARE na conexão real só quando pedido: cada chamada ocupa uma conexão do pool
+  const handleServerCheck = async () => {
+    const sql = editedSql;
+    if (!sql.trim() || !canCheckOnServer) return;
+    setIsCheckingSql(true);
+    try {
+      const result = await validateSqlQuery(sql, schema, credentials);
+      setValidation(current => current && current.sql !== sql ? current : { sql, result });
+    } finally {
+      setIsCheckingSql(false);
+    }
+  };
+
+  const currentValidation = validation && validation.sql === editedSql ? validation.result : null;
+
+  useEffect(() => {
+    const model = editorRef.current?.getModel();
+    if (!monaco || !model) return;
+    const issues = viewMode === 'edit' ? currentValidation?.issues || [] : [];
+    monaco.editor.setModelMarkers(model, VALIDATION_MARKER_OWNER, issues.map(issue => {
+      const start = model.getPositionAt(issue.start);
+      const end = model.getPositionAt(Math.max(issue.end, issue.start + 1));
+      return {
+        severity: issue.severity === 'error' ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
+        message: issue.message,
+        code: issue.code,
+        source: issue.source === 'server' ? 'PostgreSQL (PREPARE)' : 'Validação local',
+        startLineNumber: start.lineNumber, startColumn: start.column,
+        endLineNumber: end.lineNumber, endColumn: end.column
+      };
+    }));
+  }, [monaco, currentValidation, viewMode, editorMountId]);
+
+  const errorLocation = useMemo(() => {
+    if (!errorRange) return null;
+    const before = editedSql.slice(0, errorRange.start).split('\n');
+    return { lineNumber: before.length, column: before[before.length - 1].length + 1 };
+  }, [errorRange, editedSql]);
+
+  const handleRevealError = () => {
+    const editor = editorRef.current;
+    if (!editor || !errorLocation) return;
+    editor.setPosition(errorLocation);
+    editor.revealPositionInCenter(errorLocation);
+    editor.focus();
+  };
 
   useEffect(() => {
     if (queryResult.sql !== lastSourceSqlRef.current) {
       setEditedSql(queryResult.sql || '');
       lastSourceSqlRef.current = queryResult.sql;
+      if (queryResult.paramValues) setParamValues(queryResult.paramValues);
       setIsSafetyUnlocked(false);
       setDryRunResult(null);
     }
@@ -199,7 +496,7 @@ const PreviewStep: React.FC<PreviewStepProps> = ({ queryResult, onExecute, onBac
 
   const handleFinalConfirm = () => {
      setShowDryRunConfirm(false);
-     onExecute(editedSql);
+     onExecute(editedSql, paramScan.mode === 'none' ? undefined : paramValues);
   };
 
   const handleCopy = () => {
@@ -210,14 +507,10 @@ const PreviewStep: React.FC<PreviewStepProps> = ({ queryResult, onExecute, onBac
   };
 
   const handleBeautify = () => {
-     let sql = editedSql.replace(/\s+/g, ' ').trim();
-     const keywords = ['SELECT', 'FROM', 'WHERE', 'LEFT JOIN', 'RIGHT JOIN', 'INNER JOIN', 'JOIN', 'GROUP BY', 'ORDER BY', 'LIMIT', 'HAVING'];
-     keywords.forEach(kw => {
-        const regex = new RegExp(`\\b${kw}\\b`, 'gi');
-        sql = sql.replace(regex, `\n${kw}`);
-     });
-     sql = sql.replace(/,/g, ',\n  ');
-     setEditedSql(sql.trim());
+     // Pelo editor a formatação entra no histórico de desfazer (Ctrl+Z)
+     const action = viewMode === 'edit' ? editorRef.current?.getAction('editor.action.formatDocument') : null;
+     if (action) action.run();
+     else setEditedSql(formatSql(editedSql, formatStyle));
   };
 
   const handleAnalyzePerformance = async () => {
@@ -234,7 +527,8 @@ const PreviewStep: React.FC<PreviewStepProps> = ({ queryResult, onExecute, onBac
      }
   };
 
-  const isValid = queryResult.validation?.isValid ?? true;
+  const isValid = currentValidation?.isValid ?? true;
+  const validationIssues = currentValidation?.issues || [];
   const hasChanges = editedSql.trim() !== (queryResult.sql || '').trim();
 
   const commonOptions = useMemo(() => ({
@@ -419,11 +713,40 @@ const PreviewStep: React.FC<PreviewStepProps> = ({ queryResult, onExecute, onBac
              {viewMode === 'diff' ? (
                 <DiffEditor height="100%" theme="vs-dark" original={queryResult.sql || ''} modified={editedSql || ''} options={{ ...commonOptions, minimap: { enabled: false }, readOnly: true }} />
              ) : (
-                <Editor height="100%" defaultLanguage="sql" theme="vs-dark" value={editedSql} onChange={(v) => setEditedSql(v || '')} options={commonOptions} />
+                <Editor height="100%" defaultLanguage="sql" theme="vs-dark" value={editedSql} onChange={(v) => setEditedSql(v || '')} options={commonOptions} onMount={(editor) => { editorRef.current = editor; setEditorMountId(id => id + 1); }} />
              )}
            </div>
         </div>
 
+        {paramScan.mode !== 'none' && (
+           <div className="bg-white dark:bg-slate-800 p-4 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm shrink-0">
+              <div className="flex items-center gap-2 mb-3">
+                 <Variable className="w-4 h-4 text-cyan-500" />
+                 <h4 className="font-bold text-slate-700 dark:text-slate-300 text-sm uppercase tracking-wider">Parâmetros ({paramScan.names.length})</h4>
+                 <span className="text-[10px] text-slate-400">Enviados como binds ($1..$n), sem concatenar no SQL</span>
+              </div>
+              {paramScan.error ? (
+                 <p className="text-xs text-red-600 dark:text-red-400">{paramScan.error}</p>
+              ) : (
+                 <QueryParamsForm names={paramScan.names} values={paramValues} onChange={setParamValues} positional={paramScan.mode === 'positional'} onSubmit={handlePreExecution} />
+              )}
+              {statementCount > 1 && <p className="text-[11px] text-amber-600 dark:text-amber-400 mt-2">Consultas com parâmetros precisam ter um único comando.</p>}
+           </div>
+        )}
+
+        {executionError && (
+           <ExecutionErrorPanel
+              error={executionError}
+              isStale={executionError.sql !== editedSql}
+              location={errorLocation}
+              constraintInfo={constraintInfo}
+              onReveal={handleRevealError}
+              onDismiss={onDismissError}
+              onFocusSchema={onFocusSchema}
+              onApplyFix={errorFix ? () => setEditedSql(errorFix) : undefined}
+           />
+        )}
+
         {safetyError ? (
            <div className={`rounded-xl border overflow-hidden transition-all shrink-0 animate-pulse ${safetyError.type === 'BLOCK' ? 'bg-red-950/40 border-red-500' : 'bg-rose-950/40 border-rose-500'}`}>
               <div className="p-4 flex items-center justify-between gap-4">
@@ -448,10 +771,29 @@ const PreviewStep: React.FC<PreviewStepProps> = ({ queryResult, onExecute, onBac
            <div className={`rounded-xl border overflow-hidden transition-all shrink-0 ${isValidating || isDryRunning ? 'bg-indigo-50 border-indigo-100 dark:bg-indigo-900/20' : isValid ? 'bg-emerald-50 border-emerald-200 dark:bg-emerald-900/20' : 'bg-red-50 border-red-200 dark:bg-red-900/10'}`}>
              <div className="p-4 flex items-start gap-3">
                 {isValidating || isDryRunning ? <Loader2 className="w-5 h-5 text-indigo-600 animate-spin" /> : isValid ? <CheckCircle2 className="w-5 h-5 text-emerald-600" /> : <ShieldAlert className="w-5 h-5 text-red-600" />}
-                <div className="flex-1">
-                   <h4 className={`font-bold text-sm ${isValidating || isDryRunning ? 'text-indigo-800 dark:text-indigo-200' : isValid ? 'text-emerald-800 dark:text-emerald-200' : 'text-red-800 dark:text-red-200'}`}>
-                   {isDryRunning ? 'Analisando impacto real...' : isValidating ? 'Validando Sintaxe...' : isValid ? 'Sintaxe Validada' : 'Erro Detectado'}
+                <div className="flex-1 min-w-0">
+                   <h4 className={`font-bold text-sm flex items-center gap-2 ${isValidating || isDryRunning ? 'text-indigo-800 dark:text-indigo-200' : isValid ? 'text-emerald-800 dark:text-emerald-200' : 'text-red-800 dark:text-red-200'}`}>
+                   {isDryRunning ? 'Analisando impacto real...' : isValidating ? 'Validando Sintaxe...' : validationDisabled && !currentValidation ? 'Validação desativada' : isValid ? 'Sintaxe Validada' : 'Erro Detectado'}
+                   {isCheckingSql && <Loader2 className="w-3.5 h-3.5 animate-spin opacity-60" />}
+                   {currentValidation?.serverChecked && <span className="text-[10px] font-medium opacity-70">(conferido com PREPARE no servidor)</span>}
+                   {canCheckOnServer && !currentValidation?.serverChecked && !isCheckingSql && !isDryRunning && editedSql.trim() && (
+                      <button onClick={handleServerCheck} title="Roda PREPARE de cada comando numa transação desfeita na conexão real" className="ml-auto text-[10px] font-bold uppercase tracking-widest text-indigo-600 dark:text-indigo-400 hover:underline flex items-center gap-1"><DatabaseZap className="w-3 h-3" /> Conferir no servidor</button>
+                   )}
                    </h4>
+                   {validationIssues.length > 0 && (
+                      <ul className="mt-2 space-y-1">
+                         {validationIssues.slice(0, 5).map((issue, i) => (
+                            <li key={i} className={`text-xs flex items-start gap-1.5 ${issue.severity === 'error' ? 'text-red-700 dark:text-red-300' : 'text-amber-700 dark:text-amber-300'}`}>
+                               {issue.severity === 'error' ? <XCircle className="w-3.5 h-3.5 shrink-0 mt-0.5" /> : <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-0.5" />}
+                               <span className="break-words">{issue.message}</span>
+                            </li>
+                         ))}
+                         {validationIssues.length > 5 && <li className="text-[10px] text-slate-400">+{validationIssues.length - 5} outros problemas</li>}
+                      </ul>
+                   )}
+                   {currentValidation?.correctedSql && (
+                      <button onClick={() => setEditedSql(currentValidation.correctedSql!)} className="mt-2 text-xs font-bold text-indigo-600 dark:text-indigo-400 hover:underline flex items-center gap-1"><Wand2 className="w-3.5 h-3.5" /> Aplicar sugestões</button>
+                   )}
                 </div>
              </div>
            </div>
@@ -464,6 +806,43 @@ const PreviewStep: React.FC<PreviewStepProps> = ({ queryResult, onExecute, onBac
 
         <div className="flex items-center justify-between pt-4 pb-10 shrink-0">
            <button onClick={onBack} className="px-6 py-3 text-slate-600 dark:text-slate-400 font-semibold hover:bg-slate-100 dark:hover:bg-slate-800 rounded-xl transition-colors flex items-center gap-2"><ArrowLeft className="w-4 h-4" /> Voltar</button>
+           <div className="flex items-center gap-3">
+           {statementCount > 1 && onScriptErrorModeChange && (
+              <label className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-slate-400" title="Cada comando do script gera uma aba de resultado">
+                 <ListOrdered className="w-3.5 h-3.5" /> Script ({statementCount})
+                 <select
+                    value={scriptErrorMode}
+                    onChange={e => onScriptErrorModeChange(e.target.value as ScriptErrorMode)}
+                    disabled={isExecuting}
+                    className="px-2 py-1.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-xs font-bold text-slate-600 dark:text-slate-300 outline-none focus:ring-2 focus:ring-indigo-500 normal-case tracking-normal"
+                 >
+                    <option value="stop">Parar no erro</option>
+                    <option value="continue">Continuar após erro</option>
+                 </select>
+              </label>
+           )}
+           {onStatementTimeoutChange && (
+              <label className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-slate-400" title="statement_timeout aplicado na sessão desta aba">
+                 <Timer className="w-3.5 h-3.5" /> Timeout
+                 <select
+                    value={statementTimeoutMs}
+                    onChange={e => onStatementTimeoutChange(Number(e.target.value))}
+                    disabled={isExecuting}
+                    className="px-2 py-1.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-xs font-bold text-slate-600 dark:text-slate-300 outline-none focus:ring-2 focus:ring-indigo-500 normal-case tracking-normal"
+                 >
+                    {STATEMENT_TIMEOUT_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                 </select>
+              </label>
+           )}
+           {isExecuting && onCancel && (
+              <button
+                 onClick={handleCancel}
+                 disabled={isCancelling}
+                 className="px-5 py-3 rounded-xl font-bold border border-rose-200 dark:border-rose-800 text-rose-600 dark:text-rose-400 bg-rose-50 dark:bg-rose-900/20 hover:bg-rose-100 dark:hover:bg-rose-900/40 transition-all flex items-center gap-2 disabled:opacity-50"
+              >
+                 {isCancelling ? <Loader2 className="w-4 h-4 animate-spin" /> : <Square className="w-4 h-4 fill-current" />} Cancelar
+              </button>
+           )}
            <button 
               onClick={handlePreExecution} 
               disabled={isExecuting || isValidating || isDryRunning || !editedSql.trim() || (!!safetyError && safetyError.type === 'BLOCK') || (!!safetyError && !isSafetyUnlocked)} 
@@ -474,6 +853,7 @@ const PreviewStep: React.FC<PreviewStepProps> = ({ queryResult, onExecute, onBac
               {isExecuting ? 'Executando...' : isDryRunning ? 'Simulando...' : isDml ? 'Analisar e Executar' : 'Executar Query'} 
               {safetyError ? <Lock className="w-4 h-4" /> : isDml ? <DatabaseZap className="w-4 h-4" /> : <Play className="w-4 h-4 fill-current" />}
            </button>
+           </div>
         </div>
       </div>
     </div>
@@ -1,7 +1,10 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 // Add Terminal to the lucide-react imports to fix 'TerminalIcon' not found error
-import { ArrowLeft, ArrowRight, Database, ChevronLeft, ChevronRight, FileSpreadsheet, Search, Copy, Check, BarChart2, MessageSquare, Download, Activity, LayoutGrid, FileText, Info, FileJson, FileCode, Hash, Filter, Plus, X, Trash2, Clock, Maximize2, Minimize2, ExternalLink, Braces, PenTool, Save, Eye, Anchor, Link as LinkIcon, Loader2, Layers, AlertTriangle, Undo2, ShieldAlert, Pencil, ArrowUp, ArrowDown, ArrowUpDown, History, RotateCcw, FileWarning, Gauge, Settings, EyeOff, GripVertical, Terminal } from 'lucide-react';
-import { AppSettings, ExplainNode, DatabaseSchema, DbCredentials, ResultTab, FilterRule, TabResultsState } from '../../types';
+import { ArrowLeft, ArrowRight, Database, ChevronLeft, ChevronRight, FileSpreadsheet, Search, Copy, Check, BarChart2, MessageSquare, Download, Activity, LayoutGrid, FileText, Info, FileJson, FileCode, Hash, Filter, Plus, X, Trash2, Clock, Maximize2, Minimize2, ExternalLink, Braces, PenTool, Save, Eye, Anchor, Link as LinkIcon, Loader2, Layers, AlertTriangle, Undo2, ShieldAlert, Pencil, ArrowUp, ArrowDown, ArrowUpDown, History, RotateCcw, FileWarning, Gauge, Settings, EyeOff, GripVertical, Terminal, ChevronsDown, Key, CheckCircle2, XCircle, MinusCircle, ListOrdered } from 'lucide-react';
+import { AppSettings, ExplainNode, DatabaseSchema, DbCredentials, ResultTab, FilterRule, TabResultsState, TransactionState, ResultPagination, ResultField, ScriptStatementResult, ServerNotice } from '../../types';
+import { formatCommandTag } from '../../services/sqlScriptService';
+import { buildFieldMap, getColumnKind, compareTypedValues, formatTypedValue, toSqlLiteral, getEditorInputType } from '../../services/pgTypeService';
+import { isSensitiveColumn } from '../../services/maskingService';
 import DataVisualizer from '../DataVisualizer';
 import DataAnalysisChat from '../DataAnalysisChat';
 import CodeSnippetModal from '../CodeSnippetModal';
@@ -41,6 +44,15 @@ interface ResultsStepProps {
   schema?: DatabaseSchema;
   resultsState: TabResultsState;
   onResultsStateChange: (partial: Partial<TabResultsState>) => void;
+  sessionId?: string;
+  transaction?: TransactionState;
+  onSessionWrite?: () => void;
+  pagination?: ResultPagination;
+  onFetchNextPage?: () => Promise<void>;
+  fields?: ResultField[];
+  scriptResults?: ScriptStatementResult[];
+  onSelectStatement?: (index: number) => void;
+  notices?: ServerNotice[];
 }
 
 const SmartFilterBar: React.FC<{
@@ -128,6 +140,7 @@ const AnsiTerminal: React.FC<{ text: string }> = ({ text }) => {
                case "33": currentColor = "text-amber-400"; break;
                case "34": currentColor = "text-blue-400"; break;
                case "36": currentColor = "text-cyan-400"; break;
+               case "90": currentColor = "text-slate-500"; break;
                case "0": currentColor = ""; break;
             }
             return null;
@@ -297,9 +310,10 @@ interface VirtualTableProps {
    credentials?: any;
    pendingEdits?: Record<string, string>;
    settings?: AppSettings;
+   fieldMap?: Record<string, ResultField>;
 }
 
-const VirtualTable = ({ data, columns, highlightMatch, onRowClick, isAdvancedMode, onUpdateCell, onOpenJson, onDrillDown, schema, credentials, pendingEdits = {}, settings }: VirtualTableProps) => {
+const VirtualTable = ({ data, columns, highlightMatch, onRowClick, isAdvancedMode, onUpdateCell, onOpenJson, onDrillDown, schema, credentials, pendingEdits = {}, settings, fieldMap = {} }: VirtualTableProps) => {
    const [currentPage, setCurrentPage] = useState(1);
    const [rowsPerPage, setRowsPerPage] = useState(25);
    const [activeProfileCol, setActiveProfileCol] = useState<string | null>(null);
@@ -377,7 +391,7 @@ const VirtualTable = ({ data, columns, highlightMatch, onRowClick, isAdvancedMod
 
    const handleSaveManualLinks = (colName: string, links: ManualLink[]) => { const newMappings = { ...manualMappings }; if (links.length === 0) { delete newMappings[colName]; } else { newMappings[colName] = links; } setManualMappings(newMappings); localStorage.setItem('psql-buddy-manual-drilldown-links-v2', JSON.stringify(newMappings)); };
    const handleSort = (col: string) => { setSortConfig(prev => { if (prev.key === col) { if (prev.direction === 'asc') return { key: col, direction: 'desc' }; return { key: '', direction: null }; } return { key: col, direction: 'asc' }; }); setCurrentPage(1); };
-   const sortedData = useMemo(() => { if (!sortConfig.key || !sortConfig.direction) return data; return [...data].sort((a, b) => { const aVal = a[sortConfig.key]; const bVal = b[sortConfig.key]; if (aVal === bVal) return 0; if (aVal === null || aVal === undefined) return 1; if (bVal === null || bVal === undefined) return -1; let comparison = 0; if (typeof aVal === 'number' && typeof bVal === 'number') { comparison = aVal - bVal; } else if (typeof aVal === 'boolean' && typeof bVal === 'boolean') { comparison = aVal === bVal ? 0 : aVal ? 1 : -1; } else { comparison = String(aVal).localeCompare(String(bVal), undefined, { numeric: true, sensitivity: 'base' }); } return sortConfig.direction === 'asc' ? comparison : -comparison; }); }, [data, sortConfig]);
+   const sortedData = useMemo(() => { if (!sortConfig.key || !sortConfig.direction) return data; return [...data].sort((a, b) => { const aVal = a[sortConfig.key]; const bVal = b[sortConfig.key]; if (aVal === bVal) return 0; if (aVal === null || aVal === undefined) return 1; if (bVal === null || bVal === undefined) return -1; let comparison = 0; const field = fieldMap[sortConfig.key]; if (field) { comparison = compareTypedValues(aVal, bVal, getColumnKind(field)); } else if (typeof aVal === 'number' && typeof bVal === 'number') { comparison = aVal - bVal; } else if (typeof aVal === 'boolean' && typeof bVal === 'boolean') { comparison = aVal === bVal ? 0 : aVal ? 1 : -1; } else { comparison = String(aVal).localeCompare(String(bVal), undefined, { numeric: true, sensitivity: 'base' }); } return sortConfig.direction === 'asc' ? comparison : -comparison; }); }, [data, sortConfig, fieldMap]);
    const totalRows = sortedData.length;
    const totalPages = Math.ceil(totalRows / Math.max(rowsPerPage, 1));
    const startIndex = (currentPage - 1) * rowsPerPage;
@@ -403,7 +417,6 @@ const VirtualTable = ({ data, columns, highlightMatch, onRowClick, isAdvancedMod
      return links; 
    };
 
-   const SENSITIVE_REGEX = /pass|pwd|token|key|email|cpf|cnpj|fone|phone|cel|card|ccv|secret|document|auth/i;
 
    const handleDragStart = (e: React.DragEvent, index: number) => {
       setDraggedColIndex(index);
@@ -432,18 +445,38 @@ const VirtualTable = ({ data, columns, highlightMatch, onRowClick, isAdvancedMod
       toast.success("Ordem das colunas atualizada.", { id: 'col-reorder', duration: 1000 });
    };
 
+   // Editor inline com widget conforme o tipo real da coluna (quando há metadados do PostgreSQL)
+   const renderCellEditor = (col: string, val: any, displayVal: any, absoluteRowIdx: number, kind: ReturnType<typeof getColumnKind>) => {
+      const commit = (newValue: string) => { if (onUpdateCell && newValue !== String(val ?? '')) { onUpdateCell(absoluteRowIdx, col, newValue); } setEditingCell(null); };
+      const editorClass = "w-full bg-white dark:bg-slate-700 border-2 border-orange-500 rounded px-1 py-0.5 outline-none font-mono text-sm";
+      if (kind === 'boolean') {
+         return (
+            <select autoFocus defaultValue={displayVal === null || displayVal === undefined ? '' : String(displayVal)} className={editorClass} onChange={(e) => commit(e.target.value)} onBlur={() => setEditingCell(null)} onKeyDown={(e) => { if (e.key === 'Escape') setEditingCell(null); }}>
+               <option value="" disabled>—</option>
+               <option value="true">true</option>
+               <option value="false">false</option>
+            </select>
+         );
+      }
+      const inputType = getEditorInputType(kind);
+      let defaultValue = displayVal === null || displayVal === undefined ? '' : formatTypedValue(displayVal, kind);
+      if (inputType === 'datetime-local' && defaultValue) { const d = new Date(defaultValue); if (!isNaN(d.getTime())) defaultValue = new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 19); }
+      return (
+         <input ref={editInputRef} type={inputType} step={inputType === 'number' ? 'any' : inputType === 'datetime-local' ? 1 : undefined} defaultValue={defaultValue} className={editorClass} onBlur={(e) => commit(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); if (e.key === 'Escape') setEditingCell(null); }} />
+      );
+   };
+
    const formatValue = (col: string, val: any, rowIdx: number) => {
       const absoluteRowIdx = startIndex + rowIdx;
       const cellKey = `${absoluteRowIdx}-${col}`;
       const isPending = pendingEdits[cellKey] !== undefined;
       const displayVal = isPending ? pendingEdits[cellKey] : val;
-      const isSensitive = settings?.enableDataMasking && SENSITIVE_REGEX.test(col);
+      const isSensitive = settings?.enableDataMasking && isSensitiveColumn(col);
       const isRevealed = unmaskedCells.has(cellKey);
+      const kind = getColumnKind(fieldMap[col]);
 
       if (isAdvancedMode && editingCell?.rowIdx === absoluteRowIdx && editingCell?.col === col) {
-         return (
-            <input ref={editInputRef} type="text" defaultValue={String(displayVal ?? '')} className="w-full bg-white dark:bg-slate-700 border-2 border-orange-500 rounded px-1 py-0.5 outline-none font-mono text-sm" onBlur={(e) => { if (onUpdateCell && e.target.value !== String(val ?? '')) { onUpdateCell(absoluteRowIdx, col, e.target.value); } setEditingCell(null); }} onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); if (e.key === 'Escape') setEditingCell(null); }} />
-         );
+         return renderCellEditor(col, val, displayVal, absoluteRowIdx, kind);
       }
       if (displayVal === null || displayVal === undefined) { return <span className={`text-[10px] bg-slate-100 dark:bg-slate-800 text-slate-400 px-1.5 py-0.5 rounded font-mono font-bold tracking-tight border ${isPending ? 'border-orange-500 bg-orange-50 dark:bg-orange-900/20' : 'border-slate-200 dark:border-slate-700'}`}>NULL</span>; }
       if (typeof displayVal === 'boolean') { return (<span className={`text-[9px] font-extrabold uppercase px-1.5 py-0.5 rounded border ${displayVal ? 'bg-emerald-100 text-emerald-700 border-emerald-200 dark:bg-emerald-900/30 dark:text-emerald-400 dark:border-emerald-800' : 'bg-rose-100 text-rose-700 border-rose-200 dark:bg-rose-900/30 dark:text-rose-400 dark:border-rose-800'} ${isPending ? 'ring-1 ring-orange-500' : ''}`}>{String(displayVal)}</span>); }
@@ -459,7 +492,7 @@ const VirtualTable = ({ data, columns, highlightMatch, onRowClick, isAdvancedMod
       const links = getLinksForColumn(col);
 
       const renderContent = () => {
-         const sanitizedVal = sanitizeAnsi(String(displayVal));
+         const sanitizedVal = sanitizeAnsi(formatTypedValue(displayVal, kind));
          if (isSensitive && !isRevealed) {
             return (
                <div className="flex items-center gap-2">
@@ -482,7 +515,7 @@ const VirtualTable = ({ data, columns, highlightMatch, onRowClick, isAdvancedMod
             );
          }
          return (
-            <div className="flex items-center gap-2 overflow-hidden">
+            <div className={`flex items-center gap-2 overflow-hidden ${kind === 'number' ? 'justify-end tabular-nums' : ''}`}>
                <span className={`truncate block ${isPending ? 'text-orange-600 dark:text-orange-400 font-bold' : ''}`}>{highlightMatch(sanitizedVal)}</span>
                {isPending && <div className="shrink-0 w-1.5 h-1.5 rounded-full bg-orange-500 animate-pulse" title="Alteração pendente" />}
                {revealToggle}
@@ -532,12 +565,14 @@ const VirtualTable = ({ data, columns, highlightMatch, onRowClick, isAdvancedMod
                                           <GripVertical className="w-3 h-3" />
                                        </div>
                                     )}
+                                    {fieldMap[col]?.isPrimaryKey && <Key className="w-3 h-3 text-amber-500 shrink-0" />}
                                     <span 
                                        className="truncate cursor-pointer hover:underline flex-1" 
-                                       title={col}
+                                       title={fieldMap[col] ? `${col} · ${fieldMap[col].typeName || `OID ${fieldMap[col].dataTypeID}`}${fieldMap[col].tableName ? ` · ${fieldMap[col].tableName}` : ''}` : col}
                                        onClick={() => handleSort(col)}
                                     >
                                        {col.replace(/_/g, ' ')}
+                                       {fieldMap[col]?.typeName && <span className="block text-[9px] font-mono font-medium normal-case text-slate-400 truncate">{fieldMap[col].typeName}</span>}
                                     </span>
                                     <div className="shrink-0 w-4">
                                        {isSorted ? (sortConfig.direction === 'asc' ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />) : (
@@ -613,8 +648,66 @@ const VirtualTable = ({ data, columns, highlightMatch, onRowClick, isAdvancedMod
    );
 };
 
-const ResultsStep: React.FC<ResultsStepProps> = ({ data, sql, onBackToBuilder, onNewConnection, settings, onShowToast, credentials, executionDuration, schema, resultsState, onResultsStateChange }) => {
-  const [localData] = useState(data); 
+const StatementTabs: React.FC<{
+  statements: ScriptStatementResult[];
+  activeIndex: number;
+  onSelect: (index: number) => void;
+}> = ({ statements, activeIndex, onSelect }) => (
+  <div className="flex items-stretch gap-1 overflow-x-auto custom-scrollbar shrink-0 pb-1">
+    <div className="flex items-center gap-1.5 px-2 text-[10px] font-black uppercase tracking-widest text-slate-400 shrink-0"><ListOrdered className="w-3.5 h-3.5" /> Script</div>
+    {statements.map(st => {
+      const isActive = st.index === activeIndex;
+      const statusIcon = st.status === 'success' ? <CheckCircle2 className="w-3.5 h-3.5 text-emerald-500" /> : st.status === 'error' ? <XCircle className="w-3.5 h-3.5 text-rose-500" /> : <MinusCircle className="w-3.5 h-3.5 text-slate-400" />;
+      return (
+        <button key={st.index} onClick={() => onSelect(st.index)} title={st.sql} className={`flex flex-col items-start gap-0.5 px-3 py-1.5 rounded-lg border text-left shrink-0 transition-all ${isActive ? 'bg-indigo-50 border-indigo-300 dark:bg-indigo-900/30 dark:border-indigo-700' : 'bg-white border-slate-200 hover:border-indigo-300 dark:bg-slate-800 dark:border-slate-700'}`}>
+          <span className="flex items-center gap-1.5 text-xs font-bold text-slate-700 dark:text-slate-200">{statusIcon} #{st.index + 1} <span className="font-mono text-[10px] text-slate-500">{st.status === 'skipped' ? 'não executado' : st.status === 'error' ? (st.errorCode || 'ERRO') : formatCommandTag(st.command, st.rowCount)}</span></span>
+          <span className="flex items-center gap-2 text-[10px] text-slate-400">
+            <span className="flex items-center gap-0.5"><Clock className="w-2.5 h-2.5" /> {st.durationMs}ms</span>
+            {st.fields.length > 0 && <span>{st.rows.length} linhas{st.truncated ? '+' : ''}</span>}
+            {st.notices.length > 0 && <span className="flex items-center gap-0.5 text-amber-500"><MessageSquare className="w-2.5 h-2.5" /> {st.notices.length}</span>}
+          </span>
+        </button>
+      );
+    })}
+  </div>
+);
+
+const NOTICE_COLORS: Record<string, string> = { WARNING: "\x1b[33m", NOTICE: "\x1b[36m", INFO: "\x1b[32m", LOG: "\x1b[34m", DEBUG: "\x1b[90m" };
+
+/** Mensagens do servidor no estilo do psql, coloridas por severidade. */
+const formatNoticesAnsi = (notices: ServerNotice[]): string => {
+  if (notices.length === 0) return "";
+  const reset = "\x1b[0m"; const gray = "\x1b[90m";
+  const lines = [`${gray}── ${notices.length} mensagem(ns) do servidor ──${reset}`];
+  notices.forEach(n => {
+    const color = NOTICE_COLORS[n.severity] || "\x1b[31m";
+    lines.push(`${color}${n.severity}${reset}${n.code ? `${gray} [${n.code}]${reset}` : ''}: ${sanitizeAnsi(n.message)}`);
+    if (n.detail) lines.push(`  ${gray}DETALHE:${reset} ${sanitizeAnsi(n.detail)}`);
+    if (n.hint) lines.push(`  ${gray}DICA:${reset} ${sanitizeAnsi(n.hint)}`);
+    if (n.context) sanitizeAnsi(n.context).split('\n').forEach((ctx, i) => lines.push(`  ${gray}${i === 0 ? 'CONTEXTO: ' : '          '}${ctx}${reset}`));
+    if (n.position) lines.push(`  ${gray}POSIÇÃO:${reset} caractere ${n.position}`);
+  });
+  return lines.join("\n");
+};
+
+const StatementSummary: React.FC<{ statement: ScriptStatementResult }> = ({ statement }) => (
+  <div className="flex-1 flex flex-col items-center justify-center gap-3 p-8 text-center">
+    {statement.status === 'error' ? <XCircle className="w-10 h-10 text-rose-500 opacity-70" /> : statement.status === 'skipped' ? <MinusCircle className="w-10 h-10 text-slate-400 opacity-50" /> : <CheckCircle2 className="w-10 h-10 text-emerald-500 opacity-70" />}
+    <p className="font-mono text-sm font-bold text-slate-700 dark:text-slate-200">{statement.status === 'error' ? statement.error : statement.status === 'skipped' ? 'Comando não executado (script interrompido antes dele).' : formatCommandTag(statement.command, statement.rowCount)}</p>
+    <pre className="max-w-2xl max-h-40 overflow-auto custom-scrollbar text-[11px] font-mono text-slate-500 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg p-3 text-left whitespace-pre-wrap">{statement.sql}</pre>
+    {statement.notices.length > 0 && <div className="w-full max-w-4xl text-left"><AnsiTerminal text={formatNoticesAnsi(statement.notices)} /></div>}
+  </div>
+);
+
+const ResultsStep: React.FC<ResultsStepProps> = ({ data, sql, onBackToBuilder, onNewConnection, settings, onShowToast, credentials, executionDuration, schema, resultsState, onResultsStateChange, sessionId, transaction, onSessionWrite, pagination, onFetchNextPage, fields, scriptResults, onSelectStatement, notices }) => {
+  const activeStatementIndex = resultsState.activeStatement ?? 0;
+  const activeStatement = scriptResults?.[activeStatementIndex];
+  const fieldMap = useMemo(() => buildFieldMap(fields), [fields]);
+  // Com uma transação aberta na aba, as edições entram nela e só persistem no Commit
+  const inTransaction = !!sessionId && transaction?.status === 'active';
+  // Com paginação por cursor, novas páginas chegam anexadas em `data`
+  const localData = data; 
+  const [isFetchingPage, setIsFetchingPage] = useState(false);
   const columns = useMemo(() => (localData.length > 0 ? Object.keys(localData[0]) : []), [localData]);
   
   const { activeTab, filters, search: localSearch } = resultsState;
@@ -636,10 +729,12 @@ const ResultsStep: React.FC<ResultsStepProps> = ({ data, sql, onBackToBuilder, o
   const [userSelectedPk, setUserSelectedPk] = useState<string>('');
   const [reviewTab, setReviewTab] = useState<'audit' | 'script' | 'rollback'>('audit');
   
-  const mainTableName = useMemo(() => { const fromMatch = sql.match(/FROM\s+([a-zA-Z0-9_."]+)/i); if (fromMatch) return fromMatch[1].replace(/"/g, ''); return null; }, [sql]);
-  const bestPkColumn = useMemo(() => { if (!columns || columns.length === 0) return ''; if (mainTableName && schema) { const tableParts = mainTableName.split('.'); const sName = tableParts.length > 1 ? tableParts[0] : 'public'; const tName = tableParts.length > 1 ? tableParts[1] : tableParts[0]; const tableObj = schema.tables.find(t => t.name.toLowerCase() === tName.toLowerCase() && (t.schema || 'public').toLowerCase() === sName.toLowerCase()); const schemaPk = tableObj?.columns.find(c => c.isPrimaryKey)?.name; if (schemaPk && columns.includes(schemaPk)) return schemaPk; } const priorities = ['grid', 'gfid', 'id']; for (const p of priorities) { if (columns.includes(p)) return p; } return ''; }, [mainTableName, schema, columns]);
+  const mainTableName = useMemo(() => { const pkField = fields?.find(f => f.isPrimaryKey && f.tableName); if (pkField) return pkField.tableName; const fromMatch = sql.match(/FROM\s+([a-zA-Z0-9_."]+)/i); if (fromMatch) return fromMatch[1].replace(/"/g, ''); return null; }, [sql, fields]);
+  const bestPkColumn = useMemo(() => { if (!columns || columns.length === 0) return ''; const typedPk = fields?.find(f => f.isPrimaryKey && f.tableName === mainTableName && columns.includes(f.name))?.name; if (typedPk) return typedPk; if (mainTableName && schema) { const tableParts = mainTableName.split('.'); const sName = tableParts.length > 1 ? tableParts[0] : 'public'; const tName = tableParts.length > 1 ? tableParts[1] : tableParts[0]; const tableObj = schema.tables.find(t => t.name.toLowerCase() === tName.toLowerCase() && (t.schema || 'public').toLowerCase() === sName.toLowerCase()); const schemaPk = tableObj?.columns.find(c => c.isPrimaryKey)?.name; if (schemaPk && columns.includes(schemaPk)) return schemaPk; } const priorities = ['grid', 'gfid', 'id']; for (const p of priorities) { if (columns.includes(p)) return p; } return ''; }, [mainTableName, schema, columns, fields]);
   const finalPkColumn = userSelectedPk || bestPkColumn;
   
+  // Em scripts, cada comando tem seu próprio conjunto de linhas: edições e plano não se transferem
+  useEffect(() => { setPendingEdits({}); setExplainPlan(null); setUserSelectedPk(''); }, [activeStatementIndex]);
   useEffect(() => { if (data) addToHistory({ sql, rowCount: data.length, durationMs: executionDuration || 0, status: 'success', schemaName: 'Database' }); }, []);
   
   const filteredData = React.useMemo(() => { let res = localData || []; if (filters.length > 0) { res = res.filter(row => filters.every(f => { const val = row[f.column]; const strVal = String(val || '').toLowerCase(); const filterVal = (f.value || '').toLowerCase(); if (f.value === '') return true; switch(f.operator) { case 'contains': return strVal.includes(filterVal); case 'equals': return strVal === filterVal; case 'starts': return strVal.startsWith(filterVal); case 'ends': return strVal.endsWith(filterVal); case 'gt': return Number(val) > Number(f.value); case 'lt': return Number(val) < Number(f.value); default: return true; } })); } if (localSearch) res = res.filter(row => Object.values(row).some(val => String(val || '').toLowerCase().includes(localSearch.toLowerCase()))); return res; }, [localData, filters, localSearch]);
@@ -669,8 +764,11 @@ const ResultsStep: React.FC<ResultsStepProps> = ({ data, sql, onBackToBuilder, o
      return out; 
   }, [filteredData]);
 
+  const effectiveNotices = activeStatement ? activeStatement.notices : (notices || []);
+  const noticesAnsi = useMemo(() => formatNoticesAnsi(effectiveNotices), [effectiveNotices]);
+
   const highlightMatch = (text: string) => { const term = localSearch || filters.find(f => f.operator === 'contains')?.value || ''; if (!term) return text; const escapedSearch = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'); const parts = text.split(new RegExp(`(${escapedSearch})`, 'gi')); return <>{parts.map((part, i) => part.toLowerCase() === term.toLowerCase() ? <span key={i} className="bg-yellow-200/20 text-slate-900 dark:white font-semibold rounded px-0.5">{part}</span> : part)}</>; };
-  const handleUpdateCell = (rowIdx: number, colKey: string, newValue: string) => { if (!settings.advancedMode) return; const editKey = `${rowIdx}-${colKey}`; setPendingEdits(prev => ({ ...prev, [editKey]: newValue })); };
+  const handleUpdateCell = (rowIdx: number, colKey: string, newValue: string) => { if (!settings.advancedMode) return; const field = fieldMap[colKey]; if (field && fields?.some(f => f.tableName === mainTableName) && field.tableName !== mainTableName) { toast.error(field.tableName ? `"${colKey}" pertence a ${field.tableName}, não a ${mainTableName}.` : `"${colKey}" é uma expressão calculada e não pode ser editada.`); return; } const editKey = `${rowIdx}-${colKey}`; setPendingEdits(prev => ({ ...prev, [editKey]: newValue })); };
   
   const auditLog = useMemo(() => { 
      const logs: Array<{ rowIdx: number, col: string, oldVal: any, newVal: string, pkVal: any }> = []; 
@@ -686,7 +784,7 @@ const ResultsStep: React.FC<ResultsStepProps> = ({ data, sql, onBackToBuilder, o
   const sqlStatementsPreview = useMemo(() => { 
      if (Object.keys(pendingEdits).length === 0 || !finalPkColumn) return ""; 
      const tableName = mainTableName || "table_name"; 
-     let lines = ["BEGIN; -- Início da transação de auditoria"]; 
+     let lines = inTransaction ? ["-- Executado na transação aberta da aba (pendente de COMMIT)"] : ["BEGIN; -- Início da transação de auditoria"]; 
      const editsByRow: Record<number, Record<string, string>> = {}; 
      (Object.entries(pendingEdits) as Array<[string, string]>).forEach(([key, val]) => { 
         const [rowIdx] = key.split('-').map(Number); 
@@ -699,13 +797,13 @@ const ResultsStep: React.FC<ResultsStepProps> = ({ data, sql, onBackToBuilder, o
         const row = localData[rowIdx]; 
         const pkVal = row[finalPkColumn]; 
         if (pkVal === undefined || pkVal === null) continue; 
-        const setClause = (Object.entries(cols) as Array<[string, string]>).map(([col, val]) => `"${col}" = '${val.replace(/'/g, "''")}'`).join(', '); 
-        const formattedPkVal = typeof pkVal === 'string' ? `'${pkVal.replace(/'/g, "''")}'` : pkVal; 
+        const setClause = (Object.entries(cols) as Array<[string, string]>).map(([col, val]) => `"${col}" = ${toSqlLiteral(val, fieldMap[col])}`).join(', '); 
+        const formattedPkVal = toSqlLiteral(pkVal, fieldMap[finalPkColumn]); 
         lines.push(`UPDATE ${tableName} SET ${setClause} WHERE "${finalPkColumn}" = ${formattedPkVal};`); 
      } 
-     lines.push("COMMIT; -- Persistência definitiva"); 
+     if (!inTransaction) lines.push("COMMIT; -- Persistência definitiva"); 
      return lines.join('\n'); 
-  }, [pendingEdits, localData, mainTableName, finalPkColumn]);
+  }, [pendingEdits, localData, mainTableName, finalPkColumn, inTransaction, fieldMap]);
 
   const rollbackStatements = useMemo(() => { 
      if (Object.keys(pendingEdits).length === 0 || !finalPkColumn) return ""; 
@@ -725,22 +823,22 @@ const ResultsStep: React.FC<ResultsStepProps> = ({ data, sql, onBackToBuilder, o
         if (pkVal === undefined || pkVal === null) continue; 
         const rollbackClauses = Object.keys(cols).map(col => { 
            const originalVal = row[col]; 
-           const formattedVal = originalVal === null ? 'NULL' : `'${String(originalVal).replace(/'/g, "''")}'`; 
-           return `"${col}" = ${formattedVal}`; 
+           return `"${col}" = ${toSqlLiteral(originalVal, fieldMap[col])}`; 
         }).join(', '); 
-        const formattedPkVal = typeof pkVal === 'string' ? `'${pkVal.replace(/'/g, "''")}'` : pkVal; 
+        const formattedPkVal = toSqlLiteral(pkVal, fieldMap[finalPkColumn]); 
         lines.push(`UPDATE ${tableName} SET ${rollbackClauses} WHERE "${finalPkColumn}" = ${formattedPkVal};`); 
      } 
      lines.push("COMMIT;"); 
      return lines.join('\n'); 
-  }, [pendingEdits, localData, mainTableName, finalPkColumn]);
+  }, [pendingEdits, localData, mainTableName, finalPkColumn, fieldMap]);
 
-  const handleSaveChanges = async () => { if (!credentials || !sqlStatementsPreview) return; setIsSaving(true); try { await executeQueryReal(credentials, sqlStatementsPreview); onShowToast("Transação concluída e alterações salvas.", "success"); setPendingEdits({}); } catch (e: any) { onShowToast(`Erro ao salvar: ${e.message}`, "error"); } finally { setIsSaving(false); setShowConfirmation(false); } };
+  const handleSaveChanges = async () => { if (!credentials || !sqlStatementsPreview) return; setIsSaving(true); try { if (inTransaction) { await executeQueryReal(credentials, sqlStatementsPreview, sessionId); onShowToast("Alterações aplicadas na transação aberta. Use Commit para persistir.", "success"); } else { await executeQueryReal(credentials, sqlStatementsPreview); onShowToast("Transação concluída e alterações salvas.", "success"); } setPendingEdits({}); } catch (e: any) { onShowToast(`Erro ao salvar: ${e.message}`, "error"); } finally { if (inTransaction) onSessionWrite?.(); setIsSaving(false); setShowConfirmation(false); } };
   const handleChartDrillDown = (col: string, val: any) => { if (mainTableName) setDrillDownTarget({ table: mainTableName, col, val }); }; 
-  const handleExportInsert = () => { if (filteredData.length === 0) return; const tableName = mainTableName || "exported_data"; const cols = columns.join(', '); const statements: string = filteredData.map((row: any): string => { const values = columns.map((col: string): string => { const val = row[col]; if (val === null) return 'NULL'; if (typeof val === 'string') return `'${val.replace(/'/g, "''")}'`; return String(val); }).join(', '); return `INSERT INTO ${tableName} (${cols}) VALUES (${values});`; }).join('\n'); navigator.clipboard.writeText(statements); setShowExportMenu(false); onShowToast("SQL INSERTs copiados!", "success"); }; 
-  const handleExportCSV = () => { if (filteredData.length === 0) return; const headers = columns.join(','); const rows: string = filteredData.map((row: any): string => columns.map((col: string): string => { let val = row[col]; if (val === null) return ''; val = String(val).replace(/"/g, '""'); return `"${val}"`; }).join(',')).join('\n'); const csvContent = `${headers}\n${rows}`; const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' }); const url = URL.createObjectURL(blob); const link = document.createElement("a"); link.setAttribute("href", url); link.setAttribute("download", `results_${new Date().getTime()}.csv`); document.body.appendChild(link); link.click(); document.body.removeChild(link); setShowExportMenu(false); onShowToast("CSV exportado!", "success"); };
+  const handleExportInsert = () => { if (filteredData.length === 0) return; const tableName = mainTableName || "exported_data"; const cols = columns.join(', '); const statements: string = filteredData.map((row: any): string => { const values = columns.map((col: string): string => toSqlLiteral(row[col], fieldMap[col])).join(', '); return `INSERT INTO ${tableName} (${cols}) VALUES (${values});`; }).join('\n'); navigator.clipboard.writeText(statements); setShowExportMenu(false); onShowToast("SQL INSERTs copiados!", "success"); }; 
+  const handleExportCSV = () => { if (filteredData.length === 0) return; const headers = columns.join(','); const rows: string = filteredData.map((row: any): string => columns.map((col: string): string => { let val = row[col]; if (val === null) return ''; val = formatTypedValue(val, getColumnKind(fieldMap[col])).replace(/"/g, '""'); return `"${val}"`; }).join(',')).join('\n'); const csvContent = `${headers}\n${rows}`; const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' }); const url = URL.createObjectURL(blob); const link = document.createElement("a"); link.setAttribute("href", url); link.setAttribute("download", `results_${new Date().getTime()}.csv`); document.body.appendChild(link); link.click(); document.body.removeChild(link); setShowExportMenu(false); onShowToast("CSV exportado!", "success"); };
   const handleExplain = async () => { onResultsStateChange({ activeTab: 'explain' }); setExplainError(null); if (!explainPlan && credentials) { setLoadingExplain(true); try { const plan = await explainQueryReal(credentials, sql); setExplainPlan(plan); } catch (e: any) { setExplainError(e.message || "Erro ao analisar performance."); } finally { setTimeout(() => setLoadingExplain(false), 500); } } }; 
   const handleCaptureProfiling = async () => { if (!credentials) return; const loadId = toast.loading("Gerando Query Profiling Snapshot..."); try { const snapshot = await fetchDetailedProfiling(credentials, sql); const existing = JSON.parse(localStorage.getItem('psqlbuddy-profiling-snapshots') || '[]'); localStorage.setItem('psqlbuddy-profiling-snapshots', JSON.stringify([snapshot, ...existing].slice(0, 30))); toast.success("Profiling Snapshot capturado com sucesso!", { id: loadId }); setShowProfilingHistory(true); } catch (e: any) { toast.error(`Falha no profiling: ${e.message}`, { id: loadId }); } };
+  const handleFetchNextPage = async () => { if (!onFetchNextPage || isFetchingPage) return; setIsFetchingPage(true); try { await onFetchNextPage(); } finally { setIsFetchingPage(false); } };
   const toggleFullscreen = () => setIsFullscreen(!isFullscreen);
   const hasPendingEdits = Object.keys(pendingEdits).length > 0;
 
@@ -751,10 +849,12 @@ const ResultsStep: React.FC<ResultsStepProps> = ({ data, sql, onBackToBuilder, o
       {drillDownTarget && (<DrillDownModal targetTable={drillDownTarget.table} filterColumn={drillDownTarget.col} filterValue={drillDownTarget.val} credentials={credentials || null} onClose={() => setDrillDownTarget(null)} schema={schema} allLinks={drillDownTarget.allLinks} settings={settings} />)}
       {showCodeModal && <CodeSnippetModal sql={sql} onClose={() => setShowCodeModal(false)} />}
       {showProfilingHistory && <ProfilingSnapshotModal onClose={() => setShowProfilingHistory(false)} />}
-      {showAdvancedExport && (<AdvancedExportModal data={filteredData} columns={columns} tableName={mainTableName} onClose={() => setShowAdvancedExport(false)} />)}
-      {showConfirmation && (<div className="fixed inset-0 z-[200] bg-slate-900/80 backdrop-blur-sm flex items-center justify-center p-4"><div className="bg-white dark:bg-slate-800 w-full max-w-4xl overflow-hidden animate-in zoom-in-95 flex flex-col max-h-[85vh]"><div className="p-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center bg-slate-50 dark:bg-slate-900/30"><div className="flex items-start gap-3"><div className="p-3 bg-red-100 dark:bg-red-900/30 rounded-2xl"><ShieldAlert className="w-8 h-8 text-red-600" /></div><div><h3 className="text-xl font-black text-slate-800 dark:text-white uppercase tracking-tight">Revisão de Auditoria DML</h3><p className="text-xs text-slate-500 font-bold uppercase tracking-widest">{Object.keys(pendingEdits).length} campos alterados em {mainTableName}</p></div></div><button onClick={() => setShowConfirmation(false)} className="p-2 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-xl transition-all"><X className="w-6 h-6 text-slate-400" /></button></div><div className="flex bg-slate-100 dark:bg-slate-900/50 p-1 mx-6 mt-6 rounded-xl border border-slate-200 dark:border-slate-700 shrink-0"><button onClick={() => setReviewTab('audit')} className={`flex-1 py-2 text-xs font-black uppercase tracking-widest rounded-lg transition-all ${reviewTab === 'audit' ? 'bg-white dark:bg-slate-700 text-indigo-600 shadow-sm' : 'text-slate-50'}`}>Log de Alterações</button><button onClick={() => setReviewTab('script')} className={`flex-1 py-2 text-xs font-black uppercase tracking-widest rounded-lg transition-all ${reviewTab === 'script' ? 'bg-white dark:bg-slate-700 text-indigo-600 shadow-sm' : 'text-slate-50'}`}>Script SQL (Update)</button><button onClick={() => setReviewTab('rollback')} className={`flex-1 py-2 text-xs font-black uppercase tracking-widest rounded-lg transition-all ${reviewTab === 'rollback' ? 'bg-white dark:bg-slate-700 text-amber-600 shadow-sm' : 'text-slate-50'}`}>Rollback (Desfazer)</button></div><div className="flex-1 overflow-y-auto p-6 custom-scrollbar">{reviewTab === 'audit' && (<div className="space-y-4">{!finalPkColumn && (<div className="p-4 bg-amber-50 dark:bg-amber-950/40 rounded-2xl border border-amber-100 dark:border-amber-800 animate-in zoom-in-95"><AlertTriangle className="w-6 h-6 text-amber-600 shrink-0" /><div><h4 className="font-black text-sm text-amber-800 dark:text-amber-200 uppercase tracking-tight mb-1">Selecione o Identificador Único</h4><p className="text-xs text-amber-700 dark:text-amber-300 mb-3">Não detectamos uma chave primária nos resultados. Escolha uma coluna para garantir que o UPDATE altere o registro correto.</p><select value={userSelectedPk} onChange={e => setUserSelectedPk(e.target.value)} className="w-full p-2.5 bg-white dark:bg-slate-800 border border-amber-300 dark:border-amber-700 rounded-xl text-sm outline-none focus:ring-2 focus:ring-amber-500 font-bold"><option value="">-- Escolher Coluna ID --</option>{columns.map(c => <option key={c} value={c}>{c}</option>)}</select></div></div>)}<div className="bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800 rounded-2xl overflow-hidden shadow-sm"><table className="w-full text-left border-collapse"><thead className="bg-slate-50 dark:bg-slate-800 text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] border-b border-slate-100 dark:border-slate-800"><tr><th className="px-4 py-3 border-r border-slate-100 dark:border-slate-800">Campo ({finalPkColumn})</th><th className="px-4 py-3">Original</th><th className="px-4 py-3 w-8 text-center"><ArrowRight className="w-3 h-3 mx-auto" /></th><th className="px-4 py-3">Novo Valor</th></tr></thead><tbody className="text-xs font-mono">{auditLog.map((log, i) => (<tr key={i} className="hover:bg-slate-50 dark:hover:bg-slate-800/40 border-b border-slate-50 last:border-0 dark:border-slate-800"><td className="px-4 py-3 border-r border-slate-100 dark:border-slate-800"><div className="flex flex-col"><span className="font-black text-slate-800 dark:text-slate-200">{log.col}</span><span className="text-[9px] text-slate-400">ID: {log.pkVal ?? '???'}</span></div></td><td className="px-4 py-3 text-rose-500 bg-rose-50/20 dark:bg-rose-900/5 line-through italic opacity-70">{String(log.oldVal ?? 'null')}</td><td className="px-4 py-3 text-center text-slate-300">→</td><td className="px-4 py-3 text-emerald-600 bg-emerald-50/20 dark:bg-emerald-900/10 font-bold">{log.newVal}</td></tr>))}</tbody></table></div></div>)}{reviewTab === 'script' && (<div className="h-full flex flex-col gap-4"><div className="flex-1 bg-slate-950 rounded-2xl p-4 border border-slate-800 shadow-inner relative group"><div className="absolute top-4 right-4 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity"><button onClick={() => { navigator.clipboard.writeText(sqlStatementsPreview); toast.success("Script copiado!"); }} className="p-2 bg-slate-800 text-slate-400 hover:text-white rounded-lg"><Copy className="w-4 h-4" /></button></div><pre className="font-mono text-[11px] text-emerald-400 whitespace-pre-wrap h-full overflow-auto custom-scrollbar leading-relaxed">{sqlStatementsPreview}</pre></div><div className="flex items-center gap-2 text-[10px] text-slate-400 italic"><Info className="w-3 h-3" /> Este script será executado em uma única transação atômica.</div></div>)}{reviewTab === 'rollback' && (<div className="h-full flex flex-col gap-4"><div className="p-4 bg-amber-50 dark:bg-amber-950/40 rounded-2xl border border-amber-100 dark:border-amber-800 animate-in zoom-in-95"><RotateCcw className="w-6 h-6 text-amber-600 shrink-0" /><div><h4 className="text-xs font-black text-amber-800 dark:text-amber-300 uppercase tracking-widest">Plano de Desastre</h4><p className="text-[10px] text-amber-700 dark:text-amber-400 font-medium">Copie este script antes de confirmar o commit para ter uma saída de emergência caso os novos dados causem problemas na aplicação.</p></div></div><div className="flex-1 bg-slate-950 rounded-2xl p-4 border border-slate-800 shadow-inner relative group"><div className="absolute top-4 right-4 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity"><button onClick={() => { navigator.clipboard.writeText(rollbackStatements); toast.success("Rollback copiado!"); }} className="p-2 bg-slate-800 text-slate-400 hover:text-white rounded-lg"><Copy className="w-4 h-4" /></button></div><pre className="font-mono text-[11px] text-emerald-400 whitespace-pre-wrap h-full overflow-auto custom-scrollbar leading-relaxed">{rollbackStatements}</pre></div></div>)}</div><div className="p-6 border-t border-slate-100 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50 flex justify-between items-center gap-4 shrink-0"><div className="flex items-center gap-2 text-rose-600 dark:text-rose-400 bg-rose-50 dark:bg-rose-900/20 px-4 py-2 rounded-xl border border-rose-100 dark:border-rose-900 shadow-sm max-w-md"><FileWarning className="w-5 h-5 shrink-0" /><p className="text-[10px] font-black uppercase leading-tight tracking-tighter">Atenção: A gravação é imediata no banco de dados após o clique em confirmar.</p></div><div className="flex gap-3"><button onClick={() => setShowConfirmation(false)} className="px-6 py-3 bg-white dark:bg-slate-800 text-slate-500 hover:text-slate-700 dark:text-slate-300 border border-slate-200 dark:border-slate-700 rounded-2xl font-black uppercase tracking-widest text-xs transition-all active:scale-95 shadow-sm">Cancelar</button><button onClick={handleSaveChanges} disabled={isSaving || !finalPkColumn} className="px-8 py-3 bg-red-600 hover:bg-red-700 text-white rounded-2xl font-black uppercase tracking-widest text-xs shadow-xl shadow-red-900/20 transition-all active:scale-95 flex items-center justify-center gap-3 disabled:opacity-50">{isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />} Sim, Efetivar Alterações</button></div></div></div></div>)}
-      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 shrink-0"><div className="flex items-center gap-4">{isFullscreen && <button onClick={toggleFullscreen} className="p-2 bg-slate-100 dark:bg-slate-800 rounded-lg hover:bg-slate-200 transition-colors"><Minimize2 className="w-5 h-5 text-slate-600 dark:text-slate-300" /></button>}<div><h2 className="text-xl font-bold text-slate-800 dark:text-white flex items-center gap-3">Resultados<span className="text-xs font-normal text-slate-500 bg-slate-100 dark:bg-slate-800 px-2 py-1 rounded-full border border-slate-200 dark:border-slate-700 shadow-sm">{filteredData.length} registros</span>{settings?.advancedMode && <span className="text-[10px] bg-orange-100 text-orange-700 px-2 py-0.5 rounded font-bold border border-orange-200 flex items-center gap-1"><PenTool className="w-3 h-3" /> Modo Edição</span>}</h2></div></div><div className="flex bg-white dark:bg-slate-800 p-1 rounded-lg border border-slate-200 dark:border-slate-700 shadow-sm overflow-x-auto">{[{ id: 'table', icon: <FileSpreadsheet className="w-4 h-4" />, label: 'Tabela' }, { id: 'terminal', icon: <Terminal className="w-4 h-4" />, label: 'Terminal (ANSI)' }, { id: 'chart', icon: <BarChart2 className="w-4 h-4" />, label: 'Gráficos' }, { id: 'analysis', icon: <MessageSquare className="w-4 h-4" />, label: 'AI Analyst' }, { id: 'explain', icon: <Activity className="w-4 h-4" />, label: 'Performance' }].map(tab => (<button key={tab.id} onClick={() => { if(tab.id === 'explain') handleExplain(); else onResultsStateChange({ activeTab: tab.id as ResultTab }); }} className={`flex items-center gap-2 px-4 py-1.5 rounded-md text-sm font-medium transition-all whitespace-nowrap ${activeTab === tab.id ? 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/50 dark:text-indigo-300' : 'text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'}`}>{tab.icon} {tab.label}</button>))}</div><div className="flex items-center gap-2">{activeTab === 'explain' && (<button onClick={() => setShowProfilingHistory(true)} className="flex items-center gap-2 px-3 py-1.5 bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-xs font-bold text-slate-600 dark:text-slate-300 hover:border-indigo-400 transition-all shadow-sm"><History className="w-3.5 h-3.5" /> Ver Snapshots</button>)}{hasPendingEdits && (<div className="flex items-center gap-2 animate-in slide-in-from-right-2"><button onClick={() => setPendingEdits({})} className="flex items-center gap-2 px-3 py-1.5 bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-sm font-bold text-slate-500 hover:bg-slate-200 transition-all"><Undo2 className="w-4 h-4" /> Descartar</button><button onClick={() => { setReviewTab('audit'); setShowConfirmation(true); }} className="flex items-center gap-2 px-4 py-1.5 bg-orange-500 hover:bg-orange-600 text-white rounded-lg text-sm font-bold shadow-lg shadow-orange-200 dark:shadow-none transition-all"><Save className="w-4 h-4" /> Revisar & Salvar</button></div>)}{activeTab === 'table' && !hasPendingEdits && (<div className="flex items-center gap-2"><SmartFilterBar columns={columns} filters={filters} onChange={(f) => onResultsStateChange({ filters: f })} onClear={() => onResultsStateChange({ filters: [] })} />{filters.length === 0 && (<div className="relative group"><Search className="absolute left-3 top-2.5 w-3.5 h-3.5 text-slate-400 group-focus-within:text-indigo-500 transition-colors" /><input type="text" placeholder="Busca rápida..." value={localSearch} onChange={(e) => onResultsStateChange({ search: e.target.value })} className="pl-8 pr-4 py-1.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none w-48" /></div>)}</div>)}<div className="relative"><button onClick={() => setShowExportMenu(!showExportMenu)} className={`flex items-center gap-2 px-3 py-1.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-sm font-medium hover:bg-slate-50 dark:hover:bg-slate-700 shadow-sm transition-colors text-slate-700 dark:text-slate-300 ${showExportMenu ? 'ring-2 ring-indigo-500' : ''}`}><Download className="w-4 h-4" /> Exportar</button>{showExportMenu && (<div className="absolute right-0 top-full mt-2 w-56 bg-white dark:bg-slate-800 rounded-xl shadow-xl border border-slate-200 dark:border-slate-700 z-[90] overflow-hidden animate-in fade-in zoom-in-95" onClick={() => setShowExportMenu(false)}><div className="p-2 border-b border-slate-100 dark:border-slate-700"><button onClick={() => setShowAdvancedExport(true)} className="w-full text-left px-2 py-1.5 text-xs hover:bg-indigo-50 dark:hover:bg-indigo-900/30 rounded flex items-center gap-2 text-indigo-600 font-black uppercase tracking-wider"><Settings className="w-3.5 h-3.5" /> Exportação Avançada</button></div><div className="p-2 border-b border-slate-100 dark:border-slate-700"><button onClick={() => { setShowCodeModal(true); setShowExportMenu(false); }} className="w-full text-left px-2 py-1.5 text-xs hover:bg-slate-50 dark:hover:bg-slate-700 rounded flex items-center gap-2 text-slate-600 dark:text-slate-300"><FileCode className="w-3.5 h-3.5" /> Exportar Código</button><button onClick={handleExportInsert} className="w-full text-left px-2 py-1.5 text-xs hover:bg-slate-50 dark:hover:bg-slate-700 rounded flex items-center gap-2 text-slate-600 dark:text-slate-300"><Database className="w-3.5 h-3.5" /> Copy as SQL INSERT</button><button onClick={handleExportCSV} className="w-full text-left px-2 py-1.5 text-xs hover:bg-slate-50 dark:hover:bg-slate-700 rounded flex items-center gap-2 text-slate-600 dark:text-slate-300"><FileSpreadsheet className="w-3.5 h-3.5" /> Export as CSV</button></div><div className="p-2"><button onClick={() => { navigator.clipboard.writeText(JSON.stringify(filteredData)); onShowToast("JSON copiado!", "success"); }} className="w-full text-left px-2 py-1.5 text-xs hover:bg-slate-50 dark:hover:bg-slate-700 rounded flex items-center gap-2 text-slate-600 dark:text-slate-300"><FileJson className="w-3.5 h-3.5" /> Copy JSON Raw</button></div></div>)}</div>{!isFullscreen && <button onClick={toggleFullscreen} className="p-2 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 transition-colors" title="Tela Cheia"><Maximize2 className="w-5 h-5" /></button>}</div></div>
-      <div id="results-content" className="flex-1 bg-white dark:bg-slate-800 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-sm overflow-hidden flex flex-col relative">{filteredData.length === 0 && data.length > 0 ? (<div className="flex-1 flex flex-col items-center justify-center text-slate-400 p-8"><Filter className="w-12 h-12 opacity-30 mb-4" /> <p>Nenhum resultado corresponde aos filtros atuais.</p></div>) : data.length === 0 ? (<div className="flex-1 flex flex-col items-center justify-center text-slate-400 p-8"><Database className="w-12 h-12 opacity-30 mb-4" /><p>Nenhum resultado retornado</p></div>) : (<>{activeTab === 'table' && (<VirtualTable data={filteredData} columns={columns} highlightMatch={highlightMatch} onRowClick={(row: any) => !settings?.advancedMode && setSelectedRow(row)} isAdvancedMode={settings?.advancedMode} onUpdateCell={handleUpdateCell} onOpenJson={setViewJson} onDrillDown={(table: string, col: string, val: any, allLinks?: ManualLink[]) => setDrillDownTarget({ table, col, val, allLinks })} schema={schema} credentials={credentials} pendingEdits={pendingEdits} settings={settings} />)}{activeTab === 'terminal' && <AnsiTerminal text={ansiTableString} />}{activeTab === 'chart' && <div className="p-6 h-full w-full relative"><DataVisualizer data={filteredData} chartConfig={resultsState.chartConfig} onConfigChange={(cfg) => onResultsStateChange({ chartConfig: cfg })} onDrillDown={handleChartDrillDown} /> </div>}{activeTab === 'analysis' && <div className="flex-1 h-full"><DataAnalysisChat data={filteredData} sql={sql} messages={resultsState.chatMessages} chatInput={resultsState.chatInput} onMessagesChange={(m) => onResultsStateChange({ chatMessages: m })} onChatInputChange={(v) => onResultsStateChange({ chatInput: v })} /></div>}{activeTab === 'explain' && <ExplainVisualizer plan={explainPlan} loading={loadingExplain} error={explainError} onCaptureProfiling={handleCaptureProfiling} sql={sql} />}</>)}</div>
+      {showAdvancedExport && (<AdvancedExportModal data={filteredData} columns={columns} tableName={mainTableName} fields={fields} onClose={() => setShowAdvancedExport(false)} />)}
+      {showConfirmation && (<div className="fixed inset-0 z-[200] bg-slate-900/80 backdrop-blur-sm flex items-center justify-center p-4"><div className="bg-white dark:bg-slate-800 w-full max-w-4xl overflow-hidden animate-in zoom-in-95 flex flex-col max-h-[85vh]"><div className="p-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center bg-slate-50 dark:bg-slate-900/30"><div className="flex items-start gap-3"><div className="p-3 bg-red-100 dark:bg-red-900/30 rounded-2xl"><ShieldAlert className="w-8 h-8 text-red-600" /></div><div><h3 className="text-xl font-black text-slate-800 dark:text-white uppercase tracking-tight">Revisão de Auditoria DML</h3><p className="text-xs text-slate-500 font-bold uppercase tracking-widest">{Object.keys(pendingEdits).length} campos alterados em {mainTableName}</p></div></div><button onClick={() => setShowConfirmation(false)} className="p-2 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-xl transition-all"><X className="w-6 h-6 text-slate-400" /></button></div><div className="flex bg-slate-100 dark:bg-slate-900/50 p-1 mx-6 mt-6 rounded-xl border border-slate-200 dark:border-slate-700 shrink-0"><button onClick={() => setReviewTab('audit')} className={`flex-1 py-2 text-xs font-black uppercase tracking-widest rounded-lg transition-all ${reviewTab === 'audit' ? 'bg-white dark:bg-slate-700 text-indigo-600 shadow-sm' : 'text-slate-50'}`}>Log de Alterações</button><button onClick={() => setReviewTab('script')} className={`flex-1 py-2 text-xs font-black uppercase tracking-widest rounded-lg transition-all ${reviewTab === 'script' ? 'bg-white dark:bg-slate-700 text-indigo-600 shadow-sm' : 'text-slate-50'}`}>Script SQL (Update)</button><button onClick={() => setReviewTab('rollback')} className={`flex-1 py-2 text-xs font-black uppercase tracking-widest rounded-lg transition-all ${reviewTab === 'rollback' ? 'bg-white dark:bg-slate-700 text-amber-600 shadow-sm' : 'text-slate-50'}`}>Rollback (Desfazer)</button></div><div className="flex-1 overflow-y-auto p-6 custom-scrollbar">{reviewTab === 'audit' && (<div className="space-y-4">{!finalPkColumn && (<div className="p-4 bg-amber-50 dark:bg-amber-950/40 rounded-2xl border border-amber-100 dark:border-amber-800 animate-in zoom-in-95"><AlertTriangle className="w-6 h-6 text-amber-600 shrink-0" /><div><h4 className="font-black text-sm text-amber-800 dark:text-amber-200 uppercase tracking-tight mb-1">Selecione o Identificador Único</h4><p className="text-xs text-amber-700 dark:text-amber-300 mb-3">Não detectamos uma chave primária nos resultados. Escolha uma coluna para garantir que o UPDATE altere o registro correto.</p><select value={userSelectedPk} onChange={e => setUserSelectedPk(e.target.value)} className="w-full p-2.5 bg-white dark:bg-slate-800 border border-amber-300 dark:border-amber-700 rounded-xl text-sm outline-none focus:ring-2 focus:ring-amber-500 font-bold"><option value="">-- Escolher Coluna ID --</option>{columns.map(c => <option key={c} value={c}>{c}</option>)}</select></div></div>)}<div className="bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800 rounded-2xl overflow-hidden shadow-sm"><table className="w-full text-left border-collapse"><thead className="bg-slate-50 dark:bg-slate-800 text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] border-b border-slate-100 dark:border-slate-800"><tr><th className="px-4 py-3 border-r border-slate-100 dark:border-slate-800">Campo ({finalPkColumn})</th><th className="px-4 py-3">Original</th><th className="px-4 py-3 w-8 text-center"><ArrowRight className="w-3 h-3 mx-auto" /></th><th className="px-4 py-3">Novo Valor</th></tr></thead><tbody className="text-xs font-mono">{auditLog.map((log, i) => (<tr key={i} className="hover:bg-slate-50 dark:hover:bg-slate-800/40 border-b border-slate-50 last:border-0 dark:border-slate-800"><td className="px-4 py-3 border-r border-slate-100 dark:border-slate-800"><div className="flex flex-col"><span className="font-black text-slate-800 dark:text-slate-200">{log.col}</span><span className="text-[9px] text-slate-400">ID: {log.pkVal ?? '???'}</span></div></td><td className="px-4 py-3 text-rose-500 bg-rose-50/20 dark:bg-rose-900/5 line-through italic opacity-70">{String(log.oldVal ?? 'null')}</td><td className="px-4 py-3 text-center text-slate-300">→</td><td className="px-4 py-3 text-emerald-600 bg-emerald-50/20 dark:bg-emerald-900/10 font-bold">{log.newVal}</td></tr>))}</tbody></table></div></div>)}{reviewTab === 'script' && (<div className="h-full flex flex-col gap-4"><div className="flex-1 bg-slate-950 rounded-2xl p-4 border border-slate-800 shadow-inner relative group"><div className="absolute top-4 right-4 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity"><button onClick={() => { navigator.clipboard.writeText(sqlStatementsPreview); toast.success("Script copiado!"); }} className="p-2 bg-slate-800 text-slate-400 hover:text-white rounded-lg"><Copy className="w-4 h-4" /></button></div><pre className="font-mono text-[11px] text-emerald-400 whitespace-pre-wrap h-full overflow-auto custom-scrollbar leading-relaxed">{sqlStatementsPreview}</pre></div><div className="flex items-center gap-2 text-[10px] text-slate-400 italic"><Info className="w-3 h-3" /> {inTransaction ? 'Este script será executado na transação aberta da aba e aguardará o Commit.' : 'Este script será executado em uma única transação atômica.'}</div></div>)}{reviewTab === 'rollback' && (<div className="h-full flex flex-col gap-4"><div className="p-4 bg-amber-50 dark:bg-amber-950/40 rounded-2xl border border-amber-100 dark:border-amber-800 animate-in zoom-in-95"><RotateCcw className="w-6 h-6 text-amber-600 shrink-0" /><div><h4 className="text-xs font-black text-amber-800 dark:text-amber-300 uppercase tracking-widest">Plano de Desastre</h4><p className="text-[10px] text-amber-700 dark:text-amber-400 font-medium">Copie este script antes de confirmar o commit para ter uma saída de emergência caso os novos dados causem problemas na aplicação.</p></div></div><div className="flex-1 bg-slate-950 rounded-2xl p-4 border border-slate-800 shadow-inner relative group"><div className="absolute top-4 right-4 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity"><button onClick={() => { navigator.clipboard.writeText(rollbackStatements); toast.success("Rollback copiado!"); }} className="p-2 bg-slate-800 text-slate-400 hover:text-white rounded-lg"><Copy className="w-4 h-4" /></button></div><pre className="font-mono text-[11px] text-emerald-400 whitespace-pre-wrap h-full overflow-auto custom-scrollbar leading-relaxed">{rollbackStatements}</pre></div></div>)}</div><div className="p-6 border-t border-slate-100 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50 flex justify-between items-center gap-4 shrink-0"><div className="flex items-center gap-2 text-rose-600 dark:text-rose-400 bg-rose-50 dark:bg-rose-900/20 px-4 py-2 rounded-xl border border-rose-100 dark:border-rose-900 shadow-sm max-w-md"><FileWarning className="w-5 h-5 shrink-0" /><p className="text-[10px] font-black uppercase leading-tight tracking-tighter">Atenção: A gravação é imediata no banco de dados após o clique em confirmar.</p></div><div className="flex gap-3"><button onClick={() => setShowConfirmation(false)} className="px-6 py-3 bg-white dark:bg-slate-800 text-slate-500 hover:text-slate-700 dark:text-slate-300 border border-slate-200 dark:border-slate-700 rounded-2xl font-black uppercase tracking-widest text-xs transition-all active:scale-95 shadow-sm">Cancelar</button><button onClick={handleSaveChanges} disabled={isSaving || !finalPkColumn} className="px-8 py-3 bg-red-600 hover:bg-red-700 text-white rounded-2xl font-black uppercase tracking-widest text-xs shadow-xl shadow-red-900/20 transition-all active:scale-95 flex items-center justify-center gap-3 disabled:opacity-50">{isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />} Sim, Efetivar Alterações</button></div></div></div></div>)}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 shrink-0"><div className="flex items-center gap-4">{isFullscreen && <button onClick={toggleFullscreen} className="p-2 bg-slate-100 dark:bg-slate-800 rounded-lg hover:bg-slate-200 transition-colors"><Minimize2 className="w-5 h-5 text-slate-600 dark:text-slate-300" /></button>}<div><h2 className="text-xl font-bold text-slate-800 dark:text-white flex items-center gap-3">Resultados<span className="text-xs font-normal text-slate-500 bg-slate-100 dark:bg-slate-800 px-2 py-1 rounded-full border border-slate-200 dark:border-slate-700 shadow-sm">{filteredData.length} registros</span>{pagination && (<span className="text-[10px] font-bold text-slate-500 bg-slate-50 dark:bg-slate-800 px-2 py-1 rounded-full border border-slate-200 dark:border-slate-700 flex items-center gap-1" title="Linhas carregadas do servidor versus estimativa do planner"><Layers className="w-3 h-3" /> {pagination.fetched.toLocaleString()} carregadas{pagination.estimatedRows !== null ? ` de ~${pagination.estimatedRows.toLocaleString()} estimadas` : ''}</span>)}{settings?.advancedMode && <span className="text-[10px] bg-orange-100 text-orange-700 px-2 py-0.5 rounded font-bold border border-orange-200 flex items-center gap-1"><PenTool className="w-3 h-3" /> Modo Edição</span>}</h2></div></div><div className="flex bg-white dark:bg-slate-800 p-1 rounded-lg border border-slate-200 dark:border-slate-700 shadow-sm overflow-x-auto">{[{ id: 'table', icon: <FileSpreadsheet className="w-4 h-4" />, label: 'Tabela' }, { id: 'terminal', icon: <Terminal className="w-4 h-4" />, label: effectiveNotices.length > 0 ? `Terminal (${effectiveNotices.length} avisos)` : 'Terminal (ANSI)' }, { id: 'chart', icon: <BarChart2 className="w-4 h-4" />, label: 'Gráficos' }, { id: 'analysis', icon: <MessageSquare className="w-4 h-4" />, label: 'AI Analyst' }, { id: 'explain', icon: <Activity className="w-4 h-4" />, label: 'Performance' }].map(tab => (<button key={tab.id} onClick={() => { if(tab.id === 'explain') handleExplain(); else onResultsStateChange({ activeTab: tab.id as ResultTab }); }} className={`flex items-center gap-2 px-4 py-1.5 rounded-md text-sm font-medium transition-all whitespace-nowrap ${activeTab === tab.id ? 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/50 dark:text-indigo-300' : 'text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'}`}>{tab.icon} {tab.label}</button>))}</div><div className="flex items-center gap-2">{activeTab === 'explain' && (<button onClick={() => setShowProfilingHistory(true)} className="flex items-center gap-2 px-3 py-1.5 bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-xs font-bold text-slate-600 dark:text-slate-300 hover:border-indigo-400 transition-all shadow-sm"><History className="w-3.5 h-3.5" /> Ver Snapshots</button>)}{hasPendingEdits && (<div className="flex items-center gap-2 animate-in slide-in-from-right-2"><button onClick={() => setPendingEdits({})} className="flex items-center gap-2 px-3 py-1.5 bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-sm font-bold text-slate-500 hover:bg-slate-200 transition-all"><Undo2 className="w-4 h-4" /> Descartar</button><button onClick={() => { setReviewTab('audit'); setShowConfirmation(true); }} className="flex items-center gap-2 px-4 py-1.5 bg-orange-500 hover:bg-orange-600 text-white rounded-lg text-sm font-bold shadow-lg shadow-orange-200 dark:shadow-none transition-all"><Save className="w-4 h-4" /> Revisar & Salvar</button></div>)}{activeTab === 'table' && !hasPendingEdits && (<div className="flex items-center gap-2"><SmartFilterBar columns={columns} filters={filters} onChange={(f) => onResultsStateChange({ filters: f })} onClear={() => onResultsStateChange({ filters: [] })} />{filters.length === 0 && (<div className="relative group"><Search className="absolute left-3 top-2.5 w-3.5 h-3.5 text-slate-400 group-focus-within:text-indigo-500 transition-colors" /><input type="text" placeholder="Busca rápida..." value={localSearch} onChange={(e) => onResultsStateChange({ search: e.target.value })} className="pl-8 pr-4 py-1.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none w-48" /></div>)}</div>)}<div className="relative"><button onClick={() => setShowExportMenu(!showExportMenu)} className={`flex items-center gap-2 px-3 py-1.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-sm font-medium hover:bg-slate-50 dark:hover:bg-slate-700 shadow-sm transition-colors text-slate-700 dark:text-slate-300 ${showExportMenu ? 'ring-2 ring-indigo-500' : ''}`}><Download className="w-4 h-4" /> Exportar</button>{showExportMenu && (<div className="absolute right-0 top-full mt-2 w-56 bg-white dark:bg-slate-800 rounded-xl shadow-xl border border-slate-200 dark:border-slate-700 z-[90] overflow-hidden animate-in fade-in zoom-in-95" onClick={() => setShowExportMenu(false)}><div className="p-2 border-b border-slate-100 dark:border-slate-700"><button onClick={() => setShowAdvancedExport(true)} className="w-full text-left px-2 py-1.5 text-xs hover:bg-indigo-50 dark:hover:bg-indigo-900/30 rounded flex items-center gap-2 text-indigo-600 font-black uppercase tracking-wider"><Settings className="w-3.5 h-3.5" /> Exportação Avançada</button></div><div className="p-2 border-b border-slate-100 dark:border-slate-700"><button onClick={() => { setShowCodeModal(true); setShowExportMenu(false); }} className="w-full text-left px-2 py-1.5 text-xs hover:bg-slate-50 dark:hover:bg-slate-700 rounded flex items-center gap-2 text-slate-600 dark:text-slate-300"><FileCode className="w-3.5 h-3.5" /> Exportar Código</button><button onClick={handleExportInsert} className="w-full text-left px-2 py-1.5 text-xs hover:bg-slate-50 dark:hover:bg-slate-700 rounded flex items-center gap-2 text-slate-600 dark:text-slate-300"><Database className="w-3.5 h-3.5" /> Copy as SQL INSERT</button><button onClick={handleExportCSV} className="w-full text-left px-2 py-1.5 text-xs hover:bg-slate-50 dark:hover:bg-slate-700 rounded flex items-center gap-2 text-slate-600 dark:text-slate-300"><FileSpreadsheet className="w-3.5 h-3.5" /> Export as CSV</button></div><div className="p-2"><button onClick={() => { navigator.clipboard.writeText(JSON.stringify(filteredData)); onShowToast("JSON copiado!", "success"); }} className="w-full text-left px-2 py-1.5 text-xs hover:bg-slate-50 dark:hover:bg-slate-700 rounded flex items-center gap-2 text-slate-600 dark:text-slate-300"><FileJson className="w-3.5 h-3.5" /> Copy JSON Raw</button></div></div>)}</div>{!isFullscreen && <button onClick={toggleFullscreen} className="p-2 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 transition-colors" title="Tela Cheia"><Maximize2 className="w-5 h-5" /></button>}</div></div>
+      {scriptResults && scriptResults.length > 0 && onSelectStatement && (<StatementTabs statements={scriptResults} activeIndex={activeStatementIndex} onSelect={onSelectStatement} />)}
+      <div id="results-content" className="flex-1 bg-white dark:bg-slate-800 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-sm overflow-hidden flex flex-col relative">{activeStatement && (activeStatement.status !== 'success' || activeStatement.fields.length === 0) ? (<StatementSummary statement={activeStatement} />) : filteredData.length === 0 && data.length > 0 ? (<div className="flex-1 flex flex-col items-center justify-center text-slate-400 p-8"><Filter className="w-12 h-12 opacity-30 mb-4" /> <p>Nenhum resultado corresponde aos filtros atuais.</p></div>) : data.length === 0 ? (<div className="flex-1 flex flex-col items-center justify-center text-slate-400 p-8"><Database className="w-12 h-12 opacity-30 mb-4" /><p>Nenhum resultado retornado</p>{noticesAnsi && <div className="w-full max-w-4xl mt-6 text-left"><AnsiTerminal text={noticesAnsi} /></div>}</div>) : (<>{activeTab === 'table' && (<VirtualTable fieldMap={fieldMap} data={filteredData} columns={columns} highlightMatch={highlightMatch} onRowClick={(row: any) => !settings?.advancedMode && setSelectedRow(row)} isAdvancedMode={settings?.advancedMode} onUpdateCell={handleUpdateCell} onOpenJson={setViewJson} onDrillDown={(table: string, col: string, val: any, allLinks?: ManualLink[]) => setDrillDownTarget({ table, col, val, allLinks })} schema={schema} credentials={credentials} pendingEdits={pendingEdits} settings={settings} />)}{activeTab === 'terminal' && <AnsiTerminal text={noticesAnsi ? `${ansiTableString}\n\n${noticesAnsi}` : ansiTableString} />}{activeTab === 'chart' && <div className="p-6 h-full w-full relative"><DataVisualizer data={filteredData} fields={fields} chartConfig={resultsState.chartConfig} onConfigChange={(cfg) => onResultsStateChange({ chartConfig: cfg })} onDrillDown={handleChartDrillDown} /> </div>}{activeTab === 'analysis' && <div className="flex-1 h-full"><DataAnalysisChat data={filteredData} sql={sql} messages={resultsState.chatMessages} chatInput={resultsState.chatInput} onMessagesChange={(m) => onResultsStateChange({ chatMessages: m })} onChatInputChange={(v) => onResultsStateChange({ chatInput: v })} /></div>}{activeTab === 'explain' && <ExplainVisualizer plan={explainPlan} loading={loadingExplain} error={explainError} onCaptureProfiling={handleCaptureProfiling} sql={sql} />}</>)}</div>
+      {pagination && (pagination.hasMore || pagination.capped) && (<div className="flex items-center justify-between gap-4 px-4 py-2 bg-slate-50 dark:bg-slate-800/60 border border-slate-200 dark:border-slate-700 rounded-xl shrink-0"><span className={`text-xs flex items-center gap-2 ${pagination.capped ? 'text-amber-600 dark:text-amber-400 font-bold' : 'text-slate-500'}`}>{pagination.capped ? <><AlertTriangle className="w-3.5 h-3.5" /> Teto de {settings.maxResultRows.toLocaleString()} linhas atingido. Refine a consulta ou ajuste o limite nas configurações.</> : <>Exibindo as primeiras {pagination.fetched.toLocaleString()} linhas. O restante permanece no cursor do servidor.</>}</span>{pagination.hasMore && onFetchNextPage && (<button onClick={handleFetchNextPage} disabled={isFetchingPage} className="flex items-center gap-2 px-4 py-1.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-xs font-bold shadow-sm transition-all disabled:opacity-50">{isFetchingPage ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <ChevronsDown className="w-3.5 h-3.5" />} Próxima página ({settings.resultPageSize.toLocaleString()})</button>)}</div>)}
       {!isFullscreen && (<div className="flex items-center justify-between shrink-0"><div className="flex items-center gap-4"><button onClick={onNewConnection} className="text-slate-400 hover:text-slate-600 text-sm flex items-center gap-2 px-2 py-1"><Database className="w-4 h-4" /> Nova Conexão</button>{executionDuration !== undefined && executionDuration > 0 && (<span className="text-xs text-slate-400 flex items-center gap-1 bg-slate-50 dark:bg-slate-800 px-2 py-1 rounded border border-slate-200 dark:border-slate-700"><Clock className="w-3 h-3" /> Executado em {executionDuration.toFixed(0)}ms</span>)}</div><button onClick={onBackToBuilder} className="px-5 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-bold shadow-lg flex items-center gap-2"><ArrowLeft className="w-4 h-4" /> Voltar</button></div>)}
     </div>
   );
@@ -260,15 +260,16 @@ const ServerHealthStep: React.FC<ServerHealthStepProps> = ({ credentials }) => {
      finally { setIsDiagnosing(false); }
   };
 
-  const executeKill = async (pid: number) => {
+  const executeKill = async (pid: number, mode: 'cancel' | 'terminate' = 'terminate') => {
     if (!credentials) return;
     setTerminatingPid(pid);
     try {
-      await terminateProcess(credentials, pid);
-      toast.success(`Processo ${pid} encerrado.`);
+      const result = await terminateProcess(credentials, pid, mode);
+      if (result.success) toast.success(result.message);
+      else toast.error(result.message);
       fetchHealth();
     } catch (err: any) {
-      toast.error(`Falha ao matar processo: ${err.message}`);
+      toast.error(`Falha ao ${mode === 'cancel' ? 'cancelar query' : 'matar processo'}: ${err.message}`);
     } finally { setTerminatingPid(null); }
   };
 
@@ -278,18 +279,28 @@ const ServerHealthStep: React.FC<ServerHealthStepProps> = ({ credentials }) => {
       type: 'danger',
       title: 'Encerrar Processo',
       message: `Deseja realmente forçar o encerramento do processo PID ${pid}? Esta ação interromperá a query em execução.`,
-      onConfirm: () => executeKill(pid)
+      onConfirm: () => executeKill(pid, 'terminate')
     });
   };
 
-  const handleVacuum = async (schema: string, table: string) => {
+  const handleCancelQuery = (pid: number) => {
+    setDialogConfig({
+      isOpen: true,
+      type: 'confirm',
+      title: 'Cancelar Query',
+      message: `Deseja cancelar a query em execução no PID ${pid}? A sessão do cliente continuará aberta (pg_cancel_backend).`,
+      onConfirm: () => executeKill(pid, 'cancel')
+    });
+  };
+
+  const executeVacuum = async (schema: string, table: string, full: boolean) => {
     if (!credentials) return;
     const itemKey = `vacuum-${schema}.${table}`;
     if (optimizingItems.has(itemKey)) return;
     setOptimizingItems(prev => new Set(prev).add(itemKey));
     try {
-      await vacuumTable(credentials, schema, table);
-      toast.success(`Tabela ${table} otimizada.`);
+      const result = await vacuumTable(credentials, schema, table, { full, analyze: true });
+      toast.success(`${result.message} (${result.durationMs}ms)`);
       fetchHealth();
     } catch (err: any) {
       toast.error(`Falha na limpeza: ${err.message}`);
@@ -302,14 +313,26 @@ const ServerHealthStep: React.FC<ServerHealthStepProps> = ({ credentials }) => {
     }
   };
 
+  const handleVacuum = (schema: string, table: string) => executeVacuum(schema, table, false);
+
+  const handleVacuumFull = (schema: string, table: string) => {
+    setDialogConfig({
+      isOpen: true,
+      type: 'danger',
+      title: 'VACUUM FULL',
+      message: `O VACUUM FULL reescreve ${schema}.${table} e mantém um lock exclusivo durante toda a operação, bloqueando leituras e escritas. Deseja continuar?`,
+      onConfirm: () => executeVacuum(schema, table, true)
+    });
+  };
+
   const executeDropUnusedIndex = async (schema: string, index: string) => {
     if (!credentials) return;
     const itemKey = `drop-${schema}.${index}`;
     if (optimizingItems.has(itemKey)) return;
     setOptimizingItems(prev => new Set(prev).add(itemKey));
     try {
-      await dropIndex(credentials, schema, index);
-      toast.success(`Índice ${index} removido.`);
+      const result = await dropIndex(credentials, schema, index);
+      toast.success(result.message);
       fetchHealth();
     } catch (err: any) {
       toast.error(`Falha ao remover índice: ${err.message}`);
@@ -576,7 +599,7 @@ const ServerHealthStep: React.FC<ServerHealthStepProps> = ({ credentials }) => {
                                     <th className="px-6 py-4 w-32">Usuário / Wait</th>
                                     <th className="px-6 py-4 w-24">Estado</th>
                                     <th className="px-6 py-4">Query / Árvore</th>
-                                    <th className="px-6 py-4 w-20 text-center">Ação</th>
+                                    <th className="px-6 py-4 w-28 text-center">Ação</th>
                                  </tr>
                               </thead>
                               <tbody className="divide-y divide-slate-50 dark:divide-slate-800">
@@ -591,7 +614,7 @@ const ServerHealthStep: React.FC<ServerHealthStepProps> = ({ credentials }) => {
                                           <td className="px-6 py-4"><div className="flex flex-col"><span className={`text-xs font-bold ${isNative ? 'text-slate-400' : 'text-slate-700 dark:text-slate-200'}`}>{proc.user}</span><span className={`text-[9px] font-mono flex items-center gap-1 ${waitColor}`}><Anchor className="w-2.5 h-2.5" /> {proc.waitEvent}</span></div></td>
                                           <td className="px-6 py-4"><span className={`text-[9px] font-black uppercase px-2 py-0.5 rounded-full border ${proc.state === 'active' ? 'bg-emerald-50 text-emerald-600 border-emerald-100' : 'bg-slate-50 text-slate-400 border-slate-100'}`}>{proc.state}</span></td>
                                           <td className="px-6 py-4 w-full max-w-0"><div className="flex flex-col gap-1.5"><code className={`text-[11px] font-mono block truncate group-hover:whitespace-pre-wrap group-hover:break-all transition-all duration-200 ${isNative ? 'text-slate-400 italic' : 'text-slate-600 dark:text-slate-400'}`}>{proc.query || (isNative ? `[${proc.backendType}]` : '(vazio)')}</code><div className="flex items-center gap-2">{isBlocked && <div className="flex items-center gap-1.5 text-[8px] text-rose-600 font-black uppercase bg-rose-100 dark:bg-rose-900/40 px-2 py-0.5 rounded border border-rose-200 dark:border-rose-800"><AlertTriangle className="w-2.5 h-2.5" /> Bloqueado por: {proc.blockingPids.join(', ')}</div>}{blockingOthers && <div className="flex items-center gap-1.5 text-[8px] text-amber-600 font-black uppercase bg-amber-100 dark:bg-rose-900/40 px-2 py-0.5 rounded border border-amber-200 dark:border-amber-800"><Layers className="w-2.5 h-2.5" /> Bloqueando: {blockingOthers.join(', ')}</div>}</div></div></td>
-                                          <td className="px-6 py-4 text-center">{!isNative && <button onClick={() => handleKill(proc.pid)} disabled={terminatingPid === proc.pid} className="p-2 text-slate-300 hover:text-rose-500 hover:bg-rose-50 dark:hover:bg-rose-900/20 rounded-xl transition-all">{terminatingPid === proc.pid ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}</button>}</td>
+                                          <td className="px-6 py-4 text-center">{!isNative && <div className="flex items-center justify-center gap-1">{proc.state === 'active' && <button onClick={() => handleCancelQuery(proc.pid)} disabled={terminatingPid === proc.pid} title="Cancelar query (pg_cancel_backend)" className="p-2 text-slate-300 hover:text-amber-500 hover:bg-amber-50 dark:hover:bg-amber-900/20 rounded-xl transition-all"><ZapOff className="w-4 h-4" /></button>}<button onClick={() => handleKill(proc.pid)} disabled={terminatingPid === proc.pid} title="Encerrar sessão (pg_terminate_backend)" className="p-2 text-slate-300 hover:text-rose-500 hover:bg-rose-50 dark:hover:bg-rose-900/20 rounded-xl transition-all">{terminatingPid === proc.pid ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}</button></div>}</td>
                                        </tr>
                                     );
                                  })}
@@ -775,7 +798,7 @@ const ServerHealthStep: React.FC<ServerHealthStepProps> = ({ credentials }) => {
                   {(loading && tableInsights.length === 0) ? [1, 2].map(i => (<div key={i} className="p-4 border border-slate-100 dark:border-slate-800 rounded-2xl space-y-3"><div className="flex justify-between"><Skeleton className="w-1/3 h-3" /><Skeleton className="w-1/4 h-3" /></div><Skeleton className="w-full h-2 rounded-full" /></div>)) : (
                      tableInsights.map((tbl, idx) => (
                         <div key={idx} className="p-4 bg-slate-50 dark:bg-slate-800/50 rounded-2xl border border-slate-100 dark:border-slate-700 group hover:border-emerald-400/50 transition-all">
-                           <div className="flex justify-between items-center mb-3"><span className="text-[11px] font-black text-slate-600 dark:text-slate-200 truncate">{tbl.schema}.{tbl.name}</span><div className="flex items-center gap-1.5"><span className={`w-2 h-2 rounded-full ${tbl.deadTuples > 10000 ? 'bg-rose-500 animate-pulse' : 'bg-emerald-500'}`} /><span className="text-[9px] font-black text-slate-400 uppercase">{tbl.deadTuples.toLocaleString()} dead tuples</span><button onClick={() => handleVacuum(tbl.schema, tbl.name)} disabled={optimizingItems.has(`vacuum-${tbl.schema}.${tbl.name}`)} className="ml-1 p-1.5 text-slate-400 hover:text-emerald-500 rounded-lg transition-all">{optimizingItems.has(`vacuum-${tbl.schema}.${tbl.name}`) ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Brush className="w-3.5 h-3.5" />}</button></div></div>
+                           <div className="flex justify-between items-center mb-3"><span className="text-[11px] font-black text-slate-600 dark:text-slate-200 truncate">{tbl.schema}.{tbl.name}</span><div className="flex items-center gap-1.5"><span className={`w-2 h-2 rounded-full ${tbl.deadTuples > 10000 ? 'bg-rose-500 animate-pulse' : 'bg-emerald-500'}`} /><span className="text-[9px] font-black text-slate-400 uppercase">{tbl.deadTuples.toLocaleString()} dead tuples</span><button onClick={() => handleVacuum(tbl.schema, tbl.name)} disabled={optimizingItems.has(`vacuum-${tbl.schema}.${tbl.name}`)} title="VACUUM (ANALYZE)" className="ml-1 p-1.5 text-slate-400 hover:text-emerald-500 rounded-lg transition-all">{optimizingItems.has(`vacuum-${tbl.schema}.${tbl.name}`) ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Brush className="w-3.5 h-3.5" />}</button><button onClick={() => handleVacuumFull(tbl.schema, tbl.name)} disabled={optimizingItems.has(`vacuum-${tbl.schema}.${tbl.name}`)} title="VACUUM (FULL, ANALYZE)" className="px-1.5 py-0.5 text-[8px] font-black text-slate-400 hover:text-rose-500 border border-slate-200 dark:border-slate-700 rounded transition-all">FULL</button></div></div>
                            <div className="h-2 bg-slate-200 dark:bg-slate-700 rounded-full overflow-hidden"><div className={`h-full transition-all ${tbl.deadTuples > 10000 ? 'bg-rose-500' : 'bg-indigo-500'}`} style={{ width: `${Math.min((tbl.deadTuples / (tbl.estimatedRows || 1)) * 100, 100)}%` }} /></div>
                         </div>
                      ))
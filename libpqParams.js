@@ -0,0 +1,70 @@
+/**
+ * Parâmetros de conexão do libpq (URI, "chave=valor" e pg_service.conf), em JS puro para servir
+ * aos dois lados: o processo principal (main.js, .pgpass e pg_service.conf) e o renderer
+ * (services/connectionImportService.ts, strings de conexão coladas pelo usuário).
+ */
+
+export const LIBPQ_DEFAULT_PORT = '5432';
+
+const SSL_MODES = ['disable', 'prefer', 'require', 'verify-ca', 'verify-full'];
+
+// Não mudam para onde nem como autenticar: ignorados sem aviso
+const IGNORED_PARAMS = new Set([
+  'connect_timeout', 'client_encoding', 'fallback_application_name', 'keepalives', 'keepalives_idle',
+  'keepalives_interval', 'keepalives_count', 'tcp_user_timeout', 'target_session_attrs', 'gssencmode', 'sslcompression'
+]);
+
+// Vários hosts (failover do libpq) não são suportados; socket Unix vira localhost via TCP,
+// que é também o que o .pgpass usa para conexões pelo socket padrão
+export function libpqHost(value, warnings) {
+  const hosts = value.split(',').map(h => h.trim()).filter(Boolean);
+  if (hosts.length > 1) warnings.push(`Vários hosts informados; usando apenas o primeiro (${hosts[0]}).`);
+  const first = hosts[0] || '';
+  if (first.startsWith('/') || first.startsWith('@')) {
+    warnings.push(`Socket Unix (${first}) não é suportado; usando localhost via TCP.`);
+    return 'localhost';
+  }
+  return first;
+}
+
+// Mesmo servidor: sem diferenciar maiúsculas, localhost (ou socket padrão) igual a 127.0.0.1
+export function libpqHostKey(host) {
+  const key = String(host || 'localhost').trim().toLowerCase();
+  return key === 'localhost' ? '127.0.0.1' : key;
+}
+
+/** Aplica um parâmetro do libpq às credenciais; parâmetros desconhecidos só geram aviso. */
+export function applyLibpqParam(creds, key, value, warnings) {
+  // Arquivos de certificado sem sslmode: TLS oportunista, como o libpq faz por padrão
+  const sslOf = () => creds.ssl || (creds.ssl = { mode: 'prefer' });
+  switch (key) {
+    case 'host': creds.host = libpqHost(value, warnings); break;
+    case 'hostaddr': creds.host = value.split(',')[0].trim(); break; // Endereço já resolvido tem precedência sobre o nome
+    case 'port': {
+      const port = value.split(',')[0].trim();
+      if (port && !/^\d+$/.test(port)) throw new Error(`Porta inválida: ${port}`);
+      if (port) creds.port = port;
+      else if (value) warnings.push('Porta vazia ignorada.');
+      break;
+    }
+    case 'dbname': creds.database = value; break;
+    case 'user': creds.user = value; break;
+    case 'password': creds.password = value; break;
+    case 'application_name': creds.applicationName = value; break;
+    case 'sslmode':
+      if (value === 'allow') {
+        warnings.push('sslmode=allow tratado como prefer.');
+        sslOf().mode = 'prefer';
+      } else if (SSL_MODES.includes(value)) {
+        sslOf().mode = value;
+      } else {
+        throw new Error(`sslmode inválido: ${value}`);
+      }
+      break;
+    case 'sslrootcert': sslOf().caFile = value; break;
+    case 'sslcert': sslOf().certFile = value; break;
+    case 'sslkey': sslOf().keyFile = value; break;
+    default:
+      if (!IGNORED_PARAMS.has(key)) warnings.push(`Parâmetro "${key}" não suportado; ignorado.`);
+  }
+}
@@ -1,10 +1,12 @@
 
-import { app, BrowserWindow, ipcMain, shell, utilityProcess } from 'electron';
+import { app, BrowserWindow, ipcMain, shell, utilityProcess, safeStorage } from 'electron';
 import path from 'path';
 import fs from 'fs';
+import crypto from 'crypto';
 import { fileURLToPath } from 'url';
 import { execSync } from 'child_process';
 import pkg from 'electron-updater';
+import { applyLibpqParam, libpqHost, libpqHostKey, LIBPQ_DEFAULT_PORT } from './libpqParams.js';
 const { autoUpdater } = pkg;
 
 const __filename = fileURLToPath(import.meta.url);
@@ -19,8 +21,17 @@ autoUpdater.allowDowngrade = true;
 autoUpdater.allowPrerelease = true; 
 autoUpdater.logger = console;
 
+// Segredo da API local, novo a cada inicialização: o backend recusa requisições sem ele.
+// Em desenvolvimento (SKIP_BACKEND) pode vir do ambiente, o mesmo passado ao `npm run server`.
+const API_TOKEN = process.env.PSQLBUDDY_API_TOKEN || crypto.randomBytes(32).toString('hex');
+// Chave dos tokens de conexão dos perfis do cofre: só o backend a recebe, o renderer nunca.
+// Sobrevive a reinícios do backend, então os tokens emitidos continuam válidos.
+const CONNECTION_SECRET = crypto.randomBytes(32).toString('hex');
+
 // Caminho para armazenamento persistente fora do escopo do navegador
 const STORAGE_FILE = path.join(app.getPath('userData'), 'psqlbuddy_storage.json');
+// Cofre de senhas dos perfis de conexão, cifradas com a chave do sistema (safeStorage)
+const VAULT_FILE = path.join(app.getPath('userData'), 'psqlbuddy_vault.json');
 
 function getCalculatedAppVersion() {
   if (app.isPackaged) return `v${app.getVersion()}`;
@@ -54,6 +65,45 @@ function compareVersions(v1, v2) {
 /**
  * Inicializa o backend garantindo a prioridade de IPv4 e captura de logs.
  */
+function readVault() {
+  try {
+    if (fs.existsSync(VAULT_FILE)) return JSON.parse(fs.readFileSync(VAULT_FILE, 'utf8'));
+  } catch (e) {
+    console.error("[VAULT] Erro ao ler o cofre de credenciais:", e);
+  }
+  return {};
+}
+
+function writeVault(vault) {
+  fs.writeFileSync(VAULT_FILE, JSON.stringify(vault, null, 2), { mode: 0o600 });
+}
+
+// Segredos extras do perfil (ex: senha do túnel SSH) ficam em "<profileId>#<tipo>"
+const vaultEntryKey = (profileId, kind) => kind ? `${profileId}#${kind}` : profileId;
+
+// Servidor a que o segredo pertence (usuário@host:porta/banco, ou o servidor SSH), normalizado como no backend
+function vaultTargetKey(target, kind) {
+  const host = String(target?.host || '').trim().toLowerCase();
+  const user = String(target?.user || '').trim();
+  if (!host || !user || (!kind && !target.database)) return null;
+  const port = parseInt(target.port, 10) || (kind === 'ssh' ? 22 : 5432);
+  const address = `${user}@${host === 'localhost' ? '127.0.0.1' : host}:${port}`;
+  return kind === 'ssh' ? `ssh://${address}` : `${address}/${target.database}`;
+}
+
+// O segredo só sai do cofre para o servidor a que foi vinculado ao ser gravado
+function readVaultSecret(profileId, kind, target) {
+  const entry = readVault()[vaultEntryKey(profileId, kind)];
+  if (!entry) throw new Error('Nenhuma senha guardada no cofre para este perfil.');
+  if (typeof entry === 'string') throw new Error('Senha guardada antes da vinculação ao servidor. Informe a senha e salve o perfil novamente.');
+  const expected = vaultTargetKey(target, kind);
+  if (!expected || entry.target !== expected) throw new Error('A senha do cofre pertence a outro servidor: o perfil foi alterado.');
+  if (!safeStorage.isEncryptionAvailable()) throw new Error('Criptografia do sistema indisponível para abrir o cofre.');
+  return safeStorage.decryptString(Buffer.from(entry.secret, 'base64'));
+}
+
+const isMainWindowSender = (event) => !!mainWindow && event.sender === mainWindow.webContents;
+
 function startBackend() {
   console.log("[MAIN] Iniciando Backend Service...");
   
@@ -72,6 +122,8 @@ function startBackend() {
             ...process.env,
             PORT: '3000',
             HOST: '127.0.0.1',
+            PSQLBUDDY_API_TOKEN: API_TOKEN,
+            PSQLBUDDY_CONNECTION_SECRET: CONNECTION_SECRET,
             NODE_OPTIONS: '--dns-result-order=ipv4first'
         },
         stdio: 'pipe'
@@ -85,6 +137,17 @@ function startBackend() {
         console.error(`[BACKEND-STDERR]: ${data.toString().trim()}`);
     });
 
+    // O backend pede a senha de um perfil pelo ID e pelo servidor de destino; ela nunca passa pelo renderer
+    serverChild.on('message', (msg) => {
+        if (msg?.type !== 'vault-secret') return;
+        try {
+            const password = readVaultSecret(msg.profileId, msg.kind, msg.target);
+            serverChild?.postMessage({ type: 'vault-secret', requestId: msg.requestId, password });
+        } catch (e) {
+            serverChild?.postMessage({ type: 'vault-secret', requestId: msg.requestId, error: e.message });
+        }
+    });
+
     serverChild.on('spawn', () => {
         console.log("[MAIN] Processo do Backend (UtilityProcess) iniciado com sucesso.");
     });
@@ -195,7 +258,240 @@ async function fetchGitHubVersions() {
   }
 }
 
+// Token da API local entregue de forma síncrona ao preload (só para a janela principal)
+ipcMain.on('get-api-token', (event) => {
+    event.returnValue = isMainWindowSender(event) ? API_TOKEN : null;
+});
+
+// Cofre de Credenciais: o renderer só grava e apaga; a leitura é exclusiva do backend
+ipcMain.handle('vault-status', () => ({ available: safeStorage.isEncryptionAvailable() }));
+
+ipcMain.handle('vault-save-secret', (event, { profileId, password, kind, target }) => {
+    if (!isMainWindowSender(event)) return { ok: false, error: 'Origem não autorizada.' };
+    const targetKey = vaultTargetKey(target, kind);
+    if (!profileId || typeof password !== 'string' || !targetKey) return { ok: false, error: 'Perfil, servidor ou senha inválidos.' };
+    if (!safeStorage.isEncryptionAvailable()) return { ok: false, error: 'Criptografia do sistema indisponível.' };
+    try {
+        const vault = readVault();
+        vault[vaultEntryKey(profileId, kind)] = { secret: safeStorage.encryptString(password).toString('base64'), target: targetKey };
+        writeVault(vault);
+        console.log(`[VAULT] Segredo ${kind || 'do banco'} do perfil ${profileId} guardado no cofre.`);
+        return { ok: true };
+    } catch (e) {
+        console.error("[VAULT] Falha ao gravar no cofre:", e);
+        return { ok: false, error: e.message };
+    }
+});
+
+ipcMain.handle('vault-delete-secret', (event, profileId) => {
+    if (!isMainWindowSender(event)) return { ok: false, error: 'Origem não autorizada.' };
+    try {
+        const vault = readVault();
+        const keys = Object.keys(vault).filter(k => k === profileId || k.startsWith(`${profileId}#`));
+        if (keys.length === 0) return { ok: true };
+        keys.forEach(k => delete vault[k]);
+        writeVault(vault);
+        console.log(`[VAULT] Senha do perfil ${profileId} removida do cofre.`);
+        return { ok: true };
+    } catch (e) {
+        console.error("[VAULT] Falha ao remover do cofre:", e);
+        return { ok: false, error: e.message };
+    }
+});
+
 // Persistência de Dados
+// Arquivos do libpq para importar perfis: mesmos caminhos e variáveis de ambiente que o psql usa
+function pgConfigFilePaths() {
+    const home = app.getPath('home');
+    const isWindows = process.platform === 'win32';
+    const pgDir = path.join(app.getPath('appData'), 'postgresql');
+    const services = [process.env.PGSERVICEFILE || (isWindows ? path.join(pgDir, '.pg_service.conf') : path.join(home, '.pg_service.conf'))];
+    if (process.env.PGSYSCONFDIR) services.push(path.join(process.env.PGSYSCONFDIR, 'pg_service.conf'));
+    else if (!isWindows) services.push('/etc/postgresql-common/pg_service.conf');
+    return [
+        { kind: 'pgpass', path: process.env.PGPASSFILE || (isWindows ? path.join(pgDir, 'pgpass.conf') : path.join(home, '.pgpass')) },
+        ...services.map(p => ({ kind: 'pg_service', path: p }))
+    ];
+}
+
+// Interpretação do .pgpass e do pg_service.conf; os parâmetros do libpq passam por libpqParams.js,
+// o mesmo módulo do renderer. As senhas vão direto para o cofre e nunca chegam ao renderer.
+
+// Campos separados por ':'; '\' escapa ':' e '\'. '*' sozinho é curinga.
+function splitPgpassLine(line) {
+  const fields = [];
+  let current = '';
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '\\' && i + 1 < line.length) current += line[++i];
+    else if (ch === ':') {
+      fields.push(current);
+      current = '';
+    } else current += ch;
+  }
+  fields.push(current);
+  return fields;
+}
+
+function parsePgpass(file, warnings) {
+  const entries = [];
+  file.content.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim() || line.trimStart().startsWith('#')) return;
+    const fields = splitPgpassLine(line);
+    if (fields.length < 5) {
+      warnings.push(`${file.path}:${index + 1}: linha com menos de 5 campos ignorada.`);
+      return;
+    }
+    const [host, port, database, user, password] = fields;
+    // Host passa pela mesma normalização das conexões (socket Unix vira localhost)
+    const hostWarnings = [];
+    const normalizedHost = host === '*' ? host : libpqHost(host, hostWarnings) || 'localhost';
+    hostWarnings.forEach(w => warnings.push(`${file.path}:${index + 1}: ${w}`));
+    entries.push({ host: normalizedHost, port, database, user, password });
+  });
+  return entries;
+}
+
+function parseServiceFile(file, warnings) {
+  const services = [];
+  file.content.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) return;
+    const section = line.match(/^\[(.+)\]$/);
+    if (section) {
+      services.push({ name: section[1].trim(), params: {} });
+      return;
+    }
+    const eq = line.indexOf('=');
+    const current = services[services.length - 1];
+    if (eq < 0 || !current) {
+      warnings.push(`${file.path}:${index + 1}: linha ignorada (${line.slice(0, 30)}).`);
+      return;
+    }
+    current.params[line.slice(0, eq).trim()] = line.slice(eq + 1).trim();
+  });
+  return services;
+}
+
+// Mesma conexão = mesmo destino, usuário e banco (e o mesmo bastion, se houver túnel)
+function pgConnectionKey(creds) {
+  return [libpqHostKey(creds.host), creds.port || LIBPQ_DEFAULT_PORT, creds.user, creds.database, creds.ssh?.host || ''].join('\u0000');
+}
+
+function readPgConfigFiles() {
+  const files = [];
+  for (const file of pgConfigFilePaths()) {
+    try {
+      if (fs.existsSync(file.path)) files.push({ ...file, content: fs.readFileSync(file.path, 'utf8') });
+    } catch (e) {
+      console.warn(`[MAIN] Não foi possível ler ${file.path}:`, e.message);
+    }
+  }
+  return files;
+}
+
+/**
+ * Conexões dos arquivos do libpq que ainda não estão entre as salvas (saved: só campos públicos).
+ * Cada serviço vira uma conexão, com a senha da primeira linha do .pgpass que casar, como no psql;
+ * linhas do .pgpass viram conexões quando host e usuário não são curinga.
+ */
+function collectPgConfigConnections(saved) {
+  const files = readPgConfigFiles();
+  const warnings = [];
+  const pgpass = files.filter(f => f.kind === 'pgpass').flatMap(f => parsePgpass(f, warnings));
+  const pgpassMatches = (entry, creds) =>
+    (entry.host === '*' || libpqHostKey(entry.host) === libpqHostKey(creds.host)) &&
+    (entry.port === '*' || entry.port === creds.port) &&
+    (entry.database === '*' || entry.database === creds.database) &&
+    (entry.user === '*' || entry.user === creds.user);
+  const candidates = [];
+
+  files.filter(f => f.kind === 'pg_service').forEach(file => {
+    parseServiceFile(file, warnings).forEach(service => {
+      const serviceWarnings = [];
+      try {
+        const creds = { host: '', port: '', user: '', database: '' };
+        Object.entries(service.params).forEach(([key, value]) => applyLibpqParam(creds, key, value, serviceWarnings));
+        if (!creds.user) throw new Error('sem usuário (user)');
+        const credentials = { ...creds, host: creds.host || 'localhost', port: creds.port || LIBPQ_DEFAULT_PORT, database: creds.database || creds.user };
+        if (!credentials.password) credentials.password = pgpass.find(e => pgpassMatches(e, credentials))?.password;
+        candidates.push({ name: service.name, credentials });
+      } catch (e) {
+        serviceWarnings.push(`ignorado: ${e.message}`);
+      }
+      serviceWarnings.forEach(w => warnings.push(`Serviço "${service.name}": ${w}`));
+    });
+  });
+
+  pgpass.forEach(entry => {
+    if (entry.host === '*' || entry.user === '*') return; // Regra de senha genérica, não uma conexão
+    const credentials = {
+      host: entry.host,
+      port: entry.port === '*' ? LIBPQ_DEFAULT_PORT : entry.port,
+      user: entry.user,
+      database: entry.database === '*' ? entry.user : entry.database,
+      password: entry.password
+    };
+    candidates.push({ name: `${credentials.user}@${credentials.host}/${credentials.database}`, credentials });
+  });
+
+  const known = new Set((Array.isArray(saved) ? saved : []).map(pgConnectionKey));
+  const connections = [];
+  const duplicates = [];
+  candidates.forEach(candidate => {
+    const key = pgConnectionKey(candidate.credentials);
+    if (known.has(key)) {
+      duplicates.push(candidate.name);
+      return;
+    }
+    known.add(key);
+    connections.push(candidate);
+  });
+  return { paths: files.map(f => f.path), connections, duplicates, warnings };
+}
+
+// Campos que o renderer guarda no perfil salvo; a senha fica de fora
+const publicPgProfile = ({ name, credentials: { host, port, user, database, ssl, applicationName } }) =>
+  ({ name, host, port, user, database, ...(ssl ? { ssl } : {}), ...(applicationName ? { applicationName } : {}) });
+
+// Prévia para a confirmação: o que seria importado e quantas senhas, sem gravar nada
+ipcMain.handle('pg-config-preview', (event, saved) => {
+    if (!isMainWindowSender(event)) return { paths: [], connections: [], duplicates: [], warnings: [] };
+    const { paths, connections, duplicates, warnings } = collectPgConfigConnections(saved);
+    console.log(`[MAIN] Arquivos do libpq encontrados para importação: ${paths.join(', ') || 'nenhum'}`);
+    return {
+        paths,
+        connections: connections.map(c => ({ ...publicPgProfile(c), hasPassword: !!c.credentials.password })),
+        duplicates,
+        warnings
+    };
+});
+
+// Importação: cada senha vai para o cofre vinculada ao servidor do perfil criado aqui
+ipcMain.handle('pg-config-import', (event, saved) => {
+    if (!isMainWindowSender(event)) return { profiles: [], warnings: [] };
+    const { connections, warnings } = collectPgConfigConnections(saved);
+    const canEncrypt = safeStorage.isEncryptionAvailable();
+    const vault = readVault();
+    const profiles = connections.map(connection => {
+        const profile = { id: crypto.randomUUID(), ...publicPgProfile(connection) };
+        const { password } = connection.credentials;
+        if (password && canEncrypt) {
+            vault[vaultEntryKey(profile.id)] = { secret: safeStorage.encryptString(password).toString('base64'), target: vaultTargetKey(profile) };
+            profile.hasStoredPassword = true;
+        } else if (password) warnings.push(`Senha de "${profile.name}" não importada: criptografia do sistema indisponível.`);
+        return profile;
+    });
+    try {
+        if (profiles.some(p => p.hasStoredPassword)) writeVault(vault);
+    } catch (e) {
+        console.error("[VAULT] Falha ao gravar no cofre:", e);
+        return { profiles: profiles.map(({ hasStoredPassword, ...p }) => p), warnings: [...warnings, `Senhas não importadas: ${e.message}`] };
+    }
+    console.log(`[VAULT] ${profiles.length} perfis importados do libpq (${profiles.filter(p => p.hasStoredPassword).length} com senha no cofre).`);
+    return { profiles, warnings };
+});
+
 ipcMain.handle('get-persistent-store', async () => {
     console.log(`[MAIN] Solicitando leitura de persistência: ${STORAGE_FILE}`);
     try {
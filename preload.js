@@ -1,13 +1,17 @@
 
-const { contextBridge, ipcRenderer } = require('electron');
+const { contextBridge, ipcRenderer, webUtils } = require('electron');
 
 console.log("[PRELOAD] Sistema de IPC Inicializado.");
 
 contextBridge.exposeInMainWorld('electron', {
   // Expose versions to allow renderer to access electron and node versions safely
   versions: process.versions,
+  // Segredo da API local (server.js), gerado pelo processo principal a cada inicialização
+  apiToken: ipcRenderer.sendSync('get-api-token'),
+  // Caminho no disco de um arquivo escolhido em <input type="file"> (certificados SSL)
+  getPathForFile: (file) => webUtils.getPathForFile(file),
   invoke: (channel, ...args) => {
-    let validChannels = ['get-persistent-store'];
+    let validChannels = ['get-persistent-store', 'vault-status', 'vault-save-secret', 'vault-delete-secret', 'pg-config-preview', 'pg-config-import'];
     if (validChannels.includes(channel)) {
       return ipcRenderer.invoke(channel, ...args);
     }
@@ -2,30 +2,82 @@
 import express from 'express';
 import cors from 'cors';
 import pg from 'pg';
+import ssh2 from 'ssh2';
+import net from 'net';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import os from 'os';
+import fs from 'fs';
+import crypto from 'crypto';
 
 const execAsync = promisify(exec);
-const { Client, types } = pg;
+const { Client, Pool, types } = pg;
+const { Client: SshClient } = ssh2;
 const app = express();
 const PORT = process.env.PORT || 3000;
 const HOST = '127.0.0.1'; // IPV4 Estrito
+const SESSION_IDLE_MS = parseInt(process.env.SESSION_IDLE_MS, 10) || 10 * 60 * 1000;
+const POOL_IDLE_MS = parseInt(process.env.POOL_IDLE_MS, 10) || 15 * 60 * 1000;
+const POOL_MAX_CLIENTS = parseInt(process.env.POOL_MAX_CLIENTS, 10) || 5;
+const STREAM_CHUNK_ROWS = 500;
+const DEFAULT_PAGE_SIZE = 1000;
+const DEFAULT_MAX_ROWS = 50000;
+const MAX_NOTICES = 1000;
+// Segredo gerado pelo main.js a cada inicialização; sem ele (npm run server avulso) a API não exige token
+const API_TOKEN = process.env.PSQLBUDDY_API_TOKEN || '';
+const API_TOKEN_HEADER = 'x-psqlbuddy-token';
+// Chave dos tokens de conexão de perfis do cofre, também do main.js; avulso vale só até o processo reiniciar
+const CONNECTION_SECRET = process.env.PSQLBUDDY_CONNECTION_SECRET || crypto.randomBytes(32).toString('hex');
+// Origens do próprio app: Vite em desenvolvimento e file:// (Origin "null") no app empacotado.
+// "null" também é a origem de iframes sandbox, então só é aceita quando o token é exigido.
+const ALLOWED_ORIGINS = new Set([
+  'http://127.0.0.1:5173',
+  'http://localhost:5173',
+  ...(API_TOKEN ? ['null'] : [])
+]);
 
 // ESM helpers
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-app.use(cors());
-app.use(express.json());
-
 const serverLog = (method, path, message, extra = '') => {
   const timestamp = new Date().toISOString();
   console.log(`[${timestamp}] [SERVER] ${method} ${path} - ${message}`, extra);
 };
 
+const sameSecret = (received, expectedValue) => {
+  if (typeof received !== 'string') return false;
+  const expected = Buffer.from(expectedValue);
+  const given = Buffer.from(received);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+};
+
+const isValidApiToken = (token) => sameSecret(token, API_TOKEN);
+
+app.use(cors({
+  origin: (origin, callback) => callback(null, !origin || ALLOWED_ORIGINS.has(origin)),
+  allowedHeaders: ['Content-Type', API_TOKEN_HEADER]
+}));
+
+// O CORS só esconde a resposta do navegador; a query já teria rodado. Por isso a origem
+// e o token são verificados antes de qualquer rota.
+app.use((req, res, next) => {
+  const origin = req.get('origin');
+  if (origin && !ALLOWED_ORIGINS.has(origin)) {
+    serverLog(req.method, req.path, `Requisição recusada: origem não permitida (${origin}).`);
+    return res.status(403).json({ error: 'Origem não permitida.' });
+  }
+  if (API_TOKEN && !isValidApiToken(req.get(API_TOKEN_HEADER))) {
+    serverLog(req.method, req.path, 'Requisição recusada: token da API ausente ou inválido.');
+    return res.status(401).json({ error: 'Token da API local ausente ou inválido.' });
+  }
+  next();
+});
+
+app.use(express.json());
+
 const serverError = (method, path, error) => {
   const timestamp = new Date().toISOString();
   console.error(`[${timestamp}] [ERROR] ${method} ${path} - ${error.message}`, error.stack);
@@ -82,10 +134,23 @@ const sanitizeRows = (rows) => {
   });
 };
 
+/**
+ * Cita um identificador (schema, tabela, índice) com aspas duplas,
+ * escapando aspas internas da mesma forma que o quote_ident do PostgreSQL.
+ */
+const quoteIdent = (ident) => {
+  if (typeof ident !== 'string' || ident.trim() === '') {
+    throw new Error('Identificador inválido.');
+  }
+  return `"${ident.replace(/"/g, '""')}"`;
+};
+
 // Forçamos o driver a tratar strings com o nosso scrubber em todas as queries
 types.setTypeParser(25, (v) => scrubString(v));   // TEXT
 types.setTypeParser(1043, (v) => scrubString(v)); // VARCHAR
 types.setTypeParser(1042, (v) => scrubString(v)); // BPCHAR
+// DATE segue como texto (AAAA-MM-DD): virar Date à meia-noite local desloca o dia no JSON a leste de UTC
+types.setTypeParser(1082, (v) => v);              // DATE
 
 serverLog('INIT', '-', 'Servidor iniciado em Modo de Sobrevivência (SQL_ASCII).');
 
@@ -102,15 +167,834 @@ async function setupSession(client) {
   }
 }
 
+/**
+ * Gerenciador de Sessões:
+ * Um pg.Pool por perfil de conexão atende as rotas sem estado (metadados, health, previews),
+ * enquanto cada aba de query recebe uma sessão dedicada ("sticky") que preserva
+ * SET search_path, tabelas temporárias e prepared statements entre execuções.
+ */
+const pools = new Map();          // profileKey -> { pool, label, createdAt, lastUsed }
+const stickySessions = new Map(); // sessionId -> { id, profileKey, label, creds, client, pid, ready, createdAt, lastUsed, activeQueries }
+const executions = new Map(); // executionId -> { id, sessionId, label, creds, pid, sql, startedAt, cancelRequested }
+const credentialTokens = new Map(); // connectionToken -> credenciais normalizadas (com a senha)
+
+// Status do ReadyForQuery do protocolo: I = fora de transação, T = em transação, E = transação abortada
+const TX_STATUS = { I: 'idle', T: 'active', E: 'failed' };
+const TX_ACTIONS = ['status', 'begin', 'savepoint', 'rollback-to', 'release', 'commit', 'rollback'];
+const ISOLATION_LEVELS = ['READ COMMITTED', 'REPEATABLE READ', 'SERIALIZABLE'];
+
+const describeTransaction = (session) => ({
+  sessionId: session.id,
+  status: TX_STATUS[session.txStatus] || 'idle',
+  startedAt: session.transaction?.startedAt ?? null,
+  savepoints: session.transaction?.savepoints ?? []
+});
+
+/**
+ * SSL/TLS:
+ * Segue o sslmode do libpq. "prefer" tenta TLS e, se o servidor não suportar, conecta sem;
+ * "require" só cifra (e verifica a CA quando informada, como o libpq); "verify-ca" valida a
+ * cadeia; "verify-full" valida também o nome do servidor (servername ou host).
+ */
+const SSL_MODES = ['disable', 'prefer', 'require', 'verify-ca', 'verify-full'];
+const sslUnsupported = new Set(); // profileKey dos perfis "prefer" cujo servidor recusou TLS
+
+const clean = (v) => (typeof v === 'string' && v.trim() ? v.trim() : undefined);
+
+const normalizeSsl = (ssl) => {
+  if (!ssl || !ssl.mode || ssl.mode === 'disable') return undefined;
+  if (!SSL_MODES.includes(ssl.mode)) throw new Error(`sslmode inválido: ${ssl.mode}`);
+  return { mode: ssl.mode, caFile: clean(ssl.caFile), certFile: clean(ssl.certFile), keyFile: clean(ssl.keyFile), servername: clean(ssl.servername) };
+};
+
+// Aceita caminhos como ~/.ssh/id_ed25519 (o shell não está aqui para expandir o ~)
+const readCertificate = (file, label) => {
+  try {
+    return fs.readFileSync(file.replace(/^~(?=$|[\\/])/, os.homedir()), 'utf8');
+  } catch (err) {
+    throw new Error(`Não foi possível ler ${label} (${file}): ${err.message}`);
+  }
+};
+
+const buildSslConfig = (creds) => {
+  const ssl = creds.ssl;
+  if (!ssl || sslUnsupported.has(profileKey(creds))) return false;
+  const config = {};
+  if (ssl.caFile) config.ca = readCertificate(ssl.caFile, 'o certificado CA');
+  if (ssl.certFile) config.cert = readCertificate(ssl.certFile, 'o certificado do cliente');
+  if (ssl.keyFile) config.key = readCertificate(ssl.keyFile, 'a chave do cliente');
+  // Pelo túnel o host da conexão é 127.0.0.1: o TLS continua falando com o nome do servidor real
+  const servername = ssl.servername || (creds.ssh && !net.isIP(creds.host) ? creds.host : undefined);
+  if (servername) config.servername = servername;
+  const verify = ssl.mode === 'verify-ca' || ssl.mode === 'verify-full' || (ssl.mode === 'require' && !!ssl.caFile);
+  config.rejectUnauthorized = verify;
+  // Sem verify-full a cadeia pode ser validada, mas o nome do certificado não
+  if (ssl.mode !== 'verify-full') config.checkServerIdentity = () => undefined;
+  return config;
+};
+
+/** Configuração do pg.Client/pg.Pool a partir das credenciais normalizadas. */
+const connectionConfig = (creds) => {
+  const { host, port, user, password, database } = creds;
+  const ssl = buildSslConfig(creds);
+  const application_name = creds.applicationName;
+  if (!creds.ssh) return { host, port, user, password, database, ssl, application_name };
+  const tunnel = tunnels.get(tunnelKeyOf(creds));
+  if (!tunnel?.localPort) throw new Error('Túnel SSH não está aberto.');
+  return { host: HOST, port: tunnel.localPort, user, password, database, ssl, application_name };
+};
+
+const isSslUnsupportedError = (err) => /does not support SSL/i.test(err?.message || '');
+
+/**
+ * Túneis SSH:
+ * Um túnel por bastion + destino, compartilhado pelos pools e sessões que usam o perfil.
+ * O backend escuta numa porta local e encaminha cada conexão do pg por direct-tcpip. Se a
+ * conexão SSH cair, reconecta com espera crescente enquanto o túnel estiver em uso.
+ */
+const TUNNEL_READY_TIMEOUT_MS = 15000;
+const TUNNEL_RECONNECT_MAX_MS = 30000;
+const tunnels = new Map(); // tunnelKey -> { key, label, config, target, status, server, localPort, ssh, connection, ready, lastError, attempt, reconnects, openedAt, lastUsed, closed }
+
+const normalizeSsh = (ssh) => {
+  if (!ssh || !clean(ssh.host)) return undefined;
+  if (!clean(ssh.user)) throw new Error('Usuário SSH obrigatório para o túnel.');
+  return {
+    host: clean(ssh.host),
+    port: parseInt(ssh.port, 10) || 22,
+    user: clean(ssh.user),
+    authMethod: ssh.authMethod === 'password' ? 'password' : 'key',
+    keyFile: clean(ssh.keyFile),
+    password: ssh.password || undefined,
+    passphrase: ssh.passphrase || undefined,
+    localPort: parseInt(ssh.localPort, 10) || 0
+  };
+};
+
+const tunnelLabel = (creds) => `${creds.ssh.user}@${creds.ssh.host}:${creds.ssh.port} → ${creds.host}:${creds.port}`;
+
+const tunnelKeyOf = (creds) => {
+  const { password, passphrase, keyFile, localPort } = creds.ssh;
+  const secret = crypto.createHash('sha256').update(JSON.stringify([password, passphrase, keyFile, localPort])).digest('hex').slice(0, 12);
+  return `${tunnelLabel(creds)}#${secret}`;
+};
+
+const describeTunnel = (tunnel) => ({
+  label: tunnel.label,
+  status: tunnel.status,
+  localPort: tunnel.localPort,
+  lastError: tunnel.lastError,
+  reconnects: tunnel.reconnects,
+  openedAt: tunnel.openedAt
+});
+
+const connectSsh = (config) => new Promise((resolve, reject) => {
+  const client = new SshClient();
+  const options = {
+    host: config.host,
+    port: config.port,
+    username: config.user,
+    readyTimeout: TUNNEL_READY_TIMEOUT_MS,
+    keepaliveInterval: 15000,
+    keepaliveCountMax: 3
+  };
+  try {
+    if (config.authMethod === 'password') options.password = config.password;
+    else if (config.keyFile) {
+      options.privateKey = readCertificate(config.keyFile, 'a chave SSH');
+      if (config.passphrase) options.passphrase = config.passphrase;
+    } else throw new Error('Informe o arquivo da chave SSH.');
+  } catch (err) {
+    return reject(err);
+  }
+  client.once('ready', () => {
+    client.removeListener('error', reject);
+    resolve(client);
+  });
+  client.once('error', reject);
+  client.connect(options);
+});
+
+const scheduleTunnelReconnect = (tunnel) => {
+  if (tunnel.closed) return;
+  tunnel.status = 'reconnecting';
+  const delay = Math.min(TUNNEL_RECONNECT_MAX_MS, 1000 * 2 ** Math.min(tunnel.attempt, 5));
+  tunnel.attempt++;
+  tunnel.reconnects++;
+  serverLog('TUNNEL', '-', `Reconectando ${tunnel.label} em ${delay}ms (tentativa ${tunnel.attempt})`);
+  tunnel.connection = new Promise(resolve => setTimeout(resolve, delay)).then(() => connectTunnel(tunnel));
+  tunnel.connection.catch(() => {});
+};
+
+// A primeira falha sobe para quem abriu o túnel; depois de aberto, falhas viram novas tentativas
+const connectTunnel = (tunnel) => connectSsh(tunnel.config).then(client => {
+  if (tunnel.closed) {
+    client.end();
+    throw new Error('Túnel encerrado.');
+  }
+  tunnel.ssh = client;
+  tunnel.status = 'open';
+  tunnel.attempt = 0;
+  tunnel.openedAt = Date.now();
+  tunnel.lastError = null;
+  serverLog('TUNNEL', '-', `Túnel ${tunnel.label} aberto na porta local ${tunnel.localPort}`);
+  client.on('error', (err) => {
+    tunnel.lastError = err.message;
+    serverError('TUNNEL', tunnel.label, err);
+  });
+  client.on('close', () => {
+    if (tunnel.ssh !== client) return;
+    tunnel.ssh = null;
+    serverLog('TUNNEL', '-', `Conexão SSH de ${tunnel.label} encerrada`);
+    scheduleTunnelReconnect(tunnel);
+  });
+  return client;
+}, (err) => {
+  tunnel.lastError = err.message;
+  if (tunnel.status === 'connecting') {
+    tunnel.status = 'failed';
+    throw err;
+  }
+  scheduleTunnelReconnect(tunnel);
+  throw err;
+});
+
+const forwardTunnelSocket = async (tunnel, socket) => {
+  socket.on('error', () => {});
+  let client;
+  try {
+    client = await tunnel.connection;
+  } catch {
+    return socket.destroy();
+  }
+  if (socket.destroyed) return;
+  client.forwardOut(HOST, socket.remotePort || 0, tunnel.target.host, tunnel.target.port, (err, stream) => {
+    if (err) {
+      tunnel.lastError = err.message;
+      serverError('TUNNEL', tunnel.label, err);
+      return socket.destroy();
+    }
+    stream.on('error', () => socket.destroy());
+    socket.pipe(stream).pipe(socket);
+  });
+};
+
+const closeTunnel = (tunnel, reason) => {
+  if (tunnel.closed) return;
+  tunnel.closed = true;
+  tunnel.status = 'closed';
+  if (tunnels.get(tunnel.key) === tunnel) tunnels.delete(tunnel.key);
+  serverLog('TUNNEL', '-', `Encerrando túnel ${tunnel.label}: ${reason}`);
+  tunnel.ssh?.end();
+  tunnel.server?.close();
+};
+
+/** Abre (ou reaproveita) o túnel do perfil antes de criar pools e sessões que passam por ele. */
+const ensureTunnel = async (creds) => {
+  const key = tunnelKeyOf(creds);
+  let tunnel = tunnels.get(key);
+  if (!tunnel) {
+    tunnel = {
+      key,
+      label: tunnelLabel(creds),
+      config: creds.ssh,
+      target: { host: creds.host, port: creds.port },
+      status: 'connecting',
+      server: null,
+      localPort: null,
+      ssh: null,
+      connection: null,
+      lastError: null,
+      attempt: 0,
+      reconnects: 0,
+      openedAt: null,
+      lastUsed: Date.now(),
+      closed: false
+    };
+    tunnels.set(key, tunnel);
+    const opening = tunnel;
+    opening.ready = (async () => {
+      opening.server = net.createServer(socket => forwardTunnelSocket(opening, socket));
+      await new Promise((resolve, reject) => {
+        opening.server.once('error', reject);
+        opening.server.listen(opening.config.localPort, HOST, resolve);
+      });
+      opening.localPort = opening.server.address().port;
+      opening.connection = connectTunnel(opening);
+      await opening.connection;
+    })().catch((err) => {
+      closeTunnel(opening, 'falha ao abrir');
+      throw new Error(`Túnel SSH (${opening.label}): ${err.message}`);
+    });
+  }
+  await tunnel.ready;
+  if (tunnel.status === 'reconnecting') {
+    await tunnel.connection.catch((err) => {
+      throw new Error(`Túnel SSH (${tunnel.label}) fora do ar, reconectando: ${err.message}`);
+    });
+  }
+  tunnel.lastUsed = Date.now();
+  return tunnel;
+};
+
+/**
+ * Cofre de Credenciais:
+ * O renderer se conecta uma vez (senha digitada ou ID de perfil cujo segredo está no cofre
+ * do processo principal) e recebe um connectionToken opaco; as demais rotas recebem só o token.
+ */
+const vaultRequests = new Map(); // requestId -> { resolve, reject, timer }
+const VAULT_TIMEOUT_MS = 5000;
+
+process.parentPort?.on('message', (event) => {
+  const msg = event.data;
+  const pending = msg?.type === 'vault-secret' && vaultRequests.get(msg.requestId);
+  if (!pending) return;
+  vaultRequests.delete(msg.requestId);
+  clearTimeout(pending.timer);
+  if (msg.error) pending.reject(new Error(msg.error));
+  else pending.resolve(msg.password);
+});
+
+const requestVaultSecret = (profileId, kind, target) => new Promise((resolve, reject) => {
+  if (!process.parentPort) return reject(new Error('Cofre de credenciais disponível apenas no app desktop.'));
+  const requestId = crypto.randomUUID();
+  const timer = setTimeout(() => {
+    vaultRequests.delete(requestId);
+    reject(new Error('O cofre de credenciais não respondeu.'));
+  }, VAULT_TIMEOUT_MS);
+  vaultRequests.set(requestId, { resolve, reject, timer });
+  process.parentPort.postMessage({ type: 'vault-secret', requestId, profileId, kind, target });
+});
+
+const expiredCredentials = () => Object.assign(new Error('Credenciais da conexão expiraram. Conecte novamente.'), { credentialsExpired: true });
+
+const normalizeCredentials = (credentials) => {
+  if (credentials?.connectionToken) {
+    const stored = credentialTokens.get(credentials.connectionToken);
+    if (!stored) throw expiredCredentials();
+    return stored;
+  }
+  const { host, port, user, password, database, ssl, ssh, applicationName } = credentials || {};
+  if (!host || !user || !database) throw new Error('Credenciais incompletas.');
+  return { host: host === 'localhost' ? '127.0.0.1' : host, port: parseInt(port, 10) || 5432, user, password, database, ssl: normalizeSsl(ssl), ssh: normalizeSsh(ssh), applicationName: clean(applicationName) };
+};
+
+const usesVault = (credentials) => !!credentials?.profileId && !credentials.password;
+
+// Servidor de destino enviado junto do pedido ao cofre: o main.js só entrega o segredo vinculado a ele
+const vaultTarget = (creds, kind) => kind === 'ssh'
+  ? { host: creds.ssh.host, port: creds.ssh.port, user: creds.ssh.user }
+  : { host: creds.host, port: creds.port, user: creds.user, database: creds.database };
+
+// Perfil sem senha informada: a senha vem do cofre pelo ID do perfil
+const resolveCredentials = async (credentials) => {
+  const { connectionToken, profileId, ...plain } = credentials || {};
+  const creds = normalizeCredentials(plain);
+  if (!profileId) return creds;
+  if (!creds.password) creds.password = await requestVaultSecret(profileId, undefined, vaultTarget(creds));
+  // Senha SSH ou frase da chave, conforme o método de autenticação do túnel
+  if (creds.ssh && plain.ssh?.secretInVault) {
+    const secretField = creds.ssh.authMethod === 'password' ? 'password' : 'passphrase';
+    if (!creds.ssh[secretField]) creds.ssh = { ...creds.ssh, [secretField]: await requestVaultSecret(profileId, 'ssh', vaultTarget(creds, 'ssh')) };
+  }
+  return creds;
+};
+
+/**
+ * Token de um perfil do cofre: HMAC do ID com as credenciais públicas. O backend consegue
+ * refazê-lo após reiniciar sem aceitar um valor escolhido pelo cliente.
+ */
+const vaultConnectionToken = (profileId, creds) => {
+  const { password, ...publicCreds } = creds;
+  const ssh = creds.ssh && { ...creds.ssh, password: undefined, passphrase: undefined };
+  return crypto.createHmac('sha256', CONNECTION_SECRET).update(JSON.stringify([profileId, { ...publicCreds, ssh }])).digest('hex');
+};
+
+/**
+ * Garante que o token é conhecido. Após um reinício do backend os tokens se perdem;
+ * os de perfis do cofre são refeitos se baterem com o HMAC do perfil, os de senha digitada expiram.
+ */
+const ensureCredentials = async (credentials) => {
+  const token = credentials?.connectionToken;
+  if (token && !credentialTokens.has(token)) {
+    const { connectionToken, ...profile } = credentials;
+    if (!usesVault(profile) || !sameSecret(token, vaultConnectionToken(profile.profileId, normalizeCredentials(profile)))) throw expiredCredentials();
+    credentialTokens.set(token, await resolveCredentials(profile));
+    serverLog('VAULT', '-', `Token de conexão restaurado pelo perfil ${profile.profileId}`);
+  }
+  return normalizeCredentials(credentials);
+};
+
+const profileLabel = (creds) => `${creds.user}@${creds.host}:${creds.port}/${creds.database}${creds.ssh ? ` (SSH ${creds.ssh.user}@${creds.ssh.host})` : ''}`;
+
+// Senha, TLS, túnel e application_name entram no hash da chave para que uma troca não reaproveite o pool antigo.
+const profileKey = (creds) => {
+  const secret = crypto.createHash('sha256').update(`${creds.password ?? ''}\u0000${JSON.stringify(creds.ssl ?? null)}\u0000${JSON.stringify(creds.ssh ?? null)}\u0000${creds.applicationName ?? ''}`).digest('hex').slice(0, 12);
+  return `${profileLabel(creds)}#${secret}`;
+};
+
+const getPool = (creds) => {
+  const key = profileKey(creds);
+  let entry = pools.get(key);
+  if (!entry) {
+    const pool = new Pool({ ...connectionConfig(creds), max: POOL_MAX_CLIENTS, idleTimeoutMillis: 30000, connectionTimeoutMillis: 5000 });
+    // O driver enfileira as queries por client, então os SETs terminam antes da primeira query da rota.
+    pool.on('connect', (client) => { setupSession(client); });
+    pool.on('error', (err) => serverError('POOL', profileLabel(creds), err));
+    entry = { pool, label: profileLabel(creds), tunnelKey: creds.ssh ? tunnelKeyOf(creds) : null, createdAt: Date.now(), lastUsed: Date.now() };
+    pools.set(key, entry);
+    serverLog('POOL', '-', `Pool criado para ${entry.label}`);
+  }
+  return entry;
+};
+
+const closeSession = async (sessionId, reason = 'solicitado') => {
+  const session = stickySessions.get(sessionId);
+  if (!session) return false;
+  stickySessions.delete(sessionId);
+  const pendingTx = session.txStatus && session.txStatus !== 'I' ? ' [transação aberta descartada]' : '';
+  serverLog('SESSION', '-', `Encerrando sessão ${sessionId} (${session.label}): ${reason}${pendingTx}`);
+  // client.end() não interrompe uma query em curso no servidor: cancela antes de desconectar
+  if (session.activeQueries > 0 && session.pid) {
+    try { await cancelBackend(session.creds, session.pid); } catch (e) { serverError('SESSION', sessionId, e); }
+  }
+  try { await session.client.end(); } catch (e) {}
+  return true;
+};
+
+const openStickySession = (sessionId, creds, key) => {
+  const client = new Client({ ...connectionConfig(creds), connectionTimeoutMillis: 5000 });
+  const session = {
+    id: sessionId,
+    profileKey: key,
+    tunnelKey: creds.ssh ? tunnelKeyOf(creds) : null,
+    label: profileLabel(creds),
+    creds,
+    client,
+    pid: null,
+    ready: null,
+    txStatus: 'I',
+    transaction: null,
+    cursor: null,
+    createdAt: Date.now(),
+    lastUsed: Date.now(),
+    activeQueries: 0
+  };
+  // Acompanha o status real de transação, inclusive quando o usuário digita BEGIN/COMMIT no editor
+  client.connection.on('readyForQuery', (msg) => {
+    session.txStatus = msg.status;
+    // Cursores sem WITH HOLD morrem junto com a transação
+    if (msg.status === 'I' && session.cursor && !session.cursor.holdable) session.cursor = null;
+    if (msg.status === 'I') session.transaction = null;
+    else if (!session.transaction) session.transaction = { startedAt: Date.now(), savepoints: [] };
+  });
+  client.on('error', (err) => {
+    serverError('SESSION', sessionId, err);
+    if (stickySessions.get(sessionId) === session) stickySessions.delete(sessionId);
+  });
+  session.ready = (async () => {
+    await client.connect();
+    await setupSession(client);
+    const pidRes = await client.query('SELECT pg_backend_pid() AS pid');
+    session.pid = pidRes.rows[0]?.pid ?? null;
+    serverLog('SESSION', '-', `Sessão ${sessionId} aberta em ${session.label} (PID ${session.pid})`);
+  })();
+  stickySessions.set(sessionId, session);
+  return session;
+};
+
+/**
+ * Obtém um client para a requisição. Com sessionId usa a sessão dedicada da aba;
+ * sem ele, empresta uma conexão do pool do perfil. Sempre chame release() no finally.
+ */
+const acquireClientOnce = async (credentials, sessionId) => {
+  const creds = await ensureCredentials(credentials);
+  const key = profileKey(creds);
+  if (creds.ssh) await ensureTunnel(creds);
+
+  if (sessionId) {
+    let session = stickySessions.get(sessionId);
+    if (session && session.profileKey !== key) {
+      await closeSession(sessionId, 'perfil de conexão alterado');
+      session = null;
+    }
+    if (!session) session = openStickySession(sessionId, creds, key);
+    try {
+      await session.ready;
+    } catch (err) {
+      if (stickySessions.get(sessionId) === session) stickySessions.delete(sessionId);
+      throw err;
+    }
+    session.activeQueries++;
+    session.lastUsed = Date.now();
+    return {
+      client: session.client,
+      session,
+      release: () => {
+        session.activeQueries = Math.max(0, session.activeQueries - 1);
+        session.lastUsed = Date.now();
+      }
+    };
+  }
+
+  const entry = getPool(creds);
+  entry.lastUsed = Date.now();
+  const client = await entry.pool.connect();
+  return { client, session: null, release: (err) => client.release(err) };
+};
+
+// sslmode=prefer: se o servidor recusar TLS, o perfil passa a conectar sem e o pool com TLS é descartado
+const acquireClient = async (credentials, sessionId) => {
+  try {
+    return await acquireClientOnce(credentials, sessionId);
+  } catch (err) {
+    if (!isSslUnsupportedError(err)) throw err;
+    const creds = normalizeCredentials(credentials);
+    const key = profileKey(creds);
+    if (creds.ssl?.mode !== 'prefer' || sslUnsupported.has(key)) throw err;
+    serverLog('SSL', '-', `${profileLabel(creds)} não suporta TLS; sslmode=prefer seguirá sem criptografia.`);
+    sslUnsupported.add(key);
+    const stale = pools.get(key);
+    if (stale) {
+      pools.delete(key);
+      stale.pool.end().catch(() => {});
+    }
+    return acquireClientOnce(credentials, sessionId);
+  }
+};
+
+/**
+ * Metadados de Colunas:
+ * Completa result.fields com nome do tipo, categoria (pg_type.typcategory), tabela de
+ * origem e se a coluna é PK. A consulta roda no pool, fora da sessão da aba, para não
+ * interferir em uma transação aberta (ou abortada) do usuário.
+ */
+const typeCache = new Map(); // profileKey -> Map<oid, { typeName, typeCategory }>
+
+const describeFields = async (credentials, fields) => {
+  const base = (fields || []).map(f => ({
+    name: f.name,
+    dataTypeID: f.dataTypeID,
+    typeName: null,
+    typeCategory: null,
+    tableID: f.tableID || null,
+    columnID: f.columnID || null,
+    tableName: null,
+    isPrimaryKey: false
+  }));
+  if (base.length === 0) return base;
+  try {
+    const creds = normalizeCredentials(credentials);
+    const key = profileKey(creds);
+    if (!typeCache.has(key)) typeCache.set(key, new Map());
+    const cache = typeCache.get(key);
+    const { pool } = getPool(creds);
+
+    const missingTypes = [...new Set(base.map(f => f.dataTypeID))].filter(oid => !cache.has(oid));
+    if (missingTypes.length > 0) {
+      const typeRes = await pool.query(
+        'SELECT oid::int AS oid, format_type(oid, NULL) AS type_name, typcategory FROM pg_type WHERE oid = ANY($1::oid[])',
+        [missingTypes]
+      );
+      typeRes.rows.forEach(r => cache.set(r.oid, { typeName: r.type_name, typeCategory: r.typcategory }));
+    }
+
+    const tableIds = [...new Set(base.map(f => f.tableID).filter(Boolean))];
+    const tables = new Map();
+    if (tableIds.length > 0) {
+      const tableRes = await pool.query(`
+        SELECT c.oid::int AS oid, n.nspname, c.relname,
+               COALESCE((SELECT i.indkey::int2[] FROM pg_index i WHERE i.indrelid = c.oid AND i.indisprimary), '{}') AS pk
+        FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace
+        WHERE c.oid = ANY($1::oid[])
+      `, [tableIds]);
+      tableRes.rows.forEach(r => tables.set(r.oid, r));
+    }
+
+    return base.map(f => {
+      const type = cache.get(f.dataTypeID);
+      const table = f.tableID ? tables.get(f.tableID) : null;
+      return {
+        ...f,
+        typeName: type?.typeName ?? null,
+        typeCategory: type?.typeCategory ?? null,
+        tableName: table ? `${table.nspname}.${table.relname}` : null,
+        isPrimaryKey: !!table && table.pk.includes(f.columnID)
+      };
+    });
+  } catch (err) {
+    serverError('FIELDS', '-', err);
+    return base;
+  }
+};
+
+/**
+ * Coleta de NOTICE/WARNING (RAISE, VACUUM VERBOSE, avisos de cast) emitidos durante
+ * uma execução. O teto evita que um RAISE dentro de laço estoure a memória.
+ */
+const formatNotice = (msg) => ({
+  severity: msg.severity,
+  code: msg.code,
+  message: msg.message,
+  detail: msg.detail,
+  hint: msg.hint,
+  context: msg.where,
+  position: msg.position ? parseInt(msg.position, 10) : undefined
+});
+
+const collectNotices = (client) => {
+  const collector = { notices: [], dropped: 0 };
+  const listener = (msg) => {
+    if (collector.notices.length < MAX_NOTICES) collector.notices.push(formatNotice(msg));
+    else collector.dropped++;
+  };
+  client.on('notice', listener);
+  collector.stop = () => {
+    client.removeListener('notice', listener);
+    if (collector.dropped > 0) serverLog('NOTICE', '-', `${collector.dropped} notices descartados (limite de ${MAX_NOTICES}).`);
+  };
+  return collector;
+};
+
+const trackExecution = (executionId, { sessionId, credentials, pid, sql }) => {
+  if (!executionId) return null;
+  const creds = normalizeCredentials(credentials);
+  const execution = {
+    id: executionId,
+    sessionId: sessionId || null,
+    label: profileLabel(creds),
+    creds,
+    pid,
+    sql,
+    startedAt: Date.now(),
+    cancelRequested: false
+  };
+  executions.set(executionId, execution);
+  return execution;
+};
+
+const untrackExecution = (execution) => {
+  if (execution && executions.get(execution.id) === execution) executions.delete(execution.id);
+};
+
+/**
+ * Campos estruturados do ErrorResponse do PostgreSQL (SQLSTATE, posição, dica, objeto
+ * envolvido). Erros que não vieram do servidor (ex: conexão recusada) só têm a mensagem.
+ */
+const pgErrorDetails = (err) => ({
+  message: err.message,
+  code: err.code,
+  severity: err.severity,
+  detail: err.detail,
+  hint: err.hint,
+  position: err.position ? parseInt(err.position, 10) : undefined,
+  internalPosition: err.internalPosition ? parseInt(err.internalPosition, 10) : undefined,
+  internalQuery: err.internalQuery,
+  context: err.where,
+  schema: err.schema,
+  table: err.table,
+  column: err.column,
+  dataType: err.dataType,
+  constraint: err.constraint
+});
+
+// 57014 = query_canceled: distingue o Cancelar do usuário de um statement_timeout
+const executionErrorResponse = (err, execution, statementTimeoutMs) => {
+  const details = pgErrorDetails(err);
+  if (err.code === '57014' && execution?.cancelRequested) {
+    return { status: 409, body: { error: 'Execução cancelada pelo usuário.', cancelled: true, details } };
+  }
+  if (err.code === '57014' && statementTimeoutMs) {
+    return { status: 500, body: { error: `Tempo limite de execução excedido (statement_timeout = ${statementTimeoutMs}ms).`, timedOut: true, details } };
+  }
+  return { status: 500, body: { error: err.message, details } };
+};
+
+/** Envia pg_cancel_backend por uma conexão do pool do perfil (a conexão ocupada não pode cancelar a si mesma). */
+const cancelBackend = async (creds, pid) => {
+  const entry = getPool(creds);
+  entry.lastUsed = Date.now();
+  const result = await entry.pool.query('SELECT pg_cancel_backend($1) AS cancelled', [pid]);
+  return result.rows[0]?.cancelled === true;
+};
+
+/**
+ * Aplica o statement_timeout da aba antes da execução. Em transação abortada o SET
+ * falharia, então é ignorado; dentro de transação é reaplicado a cada execução porque
+ * um ROLLBACK desfaz o SET. Sem timeout escolhido vale o padrão do papel/banco: a sessão
+ * só recebe RESET se a aba tinha mudado o valor antes.
+ */
+const applyStatementTimeout = async (client, session, statementTimeoutMs) => {
+  const ms = Math.max(0, parseInt(statementTimeoutMs, 10) || 0);
+  if (session) {
+    if (session.txStatus === 'E') return;
+    if (!ms && !session.statementTimeoutMs) return;
+    if (session.txStatus === 'I' && session.statementTimeoutMs === ms) return;
+  } else if (!ms) return;
+  await client.query(ms ? `SET statement_timeout = ${ms}` : 'RESET statement_timeout');
+  if (session && session.txStatus === 'I') session.statementTimeoutMs = ms;
+};
+
+const evictIdleSessions = async () => {
+  const now = Date.now();
+  for (const [id, session] of stickySessions) {
+    if (session.activeQueries === 0 && now - session.lastUsed > SESSION_IDLE_MS) {
+      await closeSession(id, 'ociosa');
+    }
+  }
+  for (const [key, entry] of pools) {
+    const inUse = entry.pool.totalCount !== entry.pool.idleCount || entry.pool.waitingCount > 0;
+    if (!inUse && now - entry.lastUsed > POOL_IDLE_MS) {
+      pools.delete(key);
+      serverLog('POOL', '-', `Pool ocioso encerrado: ${entry.label}`);
+      entry.pool.end().catch(() => {});
+    }
+  }
+  // Túnel sem pool nem sessão que dependa dele
+  for (const tunnel of [...tunnels.values()]) {
+    const inUse = [...pools.values(), ...stickySessions.values()].some(e => e.tunnelKey === tunnel.key);
+    if (!inUse && now - tunnel.lastUsed > POOL_IDLE_MS) closeTunnel(tunnel, 'ocioso');
+  }
+};
+
+setInterval(() => { evictIdleSessions().catch(e => serverError('EVICT', '-', e)); }, 60 * 1000).unref();
+
+const shutdownSessions = async () => {
+  await Promise.all([...stickySessions.keys()].map(id => closeSession(id, 'shutdown')));
+  await Promise.all([...pools.values()].map(entry => entry.pool.end().catch(() => {})));
+  pools.clear();
+  [...tunnels.values()].forEach(tunnel => closeTunnel(tunnel, 'shutdown'));
+};
+
+['SIGINT', 'SIGTERM'].forEach(signal => process.on(signal, () => {
+  shutdownSessions().finally(() => process.exit(0));
+}));
+
+app.get('/api/sessions', (req, res) => {
+  res.json({
+    sessions: [...stickySessions.values()].map(s => ({
+      id: s.id,
+      profile: s.label,
+      pid: s.pid,
+      createdAt: s.createdAt,
+      lastUsed: s.lastUsed,
+      busy: s.activeQueries > 0
+    })),
+    pools: [...pools.values()].map(entry => ({
+      profile: entry.label,
+      totalCount: entry.pool.totalCount,
+      idleCount: entry.pool.idleCount,
+      waitingCount: entry.pool.waitingCount,
+      createdAt: entry.createdAt,
+      lastUsed: entry.lastUsed
+    })),
+    tunnels: [...tunnels.values()].map(describeTunnel),
+    idleTimeoutMs: SESSION_IDLE_MS
+  });
+});
+
+app.post('/api/tunnel-status', async (req, res) => {
+  try {
+    const creds = await ensureCredentials(req.body.credentials);
+    const tunnel = creds.ssh ? tunnels.get(tunnelKeyOf(creds)) : null;
+    res.json({ tunnel: tunnel ? describeTunnel(tunnel) : null });
+  } catch (err) {
+    res.status(400).json({ error: err.message });
+  }
+});
+
+app.delete('/api/sessions/:id', async (req, res) => {
+  const closed = await closeSession(req.params.id);
+  if (!closed) return res.status(404).json({ error: 'Sessão não encontrada.' });
+  res.json({ success: true });
+});
+
+app.post('/api/transaction', async (req, res) => {
+  const { credentials, sessionId, action, name, isolationLevel, readOnly } = req.body;
+  if (!sessionId) return res.status(400).json({ error: 'Controle de transação exige uma sessão (sessionId).' });
+  if (!TX_ACTIONS.includes(action)) return res.status(400).json({ error: `Ação de transação inválida: ${action}` });
+
+  if (action === 'status') {
+    const session = stickySessions.get(sessionId);
+    return res.json(session ? describeTransaction(session) : { sessionId, status: 'idle', startedAt: null, savepoints: [] });
+  }
+
+  let handle;
+  try {
+    handle = await acquireClient(credentials, sessionId);
+    const { client, session } = handle;
+    const status = TX_STATUS[session.txStatus] || 'idle';
+    let command;
+    let rolledBack = false;
+
+    if (action === 'begin') {
+      if (status !== 'idle') return res.status(409).json({ error: 'Já existe uma transação aberta nesta aba.' });
+      if (isolationLevel && !ISOLATION_LEVELS.includes(isolationLevel)) {
+        return res.status(400).json({ error: `Nível de isolamento inválido: ${isolationLevel}` });
+      }
+      command = `BEGIN${isolationLevel ? ` ISOLATION LEVEL ${isolationLevel}` : ''}${readOnly ? ' READ ONLY' : ''}`;
+      await client.query(command);
+    } else {
+      if (status === 'idle') return res.status(409).json({ error: 'Nenhuma transação aberta nesta aba.' });
+      const savepoints = session.transaction.savepoints;
+
+      if (action === 'savepoint') {
+        if (status === 'failed') {
+          return res.status(409).json({ error: 'Transação abortada: execute ROLLBACK ou ROLLBACK TO SAVEPOINT antes de continuar.' });
+        }
+        const spName = name || `sp_${savepoints.length + 1}`;
+        command = `SAVEPOINT ${quoteIdent(spName)}`;
+        await client.query(command);
+        session.transaction.savepoints = [...savepoints, spName];
+      } else if (action === 'rollback-to' || action === 'release') {
+        const idx = savepoints.lastIndexOf(name);
+        if (idx === -1) return res.status(404).json({ error: `Savepoint não encontrado: ${name}` });
+        command = action === 'rollback-to' ? `ROLLBACK TO SAVEPOINT ${quoteIdent(name)}` : `RELEASE SAVEPOINT ${quoteIdent(name)}`;
+        await client.query(command);
+        // ROLLBACK TO mantém o savepoint alvo; RELEASE o remove junto com os posteriores
+        session.transaction.savepoints = savepoints.slice(0, action === 'rollback-to' ? idx + 1 : idx);
+      } else if (action === 'commit') {
+        command = 'COMMIT';
+        const result = await client.query(command);
+        // Em uma transação abortada o servidor responde COMMIT com a tag ROLLBACK
+        rolledBack = result.command === 'ROLLBACK';
+      } else {
+        command = 'ROLLBACK';
+        await client.query(command);
+        rolledBack = true;
+      }
+    }
+
+    serverLog('POST', '/api/transaction', `[${sessionId}] ${command}`);
+    res.json({ ...describeTransaction(session), command, rolledBack });
+  } catch (err) {
+    serverError('POST', '/api/transaction', err);
+    res.status(500).json({ error: err.message });
+  } finally { handle?.release(); }
+});
+
+app.post('/api/credentials', async (req, res) => {
+  const { credentials } = req.body;
+  try {
+    const creds = await resolveCredentials(credentials);
+    const connectionToken = usesVault(credentials) ? vaultConnectionToken(credentials.profileId, creds) : crypto.randomBytes(24).toString('hex');
+    credentialTokens.set(connectionToken, creds);
+    serverLog('POST', '/api/credentials', `Token de conexão emitido para ${profileLabel(creds)}${credentials?.profileId ? ' (cofre)' : ''}`);
+    res.json({ connectionToken });
+  } catch (err) {
+    serverError('POST', '/api/credentials', err);
+    res.status(400).json({ error: err.message });
+  }
+});
+
 app.post('/api/connect', async (req, res) => {
-  let { host, port, user, password, database } = req.body;
-  if (host === 'localhost') host = '127.0.0.1';
+  const { database } = req.body;
   serverLog('POST', '/api/connect', `Conectando em ${database}...`);
   
-  const client = new Client({ host, port, user, password, database, connectionTimeoutMillis: 5000 });
+  let handle;
   try {
-    await client.connect();
-    await setupSession(client);
+    handle = await acquireClient(req.body);
+    const { client } = handle;
     
     const tablesRes = await client.query(`SELECT table_schema, table_name, obj_description((table_schema || '.' || table_name)::regclass) as description FROM information_schema.tables WHERE table_schema NOT IN ('information_schema', 'pg_catalog') AND table_type = 'BASE TABLE' ORDER BY table_schema, table_name;`);
     const columnsRes = await client.query(`SELECT c.table_schema, c.table_name, c.column_name, c.data_type, (SELECT COUNT(*) > 0 FROM information_schema.key_column_usage kcu JOIN information_schema.table_constraints tc ON kcu.constraint_name = tc.constraint_name AND kcu.table_schema = tc.table_schema WHERE kcu.table_name = c.table_name AND kcu.column_name = c.column_name AND tc.constraint_type = 'PRIMARY KEY') as is_primary FROM information_schema.columns c WHERE c.table_schema NOT IN ('information_schema', 'pg_catalog') ORDER BY c.ordinal_position;`);
@@ -131,16 +1015,15 @@ app.post('/api/connect', async (req, res) => {
   } catch (err) { 
     serverError('POST', '/api/connect', err);
     res.status(500).json({ error: err.message }); 
-  } finally { try { await client.end(); } catch (e) {} }
+  } finally { handle?.release(); }
 });
 
 app.post('/api/objects', async (req, res) => {
   let { credentials, limit = 50, offset = 0, searchTerm = '', filterType = 'all' } = req.body;
-  if (credentials.host === 'localhost') credentials.host = '127.0.0.1';
-  const client = new Client(credentials);
+  let handle;
   try {
-    await client.connect();
-    await setupSession(client);
+    handle = await acquireClient(credentials);
+    const { client } = handle;
     
     serverLog('POST', '/api/objects', `Buscando página (limit:${limit}, offset:${offset}) em modo ASCII...`);
 
@@ -199,35 +1082,471 @@ app.post('/api/objects', async (req, res) => {
   } catch (err) {
     serverError('POST', '/api/objects', err);
     res.status(500).json({ error: err.message });
-  } finally { try { await client.end(); } catch (e) {} }
+  } finally { handle?.release(); }
 });
 
-app.post('/api/execute', async (req, res) => {
-  let { credentials, sql } = req.body;
-  if (credentials.host === 'localhost') credentials.host = '127.0.0.1';
-  const client = new Client(credentials);
+/**
+ * Valores de $1..$n. Sem params a consulta vai pelo protocolo simples (aceita vários
+ * comandos); com params usa o protocolo estendido, que exige um único comando.
+ */
+const resolveParams = (params) => {
+  if (params === undefined || params === null) return undefined;
+  if (!Array.isArray(params)) throw new Error('params deve ser uma lista de valores ($1..$n).');
+  return params.length > 0 ? params : undefined;
+};
+
+/**
+ * Conexões do pool são compartilhadas entre rotas: BEGIN sem COMMIT, SET, tabela temporária ou
+ * PREPARE vindos do SQL do usuário vazariam para a próxima requisição. Um SELECT simples que
+ * terminou fora de transação só desfaz o statement_timeout; o resto leva ROLLBACK + DISCARD ALL
+ * (e os SETs de setupSession de novo). Devolve true quando a limpeza falha: a conexão é descartada.
+ */
+const SESSION_CHANGING_SELECT = /\b(set_config|pg_advisory_lock|pg_advisory_lock_shared|into)\b/i;
+
+const resetPooledClient = async (client, txStatus, sql, statementTimeoutMs) => {
+  const plainSelect = txStatus === 'I' && isCursorable(sql) && !SESSION_CHANGING_SELECT.test(sql);
   try {
-    await client.connect();
+    if (plainSelect) {
+      if (parseInt(statementTimeoutMs, 10) > 0) await client.query('RESET statement_timeout');
+      return false;
+    }
+    if (txStatus !== 'I') await client.query('ROLLBACK');
+    await client.query('DISCARD ALL');
     await setupSession(client);
-    const result = await client.query(sql);
-    const finalData = Array.isArray(result) ? result[result.length - 1].rows : result.rows;
-    res.json(sanitizeRows(finalData));
+    return false;
+  } catch (e) {
+    serverError('POOL', 'RESET', e);
+    return true;
+  }
+};
+
+app.post('/api/execute', async (req, res) => {
+  const { credentials, sql, sessionId, executionId, statementTimeoutMs } = req.body;
+  let params;
+  try {
+    params = resolveParams(req.body.params);
+  } catch (e) {
+    return res.status(400).json({ error: e.message });
+  }
+  let handle;
+  let execution = null;
+  let collector = null;
+  // Status de transação da conexão do pool (a sessão da aba já acompanha o seu)
+  let poolTxStatus = 'I';
+  const onReadyForQuery = (msg) => { poolTxStatus = msg.status; };
+  try {
+    handle = await acquireClient(credentials, sessionId);
+    const { client, session } = handle;
+    if (!session) client.connection.on('readyForQuery', onReadyForQuery);
+    await applyStatementTimeout(client, session, statementTimeoutMs);
+    collector = collectNotices(client);
+    execution = trackExecution(executionId, { sessionId, credentials, pid: session?.pid ?? client.processID, sql });
+    const result = await client.query(sql, params);
+    const finalResult = Array.isArray(result) ? result[result.length - 1] : result;
+    const fields = await describeFields(credentials, finalResult.fields);
+    res.json({ rows: sanitizeRows(finalResult.rows), fields, notices: collector.notices });
   } catch (err) { 
     serverError('POST', '/api/execute', err);
-    res.status(500).json({ error: err.message }); 
-  } finally { try { await client.end(); } catch (e) {} }
+    const { status, body } = executionErrorResponse(err, execution, statementTimeoutMs);
+    res.status(status).json({ ...body, notices: collector?.notices }); 
+  } finally {
+    collector?.stop();
+    untrackExecution(execution);
+    if (handle && !handle.session) {
+      handle.client.connection.off('readyForQuery', onReadyForQuery);
+      handle.release(await resetPooledClient(handle.client, poolTxStatus, sql, statementTimeoutMs));
+    } else {
+      handle?.release();
+    }
+  }
+});
+
+/**
+ * Resultados Paginados:
+ * SELECTs rodam como cursor na sessão da aba e as linhas saem em NDJSON
+ * ({type:'meta'} -> {type:'rows'}* -> {type:'end'}), em blocos de STREAM_CHUNK_ROWS,
+ * sem montar o resultado inteiro em memória. Fora de transação o cursor é WITH HOLD
+ * (o PostgreSQL materializa o resultado no servidor); dentro da transação da aba é
+ * um cursor comum, descartado no COMMIT/ROLLBACK.
+ */
+let cursorSeq = 0;
+
+const writeLine = (res, payload) => res.write(`${JSON.stringify(payload)}\n`);
+
+const resolvePageLimits = (pageSize, maxRows) => {
+  const cap = Math.max(1, parseInt(maxRows, 10) || DEFAULT_MAX_ROWS);
+  return { pageSize: Math.min(cap, Math.max(1, parseInt(pageSize, 10) || DEFAULT_PAGE_SIZE)), maxRows: cap };
+};
+
+/**
+ * Mesma varredura do skipLiteralOrComment do renderer (services/sqlScriptService.ts):
+ * se `i` inicia um comentário ou literal ('...', E'...', "...", $tag$...$tag$), devolve o
+ * índice logo após o trecho; senão devolve o próprio `i`.
+ */
+const skipSqlLiteralOrComment = (sql, i) => {
+  const ch = sql[i];
+  const next = sql[i + 1];
+  if (ch === '-' && next === '-') {
+    const end = sql.indexOf('\n', i);
+    return end === -1 ? sql.length : end + 1;
+  }
+  if (ch === '/' && next === '*') {
+    let level = 1;
+    i += 2;
+    while (i < sql.length && level > 0) {
+      if (sql[i] === '/' && sql[i + 1] === '*') { level++; i += 2; }
+      else if (sql[i] === '*' && sql[i + 1] === '/') { level--; i += 2; }
+      else i++;
+    }
+    return i;
+  }
+  if (ch === "'" || ch === '"') {
+    const prev = sql[i - 1];
+    const backslashEscapes = ch === "'" && (prev === 'E' || prev === 'e') && !/[A-Za-z0-9_]/.test(sql[i - 2] || '');
+    i++;
+    while (i < sql.length) {
+      if (backslashEscapes && sql[i] === '\\') { i += 2; continue; }
+      if (sql[i] === ch) {
+        if (sql[i + 1] === ch) { i += 2; continue; }
+        break;
+      }
+      i++;
+    }
+    return i + 1;
+  }
+  if (ch === '$' && !/[A-Za-z0-9_]/.test(sql[i - 1] || '')) {
+    const tag = sql.slice(i).match(/^\$([A-Za-z_][A-Za-z0-9_]*)?\$/)?.[0];
+    if (tag) {
+      const end = sql.indexOf(tag, i + tag.length);
+      return end === -1 ? sql.length : end + tag.length;
+    }
+  }
+  return i;
+};
+
+/**
+ * O comando do SQL sem comentários iniciais e sem o ';' final (comentários depois dele
+ * também saem). Null quando há código depois de um ';': são vários comandos.
+ */
+const singleStatement = (sql) => {
+  let start = -1;
+  let end = -1;
+  let i = 0;
+  while (i < sql.length) {
+    const ch = sql[i];
+    const skipped = skipSqlLiteralOrComment(sql, i);
+    const isComment = skipped !== i && (ch === '-' || ch === '/');
+    if (!isComment && ch !== ';' && !/\s/.test(ch)) {
+      if (end !== -1) return null;
+      if (start === -1) start = i;
+    }
+    if (ch === ';' && end === -1) end = i;
+    i = skipped !== i ? skipped : i + 1;
+  }
+  return start === -1 ? '' : sql.slice(start, end === -1 ? sql.length : end).trim();
+};
+
+// DECLARE só aceita SELECT/VALUES (inclusive WITH ... SELECT); o restante usa execução direta
+const isCursorable = (sql) => {
+  const body = singleStatement(sql);
+  return !!body && /^(select|with|values|table)\b/i.test(body);
+};
+
+// Dentro da transação do usuário, um erro abortaria a transação inteira: isola com savepoint
+const withSavepoint = async (client, session, fn) => {
+  if (session.txStatus === 'I') return fn();
+  await client.query('SAVEPOINT psqlbuddy_internal');
+  try {
+    const result = await fn();
+    await client.query('RELEASE SAVEPOINT psqlbuddy_internal');
+    return result;
+  } catch (err) {
+    await client.query('ROLLBACK TO SAVEPOINT psqlbuddy_internal');
+    await client.query('RELEASE SAVEPOINT psqlbuddy_internal');
+    throw err;
+  }
+};
+
+const closeCursor = async (session) => {
+  const cursor = session.cursor;
+  if (!cursor) return;
+  session.cursor = null;
+  if (session.txStatus === 'E') return;
+  try { await session.client.query(`CLOSE ${quoteIdent(cursor.name)}`); } catch (e) {}
+};
+
+/** Retorna o cursor declarado, ou null quando a query não pode virar cursor (ex: DML em CTE). */
+// Erros em que o comando só não pode virar cursor (FOR UPDATE com WITH HOLD, DML no WITH, sintaxe):
+// a consulta não chegou a rodar, então vale executá-la direto. Qualquer outro erro (cancelamento,
+// statement_timeout, erro em tempo de execução) já executou o comando e é repassado.
+const CURSOR_UNSUPPORTED_CODES = ['0A000', '42601'];
+
+const declareCursor = async (client, session, sql, params) => {
+  if (session.txStatus === 'E') return null;
+  const name = `psqlbuddy_cursor_${++cursorSeq}`;
+  const holdable = session.txStatus === 'I';
+  try {
+    await withSavepoint(client, session, () =>
+      client.query(`DECLARE ${quoteIdent(name)} NO SCROLL CURSOR ${holdable ? 'WITH HOLD ' : ''}FOR ${singleStatement(sql)}`, params)
+    );
+  } catch (err) {
+    if (CURSOR_UNSUPPORTED_CODES.includes(err.code)) return null;
+    throw err;
+  }
+  session.cursor = { name, holdable, fetched: 0 };
+  return session.cursor;
+};
+
+const estimateRows = async (client, session, sql, params) => {
+  try {
+    const result = await withSavepoint(client, session, () => client.query(`EXPLAIN (FORMAT JSON) ${singleStatement(sql)}`, params));
+    const plan = result.rows[0]?.['QUERY PLAN']?.[0]?.Plan;
+    return plan ? Math.round(plan['Plan Rows']) : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+const streamCursorPage = async (res, client, session, cursor, limits, collector) => {
+  const pageLimit = Math.min(limits.pageSize, Math.max(0, limits.maxRows - cursor.fetched));
+  let pageFetched = 0;
+  let exhausted = false;
+  while (pageFetched < pageLimit) {
+    const chunk = Math.min(STREAM_CHUNK_ROWS, pageLimit - pageFetched);
+    const result = await client.query(`FETCH FORWARD ${chunk} FROM ${quoteIdent(cursor.name)}`);
+    if (result.rows.length > 0) writeLine(res, { type: 'rows', rows: sanitizeRows(result.rows) });
+    pageFetched += result.rows.length;
+    if (result.rows.length < chunk) { exhausted = true; break; }
+  }
+  cursor.fetched += pageFetched;
+  const capped = !exhausted && cursor.fetched >= limits.maxRows;
+  const hasMore = !exhausted && !capped;
+  if (!hasMore) await closeCursor(session);
+  writeLine(res, { type: 'end', cursorId: hasMore ? cursor.name : null, fetched: cursor.fetched, hasMore, capped, notices: collector?.notices || [] });
+};
+
+const failStream = (res, err, execution, statementTimeoutMs, collector) => {
+  const result = executionErrorResponse(err, execution, statementTimeoutMs);
+  const status = result.status;
+  const body = { ...result.body, notices: collector?.notices };
+  if (res.headersSent) {
+    writeLine(res, { type: 'error', ...body });
+    return res.end();
+  }
+  res.status(status).json(body);
+};
+
+app.post('/api/execute-stream', async (req, res) => {
+  const { credentials, sql, sessionId, executionId, statementTimeoutMs, pageSize, maxRows } = req.body;
+  if (!sessionId) return res.status(400).json({ error: 'sessionId é obrigatório para execução paginada.' });
+  let params;
+  try {
+    params = resolveParams(req.body.params);
+  } catch (e) {
+    return res.status(400).json({ error: e.message });
+  }
+  const limits = resolvePageLimits(pageSize, maxRows);
+  let handle;
+  let execution = null;
+  let collector = null;
+  try {
+    handle = await acquireClient(credentials, sessionId);
+    const { client, session } = handle;
+    await applyStatementTimeout(client, session, statementTimeoutMs);
+    execution = trackExecution(executionId, { sessionId, credentials, pid: session.pid, sql });
+    await closeCursor(session);
+    collector = collectNotices(client);
+
+    const cursor = isCursorable(sql) ? await declareCursor(client, session, sql, params) : null;
+    if (!cursor) {
+      const result = await client.query(sql, params);
+      const finalResult = Array.isArray(result) ? result[result.length - 1] : result;
+      const rows = finalResult.rows;
+      const kept = rows.length > limits.maxRows ? rows.slice(0, limits.maxRows) : rows;
+      const fields = await describeFields(credentials, finalResult.fields);
+      res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+      writeLine(res, { type: 'meta', cursorId: null, estimatedRows: rows.length, fields });
+      for (let i = 0; i < kept.length; i += STREAM_CHUNK_ROWS) {
+        writeLine(res, { type: 'rows', rows: sanitizeRows(kept.slice(i, i + STREAM_CHUNK_ROWS)) });
+      }
+      writeLine(res, { type: 'end', cursorId: null, fetched: kept.length, hasMore: false, capped: kept.length < rows.length, notices: collector.notices });
+      return res.end();
+    }
+
+    const estimatedRows = await estimateRows(client, session, sql, params);
+    // FETCH 0 não consome linhas, mas devolve a descrição das colunas do cursor
+    const described = await client.query(`FETCH FORWARD 0 FROM ${quoteIdent(cursor.name)}`);
+    const fields = await describeFields(credentials, described.fields);
+    res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+    writeLine(res, { type: 'meta', cursorId: cursor.name, estimatedRows, fields });
+    await streamCursorPage(res, client, session, cursor, limits, collector);
+    res.end();
+  } catch (err) {
+    serverError('POST', '/api/execute-stream', err);
+    failStream(res, err, execution, statementTimeoutMs, collector);
+  } finally {
+    collector?.stop();
+    untrackExecution(execution);
+    handle?.release();
+  }
+});
+
+app.post('/api/fetch-page', async (req, res) => {
+  const { credentials, sessionId, cursorId, executionId, pageSize, maxRows } = req.body;
+  const limits = resolvePageLimits(pageSize, maxRows);
+  const existing = stickySessions.get(sessionId);
+  if (!existing?.cursor || existing.cursor.name !== cursorId) {
+    return res.status(410).json({ error: 'O cursor deste resultado não está mais disponível (sessão encerrada ou transação finalizada).' });
+  }
+  let handle;
+  let execution = null;
+  let collector = null;
+  try {
+    handle = await acquireClient(credentials, sessionId);
+    const { client, session } = handle;
+    execution = trackExecution(executionId, { sessionId, credentials, pid: session.pid, sql: `FETCH ${cursorId}` });
+    collector = collectNotices(client);
+    res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+    await streamCursorPage(res, client, session, session.cursor, limits, collector);
+    res.end();
+  } catch (err) {
+    serverError('POST', '/api/fetch-page', err);
+    failStream(res, err, execution, undefined, collector);
+  } finally {
+    collector?.stop();
+    untrackExecution(execution);
+    handle?.release();
+  }
+});
+
+app.post('/api/close-cursor', async (req, res) => {
+  const { sessionId, cursorId } = req.body;
+  const session = stickySessions.get(sessionId);
+  if (session?.cursor && (!cursorId || session.cursor.name === cursorId) && session.activeQueries === 0) {
+    await closeCursor(session);
+  }
+  res.json({ success: true });
+});
+
+/**
+ * Execução de Scripts:
+ * Recebe os comandos já separados pelo frontend e executa um a um na sessão da aba,
+ * guardando resultado, command tag, duração e notices de cada comando. No modo
+ * 'continue' cada comando roda sob savepoint quando há transação aberta, para que um
+ * erro não aborte os comandos seguintes (comandos de controle de transação não são isolados).
+ */
+const TX_CONTROL_REGEX = /^\s*(begin|start\s+transaction|commit|end|rollback|abort|savepoint|release|prepare\s+transaction)\b/i;
+
+app.post('/api/execute-script', async (req, res) => {
+  const { credentials, statements, sessionId, executionId, statementTimeoutMs, onError = 'stop', maxRows } = req.body;
+  if (!sessionId) return res.status(400).json({ error: 'sessionId é obrigatório para execução de scripts.' });
+  if (!Array.isArray(statements) || statements.length === 0) return res.status(400).json({ error: 'Nenhum comando para executar.' });
+  const { maxRows: rowCap } = resolvePageLimits(undefined, maxRows);
+  let handle;
+  let execution = null;
+  let collector = null;
+  try {
+    handle = await acquireClient(credentials, sessionId);
+    const { client, session } = handle;
+    await applyStatementTimeout(client, session, statementTimeoutMs);
+    execution = trackExecution(executionId, { sessionId, credentials, pid: session.pid, sql: statements.join(';\n') });
+    await closeCursor(session);
+    collector = collectNotices(client);
+
+    const results = [];
+    let halted = false;
+    for (let index = 0; index < statements.length; index++) {
+      const sql = statements[index];
+      if (halted) {
+        results.push({ index, sql, status: 'skipped', command: null, rowCount: null, durationMs: 0, rows: [], fields: [], notices: [] });
+        continue;
+      }
+      const startedAt = Date.now();
+      try {
+        const isolate = onError === 'continue' && !TX_CONTROL_REGEX.test(sql);
+        const result = isolate ? await withSavepoint(client, session, () => client.query(sql)) : await client.query(sql);
+        const finalResult = Array.isArray(result) ? result[result.length - 1] : result;
+        const rows = finalResult.rows || [];
+        results.push({
+          index,
+          sql,
+          status: 'success',
+          command: finalResult.command,
+          rowCount: finalResult.rowCount,
+          durationMs: Date.now() - startedAt,
+          rows: sanitizeRows(rows.slice(0, rowCap)),
+          truncated: rows.length > rowCap,
+          fields: finalResult.fields?.length ? await describeFields(credentials, finalResult.fields) : [],
+          notices: collector.notices.splice(0)
+        });
+      } catch (err) {
+        const { body } = executionErrorResponse(err, execution, statementTimeoutMs);
+        results.push({ index, sql, status: 'error', command: null, rowCount: null, durationMs: Date.now() - startedAt, rows: [], fields: [], notices: collector.notices.splice(0), error: body.error, errorCode: err.code, errorDetails: body.details });
+        if (onError !== 'continue' || execution?.cancelRequested) halted = true;
+      }
+    }
+    serverLog('POST', '/api/execute-script', `${statements.length} comandos (${onError}) na sessão ${sessionId}${halted ? ' - interrompido' : ''}`);
+    res.json({ statements: results, halted });
+  } catch (err) {
+    serverError('POST', '/api/execute-script', err);
+    const { status, body } = executionErrorResponse(err, execution, statementTimeoutMs);
+    res.status(status).json(body);
+  } finally {
+    collector?.stop();
+    untrackExecution(execution);
+    handle?.release();
+  }
+});
+
+app.get('/api/executions', (req, res) => {
+  res.json([...executions.values()].map(e => ({
+    id: e.id,
+    sessionId: e.sessionId,
+    profile: e.label,
+    pid: e.pid,
+    sql: e.sql.length > 200 ? `${e.sql.slice(0, 200)}...` : e.sql,
+    startedAt: e.startedAt,
+    cancelRequested: e.cancelRequested
+  })));
+});
+
+app.post('/api/cancel', async (req, res) => {
+  const { executionId } = req.body;
+  const execution = executions.get(executionId);
+  if (!execution) {
+    return res.status(404).json({ error: 'Execução não encontrada (pode já ter terminado).' });
+  }
+  try {
+    execution.cancelRequested = true;
+    const cancelled = await cancelBackend(execution.creds, execution.pid);
+    serverLog('POST', '/api/cancel', `pg_cancel_backend(${execution.pid}) para a execução ${executionId}: ${cancelled}`);
+    res.json({
+      success: cancelled,
+      executionId,
+      pid: execution.pid,
+      message: cancelled ? `Cancelamento enviado ao PID ${execution.pid}.` : `O PID ${execution.pid} não aceitou o cancelamento.`
+    });
+  } catch (err) {
+    serverError('POST', '/api/cancel', err);
+    res.status(500).json({ error: err.message });
+  }
 });
 
 app.post('/api/dry-run', async (req, res) => {
-  let { credentials, sql } = req.body;
-  if (credentials.host === 'localhost') credentials.host = '127.0.0.1';
-  const client = new Client(credentials);
+  const { credentials, sql } = req.body;
+  let params;
   try {
-    await client.connect();
-    await setupSession(client);
+    params = resolveParams(req.body.params);
+  } catch (e) {
+    return res.status(400).json({ error: e.message });
+  }
+  let handle;
+  try {
+    handle = await acquireClient(credentials);
+    const { client } = handle;
     await client.query('BEGIN');
     try {
-      const result = await client.query(sql);
+      const result = await client.query(sql, params);
       const affectedRows = Array.isArray(result) ? result.reduce((acc, r) => acc + (r.rowCount || 0), 0) : (result.rowCount || 0);
       await client.query('ROLLBACK');
       res.json({ success: true, affectedRows });
@@ -238,16 +1557,55 @@ app.post('/api/dry-run', async (req, res) => {
   } catch (err) {
     serverError('POST', '/api/dry-run', err);
     res.status(500).json({ error: err.message });
-  } finally { try { await client.end(); } catch (e) {} }
+  } finally { handle?.release(); }
+});
+
+// Validação semântica sem executar: PREPARE de cada comando numa transação desfeita em seguida
+app.post('/api/validate', async (req, res) => {
+  const { credentials, statements } = req.body;
+  if (!Array.isArray(statements)) return res.status(400).json({ error: 'statements deve ser uma lista de comandos.' });
+  let handle;
+  try {
+    handle = await acquireClient(credentials);
+    const { client } = handle;
+    const results = [];
+    for (let index = 0; index < statements.length; index++) {
+      // O PREPARE vai pelo protocolo simples: código depois de um ';' rodaria de verdade
+      if (typeof statements[index] !== 'string' || singleStatement(statements[index]) === null) {
+        results.push({ index, ok: false, error: { message: 'Envie um comando por vez: há código depois do ";".', code: '42601' } });
+        continue;
+      }
+      const name = `psql_buddy_validate_${crypto.randomBytes(4).toString('hex')}`;
+      const prefix = `PREPARE ${name} AS `;
+      await client.query('BEGIN');
+      try {
+        // Não espera locks de outras sessões: validar não pode travar o editor
+        await client.query("SET LOCAL lock_timeout = '2s'");
+        await client.query(`${prefix}${statements[index]}`);
+        await client.query(`DEALLOCATE ${name}`);
+        results.push({ index, ok: true });
+      } catch (err) {
+        const error = pgErrorDetails(err);
+        // Posição relativa ao comando enviado, sem o "PREPARE ... AS "
+        if (error.position) error.position = Math.max(1, error.position - prefix.length);
+        results.push({ index, ok: false, error });
+      } finally {
+        await client.query('ROLLBACK');
+      }
+    }
+    res.json({ results });
+  } catch (err) {
+    serverError('POST', '/api/validate', err);
+    res.status(500).json({ error: err.message });
+  } finally { handle?.release(); }
 });
 
 app.post('/api/server-stats', async (req, res) => {
   const { credentials } = req.body;
-  if (credentials.host === 'localhost') credentials.host = '127.0.0.1';
-  const client = new Client(credentials);
+  let handle;
   try {
-    await client.connect();
-    await setupSession(client);
+    handle = await acquireClient(credentials);
+    const { client } = handle;
     
     const statsQuery = `
       SELECT (SELECT numbackends FROM pg_stat_database WHERE datname = $1) as connections,
@@ -278,24 +1636,33 @@ app.post('/api/server-stats', async (req, res) => {
       FROM pg_stat_user_tables ORDER BY pg_total_relation_size(relid) DESC LIMIT 10;`;
     const bloatRes = await client.query(bloatQuery);
 
+    const unusedIndexQuery = `
+      SELECT s.schemaname as schema_name, s.relname as table_name, s.indexrelname as index_name,
+             pg_size_pretty(pg_relation_size(s.indexrelid)) as index_size
+      FROM pg_stat_user_indexes s JOIN pg_index i ON i.indexrelid = s.indexrelid
+      WHERE s.idx_scan = 0 AND NOT i.indisprimary AND NOT i.indisunique
+        AND NOT EXISTS (SELECT 1 FROM pg_constraint c WHERE c.conindid = s.indexrelid)
+      ORDER BY pg_relation_size(s.indexrelid) DESC LIMIT 10;`;
+    const unusedRes = await client.query(unusedIndexQuery);
+
     res.json({
       summary: sanitizeRows(statsRes.rows)[0] || {},
       processes: sanitizeRows(procRes.rows),
       tableInsights: sanitizeRows(bloatRes.rows),
-      unusedIndexes: []
+      unusedIndexes: sanitizeRows(unusedRes.rows)
     });
   } catch (err) { 
     serverError('POST', '/api/server-stats', err);
     res.status(500).json({ error: err.message }); 
-  } finally { try { await client.end(); } catch (e) {} }
+  } finally { handle?.release(); }
 });
 
 app.post('/api/storage-stats', async (req, res) => {
   const { credentials } = req.body;
-  const client = new Client(credentials);
+  let handle;
   try {
-    await client.connect();
-    await setupSession(client);
+    handle = await acquireClient(credentials);
+    const { client } = handle;
     
     const dirRes = await client.query("SHOW data_directory;");
     const dataDir = dirRes.rows[0].data_directory;
@@ -332,9 +1699,170 @@ app.post('/api/storage-stats', async (req, res) => {
   } catch (err) {
     serverError('POST', '/api/storage-stats', err);
     res.status(500).json({ error: err.message });
-  } finally { try { await client.end(); } catch (e) {} }
+  } finally { handle?.release(); }
+});
+
+app.post('/api/terminate-process', async (req, res) => {
+  const { credentials, pid, mode = 'terminate' } = req.body;
+  const targetPid = parseInt(pid, 10);
+  if (!Number.isInteger(targetPid) || targetPid <= 0) {
+    return res.status(400).json({ error: `PID inválido: ${pid}` });
+  }
+  if (mode !== 'cancel' && mode !== 'terminate') {
+    return res.status(400).json({ error: `Modo inválido: ${mode}` });
+  }
+
+  const fn = mode === 'cancel' ? 'pg_cancel_backend' : 'pg_terminate_backend';
+  const startedAt = Date.now();
+  let handle;
+  try {
+    handle = await acquireClient(credentials);
+    const { client } = handle;
+    serverLog('POST', '/api/terminate-process', `${fn}(${targetPid})...`);
+
+    const result = await client.query(`SELECT ${fn}($1) AS success`, [targetPid]);
+    const success = !!result.rows[0]?.success;
+    res.json({
+      success,
+      action: mode,
+      target: String(targetPid),
+      command: `SELECT ${fn}(${targetPid})`,
+      message: success
+        ? (mode === 'cancel' ? `Query do processo ${targetPid} cancelada.` : `Processo ${targetPid} encerrado.`)
+        : `O processo ${targetPid} não existe mais ou não pôde ser sinalizado.`,
+      durationMs: Date.now() - startedAt
+    });
+  } catch (err) {
+    serverError('POST', '/api/terminate-process', err);
+    res.status(500).json({ error: err.message });
+  } finally { handle?.release(); }
+});
+
+app.post('/api/vacuum-table', async (req, res) => {
+  const { credentials, schema = 'public', table, options = {} } = req.body;
+
+  let target;
+  try {
+    target = `${quoteIdent(schema)}.${quoteIdent(table)}`;
+  } catch (e) {
+    return res.status(400).json({ error: e.message });
+  }
+
+  const flags = [];
+  if (options.full) flags.push('FULL');
+  if (options.analyze !== false) flags.push('ANALYZE');
+  const command = `VACUUM ${flags.length > 0 ? `(${flags.join(', ')}) ` : ''}${target}`;
+
+  const startedAt = Date.now();
+  let handle;
+  try {
+    handle = await acquireClient(credentials);
+    const { client } = handle;
+    serverLog('POST', '/api/vacuum-table', command);
+
+    // VACUUM não pode rodar dentro de um bloco de transação: a query é enviada isolada.
+    await client.query(command);
+    res.json({
+      success: true,
+      action: 'vacuum',
+      target: `${schema}.${table}`,
+      command,
+      message: `${flags.includes('FULL') ? 'VACUUM FULL' : 'VACUUM'} concluído em ${schema}.${table}.`,
+      durationMs: Date.now() - startedAt
+    });
+  } catch (err) {
+    serverError('POST', '/api/vacuum-table', err);
+    res.status(500).json({ error: err.message });
+  } finally { handle?.release(); }
+});
+
+app.post('/api/drop-index', async (req, res) => {
+  const { credentials, schema = 'public', index } = req.body;
+
+  let target;
+  try {
+    target = `${quoteIdent(schema)}.${quoteIdent(index)}`;
+  } catch (e) {
+    return res.status(400).json({ error: e.message });
+  }
+  const command = `DROP INDEX CONCURRENTLY IF EXISTS ${target}`;
+
+  const startedAt = Date.now();
+  let handle;
+  try {
+    handle = await acquireClient(credentials);
+    const { client } = handle;
+
+    // Índices que sustentam PK/UNIQUE/EXCLUDE precisam ser removidos via ALTER TABLE ... DROP CONSTRAINT
+    const constraintRes = await client.query(
+      `SELECT con.conname FROM pg_constraint con JOIN pg_class idx ON idx.oid = con.conindid JOIN pg_namespace n ON n.oid = idx.relnamespace WHERE n.nspname = $1 AND idx.relname = $2 AND con.contype IN ('p', 'u', 'x')`,
+      [schema, index]
+    );
+    if (constraintRes.rows.length > 0) {
+      return res.status(409).json({ error: `O índice ${schema}.${index} sustenta a constraint "${constraintRes.rows[0].conname}" e não pode ser removido diretamente.` });
+    }
+
+    serverLog('POST', '/api/drop-index', command);
+    await client.query(command);
+    res.json({
+      success: true,
+      action: 'drop-index',
+      target: `${schema}.${index}`,
+      command,
+      message: `Índice ${schema}.${index} removido.`,
+      durationMs: Date.now() - startedAt
+    });
+  } catch (err) {
+    serverError('POST', '/api/drop-index', err);
+    res.status(500).json({ error: err.message });
+  } finally { handle?.release(); }
+});
+
+const CONSTRAINT_TYPES = { p: 'PRIMARY KEY', u: 'UNIQUE', f: 'FOREIGN KEY', c: 'CHECK', x: 'EXCLUDE', n: 'NOT NULL', t: 'TRIGGER' };
+
+// Detalhes da constraint citada num erro (23505, 23503, 23514...) para o editor apontar no schema
+app.post('/api/constraint-info', async (req, res) => {
+  const { credentials, schema = null, table = null, constraint } = req.body;
+  if (!constraint) return res.status(400).json({ error: 'Nome da constraint não informado.' });
+
+  let handle;
+  try {
+    handle = await acquireClient(credentials);
+    const result = await handle.client.query(
+      `SELECT con.conname, con.contype, pg_get_constraintdef(con.oid) AS definition,
+              n.nspname AS table_schema, rel.relname AS table_name,
+              ARRAY(SELECT a.attname::text FROM unnest(con.conkey) WITH ORDINALITY k(attnum, ord) JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum ORDER BY k.ord) AS columns,
+              fn.nspname AS ref_schema, frel.relname AS ref_table,
+              ARRAY(SELECT a.attname::text FROM unnest(con.confkey) WITH ORDINALITY k(attnum, ord) JOIN pg_attribute a ON a.attrelid = con.confrelid AND a.attnum = k.attnum ORDER BY k.ord) AS ref_columns
+         FROM pg_constraint con
+         JOIN pg_class rel ON rel.oid = con.conrelid
+         JOIN pg_namespace n ON n.oid = rel.relnamespace
+         LEFT JOIN pg_class frel ON frel.oid = con.confrelid
+         LEFT JOIN pg_namespace fn ON fn.oid = frel.relnamespace
+        WHERE con.conname = $1 AND ($2::text IS NULL OR n.nspname = $2) AND ($3::text IS NULL OR rel.relname = $3)
+        LIMIT 1`,
+      [constraint, schema, table]
+    );
+    const row = result.rows[0];
+    if (!row) return res.status(404).json({ error: `Constraint não encontrada: ${constraint}` });
+    res.json({
+      name: row.conname,
+      type: CONSTRAINT_TYPES[row.contype] || row.contype,
+      definition: row.definition,
+      schema: row.table_schema,
+      table: row.table_name,
+      columns: row.columns,
+      referencedSchema: row.ref_schema,
+      referencedTable: row.ref_table,
+      referencedColumns: row.ref_columns
+    });
+  } catch (err) {
+    serverError('POST', '/api/constraint-info', err);
+    res.status(500).json({ error: err.message });
+  } finally { handle?.release(); }
 });
 
 app.listen(PORT, HOST, () => {
   serverLog('STARTUP', '-', `Backend ativo em http://${HOST}:${PORT} (Modo ASCII Forçado)`);
+  if (!API_TOKEN) serverLog('STARTUP', '-', 'PSQLBUDDY_API_TOKEN não definido: API sem token, apenas origens do app aceitas.');
 });
@@ -0,0 +1,144 @@
+import { DbCredentials, SslOptions } from "../types";
+import { applyLibpqParam, LIBPQ_DEFAULT_PORT } from "../libpqParams";
+
+/**
+ * Conexões no formato do libpq: URI postgresql:// e string "chave=valor" são interpretadas aqui,
+ * com os parâmetros tratados por libpqParams.js (o mesmo código que o processo principal usa).
+ * O ~/.pgpass e o pg_service.conf ficam com o processo principal do Electron, que lê os arquivos,
+ * guarda as senhas no cofre e devolve só os campos públicos (canais pg-config-preview/import).
+ */
+
+export interface ParsedConnectionString {
+  credentials: DbCredentials;
+  warnings: string[];
+}
+
+/** Perfil vindo dos arquivos do libpq, sem senha. */
+export interface PgConfigProfile {
+  name: string;
+  host: string;
+  port: string;
+  user: string;
+  database: string;
+  ssl?: SslOptions;
+  applicationName?: string;
+}
+
+export interface PgConfigPreview {
+  paths: string[];
+  connections: (PgConfigProfile & { hasPassword: boolean })[];
+  duplicates: string[]; // Nomes das conexões que já estavam salvas (ou repetidas entre os arquivos)
+  warnings: string[];
+}
+
+export interface PgConfigImport {
+  profiles: (PgConfigProfile & { id: string; hasStoredPassword?: boolean })[]; // Senhas já no cofre
+  warnings: string[];
+}
+
+type SavedTarget = Pick<DbCredentials, 'host' | 'port' | 'user' | 'database' | 'ssh'>;
+
+const URI_PREFIX = /^postgres(?:ql)?:\/\//i;
+
+const emptyCredentials = (): DbCredentials => ({ host: '', port: '', user: '', database: '' });
+
+const decode = (value: string, label: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw new Error(`Codificação % inválida em ${label}: ${value}`);
+  }
+};
+
+const parseUri = (uri: string, warnings: string[]): DbCredentials => {
+  const creds = emptyCredentials();
+  const rest = uri.replace(URI_PREFIX, '');
+  const queryIndex = rest.indexOf('?');
+  const location = queryIndex >= 0 ? rest.slice(0, queryIndex) : rest;
+  const query = queryIndex >= 0 ? rest.slice(queryIndex + 1) : '';
+  const slash = location.indexOf('/');
+  const authority = slash >= 0 ? location.slice(0, slash) : location;
+  const path = slash >= 0 ? location.slice(slash + 1) : '';
+
+  // A senha pode conter '@' codificado; o último '@' separa credenciais do host
+  const at = authority.lastIndexOf('@');
+  const userInfo = at >= 0 ? authority.slice(0, at) : '';
+  const hostSpec = at >= 0 ? authority.slice(at + 1) : authority;
+  if (userInfo) {
+    const colon = userInfo.indexOf(':');
+    creds.user = decode(colon >= 0 ? userInfo.slice(0, colon) : userInfo, 'usuário');
+    if (colon >= 0) creds.password = decode(userInfo.slice(colon + 1), 'senha');
+  }
+
+  const hosts = hostSpec.split(',').filter(Boolean);
+  if (hosts.length > 1) warnings.push(`Vários hosts na URI; usando apenas o primeiro (${hosts[0]}).`);
+  if (hosts[0]) {
+    const match = hosts[0].match(/^(\[[^\]]*\]|[^:]*)(?::(.*))?$/);
+    if (!match) throw new Error(`Host inválido na URI: ${hosts[0]}`);
+    applyLibpqParam(creds, 'host', decode(match[1].replace(/^\[|\]$/g, ''), 'host'), warnings);
+    if (match[2] !== undefined) applyLibpqParam(creds, 'port', match[2], warnings);
+  }
+  if (path) creds.database = decode(path, 'nome do banco');
+
+  query.split('&').filter(Boolean).forEach(pair => {
+    const eq = pair.indexOf('=');
+    if (eq < 0) {
+      warnings.push(`Parâmetro sem valor ignorado: ${pair}`);
+      return;
+    }
+    applyLibpqParam(creds, decode(pair.slice(0, eq), 'parâmetro'), decode(pair.slice(eq + 1), pair.slice(0, eq)), warnings);
+  });
+  return creds;
+};
+
+// host=db port=5432 dbname='meu banco' (aspas simples; \' e \\ escapam)
+const KEYWORD_VALUE = /\s*([A-Za-z_]+)\s*=\s*(?:'((?:[^'\\]|\\.)*)'|((?:[^\s'\\]|\\.)*))/y;
+
+const parseKeywordValue = (input: string, warnings: string[]): DbCredentials => {
+  const creds = emptyCredentials();
+  KEYWORD_VALUE.lastIndex = 0;
+  while (input.slice(KEYWORD_VALUE.lastIndex).trim()) {
+    const start = KEYWORD_VALUE.lastIndex;
+    const match = KEYWORD_VALUE.exec(input);
+    if (!match) throw new Error(`String de conexão inválida perto de "${input.slice(start).trim().slice(0, 20)}".`);
+    applyLibpqParam(creds, match[1], (match[2] ?? match[3]).replace(/\\(.)/g, '$1'), warnings);
+  }
+  return creds;
+};
+
+// Padrões do libpq para o que não veio: banco com o nome do usuário
+const withDefaults = (creds: DbCredentials): DbCredentials => ({
+  ...creds,
+  host: creds.host || 'localhost',
+  port: creds.port || LIBPQ_DEFAULT_PORT,
+  database: creds.database || creds.user
+});
+
+/** Interpreta uma URI postgresql:// ou uma string "host=... dbname=..." como credenciais. */
+export const parseConnectionString = (input: string): ParsedConnectionString => {
+  const text = input.trim();
+  const warnings: string[] = [];
+  let creds: DbCredentials;
+  if (URI_PREFIX.test(text)) creds = parseUri(text, warnings);
+  else if (/^[A-Za-z_]+\s*=/.test(text)) creds = parseKeywordValue(text, warnings);
+  else throw new Error('Informe uma URI postgresql://... ou uma string "host=... dbname=...".');
+  return { credentials: withDefaults(creds), warnings };
+};
+
+// Só o necessário para o processo principal ignorar conexões já salvas
+const savedTargets = (saved: SavedTarget[]) =>
+  saved.map(({ host, port, user, database, ssh }) => ({ host, port, user, database, ...(ssh ? { ssh: { host: ssh.host } } : {}) }));
+
+const pgConfigBridge = () => {
+  const electron = (window as any).electron;
+  if (!electron?.invoke) throw new Error('Importação do libpq disponível apenas no app desktop.');
+  return electron;
+};
+
+/** O que seria importado do .pgpass e do pg_service.conf, sem gravar nada. */
+export const previewPgConfigImport = async (saved: SavedTarget[]): Promise<PgConfigPreview> =>
+  pgConfigBridge().invoke('pg-config-preview', savedTargets(saved));
+
+/** Cria os perfis novos; as senhas vão direto para o cofre, vinculadas ao servidor de cada perfil. */
+export const importPgConfigProfiles = async (saved: SavedTarget[]): Promise<PgConfigImport> =>
+  pgConfigBridge().invoke('pg-config-import', savedTargets(saved));
@@ -0,0 +1,50 @@
+/**
+ * Cofre de senhas dos perfis de conexão, mantido pelo processo principal do Electron
+ * (safeStorage). O renderer só grava e apaga: quem lê a senha é o backend, pelo ID do perfil.
+ * Cada segredo fica vinculado ao servidor informado na gravação e só é entregue para ele.
+ * Fora do Electron o cofre não existe e os perfis continuam sem senha.
+ */
+
+const vaultBridge = () => {
+  const electron = (window as any).electron;
+  return electron?.invoke ? electron : null;
+};
+
+export const isVaultAvailable = async (): Promise<boolean> => {
+  const electron = vaultBridge();
+  if (!electron) return false;
+  try {
+    const status = await electron.invoke('vault-status');
+    return !!status?.available;
+  } catch (e: any) {
+    console.warn('[VAULT] Falha ao consultar o cofre:', e.message);
+    return false;
+  }
+};
+
+/** Segredos extras do perfil além da senha do banco. */
+export type VaultSecretKind = 'ssh';
+
+/** Servidor dono do segredo: o banco do perfil ou, para 'ssh', o servidor do túnel. */
+export interface VaultTarget {
+  host: string;
+  port?: string | number; // Padrão 5432 (22 no SSH)
+  user: string;
+  database?: string;
+}
+
+export const storeProfilePassword = async (profileId: string, password: string, target: VaultTarget, kind?: VaultSecretKind): Promise<void> => {
+  const electron = vaultBridge();
+  if (!electron) throw new Error('Cofre de credenciais disponível apenas no app desktop.');
+  const { host, port, user, database } = target;
+  const result = await electron.invoke('vault-save-secret', { profileId, password, kind, target: { host, port, user, database } });
+  if (!result?.ok) throw new Error(result?.error || 'Falha ao guardar a senha no cofre.');
+};
+
+/** Remove todos os segredos do perfil (banco e túnel). */
+export const deleteProfilePassword = async (profileId: string): Promise<void> => {
+  const electron = vaultBridge();
+  if (!electron) return;
+  const result = await electron.invoke('vault-delete-secret', profileId);
+  if (!result?.ok) console.warn(`[VAULT] Falha ao remover a senha do perfil ${profileId}:`, result?.error);
+};
@@ -0,0 +1,343 @@
+import { Column, DatabaseSchema, SimulationColumnGenerator, SimulationConfig, SimulationDistribution, Table } from "../types";
+import type { SimulationData } from "./simulationService";
+
+/**
+ * Gerador de dados simulados: o mesmo seed (e a mesma configuração) produz sempre o mesmo
+ * conjunto. Tabelas referenciadas são geradas antes das que as referenciam, então cada FK
+ * aponta para uma linha existente do pai; PKs (e colunas marcadas como unique) não se repetem.
+ */
+
+export const DEFAULT_SIMULATION_ROW_COUNT = 40;
+
+// Tentativas de gerar uma linha que não repita PK/unique antes de desistir das linhas restantes
+const MAX_UNIQUE_ATTEMPTS = 25;
+
+const COUNTRIES = ['Brasil', 'USA', 'Portugal', 'Argentina', 'Canada', 'Alemanha', 'Japão'];
+const CATEGORIES = ['Eletrônicos', 'Livros', 'Roupas', 'Casa', 'Esportes', 'Beleza', 'Brinquedos'];
+const DEPARTMENTS = ['Vendas', 'TI', 'RH', 'Financeiro', 'Marketing', 'Logística'];
+const ACTIONS = ['INSERT', 'UPDATE', 'DELETE', 'LOGIN', 'LOGOUT'];
+const STATUSES = ['Pendente', 'Pago', 'Enviado', 'Entregue', 'Cancelado'];
+const NAMES_FIRST = ['Ana', 'Bruno', 'Carlos', 'Daniela', 'Eduardo', 'Fernanda', 'Gabriel', 'Helena', 'Igor', 'Julia'];
+const NAMES_LAST = ['Silva', 'Santos', 'Oliveira', 'Souza', 'Pereira', 'Lima', 'Ferreira', 'Costa', 'Almeida'];
+const COMPANIES = ['Tech Solutions', 'Global Imports', 'Soft House', 'Mega Varejo', 'LogiTrans', 'Green Foods'];
+const CITIES = ['São Paulo', 'Rio de Janeiro', 'Curitiba', 'Belo Horizonte'];
+
+export type Random = () => number; // [0, 1)
+
+// mulberry32: pequeno, rápido e determinístico para um seed de 32 bits
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/** Seed a partir do texto digitado: números são usados como estão, o resto passa por hash. */
+export const parseSimulationSeed = (text: string): number | null => {
+  const value = text.trim();
+  if (!value) return null;
+  if (/^\d+$/.test(value)) return Number(value) >>> 0;
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) hash = Math.imul(hash ^ value.charCodeAt(i), 16777619);
+  return hash >>> 0;
+};
+
+export const createSimulationConfig = (overrides: Partial<SimulationConfig> = {}): SimulationConfig => ({
+  seed: Math.floor(Math.random() * 4294967296),
+  rowCount: DEFAULT_SIMULATION_ROW_COUNT,
+  referenceDate: new Date().toISOString().split('T')[0],
+  ...overrides
+});
+
+// Posição em [0, 1) segundo a distribuição: normal concentra no meio, skewed nos primeiros valores
+const sampleUnit = (random: Random, distribution: SimulationDistribution = 'uniform'): number => {
+  if (distribution === 'skewed') return Math.pow(random(), 3);
+  if (distribution === 'normal') {
+    const gaussian = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+    return Math.min(Math.max(0.5 + gaussian / 6, 0), 0.999999);
+  }
+  return random();
+};
+
+const pickIndex = (random: Random, length: number, distribution?: SimulationDistribution) =>
+  Math.floor(sampleUnit(random, distribution) * length);
+
+const tableIdOf = (table: Table) => `${table.schema || 'public'}.${table.name}`;
+
+const isIntegerType = (type: string) => /\b(small|big)?int(eger|2|4|8)?\b|serial/i.test(type);
+
+const formatDate = (date: Date, type: string) => type.includes('date') && !type.includes('time')
+  ? date.toISOString().split('T')[0]
+  : date.toISOString().replace('T', ' ').substring(0, 19);
+
+const randomUuid = (random: Random) => {
+  const hex = Array.from({ length: 32 }, () => Math.floor(random() * 16).toString(16));
+  hex[12] = '4';
+  hex[16] = (8 + Math.floor(random() * 4)).toString(16);
+  const s = hex.join('');
+  return `${s.slice(0, 8)}-${s.slice(8, 12)}-${s.slice(12, 16)}-${s.slice(16, 20)}-${s.slice(20)}`;
+};
+
+export interface ResolvedReference {
+  tableId: string;
+  column: string;
+}
+
+/** Alvo de Column.references ("users.id" ou "public.users.id"): na forma curta, prefere a tabela do mesmo schema. */
+export const resolveReference = (schema: DatabaseSchema, from: Table, references: string): ResolvedReference | null => {
+  const parts = references.split('.');
+  const column = parts[parts.length - 1];
+  const candidates = parts.length >= 3
+    ? schema.tables.filter(t => (t.schema || 'public') === parts[0] && t.name === parts[1])
+    : schema.tables.filter(t => t.name === parts[0]);
+  const target = candidates.find(t => (t.schema || 'public') === (from.schema || 'public')) || candidates[0];
+  if (!target || !target.columns.some(c => c.name === column)) return null;
+  return { tableId: tableIdOf(target), column };
+};
+
+// Pais antes dos filhos; em ciclos, segue a ordem do schema e a FK pendente é preenchida no fim
+const orderTables = (schema: DatabaseSchema, references: Map<string, ResolvedReference>): Table[] => {
+  const pending = [...schema.tables];
+  const done = new Set<string>();
+  const ordered: Table[] = [];
+  while (pending.length > 0) {
+    const ready = pending.findIndex(table => table.columns.every(col => {
+      const ref = references.get(`${tableIdOf(table)}.${col.name}`);
+      return !ref || ref.tableId === tableIdOf(table) || done.has(ref.tableId);
+    }));
+    const [table] = pending.splice(ready === -1 ? 0 : ready, 1);
+    ordered.push(table);
+    done.add(tableIdOf(table));
+  }
+  return ordered;
+};
+
+// Valores plausíveis pelo nome e tipo da coluna
+const heuristicValue = (col: Column, index: number, random: Random, referenceDate: Date, rowCount: number): any => {
+  const name = col.name.toLowerCase();
+  const type = col.type.toLowerCase();
+
+  if (name === 'id' || name === 'grid') return index + 1;
+
+  // FK sem referência conhecida: supõe um pai com a mesma quantidade de linhas
+  if (name.endsWith('_id') || name.endsWith('_grid') || name === 'performed_by') {
+    return Math.floor(random() * rowCount) + 1;
+  }
+
+  if (type.includes('uuid')) return randomUuid(random);
+
+  if (type.includes('bool')) {
+    if (name.includes('digital')) return random() < 0.2;
+    return random() < 0.8;
+  }
+
+  if (type.includes('json')) {
+    if (name.includes('meta')) return JSON.stringify({ ip: `192.168.1.${index}`, device: index % 2 === 0 ? 'desktop' : 'mobile', browser: 'Chrome' });
+    if (name.includes('pref')) return JSON.stringify({ theme: index % 2 === 0 ? 'dark' : 'light', newsletter: random() < 0.5 });
+    return JSON.stringify({ key: `val_${index}` });
+  }
+
+  if (type.includes('int') || type.includes('serial') || type.includes('number')) {
+    if (name === 'rating') return Math.floor(random() * 5) + 1;
+    if (name.includes('stock') || name.includes('qty') || name.includes('quantity')) return Math.floor(random() * 100) + 1;
+    if (name.includes('year')) return referenceDate.getUTCFullYear() - 4 + Math.floor(random() * 5);
+    return Math.floor(random() * 1000);
+  }
+
+  if (type.includes('decimal') || type.includes('numeric') || type.includes('float') || type.includes('double') || type.includes('real') || name.includes('price') || name.includes('amount') || name.includes('cost') || name.includes('salary')) {
+    if (name.includes('rating')) return parseFloat((3 + random() * 2).toFixed(1));
+    if (name.includes('salary')) return parseFloat((3000 + random() * 12000).toFixed(2));
+    if (name.includes('discount')) return parseFloat((random() * 20).toFixed(2));
+    return parseFloat((10 + random() * 500).toFixed(2));
+  }
+
+  if (type.includes('date') || type.includes('time')) {
+    // Últimos 2 anos antes da data de referência; envio/fim alguns dias depois
+    const date = new Date(referenceDate.getTime() - Math.floor(random() * 730) * 86400000 - Math.floor(random() * 86400) * 1000);
+    if (name.includes('ship') || name.includes('end')) date.setUTCDate(date.getUTCDate() + 5);
+    return formatDate(date, type);
+  }
+
+  if (name.includes('email')) return `user${index + 1}@example.com`;
+  if (name.includes('slug')) return `item-${index + 1}-slug`;
+
+  if (name.includes('name')) {
+    if (name.includes('company') || name.includes('fornecedor')) return COMPANIES[index % COMPANIES.length];
+    if (name.includes('prod') || name.includes('item')) return `Produto ${CATEGORIES[index % CATEGORIES.length]} X${index}`;
+    if (name.includes('cat')) return CATEGORIES[index % CATEGORIES.length];
+    if (name.includes('first')) return NAMES_FIRST[index % NAMES_FIRST.length];
+    if (name.includes('last')) return NAMES_LAST[index % NAMES_LAST.length];
+    if (name.includes('full') || name === 'name') return `${NAMES_FIRST[index % NAMES_FIRST.length]} ${NAMES_LAST[index % NAMES_LAST.length]}`;
+  }
+
+  if (name.includes('status')) return STATUSES[Math.floor(random() * STATUSES.length)];
+  if (name.includes('action') || name.includes('type')) return ACTIONS[Math.floor(random() * ACTIONS.length)];
+  if (name.includes('department') || name.includes('dept')) return DEPARTMENTS[Math.floor(random() * DEPARTMENTS.length)];
+
+  if (name.includes('phone') || name.includes('tel')) return `(11) 9${1000 + index}-${1000 + Math.floor(random() * 9000)}`;
+  if (name.includes('address') || name.includes('street') || name.includes('rua')) return `Rua Exemplo, ${index * 10 + 1}`;
+  if (name.includes('city') || name.includes('cidade')) return CITIES[Math.floor(random() * CITIES.length)];
+  if (name.includes('country') || name.includes('pais')) return COUNTRIES[Math.floor(random() * COUNTRIES.length)];
+
+  if (name.includes('bio') || name.includes('desc') || name.includes('comment')) return `Texto descritivo gerado para o item ${index + 1}. Lorem ipsum dolor sit amet.`;
+
+  return `Valor ${index + 1}`;
+};
+
+const rangeValue = (generator: Extract<SimulationColumnGenerator, { kind: 'range' }>, col: Column, random: Random): any => {
+  const unit = sampleUnit(random, generator.distribution);
+  if (typeof generator.min === 'string' || typeof generator.max === 'string') {
+    const min = new Date(generator.min).getTime();
+    const max = new Date(generator.max).getTime();
+    if (isNaN(min) || isNaN(max)) throw new Error(`Intervalo de datas inválido na coluna "${col.name}".`);
+    return formatDate(new Date(min + unit * (max - min)), col.type.toLowerCase());
+  }
+  const { min, max } = generator;
+  const decimals = generator.decimals ?? (isIntegerType(col.type) ? 0 : 2);
+  if (decimals === 0) return Math.min(Math.floor(min + unit * (max - min + 1)), max);
+  return parseFloat((min + unit * (max - min)).toFixed(decimals));
+};
+
+const enumValue = (generator: Extract<SimulationColumnGenerator, { kind: 'enum' }>, col: Column, random: Random): any => {
+  const { values, weights } = generator;
+  if (values.length === 0) throw new Error(`Lista de valores vazia na coluna "${col.name}".`);
+  if (!weights || weights.length !== values.length) return values[Math.floor(random() * values.length)];
+  const total = weights.reduce((sum, w) => sum + Math.max(w, 0), 0);
+  let target = random() * total;
+  for (let i = 0; i < values.length; i++) {
+    target -= Math.max(weights[i], 0);
+    if (target < 0) return values[i];
+  }
+  return values[values.length - 1];
+};
+
+interface GenerationContext {
+  schema: DatabaseSchema;
+  config: SimulationConfig;
+  data: SimulationData;
+  references: Map<string, ResolvedReference>;
+  random: Random;
+  referenceDate: Date;
+}
+
+// Valores do pai disponíveis para a FK (null se o pai ainda não foi gerado, num ciclo)
+const parentValues = (ctx: GenerationContext, ref: ResolvedReference): any[] | null => {
+  const rows = ctx.data[ref.tableId];
+  if (!rows) return null;
+  return rows.map(r => r[ref.column]).filter(v => v !== null && v !== undefined);
+};
+
+const generateColumnValue = (ctx: GenerationContext, table: Table, col: Column, index: number, rows: any[], rowCount: number): any => {
+  const tableId = tableIdOf(table);
+  const generator: SimulationColumnGenerator = ctx.config.tables?.[tableId]?.columns?.[col.name] || { kind: 'auto' };
+  const { random } = ctx;
+
+  if (!col.isPrimaryKey && generator.nullRatio && random() < generator.nullRatio) return null;
+
+  switch (generator.kind) {
+    case 'enum': return enumValue(generator, col, random);
+    case 'range': return rangeValue(generator, col, random);
+    case 'sequence': return (generator.start ?? 1) + index * (generator.step ?? 1);
+    case 'pattern': return generator.template
+      .replace(/\{n\}/g, String(index + 1))
+      .replace(/\{rand\}/g, () => String(Math.floor(random() * 10000)));
+    case 'constant': return generator.value;
+  }
+
+  const ref = ctx.references.get(`${tableId}.${col.name}`);
+  if (ref) {
+    const distribution = generator.kind === 'reference' ? generator.distribution : undefined;
+    // Autorreferência: só linhas anteriores podem ser pai (a primeira fica sem pai)
+    const values = ref.tableId === tableId
+      ? rows.map(r => r[ref.column]).filter(v => v !== null && v !== undefined)
+      : parentValues(ctx, ref);
+    if (!values) return undefined; // Preenchida depois que o pai existir
+    if (values.length === 0) return null;
+    return values[pickIndex(random, values.length, distribution)];
+  }
+
+  if (col.isPrimaryKey) {
+    if (col.type.toLowerCase().includes('uuid')) return randomUuid(random);
+    if (isIntegerType(col.type)) return index + 1;
+    if (!/char|text/i.test(col.type)) return heuristicValue(col, index, random, ctx.referenceDate, rowCount);
+    return `${table.name}_${index + 1}`;
+  }
+
+  return heuristicValue(col, index, random, ctx.referenceDate, rowCount);
+};
+
+const generateTable = (ctx: GenerationContext, table: Table): any[] => {
+  const tableId = tableIdOf(table);
+  const tableConfig = ctx.config.tables?.[tableId];
+  const rowCount = Math.max(0, Math.floor(tableConfig?.rowCount ?? ctx.config.rowCount));
+  const pkColumns = table.columns.filter(c => c.isPrimaryKey);
+  const uniqueColumns = table.columns.filter(c => tableConfig?.columns?.[c.name]?.unique && !(pkColumns.length === 1 && c.isPrimaryKey));
+  const seenKeys = new Set<string>();
+  const seenUnique = new Map<string, Set<string>>(uniqueColumns.map(c => [c.name, new Set<string>()]));
+  const rows: any[] = [];
+
+  for (let index = 0; index < rowCount; index++) {
+    let accepted: any = null;
+    for (let attempt = 0; attempt < MAX_UNIQUE_ATTEMPTS && !accepted; attempt++) {
+      const row: any = {};
+      table.columns.forEach(col => { row[col.name] = generateColumnValue(ctx, table, col, index, rows, rowCount); });
+      const pkKey = pkColumns.length > 0 ? JSON.stringify(pkColumns.map(c => row[c.name])) : null;
+      if (pkKey !== null && (seenKeys.has(pkKey) || pkColumns.some(c => row[c.name] === null))) continue;
+      // NULL não conflita em UNIQUE
+      if (uniqueColumns.some(c => row[c.name] !== null && seenUnique.get(c.name)!.has(JSON.stringify(row[c.name])))) continue;
+      if (pkKey !== null) seenKeys.add(pkKey);
+      uniqueColumns.forEach(c => { if (row[c.name] !== null) seenUnique.get(c.name)!.add(JSON.stringify(row[c.name])); });
+      accepted = row;
+    }
+    if (!accepted) {
+      // Ex.: PK composta de FKs com menos combinações que linhas pedidas
+      console.warn(`[SIMULATION] ${tableId}: apenas ${rows.length} de ${rowCount} linhas sem repetir chave única.`);
+      break;
+    }
+    rows.push(accepted);
+  }
+  return rows;
+};
+
+export const generateSimulationData = (schema: DatabaseSchema, config: SimulationConfig): SimulationData => {
+  const references = new Map<string, ResolvedReference>();
+  schema.tables.forEach(table => table.columns.forEach(col => {
+    if (!col.references) return;
+    const ref = resolveReference(schema, table, col.references);
+    if (ref) references.set(`${tableIdOf(table)}.${col.name}`, ref);
+  }));
+
+  const referenceDate = new Date(`${config.referenceDate}T12:00:00Z`);
+  const ctx: GenerationContext = {
+    schema,
+    config,
+    data: {},
+    references,
+    random: createRandom(config.seed),
+    referenceDate: isNaN(referenceDate.getTime()) ? new Date() : referenceDate
+  };
+
+  const ordered = orderTables(schema, references);
+  ordered.forEach(table => { ctx.data[tableIdOf(table)] = generateTable(ctx, table); });
+
+  // FKs de ciclos (pai gerado depois do filho) recebem valor agora que todos existem
+  ordered.forEach(table => {
+    const tableId = tableIdOf(table);
+    table.columns.forEach(col => {
+      const ref = references.get(`${tableId}.${col.name}`);
+      if (!ref || !ctx.data[tableId].some(row => row[col.name] === undefined)) return;
+      const values = parentValues(ctx, ref) || [];
+      const generator = config.tables?.[tableId]?.columns?.[col.name];
+      const distribution = generator?.kind === 'reference' ? generator.distribution : undefined;
+      ctx.data[tableId] = ctx.data[tableId].map(row => row[col.name] !== undefined ? row
+        : { ...row, [col.name]: values.length > 0 ? values[pickIndex(ctx.random, values.length, distribution)] : null });
+    });
+  });
+
+  // Chaves na ordem do schema, como o restante do app espera
+  return Object.fromEntries(schema.tables.map(t => [tableIdOf(t), ctx.data[tableIdOf(t)]]));
+};
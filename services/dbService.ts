@@ -1,7 +1,17 @@
 
-import { DatabaseSchema, DbCredentials, ExplainNode, IntersectionResult, ServerStats, ActiveProcess, TableInsight, UnusedIndex, QueryProfilingSnapshot, StorageStats, DatabaseObject } from "../types";
+import { DatabaseSchema, DbCredentials, ExplainNode, IntersectionResult, ServerStats, ActiveProcess, TableInsight, UnusedIndex, QueryProfilingSnapshot, StorageStats, DatabaseObject, MaintenanceResult, VacuumOptions, BackendSession, BackendPoolInfo, TransactionAction, TransactionState, ExecuteOptions, CancelResult, PageOptions, ResultPage, ScriptOptions, ScriptResult, QueryErrorDetails, ConstraintInfo, SshTunnelStatus } from "../types";
 
 const API_URL = 'http://127.0.0.1:3000/api';
+const API_TOKEN_HEADER = 'X-PsqlBuddy-Token';
+
+/** Cabeçalhos das chamadas ao backend; no Electron inclui o segredo da API local exposto pelo preload. */
+const apiHeaders = (json: boolean = true): Record<string, string> => {
+  const token: string | null | undefined = (window as any).electron?.apiToken;
+  return {
+    ...(json ? { 'Content-Type': 'application/json' } : {}),
+    ...(token ? { [API_TOKEN_HEADER]: token } : {})
+  };
+};
 
 const logger = (context: string, message: string, data?: any) => {
   const timestamp = new Date().toLocaleTimeString();
@@ -15,12 +25,41 @@ const ensureIpv4 = (creds: DbCredentials): DbCredentials => {
   return creds;
 };
 
+/** Erro de execução que preserva os campos estruturados do PostgreSQL (SQLSTATE, posição, dica, constraint). */
+export type QueryExecutionError = Error & { details: QueryErrorDetails };
+
+const createQueryError = (body: { error?: string; details?: QueryErrorDetails }, fallback: string): QueryExecutionError => {
+  const message = body.error || fallback;
+  return Object.assign(new Error(message), { details: { ...body.details, message } });
+};
+
+/**
+ * Troca a senha (ou o ID de um perfil com senha no cofre) por um token opaco do backend.
+ * As credenciais devolvidas não têm senha e são as que o app guarda e envia nas demais rotas.
+ */
+export const registerCredentials = async (creds: DbCredentials): Promise<DbCredentials> => {
+  const { password, connectionToken, ...publicCreds } = creds;
+  if (creds.ssh) {
+    const { password: sshPassword, passphrase, ...publicSsh } = creds.ssh;
+    publicCreds.ssh = publicSsh;
+  }
+  const response = await fetch(`${API_URL}/credentials`, {
+    method: 'POST',
+    headers: apiHeaders(),
+    body: JSON.stringify({ credentials: ensureIpv4(creds) })
+  });
+  const body = await response.json();
+  if (!response.ok) throw new Error(body.error || 'Falha ao registrar credenciais');
+  logger('CREDENTIALS', `Token de conexão recebido para ${creds.user}@${creds.host}/${creds.database}.`);
+  return { ...publicCreds, connectionToken: body.connectionToken };
+};
+
 export const connectToDatabase = async (creds: DbCredentials): Promise<DatabaseSchema> => {
   const normalizedCreds = ensureIpv4(creds);
   try {
     const response = await fetch(`${API_URL}/connect`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: apiHeaders(),
       body: JSON.stringify(normalizedCreds)
     });
     if (!response.ok) {
@@ -45,7 +84,7 @@ export const fetchDatabaseObjects = async (
   try {
     const response = await fetch(`${API_URL}/objects`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: apiHeaders(),
       body: JSON.stringify({ 
         credentials: normalizedCreds,
         limit,
@@ -65,17 +104,111 @@ export const fetchDatabaseObjects = async (
   }
 };
 
-export const executeQueryReal = async (creds: DbCredentials, sql: string): Promise<any[]> => {
+/**
+ * Executa SQL no backend. Informando `sessionId` (ID da aba), a query roda na sessão
+ * dedicada daquela aba, preservando o estado (search_path, temp tables) entre execuções.
+ * Com `options.executionId` a execução pode ser interrompida via cancelExecution.
+ */
+export const executeQueryReal = async (creds: DbCredentials, sql: string, sessionId?: string, options: ExecuteOptions = {}): Promise<any[]> => {
   const normalizedCreds = ensureIpv4(creds);
   try {
     const response = await fetch(`${API_URL}/execute`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ credentials: normalizedCreds, sql })
+      headers: apiHeaders(),
+      body: JSON.stringify({ credentials: normalizedCreds, sql, sessionId, executionId: options.executionId, statementTimeoutMs: options.statementTimeoutMs, params: options.params })
+    });
+    if (!response.ok) {
+      const err = await response.json();
+      throw createQueryError(err, 'Failed to execute query');
+    }
+    const result = await response.json();
+    return result.rows;
+  } catch (error: any) {
+    throw error;
+  }
+};
+
+/**
+ * Lê a resposta NDJSON de /execute-stream e /fetch-page. Erros que acontecem depois
+ * do início do stream chegam como uma linha {type:'error'}.
+ */
+const readResultStream = async (response: Response): Promise<ResultPage> => {
+  if (!response.ok) {
+    const err = await response.json();
+    throw createQueryError(err, 'Failed to execute query');
+  }
+  const page: ResultPage = { rows: [], cursorId: null, fetched: 0, hasMore: false, capped: false };
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    const msg = JSON.parse(line);
+    if (msg.type === 'meta') { page.estimatedRows = msg.estimatedRows; page.fields = msg.fields; }
+    else if (msg.type === 'rows') { for (const row of msg.rows) page.rows.push(row); }
+    else if (msg.type === 'end') Object.assign(page, { cursorId: msg.cursorId, fetched: msg.fetched, hasMore: msg.hasMore, capped: msg.capped, notices: msg.notices || [] });
+    else if (msg.type === 'error') throw createQueryError(msg, 'Falha durante a leitura do resultado');
+  };
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer + decoder.decode());
+  return page;
+};
+
+/**
+ * Executa SQL com resultado paginado: SELECTs viram cursor na sessão da aba e só a
+ * primeira página (options.pageSize) é carregada; as demais vêm por fetchNextPage.
+ */
+export const executeQueryStream = async (creds: DbCredentials, sql: string, sessionId: string, options: PageOptions = {}): Promise<ResultPage> => {
+  const normalizedCreds = ensureIpv4(creds);
+  const response = await fetch(`${API_URL}/execute-stream`, {
+    method: 'POST',
+    headers: apiHeaders(),
+    body: JSON.stringify({ credentials: normalizedCreds, sql, sessionId, ...options })
+  });
+  return readResultStream(response);
+};
+
+export const fetchNextPage = async (creds: DbCredentials, sessionId: string, cursorId: string, options: PageOptions = {}): Promise<ResultPage> => {
+  const normalizedCreds = ensureIpv4(creds);
+  const response = await fetch(`${API_URL}/fetch-page`, {
+    method: 'POST',
+    headers: apiHeaders(),
+    body: JSON.stringify({ credentials: normalizedCreds, sessionId, cursorId, ...options })
+  });
+  return readResultStream(response);
+};
+
+export const closeResultCursor = async (sessionId: string, cursorId?: string): Promise<void> => {
+  try {
+    await fetch(`${API_URL}/close-cursor`, {
+      method: 'POST',
+      headers: apiHeaders(),
+      body: JSON.stringify({ sessionId, cursorId })
+    });
+  } catch (error: any) {
+    console.warn('[CURSOR] Falha ao fechar cursor:', error.message);
+  }
+};
+
+/** Executa comandos (já separados) em ordem na sessão da aba, com um resultado por comando. */
+export const executeScript = async (creds: DbCredentials, statements: string[], sessionId: string, options: ScriptOptions = {}): Promise<ScriptResult> => {
+  const normalizedCreds = ensureIpv4(creds);
+  try {
+    const response = await fetch(`${API_URL}/execute-script`, {
+      method: 'POST',
+      headers: apiHeaders(),
+      body: JSON.stringify({ credentials: normalizedCreds, statements, sessionId, ...options })
     });
     if (!response.ok) {
       const err = await response.json();
-      throw new Error(err.error || 'Failed to execute query');
+      throw new Error(err.error || 'Falha ao executar script');
     }
     return await response.json();
   } catch (error: any) {
@@ -83,13 +216,44 @@ export const executeQueryReal = async (creds: DbCredentials, sql: string): Promi
   }
 };
 
-export const executeDryRun = async (creds: DbCredentials, sql: string): Promise<{ affectedRows: number }> => {
+/** Definição da constraint citada num erro de violação (colunas, tabela referenciada). */
+export const fetchConstraintInfo = async (creds: DbCredentials, constraint: string, schema?: string, table?: string): Promise<ConstraintInfo> => {
+  const normalizedCreds = ensureIpv4(creds);
+  const response = await fetch(`${API_URL}/constraint-info`, {
+    method: 'POST',
+    headers: apiHeaders(),
+    body: JSON.stringify({ credentials: normalizedCreds, constraint, schema, table })
+  });
+  if (!response.ok) {
+    const err = await response.json();
+    throw new Error(err.error || 'Falha ao carregar a constraint');
+  }
+  return await response.json();
+};
+
+/** PREPARE de cada comando numa transação desfeita: erros semânticos sem executar nada. */
+export const validateStatementsOnServer = async (creds: DbCredentials, statements: string[]): Promise<{ index: number; ok: boolean; error?: QueryErrorDetails }[]> => {
+  const normalizedCreds = ensureIpv4(creds);
+  const response = await fetch(`${API_URL}/validate`, {
+    method: 'POST',
+    headers: apiHeaders(),
+    body: JSON.stringify({ credentials: normalizedCreds, statements })
+  });
+  if (!response.ok) {
+    const err = await response.json();
+    throw new Error(err.error || 'Falha ao validar no servidor');
+  }
+  const body = await response.json();
+  return body.results;
+};
+
+export const executeDryRun = async (creds: DbCredentials, sql: string, params?: any[]): Promise<{ affectedRows: number }> => {
   const normalizedCreds = ensureIpv4(creds);
   try {
     const response = await fetch(`${API_URL}/dry-run`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ credentials: normalizedCreds, sql })
+      headers: apiHeaders(),
+      body: JSON.stringify({ credentials: normalizedCreds, sql, params })
     });
     if (!response.ok) {
       const err = await response.json();
@@ -111,7 +275,7 @@ export const getServerHealth = async (creds: DbCredentials): Promise<{
   try {
     const response = await fetch(`${API_URL}/server-stats`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: apiHeaders(),
       body: JSON.stringify({ credentials: normalizedCreds })
     });
     
@@ -184,7 +348,7 @@ export const fetchStorageStats = async (creds: DbCredentials): Promise<StorageSt
   try {
     const response = await fetch(`${API_URL}/storage-stats`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: apiHeaders(),
       body: JSON.stringify({ credentials: normalizedCreds })
     });
     if (!response.ok) {
@@ -197,52 +361,134 @@ export const fetchStorageStats = async (creds: DbCredentials): Promise<StorageSt
   }
 };
 
-export const terminateProcess = async (creds: DbCredentials, pid: number): Promise<void> => {
+export const terminateProcess = async (creds: DbCredentials, pid: number, mode: 'cancel' | 'terminate' = 'terminate'): Promise<MaintenanceResult> => {
   const normalizedCreds = ensureIpv4(creds);
   try {
     const response = await fetch(`${API_URL}/terminate-process`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ credentials: normalizedCreds, pid })
+      headers: apiHeaders(),
+      body: JSON.stringify({ credentials: normalizedCreds, pid, mode })
     });
     if (!response.ok) {
       const err = await response.json();
       throw new Error(err.error || 'Failed to terminate process');
     }
+    return await response.json();
   } catch (error: any) {
     throw error;
   }
 };
 
-export const vacuumTable = async (creds: DbCredentials, schema: string, table: string): Promise<void> => {
+export const vacuumTable = async (creds: DbCredentials, schema: string, table: string, options: VacuumOptions = {}): Promise<MaintenanceResult> => {
   const normalizedCreds = ensureIpv4(creds);
   try {
     const response = await fetch(`${API_URL}/vacuum-table`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ credentials: normalizedCreds, schema, table })
+      headers: apiHeaders(),
+      body: JSON.stringify({ credentials: normalizedCreds, schema, table, options })
     });
     if (!response.ok) {
       const err = await response.json();
       throw new Error(err.error || 'Failed to vacuum table');
     }
+    return await response.json();
   } catch (error: any) {
     throw error;
   }
 };
 
-export const dropIndex = async (creds: DbCredentials, schema: string, index: string): Promise<void> => {
+export const dropIndex = async (creds: DbCredentials, schema: string, index: string): Promise<MaintenanceResult> => {
   const normalizedCreds = ensureIpv4(creds);
   try {
     const response = await fetch(`${API_URL}/drop-index`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: apiHeaders(),
       body: JSON.stringify({ credentials: normalizedCreds, schema, index })
     });
     if (!response.ok) {
       const err = await response.json();
       throw new Error(err.error || 'Failed to drop index');
     }
+    return await response.json();
+  } catch (error: any) {
+    throw error;
+  }
+};
+
+export const controlTransaction = async (
+  creds: DbCredentials,
+  sessionId: string,
+  action: TransactionAction | 'status',
+  options: { name?: string, isolationLevel?: string, readOnly?: boolean } = {}
+): Promise<TransactionState & { command?: string, rolledBack?: boolean }> => {
+  const normalizedCreds = ensureIpv4(creds);
+  logger('TRANSACTION', `${action.toUpperCase()} na sessão ${sessionId}`);
+  try {
+    const response = await fetch(`${API_URL}/transaction`, {
+      method: 'POST',
+      headers: apiHeaders(),
+      body: JSON.stringify({ credentials: normalizedCreds, sessionId, action, ...options })
+    });
+    if (!response.ok) {
+      const err = await response.json();
+      throw new Error(err.error || 'Falha no controle de transação');
+    }
+    return await response.json();
+  } catch (error: any) {
+    throw error;
+  }
+};
+
+export const listBackendSessions = async (): Promise<{ sessions: BackendSession[], pools: BackendPoolInfo[], tunnels: SshTunnelStatus[], idleTimeoutMs: number }> => {
+  try {
+    const response = await fetch(`${API_URL}/sessions`, { headers: apiHeaders(false) });
+    if (!response.ok) {
+      const err = await response.json();
+      throw new Error(err.error || 'Falha ao listar sessões');
+    }
+    return await response.json();
+  } catch (error: any) {
+    throw error;
+  }
+};
+
+/** Estado do túnel SSH da conexão (null se ainda não foi aberto ou já foi encerrado por ociosidade). */
+export const fetchTunnelStatus = async (creds: DbCredentials): Promise<SshTunnelStatus | null> => {
+  const response = await fetch(`${API_URL}/tunnel-status`, {
+    method: 'POST',
+    headers: apiHeaders(),
+    body: JSON.stringify({ credentials: ensureIpv4(creds) })
+  });
+  const body = await response.json();
+  if (!response.ok) throw new Error(body.error || 'Falha ao consultar o túnel SSH');
+  return body.tunnel;
+};
+
+export const closeBackendSession = async (sessionId: string): Promise<void> => {
+  try {
+    const response = await fetch(`${API_URL}/sessions/${encodeURIComponent(sessionId)}`, { method: 'DELETE', headers: apiHeaders(false) });
+    // 404 significa que a sessão já foi encerrada (ex: por ociosidade)
+    if (!response.ok && response.status !== 404) {
+      const err = await response.json();
+      throw new Error(err.error || 'Falha ao encerrar sessão');
+    }
+  } catch (error: any) {
+    throw error;
+  }
+};
+
+export const cancelExecution = async (executionId: string): Promise<CancelResult> => {
+  try {
+    const response = await fetch(`${API_URL}/cancel`, {
+      method: 'POST',
+      headers: apiHeaders(),
+      body: JSON.stringify({ executionId })
+    });
+    if (!response.ok) {
+      const err = await response.json();
+      throw new Error(err.error || 'Falha ao cancelar execução');
+    }
+    return await response.json();
   } catch (error: any) {
     throw error;
   }
@@ -0,0 +1,437 @@
+import { Column, DatabaseSchema, DdlParseResult, DdlParseWarning, Table } from "../types";
+import { SqlToken, tokenizeSql, splitTokenStatements, isWord, isPunct } from "./sqlTokenizer";
+
+/**
+ * Importação de DDL (ex: saída de `pg_dump --schema-only`) sem IA: monta o DatabaseSchema a
+ * partir de CREATE TABLE, constraints inline e via ALTER TABLE, COMMENT ON e search_path.
+ * Comandos que não afetam tabelas (SET, GRANT, índices, sequences) são ignorados em silêncio;
+ * o restante que não é entendido (views, funções, tipos...) volta em `warnings`.
+ */
+
+interface PendingForeignKey {
+  tableKey: string;
+  columns: string[];
+  refSchema: string;
+  refTable: string;
+  refColumns: string[];
+  line: number;
+}
+
+interface ParseState {
+  tables: Map<string, Table>;
+  foreignKeys: PendingForeignKey[];
+  warnings: DdlParseWarning[];
+  searchPath: string;
+  ignored: number;
+}
+
+// Sem efeito no modelo de tabelas: não vale um aviso
+const SILENT_COMMANDS = new Set(['set', 'reset', 'grant', 'revoke', 'begin', 'commit', 'start', 'end', 'analyze', 'vacuum', 'checkpoint', 'discard', 'security', 'reindex', 'cluster', 'refresh']);
+const SILENT_CREATE_OBJECTS = new Set(['index', 'sequence', 'extension', 'schema', 'publication', 'subscription', 'statistics', 'collation', 'text']);
+const COLUMN_CONSTRAINT_WORDS = ['constraint', 'not', 'null', 'default', 'primary', 'unique', 'references', 'check', 'collate', 'generated', 'deferrable', 'initially'];
+const TABLE_CONSTRAINT_WORDS = ['constraint', 'primary', 'unique', 'foreign', 'check', 'exclude'];
+
+const identifierOf = (token?: SqlToken): string | null => {
+  if (!token) return null;
+  if (token.kind === 'quoted') return token.value;
+  if (token.kind === 'word') return token.value;
+  return null;
+};
+
+const snippet = (tokens: SqlToken[]) => {
+  // Mantém o espaçamento original entre tokens adjacentes (public.users, f())
+  const text = tokens.slice(0, 12).map((t, k) => (k > 0 && tokens[k - 1].end < t.start ? ' ' : '') + t.text).join('');
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+};
+
+/** Separa por vírgulas no nível 0 de parênteses (elementos de CREATE TABLE, ações de ALTER TABLE). */
+const splitByComma = (tokens: SqlToken[]): SqlToken[][] => {
+  const parts: SqlToken[][] = [];
+  let current: SqlToken[] = [];
+  let depth = 0;
+  tokens.forEach(t => {
+    if (isPunct(t, '(') || isPunct(t, '[')) depth++;
+    else if (isPunct(t, ')') || isPunct(t, ']')) depth--;
+    if (depth === 0 && isPunct(t, ',')) {
+      parts.push(current);
+      current = [];
+      return;
+    }
+    current.push(t);
+  });
+  if (current.length > 0) parts.push(current);
+  return parts;
+};
+
+/** Índice do ')' que fecha o '(' em `open`. */
+const closingParen = (tokens: SqlToken[], open: number): number => {
+  let depth = 0;
+  for (let i = open; i < tokens.length; i++) {
+    if (isPunct(tokens[i], '(')) depth++;
+    else if (isPunct(tokens[i], ')')) {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return tokens.length - 1;
+};
+
+/** Nome possivelmente qualificado (schema.tabela) a partir de `pos`. */
+const readQualifiedName = (tokens: SqlToken[], pos: number): { parts: string[]; next: number } => {
+  const parts: string[] = [];
+  let i = pos;
+  while (i < tokens.length) {
+    const ident = identifierOf(tokens[i]);
+    if (ident === null) break;
+    parts.push(ident);
+    i++;
+    if (!isPunct(tokens[i], '.')) break;
+    i++;
+  }
+  return { parts, next: i };
+};
+
+/** Lista "(a, b, c)" de identificadores a partir de `pos` (que deve ser '('). */
+const readIdentifierList = (tokens: SqlToken[], pos: number): { names: string[]; next: number } => {
+  if (!isPunct(tokens[pos], '(')) return { names: [], next: pos };
+  const close = closingParen(tokens, pos);
+  const names = splitByComma(tokens.slice(pos + 1, close))
+    .map(part => identifierOf(part[0]))
+    .filter((n): n is string => !!n);
+  return { names, next: close + 1 };
+};
+
+/** Tipo como texto normalizado: "numeric(10,2)", "character varying(80)", "timestamp with time zone", "integer[]". */
+const renderType = (tokens: SqlToken[]): string => {
+  let out = '';
+  tokens.forEach((t, idx) => {
+    const prev = tokens[idx - 1];
+    const text = t.kind === 'word' ? t.value : t.text;
+    const isName = t.kind === 'word' || t.kind === 'quoted';
+    const prevEndsName = prev && (prev.kind === 'word' || prev.kind === 'quoted' || prev.kind === 'number' || isPunct(prev, ')') || isPunct(prev, ']'));
+    out += (isName && prevEndsName ? ' ' : '') + text;
+  });
+  return out;
+};
+
+const tableKeyOf = (schema: string, name: string) => `${schema}.${name}`;
+
+const resolveTableKey = (state: ParseState, parts: string[]): string => {
+  if (parts.length >= 2) return tableKeyOf(parts[parts.length - 2], parts[parts.length - 1]);
+  const name = parts[0];
+  const inPath = tableKeyOf(state.searchPath, name);
+  if (state.tables.has(inPath)) return inPath;
+  const anySchema = Array.from(state.tables.keys()).find(k => k.endsWith(`.${name}`) && state.tables.get(k)!.name === name);
+  return anySchema || inPath;
+};
+
+const warn = (state: ParseState, tokens: SqlToken[], message: string) => {
+  state.warnings.push({ line: tokens[0]?.line ?? 0, statement: snippet(tokens), message });
+};
+
+const markPrimaryKey = (table: Table, columns: string[]) => {
+  table.columns.forEach(c => { if (columns.includes(c.name)) c.isPrimaryKey = true; });
+};
+
+/** Cláusula REFERENCES tabela [(colunas)] a partir de `pos` (que aponta para REFERENCES). */
+const readReferences = (state: ParseState, tokens: SqlToken[], pos: number) => {
+  const { parts, next } = readQualifiedName(tokens, pos + 1);
+  const { names, next: after } = readIdentifierList(tokens, next);
+  const refKey = resolveTableKey(state, parts);
+  const [refSchema, ...rest] = refKey.split('.');
+  return { refSchema, refTable: rest.join('.'), refColumns: names, next: after };
+};
+
+/**
+ * Constraint de tabela ([CONSTRAINT nome] PRIMARY KEY/UNIQUE/FOREIGN KEY/CHECK/EXCLUDE).
+ * Só PK e FK alteram o modelo; UNIQUE/CHECK/EXCLUDE são aceitas sem efeito.
+ */
+const applyTableConstraint = (state: ParseState, table: Table, tableKey: string, tokens: SqlToken[]) => {
+  let i = 0;
+  if (isWord(tokens[i], 'constraint')) i += 2;
+  if (isWord(tokens[i], 'primary') && isWord(tokens[i + 1], 'key')) {
+    const { names } = readIdentifierList(tokens, i + 2);
+    markPrimaryKey(table, names);
+    return;
+  }
+  if (isWord(tokens[i], 'foreign') && isWord(tokens[i + 1], 'key')) {
+    const { names, next } = readIdentifierList(tokens, i + 2);
+    if (!isWord(tokens[next], 'references')) {
+      warn(state, tokens, 'FOREIGN KEY sem REFERENCES.');
+      return;
+    }
+    const ref = readReferences(state, tokens, next);
+    state.foreignKeys.push({ tableKey, columns: names, refSchema: ref.refSchema, refTable: ref.refTable, refColumns: ref.refColumns, line: tokens[0].line });
+  }
+};
+
+/** Definição de coluna: nome, tipo e constraints inline (PRIMARY KEY, REFERENCES...). */
+const parseColumn = (state: ParseState, tableKey: string, tokens: SqlToken[]): Column | null => {
+  const name = identifierOf(tokens[0]);
+  if (!name) return null;
+  let i = 1;
+  const typeTokens: SqlToken[] = [];
+  let depth = 0;
+  while (i < tokens.length) {
+    const t = tokens[i];
+    if (depth === 0 && t.kind === 'word' && COLUMN_CONSTRAINT_WORDS.includes(t.value)) break;
+    if (isPunct(t, '(')) depth++;
+    else if (isPunct(t, ')')) depth--;
+    typeTokens.push(t);
+    i++;
+  }
+  const column: Column = { name, type: renderType(typeTokens) || 'text' };
+
+  while (i < tokens.length) {
+    const t = tokens[i];
+    if (isWord(t, 'primary') && isWord(tokens[i + 1], 'key')) {
+      column.isPrimaryKey = true;
+      i += 2;
+    } else if (isWord(t, 'references')) {
+      const ref = readReferences(state, tokens, i);
+      state.foreignKeys.push({ tableKey, columns: [name], refSchema: ref.refSchema, refTable: ref.refTable, refColumns: ref.refColumns, line: tokens[0].line });
+      i = ref.next;
+    } else if (isPunct(t, '(')) {
+      i = closingParen(tokens, i) + 1;
+    } else {
+      i++;
+    }
+  }
+  return column;
+};
+
+const parseCreateTable = (state: ParseState, tokens: SqlToken[], pos: number) => {
+  let i = pos;
+  if (isWord(tokens[i], 'if') && isWord(tokens[i + 1], 'not') && isWord(tokens[i + 2], 'exists')) i += 3;
+  const { parts, next } = readQualifiedName(tokens, i);
+  if (parts.length === 0) {
+    warn(state, tokens, 'Nome de tabela não reconhecido.');
+    return;
+  }
+  const schema = parts.length >= 2 ? parts[parts.length - 2] : state.searchPath;
+  const name = parts[parts.length - 1];
+  const tableKey = tableKeyOf(schema, name);
+  i = next;
+
+  // CREATE TABLE filha PARTITION OF mae: herda as colunas da tabela particionada
+  if (isWord(tokens[i], 'partition') && isWord(tokens[i + 1], 'of')) {
+    const parent = readQualifiedName(tokens, i + 2);
+    const parentTable = state.tables.get(resolveTableKey(state, parent.parts));
+    if (!parentTable) {
+      warn(state, tokens, `Partição de tabela desconhecida (${parent.parts.join('.')}).`);
+      return;
+    }
+    state.tables.set(tableKey, { name, schema, columns: parentTable.columns.map(c => ({ ...c })), description: parentTable.description });
+    return;
+  }
+  if (!isPunct(tokens[i], '(')) {
+    warn(state, tokens, isWord(tokens[i], 'as') ? 'CREATE TABLE ... AS não é suportado (colunas dependem da consulta).' : 'CREATE TABLE sem lista de colunas não é suportado.');
+    return;
+  }
+
+  const close = closingParen(tokens, i);
+  const table: Table = { name, schema, columns: [] };
+  state.tables.set(tableKey, table);
+  const constraints: SqlToken[][] = [];
+
+  splitByComma(tokens.slice(i + 1, close)).forEach(element => {
+    if (element.length === 0) return;
+    if (element[0].kind === 'word' && TABLE_CONSTRAINT_WORDS.includes(element[0].value)) {
+      constraints.push(element);
+    } else if (isWord(element[0], 'like')) {
+      const source = state.tables.get(resolveTableKey(state, readQualifiedName(element, 1).parts));
+      if (source) table.columns.push(...source.columns.map(c => ({ name: c.name, type: c.type })));
+      else warn(state, element, 'LIKE de tabela desconhecida.');
+    } else {
+      const column = parseColumn(state, tableKey, element);
+      if (column) table.columns.push(column);
+    }
+  });
+  // Constraints de tabela podem vir antes das colunas que citam
+  constraints.forEach(c => applyTableConstraint(state, table, tableKey, c));
+
+  // INHERITS (mae): colunas herdadas vêm antes das próprias
+  const rest = tokens.slice(close + 1);
+  const inheritsAt = rest.findIndex(t => isWord(t, 'inherits'));
+  if (inheritsAt !== -1) {
+    const { names } = readIdentifierList(rest, inheritsAt + 1);
+    const inherited = names.flatMap(n => state.tables.get(resolveTableKey(state, [n]))?.columns || []);
+    table.columns = [...inherited.map(c => ({ ...c })).filter(c => !table.columns.some(own => own.name === c.name)), ...table.columns];
+  }
+};
+
+const parseAlterTable = (state: ParseState, tokens: SqlToken[], pos: number) => {
+  let i = pos;
+  if (isWord(tokens[i], 'if') && isWord(tokens[i + 1], 'exists')) i += 2;
+  if (isWord(tokens[i], 'only')) i++;
+  const { parts, next } = readQualifiedName(tokens, i);
+  const tableKey = resolveTableKey(state, parts);
+  const table = state.tables.get(tableKey);
+  if (!table) {
+    warn(state, tokens, `ALTER TABLE em tabela não declarada (${parts.join('.')}).`);
+    return;
+  }
+
+  splitByComma(tokens.slice(next)).forEach(action => {
+    if (isWord(action[0], 'add')) {
+      let j = 1;
+      if (action[j]?.kind === 'word' && TABLE_CONSTRAINT_WORDS.includes(action[j].value)) {
+        applyTableConstraint(state, table, tableKey, action.slice(j));
+        return;
+      }
+      if (isWord(action[j], 'column')) j++;
+      if (isWord(action[j], 'if') && isWord(action[j + 1], 'not') && isWord(action[j + 2], 'exists')) j += 3;
+      const column = parseColumn(state, tableKey, action.slice(j));
+      if (column && !table.columns.some(c => c.name === column.name)) table.columns.push(column);
+    } else if (isWord(action[0], 'drop') && !isWord(action[1], 'constraint', 'default', 'not')) {
+      let j = isWord(action[1], 'column') ? 2 : 1;
+      if (isWord(action[j], 'if') && isWord(action[j + 1], 'exists')) j += 2;
+      const name = identifierOf(action[j]);
+      table.columns = table.columns.filter(c => c.name !== name);
+    } else if (isWord(action[0], 'rename')) {
+      if (isWord(action[1], 'to')) {
+        const newName = identifierOf(action[2]);
+        if (newName) {
+          state.tables.delete(tableKey);
+          table.name = newName;
+          state.tables.set(tableKeyOf(table.schema, newName), table);
+        }
+        return;
+      }
+      const j = isWord(action[1], 'column') ? 2 : 1;
+      const from = identifierOf(action[j]);
+      const to = isWord(action[j + 1], 'to') ? identifierOf(action[j + 2]) : null;
+      const column = table.columns.find(c => c.name === from);
+      if (column && to) column.name = to;
+    }
+    // OWNER TO, ALTER COLUMN ... SET DEFAULT, ENABLE TRIGGER etc. não mudam o modelo
+  });
+};
+
+const parseComment = (state: ParseState, tokens: SqlToken[]) => {
+  // COMMENT ON { TABLE | COLUMN } nome IS 'texto' | NULL
+  const target = tokens[2];
+  if (!isWord(target, 'table', 'column')) {
+    state.ignored++;
+    return;
+  }
+  const { parts, next } = readQualifiedName(tokens, 3);
+  if (!isWord(tokens[next], 'is')) {
+    warn(state, tokens, 'COMMENT ON sem IS.');
+    return;
+  }
+  const valueToken = tokens[next + 1];
+  const text = valueToken && (valueToken.kind === 'string' || valueToken.kind === 'dollar') ? valueToken.value : undefined;
+
+  if (isWord(target, 'table')) {
+    const table = state.tables.get(resolveTableKey(state, parts));
+    if (!table) return warn(state, tokens, `Comentário em tabela não declarada (${parts.join('.')}).`);
+    table.description = text;
+    return;
+  }
+  const columnName = parts[parts.length - 1];
+  const table = state.tables.get(resolveTableKey(state, parts.slice(0, -1)));
+  const column = table?.columns.find(c => c.name === columnName);
+  if (!column) return warn(state, tokens, `Comentário em coluna não declarada (${parts.join('.')}).`);
+  column.description = text;
+};
+
+const parseSet = (state: ParseState, tokens: SqlToken[]) => {
+  // SET search_path = app, public  |  SET search_path TO app
+  if (!isWord(tokens[1], 'search_path') && !(isWord(tokens[1], 'local', 'session') && isWord(tokens[2], 'search_path'))) return;
+  const valueAt = tokens.findIndex(t => (t.kind === 'operator' && t.text === '=') || isWord(t, 'to'));
+  const first = tokens[valueAt + 1];
+  const schema = first && (first.kind === 'string' ? first.value : identifierOf(first));
+  if (schema && schema !== '$user') state.searchPath = schema;
+};
+
+const parseStatement = (state: ParseState, tokens: SqlToken[]) => {
+  const head = tokens[0];
+  if (head.kind !== 'word') {
+    warn(state, tokens, 'Comando não reconhecido.');
+    return;
+  }
+  if (head.value === 'set') return parseSet(state, tokens);
+  if (SILENT_COMMANDS.has(head.value)) {
+    state.ignored++;
+    return;
+  }
+  // pg_dump: SELECT pg_catalog.set_config('search_path', '', false);
+  if (head.value === 'select' && tokens.some(t => isWord(t, 'set_config'))) {
+    state.ignored++;
+    return;
+  }
+  if (head.value === 'comment' && isWord(tokens[1], 'on')) return parseComment(state, tokens);
+
+  if (head.value === 'create') {
+    let i = 1;
+    if (isWord(tokens[i], 'or') && isWord(tokens[i + 1], 'replace')) i += 2;
+    while (isWord(tokens[i], 'global', 'local', 'temp', 'temporary', 'unlogged', 'unique', 'foreign', 'default', 'trusted', 'procedural')) {
+      if (isWord(tokens[i], 'foreign') && isWord(tokens[i + 1], 'table')) break;
+      i++;
+    }
+    if (isWord(tokens[i], 'table')) return parseCreateTable(state, tokens, i + 1);
+    if (tokens[i]?.kind === 'word' && SILENT_CREATE_OBJECTS.has(tokens[i].value)) {
+      state.ignored++;
+      return;
+    }
+    const typeWords = isWord(tokens[i], 'materialized', 'foreign', 'event', 'text', 'operator') ? 2 : 1;
+    const objectType = tokens.slice(i, i + typeWords).filter(t => t.kind === 'word').map(t => t.value.toUpperCase()).join(' ');
+    warn(state, tokens, `CREATE ${objectType || '?'} não é suportado: objeto ignorado.`);
+    return;
+  }
+  if (head.value === 'alter') {
+    if (isWord(tokens[1], 'table')) return parseAlterTable(state, tokens, 2);
+    // ALTER SEQUENCE/FUNCTION/SCHEMA ... OWNER TO etc.
+    state.ignored++;
+    return;
+  }
+  if (head.value === 'drop' && isWord(tokens[1], 'table')) {
+    let i = 2;
+    if (isWord(tokens[i], 'if') && isWord(tokens[i + 1], 'exists')) i += 2;
+    splitByComma(tokens.slice(i)).forEach(part => {
+      const { parts } = readQualifiedName(part, 0);
+      if (parts.length > 0) state.tables.delete(resolveTableKey(state, parts));
+    });
+    return;
+  }
+  warn(state, tokens, `${head.value.toUpperCase()} não é suportado na importação de DDL.`);
+};
+
+/** FKs são resolvidas no fim: no pg_dump o ALTER TABLE ... FOREIGN KEY vem depois de todas as tabelas. */
+const resolveForeignKeys = (state: ParseState) => {
+  state.foreignKeys.forEach(fk => {
+    const table = state.tables.get(fk.tableKey);
+    if (!table) return;
+    const refTable = state.tables.get(tableKeyOf(fk.refSchema, fk.refTable));
+    const refColumns = fk.refColumns.length > 0 ? fk.refColumns : (refTable?.columns.filter(c => c.isPrimaryKey).map(c => c.name) || []);
+    if (!refTable) {
+      state.warnings.push({ line: fk.line, statement: `${fk.tableKey} -> ${fk.refSchema}.${fk.refTable}`, message: 'FOREIGN KEY para tabela não declarada no DDL.' });
+    }
+    fk.columns.forEach((colName, idx) => {
+      const column = table.columns.find(c => c.name === colName);
+      if (!column) return;
+      column.isForeignKey = true;
+      const refColumn = refColumns[idx] ?? refColumns[0];
+      if (refColumn) column.references = `${fk.refSchema}.${fk.refTable}.${refColumn}`;
+    });
+  });
+};
+
+export const parseDdlSchema = (ddl: string, name = 'ddl_import'): DdlParseResult => {
+  // Blocos de dados do pg_dump (COPY ... FROM stdin; ... \.) não são SQL
+  const withoutCopyData = ddl.replace(/^COPY\s[^;]*FROM\s+stdin;\s*\n[\s\S]*?^\\\.\s*$/gim, '');
+  const state: ParseState = { tables: new Map(), foreignKeys: [], warnings: [], searchPath: 'public', ignored: 0 };
+
+  splitTokenStatements(tokenizeSql(withoutCopyData)).forEach(statement => {
+    try {
+      parseStatement(state, statement);
+    } catch (e: any) {
+      warn(state, statement, `Falha ao interpretar: ${e.message}`);
+    }
+  });
+  resolveForeignKeys(state);
+
+  const schema: DatabaseSchema = { name, tables: Array.from(state.tables.values()), connectionSource: 'ddl' };
+  return { schema, warnings: state.warnings, ignoredStatements: state.ignored };
+};
@@ -0,0 +1,211 @@
+import { Column, DatabaseSchema, FixtureImportResult, SimulationConfig, SimulationFixture, Table } from "../types";
+import type { SimulationData } from "./simulationService";
+import { parseDdlSchema } from "./ddlParserService";
+import { locateStatements, splitSqlStatements } from "./sqlScriptService";
+import { executeOfflineScript } from "./sqlInterpreter";
+
+/**
+ * Fixtures: dados simulados em arquivo para demos e reproduções determinísticas.
+ * JSON guarda schema, dados e a configuração do gerador; o dump SQL (CREATE TABLE + INSERT +
+ * FKs no fim, como o pg_dump) também roda num PostgreSQL real. Os dois formatos são importáveis.
+ */
+
+export const FIXTURE_FORMAT = 'psqlbuddy-fixture';
+export const FIXTURE_VERSION = 1;
+
+const INSERT_BATCH_SIZE = 100; // Linhas por INSERT no dump
+
+// Palavras reservadas comuns como nome de tabela/coluna
+const RESERVED_WORDS = new Set(['all', 'and', 'as', 'asc', 'check', 'column', 'constraint', 'default', 'desc', 'distinct', 'do', 'else', 'end', 'for', 'from', 'grant', 'group', 'having', 'in', 'limit', 'not', 'null', 'offset', 'on', 'or', 'order', 'primary', 'references', 'select', 'table', 'to', 'union', 'unique', 'user', 'using', 'when', 'where', 'with']);
+
+const tableIdOf = (table: Table) => `${table.schema || 'public'}.${table.name}`;
+
+const quoteIdent = (name: string) =>
+  /^[a-z_][a-z0-9_$]*$/.test(name) && !RESERVED_WORDS.has(name) ? name : `"${name.replace(/"/g, '""')}"`;
+
+const qualifiedName = (table: Table) => `${quoteIdent(table.schema || 'public')}.${quoteIdent(table.name)}`;
+
+const quoteLiteral = (val: string) => `'${val.replace(/'/g, "''")}'`;
+
+const isNumericType = (type: string) => /\b(small|big)?int(eger|2|4|8)?\b|serial|numeric|decimal|real|double|float/i.test(type);
+
+const isBooleanType = (type: string) => /\bbool(ean)?\b/i.test(type);
+
+const isJsonType = (type: string) => /\bjsonb?\b/i.test(type);
+
+const toLiteral = (val: any, col: Column): string => {
+  if (val === null || val === undefined) return 'NULL';
+  if (typeof val === 'boolean') return val ? 'TRUE' : 'FALSE';
+  if (typeof val === 'number') return Number.isFinite(val) ? String(val) : quoteLiteral(String(val));
+  if (typeof val === 'object') return quoteLiteral(JSON.stringify(val));
+  // Texto numérico em coluna numérica sai sem aspas, como o PostgreSQL devolveria
+  if (isNumericType(col.type) && /^\s*[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?\s*$/.test(val)) return val.trim();
+  return quoteLiteral(String(val));
+};
+
+export const createFixture = (name: string, schema: DatabaseSchema, data: SimulationData, config?: SimulationConfig): SimulationFixture => ({
+  format: FIXTURE_FORMAT,
+  version: FIXTURE_VERSION,
+  name,
+  exportedAt: new Date().toISOString(),
+  schema,
+  ...(config ? { config } : {}),
+  data
+});
+
+export const serializeFixtureJson = (fixture: SimulationFixture): string => JSON.stringify(fixture, null, 2);
+
+export const serializeFixtureSql = (fixture: SimulationFixture): string => {
+  const { schema, data } = fixture;
+  const out: string[] = [
+    `-- ${FIXTURE_FORMAT}: ${fixture.name.replace(/\n/g, ' ')}`,
+    `-- Exportado em ${fixture.exportedAt}${fixture.config ? ` (seed ${fixture.config.seed})` : ''}`,
+    ''
+  ];
+
+  const schemas = Array.from(new Set(schema.tables.map(t => t.schema || 'public'))).filter(s => s !== 'public');
+  schemas.forEach(s => out.push(`CREATE SCHEMA IF NOT EXISTS ${quoteIdent(s)};`));
+  if (schemas.length > 0) out.push('');
+
+  schema.tables.forEach(table => {
+    const pk = table.columns.filter(c => c.isPrimaryKey).map(c => quoteIdent(c.name));
+    const lines = table.columns.map(c => `  ${quoteIdent(c.name)} ${c.type}${c.isPrimaryKey ? ' NOT NULL' : ''}`);
+    if (pk.length > 0) lines.push(`  PRIMARY KEY (${pk.join(', ')})`);
+    out.push(`CREATE TABLE ${qualifiedName(table)} (\n${lines.join(',\n')}\n);`);
+    if (table.description) out.push(`COMMENT ON TABLE ${qualifiedName(table)} IS ${quoteLiteral(table.description)};`);
+    table.columns.filter(c => c.description).forEach(c => {
+      out.push(`COMMENT ON COLUMN ${qualifiedName(table)}.${quoteIdent(c.name)} IS ${quoteLiteral(c.description!)};`);
+    });
+    out.push('');
+  });
+
+  schema.tables.forEach(table => {
+    const rows = data[tableIdOf(table)] || [];
+    const columns = table.columns.map(c => quoteIdent(c.name)).join(', ');
+    for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+      const values = rows.slice(i, i + INSERT_BATCH_SIZE).map(row => `  (${table.columns.map(c => toLiteral(row[c.name], c)).join(', ')})`);
+      out.push(`INSERT INTO ${qualifiedName(table)} (${columns}) VALUES\n${values.join(',\n')};`);
+    }
+    if (rows.length > 0) out.push('');
+  });
+
+  // FKs depois dos dados: a ordem dos INSERTs não precisa respeitar as dependências
+  schema.tables.forEach(table => table.columns.forEach(col => {
+    if (!col.isForeignKey || !col.references) return;
+    const parts = col.references.split('.');
+    const refColumn = parts[parts.length - 1];
+    const refTable = parts.length >= 3 ? `${quoteIdent(parts[0])}.${quoteIdent(parts[1])}` : quoteIdent(parts[0]);
+    out.push(`ALTER TABLE ONLY ${qualifiedName(table)} ADD CONSTRAINT ${quoteIdent(`${table.name}_${col.name}_fkey`)} FOREIGN KEY (${quoteIdent(col.name)}) REFERENCES ${refTable}(${quoteIdent(refColumn)});`);
+  }));
+
+  return out.join('\n').trimEnd() + '\n';
+};
+
+/**
+ * Mantém só tabelas e colunas do schema (colunas ausentes viram NULL), na ordem do schema.
+ * Tabelas do schema sem dados no arquivo ficam vazias.
+ */
+export const normalizeFixtureData = (schema: DatabaseSchema, data: Record<string, any[]>): { data: SimulationData; warnings: string[] } => {
+  const warnings: string[] = [];
+  const known = new Set(schema.tables.map(tableIdOf));
+  Object.keys(data).filter(key => !known.has(key)).forEach(key => warnings.push(`Tabela "${key}" não existe no schema e foi ignorada.`));
+
+  const normalized: SimulationData = {};
+  schema.tables.forEach(table => {
+    const rows = data[tableIdOf(table)];
+    if (rows !== undefined && !Array.isArray(rows)) throw new Error(`Dados da tabela "${tableIdOf(table)}" não são uma lista de linhas.`);
+    const columnNames = new Set(table.columns.map(c => c.name));
+    const extra = new Set<string>();
+    normalized[tableIdOf(table)] = (rows || []).map(row => {
+      Object.keys(row || {}).forEach(k => { if (!columnNames.has(k)) extra.add(k); });
+      return Object.fromEntries(table.columns.map(c => [c.name, row?.[c.name] ?? null]));
+    });
+    extra.forEach(k => warnings.push(`Coluna "${tableIdOf(table)}.${k}" não existe no schema e foi ignorada.`));
+  });
+  return { data: normalized, warnings };
+};
+
+const stripLeadingComments = (sql: string) => sql.replace(/^(\s+|--[^\n]*(\n|$)|\/\*[\s\S]*?\*\/)+/, '');
+
+const parseSqlFixture = (sql: string, fallbackSchema: DatabaseSchema | null): FixtureImportResult => {
+  const statements = splitSqlStatements(sql);
+  const offsets = locateStatements(sql, statements);
+  const isData = (stmt: string) => /^(insert|update|delete)\b/i.test(stripLeadingComments(stmt));
+
+  // O parser de DDL recebe o texto sem os comandos de dados (quebras de linha mantidas para os avisos)
+  let ddlText = sql;
+  statements.forEach((stmt, k) => {
+    if (!isData(stmt)) return;
+    ddlText = ddlText.slice(0, offsets[k]) + stmt.replace(/[^\n]/g, ' ') + ddlText.slice(offsets[k] + stmt.length);
+  });
+
+  const name = sql.match(new RegExp(`^--\\s*${FIXTURE_FORMAT}:\\s*(.+)$`, 'm'))?.[1].trim() || 'fixture';
+  const ddl = parseDdlSchema(ddlText, name);
+  const schema = ddl.schema.tables.length > 0 ? { ...ddl.schema, connectionSource: 'simulated' as const } : fallbackSchema;
+  if (!schema) throw new Error("O arquivo não tem CREATE TABLE e não há schema simulado para receber os INSERTs.");
+
+  const empty: SimulationData = Object.fromEntries(schema.tables.map(t => [tableIdOf(t), []]));
+  const script = executeOfflineScript(schema, empty, statements.filter(isData), 'stop');
+  const failed = script.statements.find(s => s.status === 'error');
+  if (failed) throw new Error(`Comando de dados ${failed.index + 1} do arquivo falhou: ${failed.error}`);
+
+  return { schema, data: script.data, warnings: ddl.warnings.map(w => `Linha ${w.line}: ${w.message}`) };
+};
+
+/**
+ * Lê um arquivo de fixture (JSON deste app ou dump SQL). Sem schema no arquivo,
+ * os dados são encaixados em `fallbackSchema` (o da conexão simulada ativa).
+ */
+export const parseFixture = (text: string, fallbackSchema: DatabaseSchema | null = null): FixtureImportResult => {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error("Arquivo de fixture vazio.");
+  if (!trimmed.startsWith('{')) return parseSqlFixture(trimmed, fallbackSchema);
+
+  let content: any;
+  try {
+    content = JSON.parse(trimmed);
+  } catch (e: any) {
+    throw new Error(`JSON inválido: ${e.message}`);
+  }
+  if (content.format !== FIXTURE_FORMAT || !content.data || typeof content.data !== 'object') {
+    throw new Error("Estrutura de fixture inválida.");
+  }
+  if (content.version > FIXTURE_VERSION) throw new Error(`Fixture na versão ${content.version}, mais nova que a suportada (${FIXTURE_VERSION}).`);
+
+  const schema: DatabaseSchema | null = content.schema && Array.isArray(content.schema.tables)
+    ? { ...content.schema, connectionSource: 'simulated' }
+    : fallbackSchema;
+  if (!schema) throw new Error("A fixture não tem schema e não há schema simulado para receber os dados.");
+
+  const { data, warnings } = normalizeFixtureData(schema, content.data);
+  return { schema, data, config: content.config, warnings };
+};
+
+/** Valor digitado no editor de fixture convertido pelo tipo da coluna; vazio vira NULL. */
+export const parseFixtureCell = (text: string, col: Column): any => {
+  if (text === '') return null;
+  if (isBooleanType(col.type)) {
+    if (/^(true|t|1|yes|sim)$/i.test(text.trim())) return true;
+    if (/^(false|f|0|no|não|nao)$/i.test(text.trim())) return false;
+    throw new Error(`Valor inválido para boolean: "${text}"`);
+  }
+  if (isNumericType(col.type)) {
+    const n = Number(text.trim());
+    if (text.trim() === '' || isNaN(n)) throw new Error(`Valor inválido para ${col.type}: "${text}"`);
+    return n;
+  }
+  if (isJsonType(col.type)) {
+    try {
+      JSON.parse(text);
+    } catch {
+      throw new Error(`JSON inválido na coluna "${col.name}".`);
+    }
+  }
+  return text;
+};
+
+export const formatFixtureCell = (val: any): string => {
+  if (val === null || val === undefined) return '';
+  if (typeof val === 'object') return JSON.stringify(val);
+  return String(val);
+};
@@ -1,6 +1,11 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
-import { DatabaseSchema, QueryResult, BuilderState, ServerStats, ActiveProcess } from "../types";
+import { DatabaseSchema, QueryResult, BuilderState, ServerStats, ActiveProcess, DdlParseResult, DbCredentials, QueryParamInput, SqlValidationIssue, SqlValidationResult } from "../types";
+import { parseDdlSchema } from "./ddlParserService";
+import { validateSqlOffline, preparableStatements, suggestSqlFix } from "./sqlValidationService";
+import { scanSqlParams, bindSqlParams } from "./sqlParamService";
+import { validateStatementsOnServer } from "./dbService";
+import { tokenizeSql } from "./sqlTokenizer";
 
 const cleanJsonString = (str: string): string => {
   if (!str) return "[]";
@@ -150,8 +155,62 @@ export const generateBuilderStateFromPrompt = async (schema: DatabaseSchema, use
   }
 };
 
-export const validateSqlQuery = async (sql: string, schema?: DatabaseSchema): Promise<any> => { return { isValid: true }; };
-export const fixSqlError = async (sql: string, errorMessage: string, schema: DatabaseSchema): Promise<string> => { return sql; };
+/**
+ * Validação sem IA: primeiro a offline (sintaxe e referências contra o schema); se passar e houver
+ * conexão real, cada comando preparável vai para PREPARE numa transação desfeita no servidor.
+ */
+export const validateSqlQuery = async (sql: string, schema?: DatabaseSchema, credentials?: DbCredentials | null): Promise<SqlValidationResult> => {
+  const local = validateSqlOffline(sql, schema);
+  if (!local.isValid || !credentials || credentials.host === 'simulated') return local;
+
+  // :nome vira $n para o PREPARE; os tipos dos binds são inferidos pelo PostgreSQL
+  const statements = preparableStatements(sql).flatMap(stmt => {
+    const scan = scanSqlParams(stmt.sql);
+    if (scan.error) return [];
+    const inputs: Record<string, QueryParamInput> = Object.fromEntries(scan.names.map(name => [name, { type: 'null', value: '' }]));
+    return [{ ...stmt, bound: bindSqlParams(stmt.sql, inputs) }];
+  });
+  if (statements.length === 0) return local;
+
+  let results;
+  try {
+    results = await validateStatementsOnServer(credentials, statements.map(stmt => stmt.bound.sql));
+  } catch (e) {
+    return local; // Servidor indisponível: fica a validação local
+  }
+
+  const tokens = tokenizeSql(sql);
+  let correctedSql = local.correctedSql;
+  const serverIssues: SqlValidationIssue[] = results.filter(r => !r.ok && r.error).map(r => {
+    const stmt = statements[r.index];
+    const error = r.error!;
+    const start = error.position ? stmt.start + stmt.bound.toOriginalPosition(error.position) - 1 : stmt.start;
+    const token = tokens.find(t => t.start === start);
+    if (!correctedSql) {
+      const fixed = suggestSqlFix(stmt.sql, error.message, schema);
+      if (fixed !== stmt.sql) correctedSql = sql.slice(0, stmt.start) + fixed + sql.slice(stmt.start + stmt.sql.length);
+    }
+    return {
+      severity: 'error',
+      message: error.hint ? `${error.message} (${error.hint})` : error.message,
+      start,
+      end: token ? token.end : start + 1,
+      source: 'server',
+      code: error.code
+    };
+  });
+  const issues = [...(local.issues || []), ...serverIssues].sort((a, b) => a.start - b.start);
+  return {
+    isValid: serverIssues.length === 0,
+    error: serverIssues[0]?.message,
+    correctedSql,
+    issues,
+    serverChecked: true
+  };
+};
+
+/** SQL corrigido a partir do erro do PostgreSQL (tabela/coluna inexistente); o próprio SQL quando não há sugestão. */
+export const fixSqlError = async (sql: string, errorMessage: string, schema: DatabaseSchema): Promise<string> => suggestSqlFix(sql, errorMessage, schema);
 export const suggestRelationships = async (schema: DatabaseSchema): Promise<any[]> => { return []; };
 
 export const generateSchemaFromTopic = async (topic: string, context: string): Promise<DatabaseSchema> => {
@@ -233,7 +292,8 @@ export const generateSchemaFromTopic = async (topic: string, context: string): P
   }
 };
 
-export const parseSchemaFromDDL = async (ddl: string): Promise<DatabaseSchema> => { return { name: '', tables: [] }; };
+/** Importação de DDL é determinística e local (não usa IA): ver ddlParserService. */
+export const parseSchemaFromDDL = async (ddl: string, name?: string): Promise<DdlParseResult> => parseDdlSchema(ddl, name);
 export const extractSqlFromLogs = async (logText: string): Promise<string[]> => {
   console.log("[GEMINI_SERVICE] Extraindo queries de logs...");
   // ALWAYS use const ai = new GoogleGenAI({apiKey: process.env.API_KEY});
@@ -1,8 +1,11 @@
 
 import { GoogleGenAI } from "@google/genai";
-import { SAMPLE_SCHEMA, BuilderState, DatabaseSchema, DbCredentials } from "../types";
+import { SAMPLE_SCHEMA, BuilderState, DatabaseSchema, DbCredentials, SimulationConfig } from "../types";
 import { executeOfflineQuery, initializeSimulation, SimulationData } from "./simulationService";
 import { executeQueryReal } from "./dbService";
+import { generateLocalSql } from "./localSqlService";
+import { createRandom, DEFAULT_SIMULATION_ROW_COUNT, Random } from "./dataGeneratorService";
+import { executeOfflineSql } from "./sqlInterpreter";
 
 export interface HealthStatus {
   id: string;
@@ -191,3 +194,198 @@ export const runRandomizedStressTest = async (
 
   return allPassed;
 };
+
+const pick = <T,>(random: Random, items: T[]): T => items[Math.floor(random() * items.length)];
+const tableIdOf = (t: { schema?: string; name: string }) => `${t.schema || 'public'}.${t.name}`;
+const isNumericType = (type: string) => /int|serial|numeric|decimal|real|double|float|money/i.test(type);
+
+/** BuilderState aleatório com joins por FK, agregações, filtros tipados, ordenação e fórmulas. */
+const randomBuilderState = (schema: DatabaseSchema, data: SimulationData, random: Random): BuilderState => {
+  const primary = pick(random, schema.tables);
+  const primaryId = tableIdOf(primary);
+  const selectedTables = [primaryId];
+  const joins: BuilderState['joins'] = [];
+
+  // Tabelas vizinhas por FK (em qualquer direção); às vezes uma sem vínculo (CROSS JOIN)
+  const neighbors = schema.tables.filter(t => t !== primary && (
+    t.columns.some(c => c.references?.startsWith(`${primaryId}.`)) ||
+    primary.columns.some(c => c.references?.startsWith(`${tableIdOf(t)}.`))
+  ));
+  const extra = Math.floor(random() * 3);
+  for (let k = 0; k < extra && neighbors.length > 0; k++) {
+    const next = neighbors.splice(Math.floor(random() * neighbors.length), 1)[0];
+    const nextId = tableIdOf(next);
+    selectedTables.push(nextId);
+    const fk = next.columns.find(c => c.references?.startsWith(`${primaryId}.`));
+    if (fk && random() < 0.5) {
+      joins.push({ id: `diff-join-${k}`, fromTable: primaryId, fromColumn: fk.references!.split('.').pop()!, type: pick(random, ['INNER', 'LEFT', 'RIGHT', 'FULL'] as const), toTable: nextId, toColumn: fk.name });
+    }
+  }
+  if (random() < 0.1 && schema.tables.length > 1) {
+    const unrelated = pick(random, schema.tables.filter(t => !selectedTables.includes(tableIdOf(t))));
+    if (unrelated) selectedTables.push(tableIdOf(unrelated));
+  }
+
+  const columns = selectedTables.flatMap(id => schema.tables.find(t => tableIdOf(t) === id)!.columns.map(c => ({ id: `${id}.${c.name}`, tableId: id, col: c })));
+  const selected = random() < 0.2 ? [] : Array.from({ length: 1 + Math.floor(random() * 4) }, () => pick(random, columns)).filter((c, k, all) => all.indexOf(c) === k);
+  const aggregations: BuilderState['aggregations'] = {};
+  selected.forEach(c => {
+    if (random() < 0.3) aggregations[c.id] = isNumericType(c.col.type) ? pick(random, ['COUNT', 'SUM', 'AVG', 'MIN', 'MAX'] as const) : pick(random, ['COUNT', 'MIN', 'MAX'] as const);
+  });
+  const plain = selected.filter(c => !aggregations[c.id]);
+  const groupBy = random() < 0.35 && plain.length > 0 ? plain.map(c => c.id) : [];
+
+  const sampleValue = (c: typeof columns[number]) => {
+    const rows = data[c.tableId] || [];
+    const value = rows.length > 0 ? rows[Math.floor(random() * rows.length)][c.col.name] : null;
+    return value === null || value === undefined ? '' : String(value);
+  };
+  const filters: BuilderState['filters'] = Array.from({ length: Math.floor(random() * 3) }, (_, k) => {
+    const c = pick(random, columns);
+    const value = sampleValue(c);
+    if (isNumericType(c.col.type)) return { id: `diff-f${k}`, column: c.id, operator: pick(random, ['=', '!=', '>', '<', '>=', '<='] as const), value };
+    if (random() < 0.15) return { id: `diff-f${k}`, column: c.id, operator: pick(random, ['IS NULL', 'IS NOT NULL'] as const), value: '' };
+    if (random() < 0.3) return { id: `diff-f${k}`, column: c.id, operator: 'IN' as const, value: [value, sampleValue(c)].join(', ') };
+    return { id: `diff-f${k}`, column: c.id, operator: pick(random, ['=', 'LIKE', 'ILIKE'] as const), value: random() < 0.5 ? `%${value.slice(1, 4)}%` : value };
+  });
+
+  const orderSource = groupBy.length > 0 ? groupBy : (selected.length > 0 ? selected : columns).map(c => c.id);
+  const orderBy = Array.from({ length: Math.floor(random() * 3) }, (_, k) => ({ id: `diff-o${k}`, column: pick(random, orderSource), direction: pick(random, ['ASC', 'DESC'] as const) }))
+    .filter((o, k, all) => all.findIndex(x => x.column === o.column) === k);
+
+  const numeric = columns.filter(c => isNumericType(c.col.type));
+  const calculatedColumns = numeric.length > 0 && random() < 0.3
+    ? [{ id: 'diff-calc', alias: 'calculado', expression: random() < 0.5 ? `${pick(random, numeric).id} * 2 + 1` : `SUM(${pick(random, numeric).id})` }]
+    : [];
+
+  return { selectedTables, selectedColumns: selected.map(c => c.id), aggregations, joins, filters, groupBy, orderBy, limit: 5 + Math.floor(random() * 200), calculatedColumns };
+};
+
+const normalizeRows = (rows: any[]) => JSON.stringify(rows.map(row => Object.entries(row).map(([k, v]) => [k, typeof v === 'number' ? Number(v.toPrecision(12)) : v])));
+
+// Seed padrão do teste diferencial: a mesma execução se repete em qualquer máquina
+export const DIFFERENTIAL_TEST_SEED = 20240517;
+
+// Dados simulados fixos para o SAMPLE_SCHEMA (casos de regressão e ausência de schema)
+const SAMPLE_SIMULATION_CONFIG: SimulationConfig = { seed: DIFFERENTIAL_TEST_SEED, rowCount: DEFAULT_SIMULATION_ROW_COUNT, referenceDate: '2024-06-01' };
+
+const sampleState = (state: Partial<BuilderState>): BuilderState => ({
+  selectedTables: [], selectedColumns: [], aggregations: {}, joins: [], filters: [], groupBy: [], orderBy: [], limit: 500, calculatedColumns: [], ...state
+});
+
+/** Casos fixos (sobre o SAMPLE_SCHEMA) de divergências já corrigidas entre o motor offline e o SQL gerado. */
+const DIFFERENTIAL_REGRESSIONS: { name: string; state: BuilderState }[] = [
+  {
+    name: 'JOIN um-para-muitos',
+    state: sampleState({
+      selectedTables: ['public.users', 'public.orders'],
+      selectedColumns: ['public.users.name', 'public.orders.amount'],
+      joins: [{ id: 'reg-join', fromTable: 'public.users', fromColumn: 'grid', type: 'INNER', toTable: 'public.orders', toColumn: 'user_id' }],
+      orderBy: [{ id: 'reg-o1', column: 'public.orders.amount', direction: 'DESC' }]
+    })
+  },
+  {
+    name: 'RIGHT JOIN',
+    state: sampleState({
+      selectedTables: ['public.users', 'public.addresses'],
+      selectedColumns: ['public.users.email', 'public.addresses.city'],
+      joins: [{ id: 'reg-join', fromTable: 'public.users', fromColumn: 'grid', type: 'RIGHT', toTable: 'public.addresses', toColumn: 'user_id' }],
+      filters: [{ id: 'reg-f1', column: 'public.users.is_active', operator: '=', value: 'true' }]
+    })
+  },
+  {
+    name: 'FULL JOIN',
+    state: sampleState({
+      selectedTables: ['public.users', 'public.orders'],
+      selectedColumns: ['public.users.country', 'public.orders.status'],
+      joins: [{ id: 'reg-join', fromTable: 'public.users', fromColumn: 'grid', type: 'FULL', toTable: 'public.orders', toColumn: 'user_id' }]
+    })
+  },
+  {
+    name: 'Agregado sem GROUP BY',
+    state: sampleState({
+      selectedTables: ['public.orders'],
+      selectedColumns: ['public.orders.amount'],
+      aggregations: { 'public.orders.amount': 'SUM' }
+    })
+  },
+  {
+    name: 'Agregado sem GROUP BY com coluna comum (OVER())',
+    state: sampleState({
+      selectedTables: ['public.users', 'public.orders'],
+      selectedColumns: ['public.users.name', 'public.orders.amount'],
+      aggregations: { 'public.orders.amount': 'AVG' },
+      joins: [{ id: 'reg-join', fromTable: 'public.users', fromColumn: 'grid', type: 'LEFT', toTable: 'public.orders', toColumn: 'user_id' }],
+      limit: 20
+    })
+  }
+];
+
+/** Roda o BuilderState no motor offline e no interpretador (SQL de generateLocalSql) e compara. */
+const compareOfflineEngines = (schema: DatabaseSchema, data: SimulationData, state: BuilderState): { ok: boolean; detail: string } => {
+  const sql = generateLocalSql(schema, state).sql;
+  const run = (fn: () => any[]): { rows?: any[]; code?: string; message?: string } => {
+    try { return { rows: fn() }; } catch (e: any) { return { code: e.details?.code || 'XX000', message: e.message }; }
+  };
+  const builder = run(() => executeOfflineQuery(schema, data, state));
+  const interpreted = run(() => executeOfflineSql(schema, data, sql).rows);
+
+  if (builder.code || interpreted.code) {
+    const ok = builder.code === interpreted.code;
+    return { ok, detail: ok ? `Ambos falharam com ${builder.code}: ${builder.message}` : `Builder: ${builder.code || 'ok'} / SQL: ${interpreted.code || 'ok'} (${interpreted.message || builder.message}) — ${sql}` };
+  }
+  const ok = normalizeRows(builder.rows!) === normalizeRows(interpreted.rows!);
+  return { ok, detail: ok ? `${builder.rows!.length} linhas idênticas.` : `Builder: ${builder.rows!.length} linhas / SQL: ${interpreted.rows!.length} linhas — ${sql}` };
+};
+
+/**
+ * Teste diferencial do motor offline: executeOfflineQuery precisa devolver o mesmo que o interpretador
+ * SQL rodando o SQL de generateLocalSql (ou falhar com o mesmo SQLSTATE). Primeiro os casos fixos de
+ * regressão, depois BuilderStates aleatórios; cada iteração usa o seed `seed + i`, registrado junto com
+ * o BuilderState nas falhas, então replayDifferentialCase reproduz exatamente o caso que divergiu.
+ */
+export const runOfflineDifferentialTest = async (
+  schema: DatabaseSchema | null,
+  simulationData: SimulationData,
+  onProgress: (log: StressTestLog) => void,
+  iterations = 50,
+  seed = DIFFERENTIAL_TEST_SEED
+): Promise<boolean> => {
+  const sampleData = initializeSimulation(SAMPLE_SCHEMA, SAMPLE_SIMULATION_CONFIG);
+  const activeSchema = schema || SAMPLE_SCHEMA;
+  const activeSimData = schema ? simulationData : sampleData;
+  let allPassed = true;
+
+  for (const regression of DIFFERENTIAL_REGRESSIONS) {
+    const { ok, detail } = compareOfflineEngines(SAMPLE_SCHEMA, sampleData, regression.state);
+    if (!ok) allPassed = false;
+    onProgress({ iteration: 0, type: 'Regressão', status: ok ? 'ok' : 'fail', detail: `${regression.name}: ${detail}` });
+  }
+
+  for (let i = 1; i <= iterations; i++) {
+    const iterationSeed = (seed + i) >>> 0;
+    const state = randomBuilderState(activeSchema, activeSimData, createRandom(iterationSeed));
+    const { ok, detail } = compareOfflineEngines(activeSchema, activeSimData, state);
+    if (!ok) {
+      allPassed = false;
+      console.error(`[HEALTH] Divergência no teste diferencial (seed ${iterationSeed})`, state);
+    }
+    onProgress({
+      iteration: i,
+      type: 'Diferencial',
+      status: ok ? 'ok' : 'fail',
+      detail: ok ? detail : `${detail}\nseed ${iterationSeed} — ${JSON.stringify(state)}`
+    });
+    await new Promise(r => setTimeout(r, 0));
+  }
+
+  return allPassed;
+};
+
+/** Refaz uma iteração do teste diferencial a partir do seed registrado no log. */
+export const replayDifferentialCase = (schema: DatabaseSchema | null, simulationData: SimulationData, iterationSeed: number) => {
+  const activeSchema = schema || SAMPLE_SCHEMA;
+  const activeSimData = schema ? simulationData : initializeSimulation(SAMPLE_SCHEMA, SAMPLE_SIMULATION_CONFIG);
+  const state = randomBuilderState(activeSchema, activeSimData, createRandom(iterationSeed));
+  return { state, ...compareOfflineEngines(activeSchema, activeSimData, state) };
+};
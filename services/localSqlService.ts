@@ -1,72 +1,47 @@
 
-import { BuilderState, DatabaseSchema, QueryResult, ExplicitJoin } from '../types';
+import { BuilderState, DatabaseSchema, QueryResult, JoinType } from '../types';
 
 // Helper to ensure consistent ID generation
 const getTableId = (t: any) => `${t.schema || 'public'}.${t.name}`;
 
-export const generateLocalSql = (schema: DatabaseSchema, state: BuilderState): QueryResult => {
-  const { selectedTables, selectedColumns, calculatedColumns, aggregations, joins, filters, groupBy, orderBy, limit } = state;
+const NUMBER_LITERAL = /^\s*[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?\s*$/;
 
-  if (selectedTables.length === 0) {
-    throw new Error("Nenhuma tabela selecionada.");
-  }
+/** Valor do filtro como o SQL local o escreve: número sem aspas ou texto. */
+export const parseFilterValue = (value: string, asText = false): string | number =>
+  !asText && NUMBER_LITERAL.test(value) ? Number(value) : value;
 
-  // --- 1. SELECT Clause ---
-  let selectItems: string[] = [];
-  const hasGlobalGroupBy = groupBy.length > 0;
+/** Itens de um filtro IN: "1, 2, 3", "(a, b)" ou "'a', 'b'". */
+export const parseFilterList = (value: string): string[] =>
+  value.trim().replace(/^\(([\s\S]*)\)$/, '$1').split(',').map(v => v.trim().replace(/^'([\s\S]*)'$/, '$1')).filter(v => v !== '');
 
-  if (selectedColumns.length > 0) {
-    selectItems = selectedColumns.map(col => {
-      const agg = aggregations[col];
-      if (agg && agg !== 'NONE') {
-        const parts = col.split('.');
-        const colName = parts[parts.length - 1];
-        const alias = `${agg.toLowerCase()}_${colName}`;
-        
-        // Se houver agregações mas não houver Group By, o SQL falharia.
-        // Convertemos para Window Function (OVER()) para permitir ver o agregado por linha.
-        if (!hasGlobalGroupBy) {
-           return `${agg}(${col}) OVER() AS ${alias}`;
-        }
-        return `${agg}(${col}) AS ${alias}`;
-      }
-      return col;
-    });
-  } else {
-    // Se o usuário quer SELECT * mas existem colunas agregadas em fórmulas, 
-    // o Postgres exigiria Group By de todos os campos. 
-    // Para manter o SELECT * funcional, trataremos as fórmulas agregadas como Window Functions.
-    selectItems.push('*');
-  }
+const renderFilterValue = (value: string, asText = false) =>
+  typeof parseFilterValue(value, asText) === 'number' ? value.trim() : `'${value.replace(/'/g, "''")}'`;
 
-  if (calculatedColumns && calculatedColumns.length > 0) {
-    calculatedColumns.forEach(calc => {
-      let expr = calc.expression;
-      
-      // Heurística aprimorada para detectar agregadores em fórmulas: AVG, SUM, COUNT, MIN, MAX
-      // Captura o nome da função e o conteúdo entre parênteses, cuidando para não duplicar OVER()
-      const aggRegex = /\b(SUM|AVG|COUNT|MIN|MAX)\b\s*\(([^()]*|\([^()]*\))*\)/gi;
-      
-      if (aggRegex.test(expr) && !hasGlobalGroupBy && !/\bOVER\s*\(/i.test(expr)) {
-         // Injeta OVER() após cada função de agregação detectada na string
-         expr = expr.replace(/(\b(?:SUM|AVG|COUNT|MIN|MAX)\b\s*\((?:[^()]*|\([^()]*\))*\))/gi, '$1 OVER()');
-      }
-      
-      selectItems.push(`(${expr}) AS "${calc.alias}"`);
-    });
-  }
+export interface LocalJoinStep {
+  type: JoinType | 'CROSS';
+  table: string; // schema.tabela
+  on?: { left: string; right: string }; // schema.tabela.coluna de cada lado da igualdade
+}
 
-  const selectClause = selectItems.join(',\n  ');
+export interface LocalJoinPlan {
+  from: string;
+  joins: LocalJoinStep[];
+}
 
-  // --- 2. FROM & JOIN Clause ---
+/**
+ * Ordem e condição dos joins que o SQL local usa: joins explícitos, depois FK em qualquer
+ * direção, depois coluna com o nome da tabela e, sem vínculo, CROSS JOIN.
+ * O motor offline executa o mesmo plano para concordar com o SQL gerado.
+ */
+export const planLocalJoins = (schema: DatabaseSchema, state: BuilderState): LocalJoinPlan => {
+  const { selectedTables, joins } = state;
   const primaryTableId = selectedTables[0];
-  let fromClause = `FROM ${primaryTableId}`;
   const joinedTables = new Set<string>([primaryTableId]);
-  let joinClauses: string[] = [];
+  const steps: LocalJoinStep[] = [];
 
   joins.forEach(join => {
     if (selectedTables.includes(join.fromTable) && selectedTables.includes(join.toTable)) {
-       joinClauses.push(`${join.type} JOIN ${join.toTable} ON ${join.fromTable}.${join.fromColumn} = ${join.toTable}.${join.toColumn}`);
+       steps.push({ type: join.type, table: join.toTable, on: { left: `${join.fromTable}.${join.fromColumn}`, right: `${join.toTable}.${join.toColumn}` } });
        joinedTables.add(join.fromTable);
        joinedTables.add(join.toTable);
     }
@@ -100,7 +75,7 @@ export const generateLocalSql = (schema: DatabaseSchema, state: BuilderState): Q
              if (fkCol && fkCol.references) {
                 const parts = fkCol.references.split('.');
                 const targetColName = parts[parts.length - 1];
-                joinClauses.push(`LEFT JOIN ${targetTableId} ON ${existingTableId}.${fkCol.name} = ${targetTableId}.${targetColName}`); 
+                steps.push({ type: 'LEFT', table: targetTableId, on: { left: `${existingTableId}.${fkCol.name}`, right: `${targetTableId}.${targetColName}` } });
                 joinedTables.add(targetTableId);
                 foundLink = true;
                 break;
@@ -127,7 +102,7 @@ export const generateLocalSql = (schema: DatabaseSchema, state: BuilderState): Q
                 if (fkCol && fkCol.references) {
                    const parts = fkCol.references.split('.');
                    const targetColName = parts[parts.length - 1];
-                   joinClauses.push(`LEFT JOIN ${targetTableId} ON ${targetTableId}.${fkCol.name} = ${existingTableId}.${targetColName}`);
+                   steps.push({ type: 'LEFT', table: targetTableId, on: { left: `${targetTableId}.${fkCol.name}`, right: `${existingTableId}.${targetColName}` } });
                    joinedTables.add(targetTableId);
                    foundLink = true;
                    break;
@@ -149,7 +124,7 @@ export const generateLocalSql = (schema: DatabaseSchema, state: BuilderState): Q
                                      || targetSchemaObj.columns.find(c => c.name.toLowerCase() === 'id');
 
                        if (linkingCol && targetPk) {
-                           joinClauses.push(`LEFT JOIN ${targetTableId} ON ${existingTableId}.${linkingCol.name} = ${targetTableId}.${targetPk.name}`);
+                           steps.push({ type: 'LEFT', table: targetTableId, on: { left: `${existingTableId}.${linkingCol.name}`, right: `${targetTableId}.${targetPk.name}` } });
                            joinedTables.add(targetTableId);
                            foundLink = true;
                            break;
@@ -160,13 +135,78 @@ export const generateLocalSql = (schema: DatabaseSchema, state: BuilderState): Q
        }
 
        if (!foundLink) {
-          fromClause += `, ${targetTableId}`;
+          // CROSS JOIN em vez de vírgula: "FROM a, c LEFT JOIN b ON a.x = ..." não enxerga "a" dentro do ON
+          steps.push({ type: 'CROSS', table: targetTableId });
           joinedTables.add(targetTableId);
        }
     }
   });
 
 
+  return { from: primaryTableId, joins: steps };
+};
+
+export const generateLocalSql = (schema: DatabaseSchema, state: BuilderState): QueryResult => {
+  const { selectedTables, selectedColumns, calculatedColumns, aggregations, filters, groupBy, orderBy, limit } = state;
+
+  if (selectedTables.length === 0) {
+    throw new Error("Nenhuma tabela selecionada.");
+  }
+
+  // --- 1. SELECT Clause ---
+  let selectItems: string[] = [];
+  const hasGlobalGroupBy = groupBy.length > 0;
+
+  if (selectedColumns.length > 0) {
+    selectItems = selectedColumns.map(col => {
+      const agg = aggregations[col];
+      if (agg && agg !== 'NONE') {
+        const parts = col.split('.');
+        const colName = parts[parts.length - 1];
+        const alias = `${agg.toLowerCase()}_${colName}`;
+        
+        // Se houver agregações mas não houver Group By, o SQL falharia.
+        // Convertemos para Window Function (OVER()) para permitir ver o agregado por linha.
+        if (!hasGlobalGroupBy) {
+           return `${agg}(${col}) OVER() AS ${alias}`;
+        }
+        return `${agg}(${col}) AS ${alias}`;
+      }
+      return col;
+    });
+  } else {
+    // Se o usuário quer SELECT * mas existem colunas agregadas em fórmulas, 
+    // o Postgres exigiria Group By de todos os campos. 
+    // Para manter o SELECT * funcional, trataremos as fórmulas agregadas como Window Functions.
+    selectItems.push('*');
+  }
+
+  if (calculatedColumns && calculatedColumns.length > 0) {
+    calculatedColumns.forEach(calc => {
+      let expr = calc.expression;
+      
+      // Heurística aprimorada para detectar agregadores em fórmulas: AVG, SUM, COUNT, MIN, MAX
+      // Captura o nome da função e o conteúdo entre parênteses, cuidando para não duplicar OVER()
+      const aggRegex = /\b(SUM|AVG|COUNT|MIN|MAX)\b\s*\(([^()]*|\([^()]*\))*\)/gi;
+      
+      if (aggRegex.test(expr) && !hasGlobalGroupBy && !/\bOVER\s*\(/i.test(expr)) {
+         // Injeta OVER() após cada função de agregação detectada na string
+         expr = expr.replace(/(\b(?:SUM|AVG|COUNT|MIN|MAX)\b\s*\((?:[^()]*|\([^()]*\))*\))/gi, '$1 OVER()');
+      }
+      
+      selectItems.push(`(${expr}) AS "${calc.alias}"`);
+    });
+  }
+
+  const selectClause = selectItems.join(',\n  ');
+
+  // --- 2. FROM & JOIN Clause ---
+  const plan = planLocalJoins(schema, state);
+  const fromClause = `FROM ${plan.from}`;
+  const joinClauses = plan.joins.map(step => step.type === 'CROSS'
+    ? `CROSS JOIN ${step.table}`
+    : `${step.type} JOIN ${step.table} ON ${step.on!.left} = ${step.on!.right}`);
+
   // --- 3. WHERE Clause ---
   let whereClause = "";
   if (filters.length > 0) {
@@ -174,14 +214,17 @@ export const generateLocalSql = (schema: DatabaseSchema, state: BuilderState): Q
       if (f.operator === 'IS NULL' || f.operator === 'IS NOT NULL') {
         return `${f.column} ${f.operator}`;
       }
-      
+
+      if (f.operator === 'IN') {
+        const items = parseFilterList(f.value).map(v => renderFilterValue(v));
+        return `${f.column} IN (${items.length > 0 ? items.join(', ') : 'NULL'})`;
+      }
+
       const isLike = f.operator === 'LIKE' || f.operator === 'ILIKE';
       
       // PostgreSQL requer literais de string para LIKE/ILIKE.
       // Sempre usamos aspas se for um operador de LIKE ou se não for um número válido.
-      const val = (isLike || isNaN(Number(f.value)) || f.value === '') 
-        ? `'${f.value}'` 
-        : f.value;
+      const val = renderFilterValue(f.value, isLike);
       
       // Para usar LIKE/ILIKE em colunas não-texto (ex: bigint, int), aplicamos o cast para ::text
       const columnExpr = isLike ? `${f.column}::text` : f.column;
@@ -0,0 +1,40 @@
+/**
+ * Mascaramento de dados sensíveis, identificados pelo nome da coluna.
+ * Na tela os valores só ficam ocultos; em snapshots offline são trocados por pseudônimos
+ * determinísticos (o mesmo valor original gera sempre o mesmo valor mascarado).
+ */
+export const SENSITIVE_COLUMN_REGEX = /pass|pwd|token|key|email|cpf|cnpj|fone|phone|cel|card|ccv|secret|document|auth/i;
+
+export const isSensitiveColumn = (columnName: string): boolean => SENSITIVE_COLUMN_REGEX.test(columnName);
+
+// FNV-1a 32 bits
+const hashText = (text: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) hash = Math.imul(hash ^ text.charCodeAt(i), 16777619);
+  return hash >>> 0;
+};
+
+// Troca cada dígito mantendo o formato: "(11) 98765-4321" -> "(11) 34012-7785"
+const replaceDigits = (text: string, seed: number): string => {
+  let state = seed;
+  return text.replace(/\d/g, () => {
+    state = Math.imul(state ^ (state >>> 13), 1540483477) >>> 0;
+    return String(state % 10);
+  });
+};
+
+export const maskValue = (value: any, columnName: string): any => {
+  if (value === null || value === undefined || typeof value === 'boolean') return value;
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  const hash = hashText(`${columnName}:${text}`);
+  const tag = hash.toString(16).padStart(8, '0');
+
+  if (typeof value === 'number') {
+    const digits = String(Math.trunc(Math.abs(value))).length;
+    return hash % Math.pow(10, Math.min(digits, 9));
+  }
+  if (/email/i.test(columnName) || /^[^@\s]+@[^@\s]+$/.test(text)) return `user_${tag}@example.com`;
+  // Documentos e telefones: mesmo formato, outros dígitos
+  if (/cpf|cnpj|fone|phone|cel|card|document/i.test(columnName) && /\d/.test(text)) return replaceDigits(text, hash);
+  return `masked_${tag}`;
+};
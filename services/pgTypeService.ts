@@ -0,0 +1,92 @@
+import { ResultField } from "../types";
+
+/**
+ * Classificação das colunas a partir dos metadados reais do PostgreSQL (result.fields).
+ * Sem metadados (conexões simuladas) as funções caem para o comportamento heurístico.
+ */
+export type ColumnKind = 'number' | 'boolean' | 'date' | 'timestamp' | 'time' | 'json' | 'uuid' | 'array' | 'text' | 'other';
+
+export const buildFieldMap = (fields?: ResultField[]): Record<string, ResultField> => {
+  const map: Record<string, ResultField> = {};
+  (fields || []).forEach(f => { map[f.name] = f; });
+  return map;
+};
+
+export const getColumnKind = (field?: ResultField): ColumnKind => {
+  if (!field) return 'other';
+  const typeName = (field.typeName || '').toLowerCase();
+  switch (field.typeCategory) {
+    case 'N': return 'number';
+    case 'B': return 'boolean';
+    case 'A': return 'array';
+    case 'S': return 'text';
+    case 'D':
+      if (typeName === 'date') return 'date';
+      if (typeName.startsWith('time') && !typeName.startsWith('timestamp')) return 'time';
+      return 'timestamp';
+  }
+  if (typeName === 'json' || typeName === 'jsonb') return 'json';
+  if (typeName === 'uuid') return 'uuid';
+  return 'other';
+};
+
+/** Tipos numéricos grandes (int8, numeric) chegam como string para não perder precisão. */
+export const toNumber = (val: any): number | null => {
+  if (val === null || val === undefined || val === '') return null;
+  const n = typeof val === 'number' ? val : Number(val);
+  return isNaN(n) ? null : n;
+};
+
+export const compareTypedValues = (a: any, b: any, kind: ColumnKind): number => {
+  if (kind === 'number') return (toNumber(a) ?? 0) - (toNumber(b) ?? 0);
+  if (kind === 'date' || kind === 'timestamp') return new Date(a).getTime() - new Date(b).getTime();
+  if (kind === 'boolean') return a === b ? 0 : a ? 1 : -1;
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+};
+
+/** Valor para exibição (DATE já chega do backend como texto AAAA-MM-DD). */
+export const formatTypedValue = (val: any, kind: ColumnKind): string => {
+  if (val === null || val === undefined) return '';
+  if ((kind === 'json' || kind === 'array') && typeof val === 'object') return JSON.stringify(val);
+  return String(val);
+};
+
+const quoteLiteral = (val: string) => `'${val.replace(/'/g, "''")}'`;
+
+/**
+ * Literal SQL respeitando o tipo da coluna: números e booleanos sem aspas, JSON/arrays
+ * serializados e, quando o tipo é conhecido, com cast explícito.
+ */
+export const toSqlLiteral = (val: any, field?: ResultField): string => {
+  if (val === null || val === undefined) return 'NULL';
+  const kind = getColumnKind(field);
+  if (kind === 'number') {
+    // Valor não numérico segue entre aspas para o PostgreSQL apontar o erro de conversão
+    return toNumber(val) === null ? quoteLiteral(String(val)) : String(val).trim();
+  }
+  if (kind === 'boolean') {
+    if (typeof val === 'boolean') return val ? 'TRUE' : 'FALSE';
+    return /^(true|t|1|yes|sim)$/i.test(String(val).trim()) ? 'TRUE' : 'FALSE';
+  }
+  if (kind === 'json') return `${quoteLiteral(typeof val === 'string' ? val : JSON.stringify(val))}::${field!.typeName}`;
+  if (kind === 'array' && Array.isArray(val)) {
+    return val.length === 0 ? `'{}'::${field!.typeName}` : `ARRAY[${val.map(v => toSqlLiteral(v)).join(', ')}]::${field!.typeName}`;
+  }
+  if (kind === 'date') return `${quoteLiteral(formatTypedValue(val, kind))}::date`;
+  if (typeof val === 'number') return String(val);
+  if (typeof val === 'boolean') return val ? 'TRUE' : 'FALSE';
+  if (typeof val === 'object') return quoteLiteral(JSON.stringify(val));
+  return quoteLiteral(String(val));
+};
+
+/** Widget do editor inline adequado ao tipo da coluna. */
+export const getEditorInputType = (kind: ColumnKind): 'number' | 'date' | 'datetime-local' | 'time' | 'checkbox' | 'text' => {
+  switch (kind) {
+    case 'number': return 'number';
+    case 'date': return 'date';
+    case 'timestamp': return 'datetime-local';
+    case 'time': return 'time';
+    case 'boolean': return 'checkbox';
+    default: return 'text';
+  }
+};
@@ -0,0 +1,177 @@
+import { Column, DatabaseSchema, DbCredentials, OfflineSnapshot, SnapshotOptions, SnapshotProgress, Table } from "../types";
+import type { SimulationData } from "./simulationService";
+import { executeQueryReal } from "./dbService";
+import { isSensitiveColumn, maskValue } from "./maskingService";
+import { resolveReference, ResolvedReference } from "./dataGeneratorService";
+
+/**
+ * Snapshot offline de uma conexão real: schema + amostra de linhas por tabela, salvos como
+ * conexão simulada. Na estratégia fk-closure, as linhas-pai referenciadas pela amostra são
+ * buscadas até fechar as FKs, para que joins no modo offline encontrem os pares.
+ */
+
+const CLOSURE_BATCH_SIZE = 500; // Valores por consulta ao buscar linhas-pai
+const MAX_CLOSURE_ROUNDS = 20; // Cadeias de FK mais longas que isso ficam incompletas
+
+// Lidos como texto: datas sem conversão de fuso pelo driver e JSON como a simulação guarda
+const TEXT_CAST_TYPES = /date|time|interval|json|user-defined|array/i;
+const NUMERIC_TYPES = /^(smallint|integer|bigint|numeric|decimal|real|double precision)/i;
+
+const tableIdOf = (table: Table) => `${table.schema || 'public'}.${table.name}`;
+
+const quoteIdent = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+const qualifiedName = (table: Table) => `${quoteIdent(table.schema || 'public')}.${quoteIdent(table.name)}`;
+
+const selectList = (table: Table) => table.columns
+  .map(c => TEXT_CAST_TYPES.test(c.type) ? `${quoteIdent(c.name)}::text AS ${quoteIdent(c.name)}` : quoteIdent(c.name))
+  .join(', ');
+
+// numeric/bigint chegam do driver como string; viram número quando não perdem precisão inteira
+const normalizeValue = (value: any, col: Column): any => {
+  if (typeof value !== 'string' || !NUMERIC_TYPES.test(col.type)) return value;
+  const n = Number(value);
+  if (isNaN(n) || (/^[+-]?\d+$/.test(value) && !Number.isSafeInteger(n))) return value;
+  return n;
+};
+
+const parentOf = (schema: DatabaseSchema, table: Table, col: Column): ResolvedReference | null =>
+  col.isForeignKey && col.references ? resolveReference(schema, table, col.references) : null;
+
+/** Tabelas que entram no snapshot: as escolhidas e, na fk-closure, tudo o que elas referenciam. */
+export const collectSnapshotTables = (schema: DatabaseSchema, options: Pick<SnapshotOptions, 'tables' | 'strategy'>): string[] => {
+  const known = new Set(schema.tables.map(tableIdOf));
+  const selected = new Set(options.tables.filter(id => known.has(id)));
+  if (options.strategy === 'fk-closure') {
+    const pending = Array.from(selected);
+    while (pending.length > 0) {
+      const id = pending.pop();
+      const table = schema.tables.find(t => tableIdOf(t) === id);
+      table?.columns.forEach(col => {
+        const parent = parentOf(schema, table, col);
+        if (parent && known.has(parent.tableId) && !selected.has(parent.tableId)) {
+          selected.add(parent.tableId);
+          pending.push(parent.tableId);
+        }
+      });
+    }
+  }
+  return schema.tables.map(tableIdOf).filter(id => selected.has(id));
+};
+
+const sampleSql = (table: Table, estimate: number, limit: number) => {
+  const from = qualifiedName(table);
+  // Sem estatísticas (reltuples -1) ou tabela pequena: as primeiras linhas bastam
+  if (estimate <= limit * 2) return `SELECT ${selectList(table)} FROM ${from} LIMIT ${limit}`;
+  // Folga de 3x para a amostra BERNOULLI raramente ficar abaixo do limite
+  const percent = Math.min(100, (limit * 3 / estimate) * 100);
+  return `SELECT ${selectList(table)} FROM ${from} TABLESAMPLE BERNOULLI (${percent.toFixed(6)}) LIMIT ${limit}`;
+};
+
+const rowKey = (table: Table, row: any) => {
+  const pk = table.columns.filter(c => c.isPrimaryKey);
+  return JSON.stringify(pk.length > 0 ? pk.map(c => row[c.name]) : row);
+};
+
+export const takeOfflineSnapshot = async (
+  creds: DbCredentials,
+  schema: DatabaseSchema,
+  options: SnapshotOptions,
+  onProgress?: (progress: SnapshotProgress) => void
+): Promise<OfflineSnapshot> => {
+  const tableIds = collectSnapshotTables(schema, options);
+  if (tableIds.length === 0) throw new Error("Nenhuma tabela selecionada para o snapshot.");
+  const tables = tableIds.map(id => schema.tables.find(t => tableIdOf(t) === id)!);
+  const limit = Math.max(1, Math.floor(options.rowsPerTable));
+  const warnings: string[] = [];
+
+  const estimateRows = await executeQueryReal(creds, `SELECT n.nspname || '.' || c.relname AS id, c.reltuples::bigint AS estimate FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace WHERE c.relkind IN ('r', 'p')`);
+  const estimates = new Map<string, number>(estimateRows.map(r => [r.id, Number(r.estimate)]));
+
+  const data: SimulationData = {};
+  const keys = new Map<string, Set<string>>();
+  const addRows = (table: Table, rows: any[]) => {
+    const id = tableIdOf(table);
+    const seen = keys.get(id)!;
+    let added = 0;
+    rows.forEach(raw => {
+      const row = Object.fromEntries(table.columns.map(c => [c.name, normalizeValue(raw[c.name] ?? null, c)]));
+      const key = rowKey(table, row);
+      if (seen.has(key)) return;
+      seen.add(key);
+      data[id].push(row);
+      added++;
+    });
+    return added;
+  };
+
+  for (let i = 0; i < tables.length; i++) {
+    const table = tables[i];
+    const id = tableIdOf(table);
+    data[id] = [];
+    keys.set(id, new Set());
+    onProgress?.({ phase: 'sample', table: id, done: i, total: tables.length });
+    try {
+      addRows(table, await executeQueryReal(creds, sampleSql(table, estimates.get(id) ?? -1, limit)));
+    } catch (e: any) {
+      // Sem permissão de leitura etc.: a tabela fica vazia, o resto do snapshot segue
+      warnings.push(`${id}: ${e.message}`);
+    }
+  }
+
+  if (options.strategy === 'fk-closure') {
+    for (let round = 1; round <= MAX_CLOSURE_ROUNDS; round++) {
+      let added = 0;
+      for (let i = 0; i < tables.length; i++) {
+        const table = tables[i];
+        for (const col of table.columns) {
+          const parent = parentOf(schema, table, col);
+          const parentTable = parent && tables.find(t => tableIdOf(t) === parent.tableId);
+          if (!parent || !parentTable) continue;
+          const present = new Set(data[parent.tableId].map(r => String(r[parent.column])));
+          const missing = Array.from(new Set(data[tableIdOf(table)]
+            .map(r => r[col.name])
+            .filter(v => v !== null && v !== undefined)
+            .map(v => String(v))))
+            .filter(v => !present.has(v));
+          if (missing.length === 0) continue;
+          onProgress?.({ phase: 'closure', table: parent.tableId, done: round, total: MAX_CLOSURE_ROUNDS });
+          for (let b = 0; b < missing.length; b += CLOSURE_BATCH_SIZE) {
+            try {
+              const rows = await executeQueryReal(creds,
+                `SELECT ${selectList(parentTable)} FROM ${qualifiedName(parentTable)} WHERE ${quoteIdent(parent.column)}::text = ANY($1::text[])`,
+                undefined, { params: [missing.slice(b, b + CLOSURE_BATCH_SIZE)] });
+              added += addRows(parentTable, rows);
+            } catch (e: any) {
+              warnings.push(`${parent.tableId} (pais de ${tableIdOf(table)}.${col.name}): ${e.message}`);
+            }
+          }
+        }
+      }
+      if (added === 0) break;
+      if (round === MAX_CLOSURE_ROUNDS) warnings.push(`Fechamento de FKs interrompido após ${MAX_CLOSURE_ROUNDS} rodadas; algumas referências podem ficar sem pai.`);
+    }
+  }
+
+  if (options.maskSensitive) {
+    // Chaves não são mascaradas: os valores precisam continuar batendo entre as tabelas
+    const referenced = new Set(tables.flatMap(t => t.columns.map(c => parentOf(schema, t, c)).filter(Boolean).map(p => `${p!.tableId}.${p!.column}`)));
+    tables.forEach(table => {
+      const id = tableIdOf(table);
+      table.columns.filter(c => isSensitiveColumn(c.name)).forEach(col => {
+        if (col.isPrimaryKey || col.isForeignKey || referenced.has(`${id}.${col.name}`)) {
+          warnings.push(`${id}.${col.name} parece sensível, mas é chave e foi mantida sem máscara.`);
+          return;
+        }
+        data[id] = data[id].map(row => ({ ...row, [col.name]: maskValue(row[col.name], col.name) }));
+      });
+    });
+  }
+
+  const snapshotSchema: DatabaseSchema = {
+    name: `${schema.name} (offline)`,
+    connectionSource: 'simulated',
+    tables: JSON.parse(JSON.stringify(tables))
+  };
+  return { schema: snapshotSchema, data, warnings, rowCount: Object.values(data).reduce((n, rows) => n + rows.length, 0) };
+};
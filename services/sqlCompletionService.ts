@@ -0,0 +1,461 @@
+import { Column, DatabaseSchema, SqlFormatStyle, Table, VirtualRelation } from "../types";
+import { SqlToken, tokenizeSql, isWord, isPunct } from "./sqlTokenizer";
+import { SqlStatementNode, SqlTableRef, parseSql, findSchemaTable, resolveColumnTable } from "./sqlParser";
+import { renderIdentifier } from "./sqlValidationService";
+
+/**
+ * Autocompletar e hover do editor SQL, independentes do Monaco: recebem o texto e a posição
+ * (offset) do cursor e olham o contexto — tabela após FROM/JOIN, colunas das tabelas do
+ * escopo (com aliases), condições de JOIN pelas FKs e vínculos manuais, funções e palavras-chave.
+ */
+export type SqlCompletionKind = 'table' | 'cte' | 'schema' | 'column' | 'join' | 'function' | 'keyword' | 'snippet';
+
+export interface SqlCompletion {
+  label: string;
+  kind: SqlCompletionKind;
+  insertText: string;
+  detail?: string;
+  documentation?: string; // Markdown
+  snippet?: boolean; // insertText usa placeholders ${1:...}
+  sortText?: string;
+}
+
+export interface SqlHoverInfo {
+  start: number;
+  end: number;
+  contents: string[]; // Blocos Markdown
+}
+
+/** Vínculo entre colunas de duas tabelas: FK declarada ou vínculo manual. */
+export interface SchemaRelation {
+  from: Table;
+  fromColumn: string;
+  to: Table;
+  toColumn: string;
+  virtual: boolean;
+}
+
+interface SqlFunctionInfo {
+  name: string;
+  signature: string;
+  description: string;
+}
+
+const FUNCTIONS: SqlFunctionInfo[] = [
+  { name: 'count', signature: 'count(expr | *)', description: 'Quantidade de linhas (ou de valores não nulos).' },
+  { name: 'sum', signature: 'sum(expr)', description: 'Soma dos valores.' },
+  { name: 'avg', signature: 'avg(expr)', description: 'Média dos valores.' },
+  { name: 'min', signature: 'min(expr)', description: 'Menor valor.' },
+  { name: 'max', signature: 'max(expr)', description: 'Maior valor.' },
+  { name: 'coalesce', signature: 'coalesce(valor, ...)', description: 'Primeiro argumento não nulo.' },
+  { name: 'nullif', signature: 'nullif(a, b)', description: 'NULL quando a = b; senão a.' },
+  { name: 'greatest', signature: 'greatest(valor, ...)', description: 'Maior entre os argumentos.' },
+  { name: 'least', signature: 'least(valor, ...)', description: 'Menor entre os argumentos.' },
+  { name: 'now', signature: 'now()', description: 'Data e hora do início da transação (timestamptz).' },
+  { name: 'current_date', signature: 'current_date', description: 'Data atual.' },
+  { name: 'current_timestamp', signature: 'current_timestamp', description: 'Data e hora do início da transação.' },
+  { name: 'current_user', signature: 'current_user', description: 'Usuário da sessão.' },
+  { name: 'date_trunc', signature: "date_trunc('campo', timestamp)", description: 'Trunca a data na precisão indicada (day, month, year...).' },
+  { name: 'extract', signature: 'extract(campo FROM timestamp)', description: 'Parte da data (year, month, dow, epoch...).' },
+  { name: 'age', signature: 'age(timestamp, timestamp)', description: 'Intervalo entre duas datas.' },
+  { name: 'to_char', signature: "to_char(valor, 'formato')", description: 'Formata data ou número como texto.' },
+  { name: 'to_date', signature: "to_date(texto, 'formato')", description: 'Converte texto em data.' },
+  { name: 'lower', signature: 'lower(texto)', description: 'Texto em minúsculas.' },
+  { name: 'upper', signature: 'upper(texto)', description: 'Texto em maiúsculas.' },
+  { name: 'length', signature: 'length(texto)', description: 'Quantidade de caracteres.' },
+  { name: 'trim', signature: 'trim(texto)', description: 'Remove espaços do início e do fim.' },
+  { name: 'substring', signature: 'substring(texto FROM início FOR tamanho)', description: 'Parte do texto.' },
+  { name: 'replace', signature: 'replace(texto, de, para)', description: 'Substitui todas as ocorrências.' },
+  { name: 'concat', signature: 'concat(valor, ...)', description: 'Concatena ignorando NULLs.' },
+  { name: 'split_part', signature: 'split_part(texto, separador, n)', description: 'n-ésimo pedaço do texto.' },
+  { name: 'string_agg', signature: 'string_agg(expr, separador)', description: 'Concatena os valores do grupo.' },
+  { name: 'array_agg', signature: 'array_agg(expr)', description: 'Valores do grupo em um array.' },
+  { name: 'json_agg', signature: 'json_agg(expr)', description: 'Valores do grupo em um array JSON.' },
+  { name: 'jsonb_build_object', signature: 'jsonb_build_object(chave, valor, ...)', description: 'Monta um objeto JSONB.' },
+  { name: 'round', signature: 'round(numero, casas)', description: 'Arredonda o número.' },
+  { name: 'abs', signature: 'abs(numero)', description: 'Valor absoluto.' },
+  { name: 'row_number', signature: 'row_number() OVER (...)', description: 'Número da linha na janela.' },
+  { name: 'rank', signature: 'rank() OVER (...)', description: 'Posição com saltos em empates.' },
+  { name: 'dense_rank', signature: 'dense_rank() OVER (...)', description: 'Posição sem saltos em empates.' },
+  { name: 'lag', signature: 'lag(expr, deslocamento) OVER (...)', description: 'Valor de uma linha anterior da janela.' },
+  { name: 'lead', signature: 'lead(expr, deslocamento) OVER (...)', description: 'Valor de uma linha seguinte da janela.' },
+  { name: 'generate_series', signature: 'generate_series(início, fim, passo)', description: 'Série de valores (também datas).' },
+];
+
+// Funções usadas sem parênteses
+const BARE_FUNCTIONS = ['current_date', 'current_timestamp', 'current_user'];
+
+const KEYWORDS = [
+  'select', 'distinct', 'from', 'where', 'and', 'or', 'not', 'in', 'exists', 'between', 'like', 'ilike', 'is null',
+  'is not null', 'join', 'inner join', 'left join', 'right join', 'full join', 'cross join', 'on', 'using', 'as',
+  'group by', 'having', 'order by', 'asc', 'desc', 'nulls last', 'limit', 'offset', 'union', 'union all', 'except',
+  'intersect', 'case', 'when', 'then', 'else', 'end', 'insert into', 'values', 'update', 'set', 'delete from',
+  'returning', 'with', 'over', 'partition by', 'filter', 'on conflict', 'do nothing', 'true', 'false', 'null'
+];
+
+// O que pode vir logo depois de uma tabela no FROM/JOIN (além de um alias)
+const AFTER_TABLE_KEYWORDS = [
+  'as', 'where', 'join', 'inner join', 'left join', 'right join', 'full join', 'cross join', 'on', 'using',
+  'group by', 'order by', 'limit', 'set', 'values', 'returning'
+];
+
+const SNIPPETS: { label: string; detail: string; body: string }[] = [
+  { label: 'select', detail: 'SELECT ... FROM ... WHERE', body: 'SELECT ${1:*}\nFROM ${2:tabela}\nWHERE ${3:condicao};' },
+  { label: 'insert', detail: 'INSERT INTO ... VALUES', body: 'INSERT INTO ${1:tabela} (${2:colunas})\nVALUES (${3:valores});' },
+  { label: 'update', detail: 'UPDATE ... SET ... WHERE', body: 'UPDATE ${1:tabela}\nSET ${2:coluna} = ${3:valor}\nWHERE ${4:condicao};' },
+  { label: 'delete', detail: 'DELETE FROM ... WHERE', body: 'DELETE FROM ${1:tabela}\nWHERE ${2:condicao};' },
+  { label: 'with', detail: 'WITH ... AS (...) SELECT', body: 'WITH ${1:cte} AS (\n  ${2:SELECT 1}\n)\nSELECT *\nFROM ${1:cte};' },
+  { label: 'case', detail: 'CASE WHEN ... END', body: 'CASE\n  WHEN ${1:condicao} THEN ${2:valor}\n  ELSE ${3:valor}\nEND' },
+];
+
+// Palavras que abrem a cláusula em que o cursor está
+const CLAUSE_KEYWORDS = new Set([
+  'select', 'from', 'where', 'group', 'order', 'having', 'set', 'on', 'join', 'values', 'returning', 'limit',
+  'offset', 'into', 'using', 'update', 'window'
+]);
+
+const TABLE_POSITION_WORDS = ['from', 'join', 'into', 'update', 'only', 'truncate'];
+
+const lookupTable = (schema: DatabaseSchema, name: string, schemaName?: string): Table | undefined =>
+  findSchemaTable(schema, { name, schema: schemaName, start: 0, end: 0, nameStart: 0 });
+
+const qualifiedName = (table: Table) => `${table.schema}.${table.name}`;
+
+/** Nome da tabela como deve ir no SQL: sem schema quando é public. */
+const tableText = (table: Table) =>
+  table.schema && table.schema !== 'public' ? `${renderIdentifier(table.schema)}.${renderIdentifier(table.name)}` : renderIdentifier(table.name);
+
+/** FKs declaradas (Column.references: "schema.tabela.coluna" ou "tabela.coluna") e vínculos manuais. */
+export const schemaRelations = (schema: DatabaseSchema, virtualRelations: VirtualRelation[] = []): SchemaRelation[] => {
+  const relations: SchemaRelation[] = [];
+  schema.tables.forEach(table => {
+    table.columns.forEach(col => {
+      if (!col.references) return;
+      const parts = col.references.split('.');
+      if (parts.length < 2) return;
+      const target = parts.length >= 3 ? lookupTable(schema, parts[parts.length - 2], parts[parts.length - 3]) : lookupTable(schema, parts[0]);
+      if (target) relations.push({ from: table, fromColumn: col.name, to: target, toColumn: parts[parts.length - 1], virtual: false });
+    });
+  });
+  virtualRelations.forEach(rel => {
+    const [sourceSchema, sourceName] = rel.sourceTable.includes('.') ? rel.sourceTable.split('.') : ['public', rel.sourceTable];
+    const [targetSchema, targetName] = rel.targetTable.includes('.') ? rel.targetTable.split('.') : ['public', rel.targetTable];
+    const from = lookupTable(schema, sourceName, sourceSchema);
+    const to = lookupTable(schema, targetName, targetSchema);
+    if (from && to) relations.push({ from, fromColumn: rel.sourceColumn, to, toColumn: rel.targetColumn, virtual: true });
+  });
+  return relations;
+};
+
+/** Alias curto a partir das iniciais (order_items -> oi), sem repetir os já usados. */
+const makeAlias = (table: Table, taken: string[]): string => {
+  const base = table.name.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean).map(part => part[0]).join('') || 't';
+  let alias = base;
+  for (let n = 2; taken.includes(alias) || KEYWORDS.includes(alias); n++) alias = `${base}${n}`;
+  return alias;
+};
+
+interface ScopeEntry {
+  ref: SqlTableRef;
+  table: Table;
+  label: string; // Como a tabela é referida no SQL: alias ou nome
+}
+
+interface CursorScope {
+  node: SqlStatementNode | null;
+  entries: ScopeEntry[]; // Tabelas do comando e, depois, as dos comandos externos
+  ctes: string[];
+}
+
+/** Comando mais interno sob o cursor e as tabelas visíveis nele. */
+const scopeAt = (sql: string, tokens: SqlToken[], offset: number, schema: DatabaseSchema | undefined, partial?: string): CursorScope => {
+  const nodes = parseSql(sql);
+  const chain: SqlStatementNode[] = [];
+  const descend = (list: SqlStatementNode[]) => {
+    const inside = list.find(n => n.start <= offset && offset <= n.end);
+    if (!inside) return;
+    chain.unshift(inside);
+    descend([...inside.ctes, ...inside.subqueries]);
+  };
+  descend(nodes);
+  if (chain.length === 0) {
+    // Cursor depois do fim do último comando (espaço em branco ainda sem ';')
+    const last = [...nodes].reverse().find(n => n.start <= offset);
+    const closed = last && tokens.some(t => isPunct(t, ';') && t.start >= last.end && t.start < offset);
+    if (last && !closed) { chain.push(last); descend([...last.ctes, ...last.subqueries]); }
+  }
+
+  const entries: ScopeEntry[] = [];
+  const ctes: string[] = [];
+  chain.forEach(node => {
+    node.ctes.forEach(cte => { if (cte.name) ctes.push(cte.name); });
+    if (!schema) return;
+    node.tables.forEach(ref => {
+      // A palavra sendo digitada não é tabela nem alias ainda
+      if (partial !== undefined && ref.nameStart <= offset && offset <= ref.end) return;
+      const table = findSchemaTable(schema, ref);
+      if (!table) return;
+      const alias = ref.alias && ref.alias.toLowerCase() !== partial ? ref.alias : undefined;
+      entries.push({ ref: { ...ref, alias }, table, label: alias || ref.name });
+    });
+  });
+  return { node: chain[0] || null, entries, ctes };
+};
+
+const columnDetail = (col: Column, owner: string) =>
+  `${col.type}${col.isPrimaryKey ? ' · PK' : ''}${col.isForeignKey ? ' · FK' : ''} — ${owner}`;
+
+const columnDoc = (col: Column, table: Table) => {
+  const lines = [`**${col.name}** \`${col.type}\``, `Coluna de \`${qualifiedName(table)}\``];
+  const flags = [col.isPrimaryKey ? 'Chave primária' : '', col.references ? `Referencia \`${col.references}\`` : col.isForeignKey ? 'Chave estrangeira' : '']
+    .filter(Boolean);
+  if (flags.length > 0) lines.push(flags.join(' · '));
+  if (col.description) lines.push(col.description);
+  return lines.join('\n\n');
+};
+
+const tableDoc = (table: Table, alias?: string) => {
+  const lines = [`**${qualifiedName(table)}**${alias ? ` (alias \`${alias}\`)` : ''}`];
+  if (table.description) lines.push(table.description);
+  const shown = table.columns.slice(0, 12).map(col =>
+    `- \`${col.name}\` ${col.type}${col.isPrimaryKey ? ' · PK' : ''}${col.references ? ` → ${col.references}` : ''}`);
+  if (table.columns.length > 12) shown.push(`- … e mais ${table.columns.length - 12} colunas`);
+  if (shown.length > 0) lines.push(shown.join('\n'));
+  return lines.join('\n\n');
+};
+
+/**
+ * Cria o completador para um schema. Palavras-chave seguem o keywordCase da formatação
+ * ("preserve" usa maiúsculas, que é como o editor costuma mostrá-las).
+ */
+export const createSqlCompletion = (
+  schema?: DatabaseSchema,
+  virtualRelations: VirtualRelation[] = [],
+  keywordCase: SqlFormatStyle['keywordCase'] = 'upper'
+) => {
+  const relations = schema ? schemaRelations(schema, virtualRelations) : [];
+  const kw = (word: string) => keywordCase === 'lower' ? word : word.toUpperCase();
+
+  const keywordItems = (words: string[], sortText = '9'): SqlCompletion[] =>
+    words.map(word => ({ label: kw(word), kind: 'keyword' as const, insertText: kw(word), sortText }));
+
+  const functionItems = (): SqlCompletion[] => FUNCTIONS.map(fn => ({
+    label: fn.name,
+    kind: 'function' as const,
+    insertText: BARE_FUNCTIONS.includes(fn.name) ? fn.name : `${fn.name}($0)`,
+    snippet: !BARE_FUNCTIONS.includes(fn.name),
+    detail: fn.signature,
+    documentation: fn.description,
+    sortText: '5'
+  }));
+
+  const tableItems = (schemaName?: string): SqlCompletion[] => {
+    if (!schema) return [];
+    const tables = schemaName ? schema.tables.filter(t => t.schema.toLowerCase() === schemaName.toLowerCase()) : schema.tables;
+    return tables.map(table => ({
+      label: schemaName || table.schema === 'public' ? table.name : qualifiedName(table),
+      kind: 'table' as const,
+      insertText: schemaName ? renderIdentifier(table.name) : tableText(table),
+      detail: `${qualifiedName(table)} · ${table.columns.length} colunas`,
+      documentation: tableDoc(table),
+      sortText: '1'
+    }));
+  };
+
+  const columnItems = (entries: ScopeEntry[], qualify: boolean): SqlCompletion[] => {
+    const counts = new Map<string, number>();
+    entries.forEach(e => e.table.columns.forEach(c => counts.set(c.name.toLowerCase(), (counts.get(c.name.toLowerCase()) || 0) + 1)));
+    return entries.flatMap((entry, position) => entry.table.columns.map(col => {
+      // Coluna presente em mais de uma tabela do escopo vai qualificada pelo alias
+      const ambiguous = qualify && (counts.get(col.name.toLowerCase()) || 0) > 1;
+      const text = ambiguous ? `${renderIdentifier(entry.label)}.${renderIdentifier(col.name)}` : renderIdentifier(col.name);
+      return {
+        label: ambiguous ? `${entry.label}.${col.name}` : col.name,
+        kind: 'column' as const,
+        insertText: text,
+        detail: columnDetail(col, entry.label),
+        documentation: columnDoc(col, entry.table),
+        sortText: `0${String(position).padStart(2, '0')}`
+      };
+    }));
+  };
+
+  /** JOIN <tabela> <alias> ON ... para cada vínculo com uma tabela já no escopo. */
+  const joinItems = (entries: ScopeEntry[]): SqlCompletion[] => {
+    const taken = entries.map(e => e.label.toLowerCase());
+    const items: SqlCompletion[] = [];
+    entries.forEach(entry => {
+      relations.forEach(rel => {
+        const pairs: [Table, string, string][] = [];
+        if (rel.from === entry.table) pairs.push([rel.to, rel.toColumn, rel.fromColumn]);
+        if (rel.to === entry.table) pairs.push([rel.from, rel.fromColumn, rel.toColumn]);
+        pairs.forEach(([other, otherColumn, entryColumn]) => {
+          const alias = makeAlias(other, taken);
+          const text = `${tableText(other)} ${alias} ON ${alias}.${renderIdentifier(otherColumn)} = ${renderIdentifier(entry.label)}.${renderIdentifier(entryColumn)}`;
+          const inScope = entries.some(e => e.table === other);
+          items.push({
+            label: text,
+            kind: 'join',
+            insertText: text,
+            detail: rel.virtual ? 'Vínculo manual' : 'Chave estrangeira',
+            documentation: tableDoc(other),
+            sortText: inScope ? '2' : '0'
+          });
+        });
+      });
+    });
+    return dedupe(items);
+  };
+
+  /** Condições para o ON da tabela recém-unida com as anteriores. */
+  const onItems = (entries: ScopeEntry[], offset: number): SqlCompletion[] => {
+    const before = entries.filter(e => e.ref.start < offset);
+    const joined = before.reduce<ScopeEntry | undefined>((last, e) => !last || e.ref.start > last.ref.start ? e : last, undefined);
+    if (!joined) return [];
+    const items: SqlCompletion[] = [];
+    before.filter(e => e !== joined).forEach(other => {
+      relations.forEach(rel => {
+        let pair: [string, string] | null = null;
+        if (rel.from === joined.table && rel.to === other.table) pair = [rel.fromColumn, rel.toColumn];
+        else if (rel.to === joined.table && rel.from === other.table) pair = [rel.toColumn, rel.fromColumn];
+        if (!pair) return;
+        const text = `${renderIdentifier(joined.label)}.${renderIdentifier(pair[0])} = ${renderIdentifier(other.label)}.${renderIdentifier(pair[1])}`;
+        items.push({ label: text, kind: 'join', insertText: text, detail: rel.virtual ? 'Vínculo manual' : 'Chave estrangeira', sortText: '0' });
+      });
+    });
+    return dedupe(items);
+  };
+
+  const complete = (sql: string, offset: number): SqlCompletion[] => {
+    const tokens = tokenizeSql(sql);
+    const current = tokens.find(t => t.start < offset && (offset < t.end || (offset === t.end && t.unterminated)));
+    if (current && ['string', 'dollar', 'comment', 'meta', 'quoted'].includes(current.kind)) return [];
+
+    const before = tokens.filter(t => t.end <= offset && t.kind !== 'comment' && t.kind !== 'meta');
+    let partial = '';
+    if (before.length > 0 && before[before.length - 1].kind === 'word' && before[before.length - 1].end === offset) {
+      partial = before.pop()!.value;
+    }
+    const lastSemicolon = before.map(t => isPunct(t, ';')).lastIndexOf(true);
+    const statement = before.slice(lastSemicolon + 1);
+    const prev = statement[statement.length - 1];
+    const scope = scopeAt(sql, tokens, offset, schema, partial);
+
+    if (statement.length === 0) {
+      return [
+        ...SNIPPETS.map(s => ({
+          label: kw(s.label), kind: 'snippet' as const, insertText: keywordCase === 'lower' ? s.body.replace(/\b[A-Z]{2,}\b/g, w => w.toLowerCase()) : s.body,
+          snippet: true, detail: s.detail, sortText: '0'
+        })),
+        ...keywordItems(['select', 'insert into', 'update', 'delete from', 'with', 'explain', 'create table', 'alter table'])
+      ];
+    }
+
+    // alias.coluna, tabela.coluna ou schema.tabela
+    if (isPunct(prev, '.')) {
+      const qualifierToken = statement[statement.length - 2];
+      if (!qualifierToken || (qualifierToken.kind !== 'word' && qualifierToken.kind !== 'quoted')) return [];
+      const qualifier = qualifierToken.value.toLowerCase();
+      const inTablePosition = isWord(statement[statement.length - 3], ...TABLE_POSITION_WORDS) || isPunct(statement[statement.length - 3], ',');
+      const entry = scope.entries.find(e => e.label.toLowerCase() === qualifier);
+      if (entry && !inTablePosition) return columnItems([entry], false);
+      if (schema?.tables.some(t => t.schema.toLowerCase() === qualifier)) return tableItems(qualifier);
+      const table = schema && !inTablePosition ? lookupTable(schema, qualifierToken.value) : undefined;
+      if (table) return columnItems([{ ref: { name: table.name, start: 0, end: 0, nameStart: 0 }, table, label: table.name }], false);
+      return [];
+    }
+
+    const clause = currentClause(statement);
+    const tablePosition = isWord(prev, ...TABLE_POSITION_WORDS) || (isWord(prev, 'table') && isWord(statement[statement.length - 2], 'truncate', 'lock', 'alter'))
+      || (isPunct(prev, ',') && (clause === 'from' || clause === 'using'));
+    if (tablePosition) {
+      const ctes = scope.ctes.map(name => ({ label: name, kind: 'cte' as const, insertText: renderIdentifier(name), detail: 'CTE', sortText: '0' }));
+      const schemas = schema ? [...new Set(schema.tables.map(t => t.schema))].filter(s => s !== 'public') : [];
+      const joins = isWord(prev, 'join') ? joinItems(scope.entries.filter(e => e.ref.start < offset)) : [];
+      return [
+        ...joins,
+        ...ctes,
+        ...tableItems(),
+        ...schemas.map(s => ({ label: s, kind: 'schema' as const, insertText: renderIdentifier(s), detail: 'Schema', sortText: '3' }))
+      ];
+    }
+
+    // Logo depois de uma tabela no FROM/JOIN: alias ou próxima cláusula
+    const isTableStart = (token?: SqlToken) => isWord(token, ...TABLE_POSITION_WORDS) || (isPunct(token, ',') && clause === 'from');
+    const back = (n: number) => statement[statement.length - n];
+    const plainIdentifier = (token?: SqlToken) => isIdentifier(token) && !(token!.kind === 'word' && (CLAUSE_KEYWORDS.has(token!.value) || token!.value === 'as'));
+    const afterTable = plainIdentifier(prev) && (isTableStart(back(2))
+      || (plainIdentifier(back(2)) && isTableStart(back(3)))
+      || (isWord(back(2), 'as') && plainIdentifier(back(3)) && isTableStart(back(4))));
+    if (afterTable) return keywordItems(AFTER_TABLE_KEYWORDS, '0');
+
+    const onClause = isWord(prev, 'on') || ((isWord(prev, 'and')) && clause === 'on');
+    const conditions = onClause ? onItems(scope.entries, offset) : [];
+    return [
+      ...conditions,
+      ...columnItems(scope.entries, true),
+      ...functionItems(),
+      ...keywordItems(KEYWORDS)
+    ];
+  };
+
+  const hover = (sql: string, offset: number): SqlHoverInfo | null => {
+    const tokens = tokenizeSql(sql).filter(t => t.kind !== 'comment' && t.kind !== 'meta');
+    const index = tokens.findIndex(t => t.start <= offset && offset < t.end);
+    const token = tokens[index];
+    if (!token || (token.kind !== 'word' && token.kind !== 'quoted')) return null;
+    const at = (contents: string[]) => ({ start: token.start, end: token.end, contents });
+    const name = token.value.toLowerCase();
+
+    const fn = FUNCTIONS.find(f => f.name === name);
+    if (fn && token.kind === 'word' && (isPunct(tokens[index + 1], '(') || BARE_FUNCTIONS.includes(fn.name))) {
+      return at([`**${fn.signature}**`, fn.description]);
+    }
+    if (!schema) return null;
+    const scope = scopeAt(sql, tokens, offset, schema);
+
+    // Nome de tabela do FROM/JOIN/alvo, ou alias dela
+    const ref = scope.entries.find(e => e.ref.nameStart === token.start);
+    if (ref) return at([tableDoc(ref.table, ref.ref.alias)]);
+    const qualifierOf = isPunct(tokens[index - 1], '.') ? tokens[index - 2] : undefined;
+    if (isPunct(tokens[index + 1], '.') && !qualifierOf) {
+      const entry = scope.entries.find(e => e.label.toLowerCase() === name);
+      if (entry) return at([tableDoc(entry.table, entry.ref.alias)]);
+    }
+    if (!qualifierOf) {
+      const aliased = scope.entries.find(e => e.ref.alias?.toLowerCase() === name);
+      if (aliased && (isIdentifier(tokens[index - 1]) || isWord(tokens[index - 1], 'as'))) return at([tableDoc(aliased.table, aliased.ref.alias)]);
+    }
+
+    // Coluna: qualificada pelo alias/tabela ou única no escopo
+    if (!scope.node) return null;
+    const resolved = resolveColumnTable(schema, { ...scope.node, tables: scope.entries.map(e => e.ref) }, {
+      name: token.value,
+      qualifier: qualifierOf && isIdentifier(qualifierOf) ? qualifierOf.value : undefined
+    });
+    const col = resolved?.table.columns.find(c => c.name.toLowerCase() === name);
+    return resolved && col ? at([columnDoc(col, resolved.table)]) : null;
+  };
+
+  return { complete, hover };
+};
+
+const isIdentifier = (token: SqlToken | undefined) => !!token && (token.kind === 'word' || token.kind === 'quoted');
+
+const dedupe = (items: SqlCompletion[]) => items.filter((item, k) => items.findIndex(other => other.insertText === item.insertText) === k);
+
+/** Palavra de cláusula mais próxima no mesmo nível de parênteses. */
+const currentClause = (statement: SqlToken[]): string => {
+  let depth = 0;
+  for (let k = statement.length - 1; k >= 0; k--) {
+    const token = statement[k];
+    if (isPunct(token, ')')) depth++;
+    else if (isPunct(token, '(')) {
+      if (depth === 0) return '';
+      depth--;
+    } else if (depth === 0 && token.kind === 'word' && CLAUSE_KEYWORDS.has(token.value)) {
+      return token.value;
+    }
+  }
+  return '';
+};
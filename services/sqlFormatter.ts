@@ -0,0 +1,442 @@
+import { SqlFormatStyle } from "../types";
+import { SqlToken, tokenizeSql, isWord, isPunct } from "./sqlTokenizer";
+
+/**
+ * Formatador de SQL (PostgreSQL) sobre o sqlTokenizer: o texto é remontado token a token,
+ * então strings, dollar-quotes, identificadores com aspas e comentários saem intactos.
+ * Consultas (SELECT/WITH/INSERT/UPDATE/DELETE/VALUES) ganham uma linha por cláusula;
+ * demais comandos (DDL, funções) mantêm o layout original e só têm as palavras-chave ajustadas.
+ */
+type FormatNode =
+  | { type: 'token'; token: SqlToken }
+  | { type: 'group'; open: SqlToken; close: SqlToken | null; children: FormatNode[] } // ( ) ou [ ]
+  | { type: 'case'; children: FormatNode[] }; // CASE ... END
+
+interface Clause {
+  key: string; // Palavras da cláusula em minúsculas ('group by', 'left join')
+  keyword: FormatNode[];
+  body: FormatNode[];
+  leading: SqlToken[]; // Comentários em linha própria antes da cláusula
+}
+
+// Atom de saída: token ou bloco de subconsulta já formatado (começa com quebra de linha)
+type Atom = { token: SqlToken } | { block: string };
+
+const KEYWORDS = new Set([
+  'select', 'from', 'where', 'and', 'or', 'not', 'in', 'is', 'null', 'as', 'on', 'join', 'left', 'right', 'inner',
+  'outer', 'full', 'cross', 'natural', 'group', 'by', 'order', 'having', 'limit', 'offset', 'union', 'all', 'distinct',
+  'case', 'when', 'then', 'else', 'end', 'insert', 'into', 'values', 'update', 'set', 'delete', 'returning', 'with',
+  'recursive', 'exists', 'between', 'like', 'ilike', 'similar', 'escape', 'asc', 'desc', 'nulls', 'first', 'last',
+  'true', 'false', 'using', 'lateral', 'create', 'table', 'alter', 'drop', 'truncate', 'primary', 'key', 'references',
+  'foreign', 'default', 'constraint', 'unique', 'check', 'intersect', 'except', 'fetch', 'next', 'rows', 'row', 'only',
+  'window', 'over', 'partition', 'filter', 'within', 'conflict', 'do', 'nothing', 'cast', 'interval', 'array', 'any',
+  'some', 'if', 'explain', 'analyze', 'verbose', 'for', 'share', 'nowait', 'skip', 'locked', 'materialized', 'view',
+  'index', 'merge', 'matched', 'begin', 'commit', 'rollback', 'grant', 'revoke', 'ties', 'ordinality', 'collate',
+  'tablesample', 'add', 'column', 'rename', 'to', 'cascade', 'restrict', 'sequence', 'schema', 'function', 'returns',
+  'language', 'trigger', 'replace', 'temporary', 'temp', 'unlogged', 'current_date', 'current_timestamp', 'current_user'
+]);
+
+// Palavras-chave escritas como função: CAST(x AS int), ANY($1), ROW(1, 2), left(nome, 3)
+const CALL_KEYWORDS = new Set(['cast', 'any', 'some', 'row', 'array', 'left', 'right', 'replace', 'filter']);
+
+const QUERY_STARTS = ['select', 'with', 'values', 'insert', 'update', 'delete', 'explain', 'merge'];
+const LIST_CLAUSES = new Set(['select', 'from', 'group by', 'order by', 'set', 'returning', 'values', 'window']);
+const CONDITION_CLAUSES = new Set(['where', 'having']);
+
+const isLineComment = (token: SqlToken) => (token.kind === 'comment' && token.text.startsWith('--')) || token.kind === 'meta';
+const isCommentNode = (node: FormatNode | undefined) => !!node && node.type === 'token' && (node.token.kind === 'comment' || node.token.kind === 'meta');
+const endsWithLineComment = (nodes: FormatNode[]): boolean => {
+  const last = nodes[nodes.length - 1];
+  if (!last) return false;
+  if (last.type === 'token') return isLineComment(last.token);
+  if (last.type === 'group' && last.close) return false;
+  return endsWithLineComment(last.children);
+};
+const nodeWord = (node: FormatNode | undefined) => node && node.type === 'token' && node.token.kind === 'word' ? node.token.value : null;
+
+/** Agrupa parênteses/colchetes e CASE...END para que o nível 0 seja visível na lista de nós. */
+const buildNodes = (tokens: SqlToken[], i: number, until: string | null): { nodes: FormatNode[]; next: number; close: SqlToken | null } => {
+  const nodes: FormatNode[] = [];
+  while (i < tokens.length) {
+    const token = tokens[i];
+    if (until && (until === 'end' ? isWord(token, 'end') : isPunct(token, until))) {
+      return { nodes, next: i + 1, close: token };
+    }
+    if (isPunct(token, '(') || isPunct(token, '[')) {
+      const inner = buildNodes(tokens, i + 1, token.text === '(' ? ')' : ']');
+      nodes.push({ type: 'group', open: token, close: inner.close, children: inner.nodes });
+      i = inner.next;
+      continue;
+    }
+    if (isWord(token, 'case')) {
+      const inner = buildNodes(tokens, i + 1, 'end');
+      const children: FormatNode[] = [{ type: 'token', token }, ...inner.nodes];
+      if (inner.close) children.push({ type: 'token', token: inner.close });
+      nodes.push({ type: 'case', children });
+      i = inner.next;
+      continue;
+    }
+    nodes.push({ type: 'token', token });
+    i++;
+  }
+  return { nodes, next: i, close: null };
+};
+
+const isSubquery = (node: FormatNode): boolean => {
+  if (node.type !== 'group' || node.open.text !== '(') return false;
+  const first = node.children.find(child => !isCommentNode(child));
+  return !!nodeWord(first) && QUERY_STARTS.includes(nodeWord(first)!) || (first?.type === 'group' && isSubquery(first));
+};
+
+export const createSqlFormatter = (style: SqlFormatStyle) => {
+  const pad = (indent: number) => ' '.repeat(indent * style.indentSize);
+
+  const caseWord = (token: SqlToken, prev?: SqlToken, next?: SqlToken): string => {
+    if (token.kind !== 'word' || style.keywordCase === 'preserve' || !KEYWORDS.has(token.value)) return token.text;
+    // Depois/antes de '.' é nome de coluna ou tabela (t.order, end.x)
+    if (isPunct(prev, '.') || isPunct(next, '.')) return token.text;
+    return style.keywordCase === 'upper' ? token.text.toUpperCase() : token.text.toLowerCase();
+  };
+
+  const needsSpace = (prev: SqlToken, token: SqlToken, beforePrev?: SqlToken): boolean => {
+    // Nunca junta caracteres que formariam comentário ou outro operador
+    if ((prev.text.endsWith('-') && token.text.startsWith('-')) || (prev.text.endsWith('/') && token.text.startsWith('*'))) return true;
+    if (token.kind === 'punct' && [',', ')', ']', '.', ';'].includes(token.text)) return false;
+    if (prev.kind === 'punct' && ['(', '[', '.'].includes(prev.text)) return false;
+    if (token.text === '::' || prev.text === '::') return false;
+    if (isPunct(token, ':') || isPunct(prev, ':')) return false;
+    if (isPunct(token, '[')) return !(prev.kind === 'word' || prev.kind === 'quoted' || isPunct(prev, ')') || isPunct(prev, ']'));
+    if (isPunct(token, '(')) {
+      if (prev.kind === 'quoted') return false;
+      if (prev.kind === 'word') return KEYWORDS.has(prev.value) && !CALL_KEYWORDS.has(prev.value);
+      return true;
+    }
+    // Sinal unário: -1, +x depois de operador, vírgula, '(' ou palavra-chave
+    if (prev.kind === 'operator' && (prev.text === '-' || prev.text === '+')) {
+      if (!beforePrev || beforePrev.kind === 'operator' || isPunct(beforePrev, '(') || isPunct(beforePrev, ',')
+        || (beforePrev.kind === 'word' && KEYWORDS.has(beforePrev.value))) return false;
+    }
+    return true;
+  };
+
+  const collectAtoms = (nodes: FormatNode[], indent: number, atoms: Atom[]) => {
+    nodes.forEach(node => {
+      if (node.type === 'token') atoms.push({ token: node.token });
+      else if (node.type === 'case') collectAtoms(node.children, indent, atoms);
+      else {
+        atoms.push({ token: node.open });
+        if (isSubquery(node)) {
+          atoms.push({ block: `\n${formatQuery(node.children, indent + 1).join('\n')}\n${pad(indent)}` });
+        } else {
+          collectAtoms(node.children, indent, atoms);
+        }
+        if (node.close) atoms.push({ token: node.close });
+      }
+    });
+  };
+
+  /** Nós em uma linha (subconsultas viram blocos indentados; comentário de linha força quebra). */
+  const renderInline = (nodes: FormatNode[], indent: number): string => {
+    const atoms: Atom[] = [];
+    collectAtoms(nodes, indent, atoms);
+    let out = '';
+    let prev: SqlToken | undefined;
+    let beforePrev: SqlToken | undefined;
+    let breakNext = false;
+    atoms.forEach((atom, k) => {
+      if ('block' in atom) {
+        out += atom.block;
+        breakNext = false;
+        return;
+      }
+      const token = atom.token;
+      const nextAtom = atoms[k + 1];
+      const next = nextAtom && 'token' in nextAtom ? nextAtom.token : undefined;
+      const isComment = token.kind === 'comment' || token.kind === 'meta';
+      if (breakNext || (isComment && prev && token.line > prev.line) || token.kind === 'meta') {
+        if (out) out += `\n${pad(indent + 1)}`;
+      } else if (prev && (isComment || prev.kind === 'comment' || needsSpace(prev, token, beforePrev))) {
+        out += ' ';
+      }
+      out += isComment ? token.text : caseWord(token, prev, next);
+      breakNext = isLineComment(token);
+      beforePrev = prev;
+      prev = token;
+    });
+    return out;
+  };
+
+  const matchClause = (nodes: FormatNode[], i: number, clauses: Clause[]): number => {
+    const w = (k: number) => nodeWord(nodes[i + k]);
+    const word = w(0);
+    if (!word) return 0;
+    const last = clauses.length > 0 ? clauses[clauses.length - 1].key : '';
+    const atStart = clauses.every(c => c.key === '');
+    const prevWord = nodeWord(nodes[i - 1]);
+
+    if (word === 'with') return atStart ? (w(1) === 'recursive' ? 2 : 1) : 0;
+    if (word === 'explain') return atStart ? 1 : 0;
+    if (['insert', 'delete', 'merge', 'update'].includes(word)) {
+      if (!(atStart || last === 'with' || last === 'with recursive' || last === 'explain')) return 0;
+      return word === 'update' ? 1 : (w(1) === 'into' || w(1) === 'from' ? 2 : 1);
+    }
+    if (word === 'select' || word === 'where' || word === 'having' || word === 'window' || word === 'limit'
+      || word === 'offset' || word === 'fetch' || word === 'returning') return 1;
+    if (word === 'from') return prevWord === 'distinct' ? 0 : 1;
+    if (word === 'values') return prevWord === 'default' ? 0 : 1;
+    if ((word === 'group' || word === 'order') && w(1) === 'by') return 2;
+    if (word === 'union' || word === 'intersect' || word === 'except') return w(1) === 'all' || w(1) === 'distinct' ? 2 : 1;
+    if (word === 'for' && ['update', 'share', 'no', 'key'].includes(w(1) || '')) return 1;
+    if (word === 'on' && w(1) === 'conflict') return 2;
+    if (word === 'set') return last === 'update' || last === 'on conflict' ? 1 : 0;
+    if (word === 'using') return last === 'delete from' || last === 'merge into' ? 1 : 0;
+    if (word === 'join') return 1;
+    if (['inner', 'cross', 'left', 'right', 'full', 'natural'].includes(word)) {
+      let k = 1;
+      while (k < 4 && ['outer', 'left', 'right', 'full', 'inner'].includes(w(k) || '')) k++;
+      return w(k) === 'join' ? k + 1 : 0;
+    }
+    return 0;
+  };
+
+  const splitClauses = (nodes: FormatNode[]): Clause[] => {
+    const clauses: Clause[] = [];
+    let current: Clause = { key: '', keyword: [], body: [], leading: [] };
+    let i = 0;
+    while (i < nodes.length) {
+      const length = matchClause(nodes, i, clauses.concat(current.key || current.body.length ? [current] : []));
+      if (length > 0) {
+        // Comentários em linha própria no fim da cláusula anterior vão para antes da próxima
+        const leading: SqlToken[] = [];
+        while (current.body.length > 0 && isCommentNode(current.body[current.body.length - 1])) {
+          const comment = (current.body[current.body.length - 1] as { token: SqlToken }).token;
+          const before = current.body[current.body.length - 2];
+          if (before && before.type === 'token' && before.token.line === comment.line) break;
+          leading.unshift(comment);
+          current.body.pop();
+        }
+        if (current.key || current.body.length || current.leading.length) clauses.push(current);
+        current = { key: nodes.slice(i, i + length).map(nodeWord).join(' '), keyword: nodes.slice(i, i + length), body: [], leading };
+        // SELECT DISTINCT [ON (...)] / SELECT ALL ficam na linha da palavra-chave
+        if (current.key === 'select' && (nodeWord(nodes[i + 1]) === 'distinct' || nodeWord(nodes[i + 1]) === 'all')) {
+          const extra = nodeWord(nodes[i + 2]) === 'on' && nodes[i + 3]?.type === 'group' ? 3 : 1;
+          current.keyword = nodes.slice(i, i + 1 + extra);
+          i += 1 + extra;
+          continue;
+        }
+        i += length;
+        continue;
+      }
+      current.body.push(nodes[i]);
+      i++;
+    }
+    if (current.key || current.body.length || current.leading.length) clauses.push(current);
+    return clauses;
+  };
+
+  /** Divide por um separador no nível 0; comentários na mesma linha do separador ficam no item anterior. */
+  const splitItems = (nodes: FormatNode[], isSeparator: (node: FormatNode, index: number) => boolean) => {
+    const items: { nodes: FormatNode[]; separator?: FormatNode }[] = [{ nodes: [] }];
+    nodes.forEach((node, index) => {
+      const current = items[items.length - 1];
+      if (isSeparator(node, index)) {
+        items.push({ nodes: [], separator: node });
+        return;
+      }
+      const previous = items[items.length - 2];
+      if (current.nodes.length === 0 && previous && isCommentNode(node) && current.separator?.type === 'token'
+        && (node as { token: SqlToken }).token.line === current.separator.token.line) {
+        previous.nodes.push(node);
+        return;
+      }
+      current.nodes.push(node);
+    });
+    return items.filter(item => item.nodes.length > 0 || item.separator);
+  };
+
+  /** Separa comentários de linha do fim do item para a vírgula não ficar comentada. */
+  const splitTrailingComments = (nodes: FormatNode[]) => {
+    let end = nodes.length;
+    while (end > 0 && isCommentNode(nodes[end - 1])) end--;
+    return { code: nodes.slice(0, end), comments: nodes.slice(end) };
+  };
+
+  const hasComments = (nodes: FormatNode[]): boolean =>
+    nodes.some(node => isCommentNode(node) || (node.type !== 'token' && hasComments(node.children)));
+
+  const fits = (indent: number, text: string) => !text.includes('\n') && pad(indent).length + text.length <= style.lineWidth;
+
+  const renderList = (keyword: string, body: FormatNode[], indent: number): string[] => {
+    const items = splitItems(body, node => node.type === 'token' && isPunct(node.token, ','));
+    const single = `${keyword} ${items.map(item => renderInline(item.nodes, indent)).join(', ')}`;
+    if (!hasComments(body) && (fits(indent, single) || items.length === 1)) {
+      return [pad(indent) + single];
+    }
+    if (items.length === 1) {
+      const { code, comments } = splitTrailingComments(items[0].nodes);
+      if (!hasComments(code)) return [`${pad(indent)}${keyword} ${renderInline(code, indent)} ${renderInline(comments, indent)}`];
+    }
+    const lines = [pad(indent) + keyword];
+    items.forEach((item, k) => {
+      const { code, comments } = splitTrailingComments(item.nodes);
+      const text = renderInline(code, indent + 1);
+      const comment = comments.length > 0 ? ` ${renderInline(comments, indent + 1)}` : '';
+      const isLast = k === items.length - 1;
+      if (style.commaStyle === 'leading') lines.push(`${pad(indent + 1)}${k > 0 ? ', ' : ''}${text}${comment}`);
+      else lines.push(`${pad(indent + 1)}${text}${isLast ? '' : ','}${comment}`);
+    });
+    return lines;
+  };
+
+  /** AND/OR no nível 0 (o AND de BETWEEN x AND y não conta). */
+  const conditionParts = (nodes: FormatNode[]) => {
+    let inBetween = false;
+    return splitItems(nodes, node => {
+      const word = nodeWord(node);
+      if (word === 'between') inBetween = true;
+      if (word !== 'and' && word !== 'or') return false;
+      if (word === 'and' && inBetween) { inBetween = false; return false; }
+      return true;
+    });
+  };
+
+  const renderCondition = (prefix: string, body: FormatNode[], indent: number): string[] => {
+    const parts = conditionParts(body);
+    const render = (part: { nodes: FormatNode[]; separator?: FormatNode }, partIndent: number) =>
+      `${part.separator ? renderInline([part.separator], partIndent) + ' ' : ''}${renderInline(part.nodes, partIndent)}`;
+    const single = `${prefix} ${parts.map(part => render(part, indent)).join(' ')}`;
+    if (parts.length === 1 || (!hasComments(body) && fits(indent, single))) return [pad(indent) + single];
+    return [
+      `${pad(indent)}${prefix} ${render(parts[0], indent)}`,
+      ...parts.slice(1).map(part => pad(indent + 1) + render(part, indent + 1))
+    ];
+  };
+
+  const renderJoin = (keyword: string, body: FormatNode[], indent: number): string[] => {
+    const onIndex = body.findIndex(node => nodeWord(node) === 'on');
+    if (onIndex === -1) return [`${pad(indent)}${keyword} ${renderInline(body, indent)}`];
+    const targetNodes = body.slice(0, onIndex);
+    const target = renderInline(targetNodes, indent);
+    const onWord = renderInline([body[onIndex]], indent);
+    const condition = body.slice(onIndex + 1);
+    const single = `${keyword} ${target} ${onWord} ${renderInline(condition, indent)}`;
+    if (!hasComments(condition) && !endsWithLineComment(targetNodes) && fits(indent, single)) return [pad(indent) + single];
+    return [`${pad(indent)}${keyword} ${target}`, ...renderCondition(onWord, condition, indent + 1)];
+  };
+
+  const renderWith = (keyword: string, body: FormatNode[], indent: number): string[] => {
+    const items = splitItems(body, node => node.type === 'token' && isPunct(node.token, ','));
+    return items.map((item, k) => {
+      const { code, comments } = splitTrailingComments(item.nodes);
+      const text = renderInline(code, indent);
+      const comment = comments.length > 0 ? ` ${renderInline(comments, indent)}` : '';
+      const comma = !(k === items.length - 1) && style.commaStyle === 'trailing' ? ',' : '';
+      if (k === 0) return `${pad(indent)}${keyword} ${text}${comma}${comment}`;
+      if (style.commaStyle === 'leading') return `${pad(indent)}, ${text}${comment}`;
+      return `${pad(indent)}${text}${comma}${comment}`;
+    });
+  };
+
+  const formatQuery = (nodes: FormatNode[], indent: number): string[] => {
+    const lines: string[] = [];
+    splitClauses(nodes).forEach(clause => {
+      clause.leading.forEach(comment => lines.push(pad(indent) + comment.text));
+      const keyword = renderInline(clause.keyword, indent);
+      if (!clause.key) {
+        if (clause.body.length > 0) lines.push(pad(indent) + renderInline(clause.body, indent));
+        return;
+      }
+      if (clause.body.length === 0) {
+        lines.push(pad(indent) + keyword);
+      } else if (clause.key === 'with' || clause.key === 'with recursive') {
+        lines.push(...renderWith(keyword, clause.body, indent));
+      } else if (LIST_CLAUSES.has(clause.key)) {
+        lines.push(...renderList(keyword, clause.body, indent));
+      } else if (CONDITION_CLAUSES.has(clause.key)) {
+        lines.push(...renderCondition(keyword, clause.body, indent));
+      } else if (clause.key.endsWith('join')) {
+        lines.push(...renderJoin(keyword, clause.body, indent));
+      } else if (clause.key === 'insert into') {
+        // INSERT INTO tabela (colunas): espaço antes da lista, que não é chamada de função
+        const listIndex = clause.body.findIndex(node => node.type === 'group');
+        const target = listIndex === -1 ? clause.body : clause.body.slice(0, listIndex);
+        const separator = endsWithLineComment(target) ? `\n${pad(indent + 1)}` : ' ';
+        const rest = listIndex === -1 ? '' : `${separator}${renderInline(clause.body.slice(listIndex), indent)}`;
+        lines.push(`${pad(indent)}${keyword} ${renderInline(target, indent)}${rest}`);
+      } else {
+        lines.push(`${pad(indent)}${keyword} ${renderInline(clause.body, indent)}`);
+      }
+    });
+    return lines;
+  };
+
+  /** Comando fora do formato de consulta: texto original, só com a caixa das palavras-chave ajustada. */
+  const recaseVerbatim = (sql: string, tokens: SqlToken[]): string => {
+    if (tokens.length === 0) return '';
+    let out = '';
+    let last = tokens[0].start;
+    tokens.forEach((token, k) => {
+      out += sql.slice(last, token.start) + caseWord(token, tokens[k - 1], tokens[k + 1]);
+      last = token.end;
+    });
+    return out;
+  };
+
+  const formatStatement = (sql: string, tokens: SqlToken[]): string => {
+    const lines: string[] = [];
+    let i = 0;
+    // Comentários e meta-comandos antes do comando ficam em linhas próprias
+    while (i < tokens.length && (tokens[i].kind === 'comment' || tokens[i].kind === 'meta')) {
+      lines.push(tokens[i].text);
+      i++;
+    }
+    const body = tokens.slice(i);
+    if (body.length === 0) return lines.join('\n');
+    const first = body[0];
+    const { nodes } = buildNodes(body, 0, null);
+    const isQuery = (first.kind === 'word' && QUERY_STARTS.includes(first.value)) || isSubquery(nodes[0]);
+    lines.push(...(isQuery ? formatQuery(nodes, 0) : [recaseVerbatim(sql, body)]));
+    return lines.join('\n');
+  };
+
+  /** Formata um script inteiro; comandos separados por ';' ganham uma linha em branco entre si. */
+  const format = (sql: string): string => {
+    const tokens = tokenizeSql(sql);
+    const statements: { tokens: SqlToken[]; terminated: boolean; trailing: SqlToken[] }[] = [];
+    let current: SqlToken[] = [];
+    let depth = 0;
+    tokens.forEach(token => {
+      if (isPunct(token, '(') || isPunct(token, '[')) depth++;
+      else if (isPunct(token, ')') || isPunct(token, ']')) depth = Math.max(0, depth - 1);
+      if (isPunct(token, ';') && depth === 0) {
+        statements.push({ tokens: current, terminated: true, trailing: [] });
+        current = [];
+        return;
+      }
+      // Comentário na mesma linha do ';' acompanha o comando anterior
+      const previous = statements[statements.length - 1];
+      if (current.length === 0 && previous && token.kind === 'comment' && tokens.some(t => isPunct(t, ';') && t.line === token.line && t.end <= token.start)
+        && previous.trailing.length === 0) {
+        previous.trailing.push(token);
+        return;
+      }
+      current.push(token);
+    });
+    if (current.length > 0) statements.push({ tokens: current, terminated: false, trailing: [] });
+
+    return statements
+      .map(statement => {
+        const text = formatStatement(sql, statement.tokens);
+        const trailing = statement.trailing.map(t => ` ${t.text}`).join('');
+        const last = statement.tokens[statement.tokens.length - 1];
+        const terminator = !statement.terminated ? '' : last && isLineComment(last) ? '\n;' : ';';
+        return `${text}${terminator}${trailing}`;
+      })
+      .filter(text => text.trim() !== '' && text !== ';')
+      .join('\n\n');
+  };
+
+  return { format };
+};
+
+export const formatSql = (sql: string, style: SqlFormatStyle): string => createSqlFormatter(style).format(sql);
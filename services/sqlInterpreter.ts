@@ -0,0 +1,2507 @@
+import { Column, DatabaseSchema, ResultField, ScriptErrorMode, ScriptResult, ScriptStatementResult, Table } from "../types";
+import { SqlToken, tokenizeSql } from "./sqlTokenizer";
+import type { SimulationData } from "./simulationService";
+import { resolveReference } from "./dataGeneratorService";
+
+/**
+ * Interpretador SQL em memória para conexões simuladas: executa o texto do editor sobre o
+ * SimulationData como um banco de verdade faria (SELECT com joins, agregação, janelas,
+ * subconsultas e CTEs; INSERT/UPDATE/DELETE alterando as tabelas simuladas).
+ * Os erros imitam os do PostgreSQL (mensagem, SQLSTATE e posição) para o editor marcar o trecho.
+ */
+
+// ---------------------------------------------------------------------------
+// AST
+// ---------------------------------------------------------------------------
+
+interface OrderItem {
+  expr: Expr;
+  desc: boolean;
+  nulls?: 'first' | 'last';
+}
+
+interface WindowSpec {
+  partitionBy: Expr[];
+  orderBy: OrderItem[];
+}
+
+type Expr =
+  | { kind: 'literal'; value: any; integer?: boolean }
+  | { kind: 'default' }
+  | { kind: 'column'; parts: string[]; token: SqlToken }
+  | { kind: 'param'; index: number; token: SqlToken }
+  | { kind: 'unary'; op: string; operand: Expr; token: SqlToken }
+  | { kind: 'binary'; op: string; left: Expr; right: Expr; token: SqlToken }
+  | { kind: 'is'; operand: Expr; test: 'null' | 'true' | 'false' | 'unknown'; negated: boolean }
+  | { kind: 'distinct'; left: Expr; right: Expr; negated: boolean }
+  | { kind: 'between'; operand: Expr; low: Expr; high: Expr; negated: boolean }
+  | { kind: 'in'; operand: Expr; list?: Expr[]; query?: Query; negated: boolean }
+  | { kind: 'like'; operand: Expr; pattern: Expr; negated: boolean; insensitive: boolean }
+  | { kind: 'quantified'; op: string; operand: Expr; all: boolean; list?: Expr; query?: Query; token: SqlToken }
+  | { kind: 'case'; operand?: Expr; whens: { when: Expr; then: Expr }[]; otherwise?: Expr }
+  | { kind: 'cast'; operand: Expr; type: string; token: SqlToken }
+  | { kind: 'call'; name: string; args: Expr[]; star: boolean; distinct: boolean; order: OrderItem[]; filter?: Expr; over?: WindowSpec; token: SqlToken }
+  | { kind: 'exists'; query: Query }
+  | { kind: 'subquery'; query: Query; token: SqlToken }
+  | { kind: 'array'; items: Expr[] };
+
+type SelectItem = { kind: 'star'; qualifier?: string[] } | { kind: 'expr'; expr: Expr; alias?: string };
+
+interface SelectCore {
+  kind: 'select';
+  distinct: boolean;
+  distinctOn?: Expr[];
+  items: SelectItem[];
+  from: FromItem[];
+  where?: Expr;
+  groupBy: Expr[];
+  having?: Expr;
+}
+
+type QueryBody =
+  | SelectCore
+  | { kind: 'values'; rows: Expr[][] }
+  | { kind: 'setop'; op: 'union' | 'intersect' | 'except'; all: boolean; left: QueryBody; right: QueryBody }
+  | { kind: 'nested'; query: Query };
+
+interface Cte {
+  name: string;
+  columns?: string[];
+  query: Query;
+}
+
+interface Query {
+  ctes: Cte[];
+  body: QueryBody;
+  orderBy: OrderItem[];
+  limit?: Expr;
+  offset?: Expr;
+}
+
+interface TableName {
+  schema?: string;
+  name: string;
+  token: SqlToken;
+}
+
+type FromItem =
+  | { kind: 'table'; table: TableName; alias?: string; columnAliases?: string[] }
+  | { kind: 'subquery'; query: Query; alias?: string; columnAliases?: string[] }
+  | { kind: 'function'; call: Expr & { kind: 'call' }; alias?: string; columnAliases?: string[] }
+  | { kind: 'join'; type: 'inner' | 'left' | 'right' | 'full' | 'cross'; left: FromItem; right: FromItem; on?: Expr; using?: string[]; natural: boolean };
+
+interface Assignment {
+  column: string;
+  token: SqlToken;
+  expr: Expr;
+}
+
+type Statement =
+  | { kind: 'query'; query: Query }
+  | { kind: 'insert'; ctes: Cte[]; table: TableName; alias?: string; columns?: { name: string; token: SqlToken }[]; source?: Query; conflict?: { action: 'nothing' } | { action: 'update'; set: Assignment[]; where?: Expr }; returning?: SelectItem[] }
+  | { kind: 'update'; ctes: Cte[]; table: TableName; alias?: string; set: Assignment[]; from: FromItem[]; where?: Expr; returning?: SelectItem[] }
+  | { kind: 'delete'; ctes: Cte[]; table: TableName; alias?: string; using: FromItem[]; where?: Expr; returning?: SelectItem[] }
+  | { kind: 'transaction'; action: 'BEGIN' | 'COMMIT' | 'ROLLBACK' };
+
+// ---------------------------------------------------------------------------
+// Erros no formato do PostgreSQL
+// ---------------------------------------------------------------------------
+
+const sqlError = (message: string, code: string, token?: SqlToken, extra: Record<string, any> = {}): Error =>
+  Object.assign(new Error(message), { details: { message, code, severity: 'ERRO', ...(token ? { position: token.start + 1 } : {}), ...extra } });
+
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+const COMPARISON = ['=', '<>', '!=', '<', '>', '<=', '>='];
+const KNOWN_OPERATORS = [...COMPARISON, '+', '-', '*', '/', '%', '^', '||', '::', '->', '->>', '~', '~*', '!~', '!~*', '@>', '<@'];
+
+// Palavras que não podem ser alias sem AS
+const RESERVED = new Set([
+  'select', 'from', 'where', 'group', 'order', 'having', 'limit', 'offset', 'fetch', 'union', 'intersect', 'except',
+  'join', 'inner', 'left', 'right', 'full', 'cross', 'natural', 'on', 'using', 'as', 'and', 'or', 'not', 'in', 'is',
+  'null', 'like', 'ilike', 'between', 'case', 'when', 'then', 'else', 'end', 'returning', 'set', 'values', 'into',
+  'with', 'window', 'for', 'lateral', 'asc', 'desc', 'nulls', 'distinct', 'all', 'any', 'some', 'exists', 'true',
+  'false', 'default', 'do', 'by', 'over', 'filter', 'partition', 'only', 'collate'
+]);
+
+// Comandos válidos do PostgreSQL que o modo simulado não executa (os demais são erro de sintaxe)
+const SQL_COMMANDS = [
+  'create', 'alter', 'drop', 'truncate', 'grant', 'revoke', 'comment', 'copy', 'vacuum', 'analyze', 'explain', 'set', 'reset',
+  'show', 'do', 'call', 'lock', 'listen', 'notify', 'prepare', 'execute', 'deallocate', 'savepoint', 'release', 'merge',
+  'refresh', 'reindex', 'cluster', 'discard', 'declare', 'fetch', 'close', 'move', 'checkpoint', 'security', 'import'
+];
+
+const AGGREGATES = ['count', 'sum', 'avg', 'min', 'max', 'string_agg', 'array_agg', 'json_agg', 'jsonb_agg', 'bool_and', 'bool_or', 'every'];
+const WINDOW_ONLY = ['row_number', 'rank', 'dense_rank', 'ntile', 'lag', 'lead', 'first_value', 'last_value', 'percent_rank', 'cume_dist'];
+
+/** Separa operadores colados como o lexer do PostgreSQL (">-1" é ">" seguido de "-1"). */
+const normalizeTokens = (tokens: SqlToken[]): SqlToken[] => {
+  const out: SqlToken[] = [];
+  tokens.forEach(token => {
+    if (token.kind === 'comment' || token.kind === 'meta') return;
+    if (token.kind === 'operator' && !KNOWN_OPERATORS.includes(token.text) && token.text.length > 1) {
+      let text = token.text;
+      let start = token.start;
+      while (text.length > 0) {
+        let len = text.length;
+        while (len > 1 && !KNOWN_OPERATORS.includes(text.slice(0, len))) len--;
+        out.push({ ...token, text: text.slice(0, len), value: text.slice(0, len), start, end: start + len });
+        text = text.slice(len);
+        start += len;
+      }
+      return;
+    }
+    out.push(token);
+  });
+  return out;
+};
+
+const createParser = (sql: string) => {
+  const tokens = normalizeTokens(tokenizeSql(sql));
+  let pos = 0;
+
+  const peek = (k = 0): SqlToken | undefined => tokens[pos + k];
+  const endToken: SqlToken = { kind: 'punct', text: '', value: '', start: sql.length, end: sql.length, line: 0 };
+  const fail = (token?: SqlToken): never => {
+    const at = token || endToken;
+    if (!token) throw sqlError('erro de sintaxe no fim da entrada', '42601', at);
+    throw sqlError(`erro de sintaxe em ou próximo a "${at.text}"`, '42601', at);
+  };
+  const isKw = (k: number, ...words: string[]) => { const t = peek(k); return !!t && t.kind === 'word' && words.includes(t.value); };
+  const isP = (k: number, text: string) => { const t = peek(k); return !!t && t.kind === 'punct' && t.text === text; };
+  const isOp = (k: number, ...ops: string[]) => { const t = peek(k); return !!t && t.kind === 'operator' && ops.includes(t.text); };
+  const acceptKw = (...words: string[]) => { if (isKw(0, ...words)) return tokens[pos++]; return null; };
+  const expectKw = (word: string) => acceptKw(word) || fail(peek());
+  const acceptP = (text: string) => { if (isP(0, text)) return tokens[pos++]; return null; };
+  const expectP = (text: string) => acceptP(text) || fail(peek());
+
+  const isIdent = (k = 0) => { const t = peek(k); return !!t && (t.kind === 'quoted' || (t.kind === 'word' && !RESERVED.has(t.value))); };
+  const identifier = (): string => {
+    const t = peek();
+    if (!t || (t.kind !== 'word' && t.kind !== 'quoted')) return fail(t);
+    pos++;
+    return t.value;
+  };
+
+  const startsQuery = (k = 0) => isKw(k, 'select', 'with', 'values', 'table') || (isP(k, '(') && startsQuery(k + 1));
+
+  // --- Tipos (para CAST e ::) ---
+  const typeName = (): string => {
+    let name = identifier();
+    while (true) {
+      // Modificador (precisão/escala) fica no nome: numeric(10,2)
+      if (acceptP('(')) {
+        const args: string[] = [];
+        while (!isP(0, ')') && peek()) args.push(tokens[pos++].text);
+        expectP(')');
+        name += `(${args.join('')})`;
+      }
+      if (isKw(0, 'precision', 'varying')) name += ` ${tokens[pos++].value}`;
+      else if (isKw(0, 'with', 'without') && isKw(1, 'time')) name += ` ${tokens[pos++].value} ${tokens[pos++].value} ${expectKw('zone').value}`;
+      else break;
+    }
+    while (isP(0, '[')) { pos++; expectP(']'); name += '[]'; }
+    return name;
+  };
+
+  // --- Expressões ---
+  const expression = (): Expr => orExpr();
+
+  const orExpr = (): Expr => {
+    let left = andExpr();
+    while (isKw(0, 'or')) {
+      const token = tokens[pos++];
+      left = { kind: 'binary', op: 'or', left, right: andExpr(), token };
+    }
+    return left;
+  };
+
+  const andExpr = (): Expr => {
+    let left = notExpr();
+    while (isKw(0, 'and')) {
+      const token = tokens[pos++];
+      left = { kind: 'binary', op: 'and', left, right: notExpr(), token };
+    }
+    return left;
+  };
+
+  const notExpr = (): Expr => {
+    if (isKw(0, 'not')) {
+      const token = tokens[pos++];
+      return { kind: 'unary', op: 'not', operand: notExpr(), token };
+    }
+    return isExpr();
+  };
+
+  const isExpr = (): Expr => {
+    let operand = comparison();
+    while (isKw(0, 'is', 'isnull', 'notnull')) {
+      if (acceptKw('isnull')) { operand = { kind: 'is', operand, test: 'null', negated: false }; continue; }
+      if (acceptKw('notnull')) { operand = { kind: 'is', operand, test: 'null', negated: true }; continue; }
+      pos++;
+      const negated = !!acceptKw('not');
+      if (acceptKw('distinct')) {
+        expectKw('from');
+        operand = { kind: 'distinct', left: operand, right: comparison(), negated };
+        continue;
+      }
+      const test = acceptKw('null', 'true', 'false', 'unknown');
+      if (!test) fail(peek());
+      operand = { kind: 'is', operand, test: test!.value as 'null', negated };
+    }
+    return operand;
+  };
+
+  const comparison = (): Expr => {
+    let left = rangeExpr();
+    while (isOp(0, ...COMPARISON)) {
+      const token = tokens[pos++];
+      const op = token.text === '!=' ? '<>' : token.text;
+      if (isKw(0, 'any', 'some', 'all') && isP(1, '(')) {
+        const all = tokens[pos++].value === 'all';
+        expectP('(');
+        const quantified: Expr = startsQuery()
+          ? { kind: 'quantified', op, operand: left, all, query: query(), token }
+          : { kind: 'quantified', op, operand: left, all, list: expression(), token };
+        expectP(')');
+        left = quantified;
+        continue;
+      }
+      left = { kind: 'binary', op, left, right: rangeExpr(), token };
+    }
+    return left;
+  };
+
+  const rangeExpr = (): Expr => {
+    const operand = otherOp();
+    const negated = isKw(0, 'not') && isKw(1, 'between', 'in', 'like', 'ilike');
+    if (negated) pos++;
+    if (acceptKw('between')) {
+      acceptKw('symmetric');
+      const low = otherOp();
+      expectKw('and');
+      return { kind: 'between', operand, low, high: otherOp(), negated };
+    }
+    if (acceptKw('in')) {
+      expectP('(');
+      if (startsQuery()) {
+        const q = query();
+        expectP(')');
+        return { kind: 'in', operand, query: q, negated };
+      }
+      const list = [expression()];
+      while (acceptP(',')) list.push(expression());
+      expectP(')');
+      return { kind: 'in', operand, list, negated };
+    }
+    const like = acceptKw('like', 'ilike');
+    if (like) {
+      const pattern = otherOp();
+      if (acceptKw('escape')) otherOp();
+      return { kind: 'like', operand, pattern, negated, insensitive: like.value === 'ilike' };
+    }
+    if (negated) fail(peek());
+    return operand;
+  };
+
+  const otherOp = (): Expr => {
+    let left = additive();
+    while (isOp(0, '||', '->', '->>', '~', '~*', '!~', '!~*', '@>', '<@')) {
+      const token = tokens[pos++];
+      left = { kind: 'binary', op: token.text, left, right: additive(), token };
+    }
+    return left;
+  };
+
+  const additive = (): Expr => {
+    let left = multiplicative();
+    while (isOp(0, '+', '-')) {
+      const token = tokens[pos++];
+      left = { kind: 'binary', op: token.text, left, right: multiplicative(), token };
+    }
+    return left;
+  };
+
+  const multiplicative = (): Expr => {
+    let left = power();
+    while (isOp(0, '*', '/', '%')) {
+      const token = tokens[pos++];
+      left = { kind: 'binary', op: token.text, left, right: power(), token };
+    }
+    return left;
+  };
+
+  const power = (): Expr => {
+    let left = unary();
+    while (isOp(0, '^')) {
+      const token = tokens[pos++];
+      left = { kind: 'binary', op: '^', left, right: unary(), token };
+    }
+    return left;
+  };
+
+  const unary = (): Expr => {
+    if (isOp(0, '-', '+')) {
+      const token = tokens[pos++];
+      const operand = unary();
+      if (token.text === '+') return operand;
+      if (operand.kind === 'literal' && typeof operand.value === 'number') return { ...operand, value: -operand.value };
+      return { kind: 'unary', op: '-', operand, token };
+    }
+    return postfix();
+  };
+
+  const postfix = (): Expr => {
+    let operand = primary();
+    while (true) {
+      if (isOp(0, '::')) {
+        const token = tokens[pos++];
+        operand = { kind: 'cast', operand, type: typeName(), token };
+        continue;
+      }
+      // COLLATE "x": as comparações do modo simulado não dependem de collation
+      if (acceptKw('collate')) {
+        identifier();
+        while (acceptP('.')) identifier();
+        continue;
+      }
+      if (isP(0, '[')) {
+        const token = tokens[pos++];
+        const index = expression();
+        expectP(']');
+        operand = { kind: 'call', name: '__subscript', args: [operand, index], star: false, distinct: false, order: [], token };
+        continue;
+      }
+      return operand;
+    }
+  };
+
+  const windowSpec = (): WindowSpec => {
+    expectP('(');
+    const spec: WindowSpec = { partitionBy: [], orderBy: [] };
+    if (acceptKw('partition')) {
+      expectKw('by');
+      spec.partitionBy.push(expression());
+      while (acceptP(',')) spec.partitionBy.push(expression());
+    }
+    if (isKw(0, 'order')) spec.orderBy = orderByList();
+    // Cláusula de frame (ROWS/RANGE ...): aceita e usa o padrão do PostgreSQL
+    while (peek() && !isP(0, ')')) pos++;
+    expectP(')');
+    return spec;
+  };
+
+  const functionCall = (name: string, token: SqlToken): Expr => {
+    expectP('(');
+    const call: Expr & { kind: 'call' } = { kind: 'call', name, args: [], star: false, distinct: false, order: [], token };
+    if (name === 'extract') {
+      const field = peek();
+      pos++;
+      expectKw('from');
+      call.name = 'date_part';
+      call.args = [{ kind: 'literal', value: field!.value.toLowerCase() }, expression()];
+    } else if (name === 'substring' && !isP(0, ')')) {
+      call.args.push(expression());
+      if (acceptKw('from')) { call.args.push(expression()); if (acceptKw('for')) call.args.push(expression()); }
+      else if (acceptKw('for')) call.args.push({ kind: 'literal', value: 1 }, expression());
+      else while (acceptP(',')) call.args.push(expression());
+    } else if (name === 'trim') {
+      const mode = acceptKw('both', 'leading', 'trailing')?.value || 'both';
+      call.name = mode === 'leading' ? 'ltrim' : mode === 'trailing' ? 'rtrim' : 'btrim';
+      if (acceptKw('from')) call.args.push(expression());
+      else {
+        const first = expression();
+        if (acceptKw('from')) call.args.push(expression(), first);
+        else { call.args.push(first); while (acceptP(',')) call.args.push(expression()); }
+      }
+    } else if (name === 'position' && !isP(0, ')')) {
+      const needle = otherOp();
+      expectKw('in');
+      call.args = [expression(), needle];
+      call.name = 'strpos';
+    } else if (!isP(0, ')')) {
+      if (isOp(0, '*')) { pos++; call.star = true; }
+      else {
+        call.distinct = !!acceptKw('distinct');
+        acceptKw('all');
+        call.args.push(expression());
+        while (acceptP(',')) call.args.push(expression());
+        if (isKw(0, 'order')) call.order = orderByList();
+      }
+    }
+    expectP(')');
+    if (acceptKw('filter')) {
+      expectP('(');
+      expectKw('where');
+      call.filter = expression();
+      expectP(')');
+    }
+    if (acceptKw('over')) call.over = windowSpec();
+    return call;
+  };
+
+  const primary = (): Expr => {
+    const token = peek();
+    if (!token) return fail();
+    if (token.kind === 'number') {
+      pos++;
+      return { kind: 'literal', value: Number(token.text.replace(/_/g, '')), integer: /^[\d_]+$/.test(token.text) };
+    }
+    if (token.kind === 'string' || token.kind === 'dollar') {
+      pos++;
+      return { kind: 'literal', value: token.value };
+    }
+    if (token.kind === 'param') {
+      pos++;
+      if (!/^\$\d+$/.test(token.text)) throw sqlError(`parâmetro ${token.text} sem valor`, '42P02', token);
+      return { kind: 'param', index: Number(token.text.slice(1)), token };
+    }
+    if (isP(0, '(')) {
+      pos++;
+      if (startsQuery()) {
+        const q = query();
+        expectP(')');
+        return { kind: 'subquery', query: q, token };
+      }
+      const inner = expression();
+      if (isP(0, ',')) fail(peek());
+      expectP(')');
+      return inner;
+    }
+    if (token.kind === 'word') {
+      switch (token.value) {
+        case 'null': pos++; return { kind: 'literal', value: null };
+        case 'true': pos++; return { kind: 'literal', value: true };
+        case 'false': pos++; return { kind: 'literal', value: false };
+        case 'default': pos++; return { kind: 'default' };
+        case 'case': return caseExpr();
+        case 'exists': {
+          pos++;
+          expectP('(');
+          const q = query();
+          expectP(')');
+          return { kind: 'exists', query: q };
+        }
+        case 'cast': {
+          pos++;
+          expectP('(');
+          const operand = expression();
+          expectKw('as');
+          const type = typeName();
+          expectP(')');
+          return { kind: 'cast', operand, type, token };
+        }
+        case 'array': {
+          pos++;
+          if (isP(0, '(')) {
+            pos++;
+            const q = query();
+            expectP(')');
+            return { kind: 'call', name: '__array_query', args: [{ kind: 'subquery', query: q, token }], star: false, distinct: false, order: [], token };
+          }
+          expectP('[');
+          const items: Expr[] = [];
+          if (!isP(0, ']')) { items.push(expression()); while (acceptP(',')) items.push(expression()); }
+          expectP(']');
+          return { kind: 'array', items };
+        }
+        case 'current_date': case 'current_timestamp': case 'localtimestamp': case 'current_time': case 'current_user': case 'session_user':
+          pos++;
+          if (isP(0, '(') && token.value !== 'current_date') { pos++; expression(); expectP(')'); }
+          return { kind: 'call', name: token.value, args: [], star: false, distinct: false, order: [], token };
+        case 'interval': case 'date': case 'timestamp': case 'timestamptz': case 'time':
+          if (peek(1)?.kind === 'string') {
+            pos += 2;
+            return { kind: 'cast', operand: { kind: 'literal', value: peek(-1)!.value }, type: token.value, token };
+          }
+          break;
+      }
+    }
+    if (token.kind === 'word' || token.kind === 'quoted') {
+      pos++;
+      if (isP(0, '(') && token.kind === 'word') return functionCall(token.value, token);
+      const parts = [token.value];
+      while (isP(0, '.') && (peek(1)?.kind === 'word' || peek(1)?.kind === 'quoted')) {
+        pos++;
+        const part = tokens[pos++];
+        if (isP(0, '(')) return functionCall(part.value, part); // schema.funcao(...)
+        parts.push(part.value);
+      }
+      if (token.kind === 'word' && RESERVED.has(token.value) && parts.length === 1) fail(token);
+      return { kind: 'column', parts, token };
+    }
+    return fail(token);
+  };
+
+  const caseExpr = (): Expr => {
+    pos++;
+    const operand = isKw(0, 'when') ? undefined : expression();
+    const whens: { when: Expr; then: Expr }[] = [];
+    while (acceptKw('when')) {
+      const when = expression();
+      expectKw('then');
+      whens.push({ when, then: expression() });
+    }
+    if (whens.length === 0) fail(peek());
+    const otherwise = acceptKw('else') ? expression() : undefined;
+    expectKw('end');
+    return { kind: 'case', operand, whens, otherwise };
+  };
+
+  const orderByList = (): OrderItem[] => {
+    expectKw('order');
+    expectKw('by');
+    const items: OrderItem[] = [];
+    do {
+      const expr = expression();
+      let desc = false;
+      if (acceptKw('desc')) desc = true;
+      else acceptKw('asc');
+      let nulls: 'first' | 'last' | undefined;
+      if (acceptKw('nulls')) nulls = expectKw(isKw(0, 'first') ? 'first' : 'last').value as 'first' | 'last';
+      items.push({ expr, desc, nulls });
+    } while (acceptP(','));
+    return items;
+  };
+
+  // --- Consultas ---
+  const aliasClause = (): { alias?: string; columnAliases?: string[] } => {
+    const hasAs = !!acceptKw('as');
+    if (!hasAs && !isIdent()) return {};
+    const alias = identifier();
+    let columnAliases: string[] | undefined;
+    if (isP(0, '(')) {
+      pos++;
+      columnAliases = [identifier()];
+      while (acceptP(',')) columnAliases.push(identifier());
+      expectP(')');
+    }
+    return { alias, columnAliases };
+  };
+
+  const tableName = (): TableName => {
+    const token = peek();
+    if (!token || (token.kind !== 'word' && token.kind !== 'quoted')) return fail(token);
+    const parts = [identifier()];
+    while (acceptP('.')) parts.push(identifier());
+    return { name: parts[parts.length - 1], schema: parts.length > 1 ? parts[parts.length - 2] : undefined, token };
+  };
+
+  const fromPrimary = (): FromItem => {
+    if (acceptKw('lateral')) throw sqlError('LATERAL não é suportado no modo simulado', '0A000', peek(-1));
+    if (isP(0, '(')) {
+      const open = tokens[pos];
+      if (startsQuery(1)) {
+        pos++;
+        const q = query();
+        expectP(')');
+        return { kind: 'subquery', query: q, ...aliasClause() };
+      }
+      pos++;
+      const inner = fromItem();
+      expectP(')');
+      if (!inner) fail(open);
+      return inner;
+    }
+    acceptKw('only');
+    const name = tableName();
+    if (isP(0, '(')) {
+      const call = functionCall(name.name, name.token) as Expr & { kind: 'call' };
+      return { kind: 'function', call, ...aliasClause() };
+    }
+    return { kind: 'table', table: name, ...aliasClause() };
+  };
+
+  const fromItem = (): FromItem => {
+    let left = fromPrimary();
+    while (true) {
+      const natural = !!acceptKw('natural');
+      let type: 'inner' | 'left' | 'right' | 'full' | 'cross' | null = null;
+      if (acceptKw('cross')) type = 'cross';
+      else if (acceptKw('inner')) type = 'inner';
+      else if (isKw(0, 'left', 'right', 'full')) { type = tokens[pos++].value as 'left'; acceptKw('outer'); }
+      else if (isKw(0, 'join')) type = 'inner';
+      if (!type) {
+        if (natural) fail(peek());
+        return left;
+      }
+      expectKw('join');
+      const right = fromPrimary();
+      const join: FromItem = { kind: 'join', type, left, right, natural };
+      if (type !== 'cross' && !natural) {
+        if (acceptKw('on')) join.on = expression();
+        else if (acceptKw('using')) {
+          expectP('(');
+          join.using = [identifier()];
+          while (acceptP(',')) join.using.push(identifier());
+          expectP(')');
+        } else fail(peek());
+      }
+      left = join;
+    }
+  };
+
+  const selectItems = (): SelectItem[] => {
+    const items: SelectItem[] = [];
+    do {
+      if (isOp(0, '*')) { pos++; items.push({ kind: 'star' }); continue; }
+      // t.* ou schema.t.*
+      let k = 0;
+      while ((peek(k)?.kind === 'word' || peek(k)?.kind === 'quoted') && isP(k + 1, '.')) k += 2;
+      if (k > 0 && isOp(k, '*')) {
+        const qualifier: string[] = [];
+        for (let j = 0; j < k; j += 2) qualifier.push(peek(j)!.value);
+        pos += k + 1;
+        items.push({ kind: 'star', qualifier });
+        continue;
+      }
+      const expr = expression();
+      let alias: string | undefined;
+      if (acceptKw('as')) alias = identifier();
+      else if (isIdent()) alias = identifier();
+      items.push({ kind: 'expr', expr, alias });
+    } while (acceptP(','));
+    return items;
+  };
+
+  const selectCore = (): QueryBody => {
+    if (isP(0, '(')) {
+      pos++;
+      const q = query();
+      expectP(')');
+      return { kind: 'nested', query: q };
+    }
+    if (acceptKw('values')) {
+      const rows: Expr[][] = [];
+      do {
+        expectP('(');
+        const row = [expression()];
+        while (acceptP(',')) row.push(expression());
+        expectP(')');
+        rows.push(row);
+      } while (acceptP(','));
+      return { kind: 'values', rows };
+    }
+    if (acceptKw('table')) {
+      const table = tableName();
+      return { kind: 'select', distinct: false, items: [{ kind: 'star' }], from: [{ kind: 'table', table }], groupBy: [] };
+    }
+    expectKw('select');
+    const core: SelectCore = { kind: 'select', distinct: false, items: [], from: [], groupBy: [] };
+    if (acceptKw('distinct')) {
+      core.distinct = true;
+      if (acceptKw('on')) {
+        expectP('(');
+        core.distinctOn = [expression()];
+        while (acceptP(',')) core.distinctOn.push(expression());
+        expectP(')');
+      }
+    } else acceptKw('all');
+    if (!isKw(0, 'from') && peek() && !isP(0, ';') && !isP(0, ')')) core.items = selectItems();
+    if (acceptKw('into')) throw sqlError('SELECT INTO não é suportado no modo simulado', '0A000', peek(-1));
+    if (acceptKw('from')) {
+      core.from.push(fromItem());
+      while (acceptP(',')) core.from.push(fromItem());
+    }
+    if (acceptKw('where')) core.where = expression();
+    if (acceptKw('group')) {
+      expectKw('by');
+      core.groupBy.push(expression());
+      while (acceptP(',')) core.groupBy.push(expression());
+    }
+    if (acceptKw('having')) core.having = expression();
+    return core;
+  };
+
+  const setOperation = (): QueryBody => {
+    let left = selectCore();
+    while (isKw(0, 'union', 'intersect', 'except')) {
+      const op = tokens[pos++].value as 'union';
+      const all = !!acceptKw('all');
+      if (!all) acceptKw('distinct');
+      left = { kind: 'setop', op, all, left, right: selectCore() };
+    }
+    return left;
+  };
+
+  const withClause = (): Cte[] => {
+    const ctes: Cte[] = [];
+    if (!acceptKw('with')) return ctes;
+    if (acceptKw('recursive')) throw sqlError('WITH RECURSIVE não é suportado no modo simulado', '0A000', peek(-1));
+    do {
+      const name = identifier();
+      let columns: string[] | undefined;
+      if (acceptP('(')) {
+        columns = [identifier()];
+        while (acceptP(',')) columns.push(identifier());
+        expectP(')');
+      }
+      expectKw('as');
+      acceptKw('not');
+      acceptKw('materialized');
+      expectP('(');
+      if (isKw(0, 'insert', 'update', 'delete')) throw sqlError('CTEs que alteram dados não são suportadas no modo simulado', '0A000', peek());
+      const q = query();
+      expectP(')');
+      ctes.push({ name, columns, query: q });
+    } while (acceptP(','));
+    return ctes;
+  };
+
+  const query = (): Query => {
+    const ctes = withClause();
+    const q: Query = { ctes, body: setOperation(), orderBy: [] };
+    if (isKw(0, 'order')) q.orderBy = orderByList();
+    while (isKw(0, 'limit', 'offset', 'fetch')) {
+      if (acceptKw('limit')) { if (!acceptKw('all')) q.limit = expression(); }
+      else if (acceptKw('offset')) { q.offset = expression(); acceptKw('row', 'rows'); }
+      else {
+        pos++;
+        acceptKw('first', 'next');
+        q.limit = isKw(0, 'row', 'rows') ? { kind: 'literal', value: 1 } : expression();
+        acceptKw('row', 'rows');
+        expectKw('only');
+      }
+    }
+    return q;
+  };
+
+  const returningClause = (): SelectItem[] | undefined => acceptKw('returning') ? selectItems() : undefined;
+
+  const assignments = (): Assignment[] => {
+    const list: Assignment[] = [];
+    do {
+      const token = peek()!;
+      const column = identifier();
+      if (isP(0, '.')) { pos++; identifier(); }
+      const eq = peek();
+      if (!isOp(0, '=')) fail(eq);
+      pos++;
+      list.push({ column, token, expr: expression() });
+    } while (acceptP(','));
+    return list;
+  };
+
+  const statement = (): Statement => {
+    const first = peek();
+    if (!first) return fail();
+    if (isKw(0, 'begin', 'start')) { pos++; while (peek()) pos++; return { kind: 'transaction', action: 'BEGIN' }; }
+    if (isKw(0, 'commit', 'end')) { pos++; while (peek()) pos++; return { kind: 'transaction', action: 'COMMIT' }; }
+    if (isKw(0, 'rollback', 'abort')) {
+      pos++;
+      if (isKw(0, 'to')) throw sqlError('SAVEPOINT não é suportado no modo simulado', '0A000', peek());
+      while (peek()) pos++;
+      return { kind: 'transaction', action: 'ROLLBACK' };
+    }
+
+    const ctes = isKw(0, 'with') ? withClause() : [];
+    if (acceptKw('insert')) {
+      expectKw('into');
+      const table = tableName();
+      const alias = acceptKw('as') ? identifier() : undefined;
+      const stmt: Statement & { kind: 'insert' } = { kind: 'insert', ctes, table, alias };
+      if (isP(0, '(') && !startsQuery(1)) {
+        pos++;
+        stmt.columns = [];
+        do { const token = peek()!; stmt.columns.push({ name: identifier(), token }); } while (acceptP(','));
+        expectP(')');
+      }
+      if (acceptKw('default')) expectKw('values');
+      else stmt.source = query();
+      if (acceptKw('on')) {
+        expectKw('conflict');
+        if (acceptP('(')) { while (peek() && !isP(0, ')')) pos++; expectP(')'); }
+        expectKw('do');
+        if (acceptKw('nothing')) stmt.conflict = { action: 'nothing' };
+        else {
+          expectKw('update');
+          expectKw('set');
+          const set = assignments();
+          stmt.conflict = { action: 'update', set, where: acceptKw('where') ? expression() : undefined };
+        }
+      }
+      stmt.returning = returningClause();
+      return stmt;
+    }
+    if (acceptKw('update')) {
+      acceptKw('only');
+      const table = tableName();
+      const { alias } = isKw(0, 'set') ? {} : aliasClause();
+      expectKw('set');
+      const stmt: Statement & { kind: 'update' } = { kind: 'update', ctes, table, alias, set: assignments(), from: [] };
+      if (acceptKw('from')) {
+        stmt.from.push(fromItem());
+        while (acceptP(',')) stmt.from.push(fromItem());
+      }
+      if (acceptKw('where')) stmt.where = expression();
+      stmt.returning = returningClause();
+      return stmt;
+    }
+    if (acceptKw('delete')) {
+      expectKw('from');
+      acceptKw('only');
+      const table = tableName();
+      const { alias } = aliasClause();
+      const stmt: Statement & { kind: 'delete' } = { kind: 'delete', ctes, table, alias, using: [] };
+      if (acceptKw('using')) {
+        stmt.using.push(fromItem());
+        while (acceptP(',')) stmt.using.push(fromItem());
+      }
+      if (acceptKw('where')) stmt.where = expression();
+      stmt.returning = returningClause();
+      return stmt;
+    }
+    if (ctes.length > 0 || startsQuery()) {
+      const q = query();
+      if (ctes.length > 0) q.ctes = [...ctes, ...q.ctes];
+      return { kind: 'query', query: q };
+    }
+    if (first.kind === 'word' && SQL_COMMANDS.includes(first.value)) {
+      throw sqlError(`Comando "${first.text.toUpperCase()}" não é suportado no modo simulado.`, '0A000', first);
+    }
+    return fail(first);
+  };
+
+  const parseExpression = (): Expr => {
+    const expr = expression();
+    if (peek()) fail(peek());
+    return expr;
+  };
+
+  const parse = (): Statement => {
+    const stmt = statement();
+    acceptP(';');
+    if (peek()) fail(peek());
+    return stmt;
+  };
+
+  return { parse, parseExpression };
+};
+
+// ---------------------------------------------------------------------------
+// Valores
+// ---------------------------------------------------------------------------
+
+interface Interval {
+  __interval: true;
+  months: number;
+  days: number;
+  ms: number;
+}
+
+const isInterval = (v: any): v is Interval => !!v && typeof v === 'object' && v.__interval === true;
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}/;
+const isDateLike = (v: any) => typeof v === 'string' && DATE_RE.test(v);
+const isNumericString = (v: any) => typeof v === 'string' && v.trim() !== '' && !isNaN(Number(v));
+
+const pad = (n: number, size = 2) => String(n).padStart(size, '0');
+const toDate = (v: any): Date | null => {
+  if (v instanceof Date) return v;
+  if (!isDateLike(v)) return null;
+  const d = new Date(String(v).replace(' ', 'T') + (String(v).length <= 10 ? 'T00:00:00Z' : /[zZ]|[+-]\d{2}(:?\d{2})?$/.test(String(v).slice(10)) ? '' : 'Z'));
+  return isNaN(d.getTime()) ? null : d;
+};
+const formatDate = (d: Date) => `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
+const formatTimestamp = (d: Date) => `${formatDate(d)} ${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}:${pad(d.getUTCSeconds())}`;
+
+const INTERVAL_UNITS: Record<string, [keyof Omit<Interval, '__interval'>, number]> = {
+  year: ['months', 12], years: ['months', 12], mon: ['months', 1], mons: ['months', 1], month: ['months', 1], months: ['months', 1],
+  week: ['days', 7], weeks: ['days', 7], day: ['days', 1], days: ['days', 1],
+  hour: ['ms', 3600000], hours: ['ms', 3600000], minute: ['ms', 60000], minutes: ['ms', 60000], min: ['ms', 60000], mins: ['ms', 60000],
+  second: ['ms', 1000], seconds: ['ms', 1000], sec: ['ms', 1000], secs: ['ms', 1000]
+};
+
+const parseInterval = (text: string): Interval | null => {
+  const interval: Interval = { __interval: true, months: 0, days: 0, ms: 0 };
+  const re = /(-?\d+(?:\.\d+)?)\s*([a-z]+)|(-?\d+):(\d{2})(?::(\d{2}))?/gi;
+  let match: RegExpExecArray | null;
+  let found = false;
+  while ((match = re.exec(text))) {
+    found = true;
+    if (match[3] !== undefined) {
+      interval.ms += (Number(match[3]) * 3600 + Number(match[4]) * 60 + Number(match[5] || 0)) * 1000;
+      continue;
+    }
+    const unit = INTERVAL_UNITS[match[2].toLowerCase()];
+    if (!unit) return null;
+    interval[unit[0]] += Number(match[1]) * unit[1];
+  }
+  return found ? interval : null;
+};
+
+const formatInterval = (v: Interval) => {
+  const parts: string[] = [];
+  const years = Math.trunc(v.months / 12);
+  const months = v.months % 12;
+  if (years) parts.push(`${years} year${Math.abs(years) === 1 ? '' : 's'}`);
+  if (months) parts.push(`${months} mon${Math.abs(months) === 1 ? '' : 's'}`);
+  if (v.days) parts.push(`${v.days} day${Math.abs(v.days) === 1 ? '' : 's'}`);
+  if (v.ms || parts.length === 0) {
+    const total = Math.abs(v.ms) / 1000;
+    const time = `${pad(Math.floor(total / 3600))}:${pad(Math.floor(total % 3600 / 60))}:${pad(Math.floor(total % 60))}`;
+    parts.push(v.ms < 0 ? `-${time}` : time);
+  }
+  return parts.join(' ');
+};
+
+const addInterval = (d: Date, v: Interval, sign: number): Date => {
+  const out = new Date(d.getTime());
+  if (v.months) {
+    // Fim de mês é ajustado como no PostgreSQL: 31/01 + 1 mês = 29/02
+    const day = out.getUTCDate();
+    out.setUTCDate(1);
+    out.setUTCMonth(out.getUTCMonth() + sign * v.months);
+    out.setUTCDate(Math.min(day, new Date(Date.UTC(out.getUTCFullYear(), out.getUTCMonth() + 1, 0)).getUTCDate()));
+  }
+  if (v.days) out.setUTCDate(out.getUTCDate() + sign * v.days);
+  out.setTime(out.getTime() + sign * v.ms);
+  return out;
+};
+
+const truthy = (v: any): boolean | null => {
+  if (v === null || v === undefined) return null;
+  if (typeof v === 'boolean') return v;
+  if (typeof v === 'number') return v !== 0;
+  const s = String(v).trim().toLowerCase();
+  if (['t', 'true', 'y', 'yes', 'on', '1'].includes(s)) return true;
+  if (['f', 'false', 'n', 'no', 'off', '0'].includes(s)) return false;
+  throw sqlError(`sintaxe de entrada é inválida para tipo boolean: "${v}"`, '22P02');
+};
+
+const toText = (v: any): string => {
+  if (typeof v === 'boolean') return v ? 'true' : 'false';
+  if (isInterval(v)) return formatInterval(v);
+  if (Array.isArray(v)) return `{${v.map(item => item === null ? 'NULL' : toText(item)).join(',')}}`;
+  if (v !== null && typeof v === 'object') return JSON.stringify(v);
+  return String(v);
+};
+
+const toNumber = (v: any, type = 'numeric'): number => {
+  if (typeof v === 'number') return v;
+  if (typeof v === 'boolean' && type !== 'numeric') return v ? 1 : 0;
+  if (isNumericString(v)) return Number(v);
+  throw sqlError(`sintaxe de entrada é inválida para tipo ${type}: "${toText(v)}"`, '22P02');
+};
+
+/** Comparação com tipos: números como números, datas e textos pela ordem do texto. */
+const compareValues = (a: any, b: any): number => {
+  if (typeof a === 'number' || typeof b === 'number') {
+    if ((typeof a === 'number' || isNumericString(a)) && (typeof b === 'number' || isNumericString(b))) return Number(a) - Number(b);
+  }
+  if (typeof a === 'boolean' || typeof b === 'boolean') return Number(truthy(a)) - Number(truthy(b));
+  if (isInterval(a) && isInterval(b)) {
+    const total = (v: Interval) => v.months * 30 * 86400000 + v.days * 86400000 + v.ms;
+    return total(a) - total(b);
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    for (let k = 0; k < Math.min(a.length, b.length); k++) {
+      const c = a[k] === null ? (b[k] === null ? 0 : 1) : b[k] === null ? -1 : compareValues(a[k], b[k]);
+      if (c !== 0) return c;
+    }
+    return a.length - b.length;
+  }
+  const sa = toText(a);
+  const sb = toText(b);
+  return sa < sb ? -1 : sa > sb ? 1 : 0;
+};
+
+/** Ordem do ORDER BY: NULL é maior que qualquer valor (último no ASC, primeiro no DESC). */
+const compareForSort = (a: any, b: any, item: { desc: boolean; nulls?: 'first' | 'last' }): number => {
+  const nullsFirst = item.nulls ? item.nulls === 'first' : item.desc;
+  if (a === null || b === null) {
+    if (a === null && b === null) return 0;
+    return (a === null) === nullsFirst ? -1 : 1;
+  }
+  const c = compareValues(a, b);
+  return item.desc ? -c : c;
+};
+
+const valueKey = (values: any[]) => JSON.stringify(values.map(v => {
+  if (v === null || v === undefined) return null;
+  if (typeof v === 'number') return v;
+  if (isNumericString(v)) return Number(v);
+  if (isInterval(v)) return formatInterval(v);
+  return toText(v);
+}));
+
+const NUMERIC_TYPES = /^(int|integer|int2|int4|int8|smallint|bigint|serial|bigserial|smallserial|numeric|decimal|real|float|float4|float8|double precision|money)\b/;
+
+/** CAST para o tipo (nome como no PostgreSQL, ex: "integer", "varchar(80)", "timestamp with time zone"). */
+const castValue = (value: any, rawType: string, token?: SqlToken): any => {
+  if (value === null || value === undefined) return null;
+  const type = rawType.toLowerCase().replace(/\(.*\)/, '').trim();
+  try {
+    if (type.endsWith('[]')) {
+      const items = Array.isArray(value) ? value : String(value).replace(/^\{|\}$/g, '').split(',').filter(s => s !== '');
+      return items.map(item => castValue(item === 'NULL' ? null : item, type.slice(0, -2), token));
+    }
+    if (INTEGER_TYPES.test(type)) {
+      if (typeof value === 'string' && !/^\s*[+-]?\d+\s*$/.test(value)) throw sqlError(`sintaxe de entrada é inválida para tipo integer: "${value}"`, '22P02', token);
+      const n = toNumber(value, 'integer');
+      return n < 0 ? -Math.round(-n) : Math.round(n);
+    }
+    if (NUMERIC_TYPES.test(type)) {
+      const n = toNumber(value, type);
+      const scale = rawType.match(/^\s*(?:numeric|decimal)\s*\(\s*\d+\s*,\s*(\d+)\s*\)/i);
+      return scale ? Number(n.toFixed(Number(scale[1]))) : n;
+    }
+    if (type === 'bool' || type === 'boolean') return truthy(value);
+    if (/^(text|varchar|char|character|character varying|bpchar|name|citext|uuid)$/.test(type)) return toText(value);
+    if (type === 'date') {
+      const d = toDate(value);
+      if (!d) throw sqlError(`sintaxe de entrada é inválida para tipo date: "${toText(value)}"`, '22007', token);
+      return formatDate(d);
+    }
+    if (type.startsWith('timestamp') || type === 'timestamptz') {
+      const d = toDate(value);
+      if (!d) throw sqlError(`sintaxe de entrada é inválida para tipo timestamp: "${toText(value)}"`, '22007', token);
+      return formatTimestamp(d);
+    }
+    if (type === 'interval') {
+      if (isInterval(value)) return value;
+      const interval = parseInterval(String(value));
+      if (!interval) throw sqlError(`sintaxe de entrada é inválida para tipo interval: "${toText(value)}"`, '22007', token);
+      return interval;
+    }
+    if (type === 'json' || type === 'jsonb') {
+      if (typeof value !== 'string') return value;
+      JSON.parse(value);
+      return value;
+    }
+    return value;
+  } catch (e: any) {
+    if (e.details) throw e;
+    throw sqlError(`sintaxe de entrada é inválida para tipo ${type}: "${toText(value)}"`, '22P02', token);
+  }
+};
+
+const parseJson = (v: any) => {
+  if (typeof v !== 'string') return v;
+  try { return JSON.parse(v); } catch { throw sqlError(`sintaxe de entrada é inválida para tipo json`, '22P02'); }
+};
+
+const likeToRegex = (pattern: string, insensitive: boolean) => {
+  let source = '';
+  for (let k = 0; k < pattern.length; k++) {
+    const c = pattern[k];
+    if (c === '\\' && k + 1 < pattern.length) { source += pattern[++k].replace(/[.*+?^${}()|[\]\\]/g, '\\$&'); continue; }
+    source += c === '%' ? '[\\s\\S]*' : c === '_' ? '[\\s\\S]' : c.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+  return new RegExp(`^${source}$`, insensitive ? 'i' : '');
+};
+
+const TO_CHAR_PATTERNS: [RegExp, (d: Date) => string][] = [
+  [/YYYY/g, d => String(d.getUTCFullYear())],
+  [/MM/g, d => pad(d.getUTCMonth() + 1)],
+  [/DD/g, d => pad(d.getUTCDate())],
+  [/HH24/g, d => pad(d.getUTCHours())],
+  [/HH12|HH/g, d => pad(d.getUTCHours() % 12 || 12)],
+  [/MI/g, d => pad(d.getUTCMinutes())],
+  [/SS/g, d => pad(d.getUTCSeconds())],
+  [/YY/g, d => String(d.getUTCFullYear()).slice(2)],
+];
+
+const dateTrunc = (field: string, d: Date): Date => {
+  const out = new Date(d.getTime());
+  const order = ['second', 'minute', 'hour', 'day', 'week', 'month', 'quarter', 'year'];
+  const level = order.indexOf(field);
+  if (level === -1) throw sqlError(`unidade "${field}" não é reconhecida`, '22023');
+  if (level >= 0) out.setUTCMilliseconds(0);
+  if (level >= 1) out.setUTCSeconds(0);
+  if (level >= 2) out.setUTCMinutes(0);
+  if (level >= 3) out.setUTCHours(0);
+  if (field === 'week') out.setUTCDate(out.getUTCDate() - ((out.getUTCDay() + 6) % 7));
+  if (level >= 5) out.setUTCDate(1);
+  if (field === 'quarter') out.setUTCMonth(Math.floor(out.getUTCMonth() / 3) * 3);
+  if (field === 'year') out.setUTCMonth(0);
+  return out;
+};
+
+const datePart = (field: string, v: any): number | null => {
+  if (isInterval(v)) {
+    if (field === 'epoch') return (v.months * 30 + v.days) * 86400 + v.ms / 1000;
+    if (field === 'day' || field === 'days') return v.days;
+    if (field === 'month') return v.months % 12;
+    if (field === 'year') return Math.trunc(v.months / 12);
+    if (field === 'hour') return Math.trunc(v.ms / 3600000);
+    return null;
+  }
+  const d = toDate(v);
+  if (!d) throw sqlError(`sintaxe de entrada é inválida para tipo timestamp: "${toText(v)}"`, '22007');
+  switch (field) {
+    case 'year': return d.getUTCFullYear();
+    case 'quarter': return Math.floor(d.getUTCMonth() / 3) + 1;
+    case 'month': return d.getUTCMonth() + 1;
+    case 'week': {
+      const t = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+      t.setUTCDate(t.getUTCDate() + 4 - (t.getUTCDay() || 7));
+      return Math.ceil(((t.getTime() - Date.UTC(t.getUTCFullYear(), 0, 1)) / 86400000 + 1) / 7);
+    }
+    case 'day': return d.getUTCDate();
+    case 'dow': return d.getUTCDay();
+    case 'isodow': return d.getUTCDay() || 7;
+    case 'doy': return Math.floor((d.getTime() - Date.UTC(d.getUTCFullYear(), 0, 1)) / 86400000) + 1;
+    case 'hour': return d.getUTCHours();
+    case 'minute': return d.getUTCMinutes();
+    case 'second': return d.getUTCSeconds();
+    case 'epoch': return d.getTime() / 1000;
+    default: throw sqlError(`unidade "${field}" não é reconhecida`, '22023');
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Execução
+// ---------------------------------------------------------------------------
+
+interface RelColumn {
+  name: string;
+  table?: string; // Nome ou alias pelo qual a tabela é referida
+  schema?: string; // Só quando a tabela não tem alias (schema.tabela.coluna)
+  hidden?: boolean; // Coluna repetida de JOIN USING: fora do * e de referências sem qualificador
+  type?: string;
+  source?: string; // schema.tabela de origem (para ResultField)
+  pk?: boolean;
+}
+
+interface Relation {
+  columns: RelColumn[];
+  rows: any[][];
+}
+
+interface RowContext {
+  columns: RelColumn[];
+  row: any[];
+  group?: any[][]; // Linhas do grupo quando o comando agrega
+  windows?: Map<Expr, any[]>; // Valores das funções de janela, por índice da linha
+  windowIndex?: number;
+  outer?: RowContext; // Consulta externa (subconsultas correlacionadas)
+}
+
+interface Env {
+  schema: DatabaseSchema;
+  data: SimulationData;
+  params: any[];
+  ctes: Map<string, Relation>[];
+}
+
+const same = (a: string | undefined, b: string | undefined) => !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+const tableKey = (table: Table) => `${table.schema || 'public'}.${table.name}`;
+
+const findTable = (env: Env, name: TableName): Table => {
+  const candidates = env.schema.tables.filter(t => same(t.name, name.name));
+  const table = name.schema
+    ? candidates.find(t => same(t.schema || 'public', name.schema))
+    : candidates.find(t => (t.schema || 'public') === 'public') || candidates[0];
+  if (!table) {
+    const label = name.schema ? `${name.schema}.${name.name}` : name.name;
+    throw sqlError(`relação "${label}" não existe`, '42P01', name.token);
+  }
+  return table;
+};
+
+const findCte = (env: Env, name: string): Relation | undefined => {
+  for (let k = env.ctes.length - 1; k >= 0; k--) {
+    const found = [...env.ctes[k].entries()].find(([key]) => same(key, name));
+    if (found) return found[1];
+  }
+  return undefined;
+};
+
+const tableColumns = (table: Table, label: string, withSchema: boolean): RelColumn[] =>
+  table.columns.map(col => ({
+    name: col.name, table: label, schema: withSchema ? table.schema || 'public' : undefined,
+    type: col.type, source: tableKey(table), pk: !!col.isPrimaryKey
+  }));
+
+const tableRows = (env: Env, table: Table): any[][] =>
+  (env.data[tableKey(table)] || []).map(row => table.columns.map(col => row[col.name] ?? null));
+
+const matchColumns = (columns: RelColumn[], parts: string[]): number[] => {
+  const name = parts[parts.length - 1];
+  const table = parts.length > 1 ? parts[parts.length - 2] : undefined;
+  const schema = parts.length > 2 ? parts[parts.length - 3] : undefined;
+  const found: number[] = [];
+  columns.forEach((col, k) => {
+    if (!same(col.name, name)) return;
+    if (table ? !same(col.table, table) : col.hidden) return;
+    if (schema && !same(col.schema, schema)) return;
+    found.push(k);
+  });
+  return found;
+};
+
+const resolveColumn = (expr: Expr & { kind: 'column' }, ctx: RowContext | undefined): any => {
+  for (let scope = ctx; scope; scope = scope.outer) {
+    const found = matchColumns(scope.columns, expr.parts);
+    if (found.length > 1) throw sqlError(`referência à coluna "${expr.parts.join('.')}" é ambígua`, '42702', expr.token);
+    if (found.length === 1) return scope.row[found[0]];
+  }
+  if (expr.parts.length > 1) {
+    const table = expr.parts[expr.parts.length - 2];
+    let known = false;
+    for (let scope = ctx; scope; scope = scope.outer) if (scope.columns.some(c => same(c.table, table))) known = true;
+    if (!known) throw sqlError(`faltando entrada para tabela "${table}" na cláusula FROM`, '42P01', expr.token);
+    throw sqlError(`coluna ${expr.parts.join('.')} não existe`, '42703', expr.token);
+  }
+  throw sqlError(`coluna "${expr.parts[0]}" não existe`, '42703', expr.token);
+};
+
+/** Percorre a expressão sem entrar em subconsultas. */
+const visitExpr = (expr: Expr | undefined, visit: (e: Expr) => boolean | void) => {
+  if (!expr || visit(expr) === false) return;
+  const children: (Expr | undefined)[] = [];
+  switch (expr.kind) {
+    case 'unary': children.push(expr.operand); break;
+    case 'binary': children.push(expr.left, expr.right); break;
+    case 'is': children.push(expr.operand); break;
+    case 'distinct': children.push(expr.left, expr.right); break;
+    case 'between': children.push(expr.operand, expr.low, expr.high); break;
+    case 'in': children.push(expr.operand, ...(expr.list || [])); break;
+    case 'like': children.push(expr.operand, expr.pattern); break;
+    case 'quantified': children.push(expr.operand, expr.list); break;
+    case 'case': children.push(expr.operand, ...expr.whens.flatMap(w => [w.when, w.then]), expr.otherwise); break;
+    case 'cast': children.push(expr.operand); break;
+    case 'call': children.push(...expr.args, expr.filter, ...expr.order.map(o => o.expr)); break;
+    case 'array': children.push(...expr.items); break;
+  }
+  children.forEach(child => visitExpr(child, visit));
+};
+
+const isAggregateCall = (expr: Expr) => expr.kind === 'call' && !expr.over && AGGREGATES.includes(expr.name);
+
+const containsAggregate = (expr: Expr | undefined): boolean => {
+  let found = false;
+  visitExpr(expr, e => {
+    if (isAggregateCall(e)) { found = true; return false; }
+    if (e.kind === 'call' && e.over) return false;
+  });
+  return found;
+};
+
+const collectWindowCalls = (expr: Expr | undefined, out: (Expr & { kind: 'call' })[]) => {
+  visitExpr(expr, e => {
+    if (e.kind === 'call' && e.over) { out.push(e); return false; }
+  });
+};
+
+const arithmetic = (op: string, a: any, b: any, token: SqlToken, integerDivision = false): any => {
+  // Datas e intervalos
+  if (op === '+' || op === '-') {
+    if (isInterval(a) && isInterval(b)) {
+      const s = op === '+' ? 1 : -1;
+      return { __interval: true, months: a.months + s * b.months, days: a.days + s * b.days, ms: a.ms + s * b.ms };
+    }
+    if (isDateLike(a) && isInterval(b)) return formatTimestamp(addInterval(toDate(a)!, b, op === '+' ? 1 : -1));
+    if (isInterval(a) && isDateLike(b) && op === '+') return formatTimestamp(addInterval(toDate(b)!, a, 1));
+    if (isDateLike(a) && typeof b === 'number') {
+      const d = toDate(a)!;
+      d.setUTCDate(d.getUTCDate() + (op === '+' ? b : -b));
+      return String(a).length <= 10 ? formatDate(d) : formatTimestamp(d);
+    }
+    if (op === '-' && isDateLike(a) && isDateLike(b)) {
+      const diff = toDate(a)!.getTime() - toDate(b)!.getTime();
+      if (String(a).length <= 10 && String(b).length <= 10) return Math.round(diff / 86400000);
+      const days = Math.trunc(diff / 86400000);
+      return { __interval: true, months: 0, days, ms: diff - days * 86400000 };
+    }
+  }
+  if (op === '*' && (isInterval(a) || isInterval(b))) {
+    const [v, n] = isInterval(a) ? [a, toNumber(b)] : [b as Interval, toNumber(a)];
+    return { __interval: true, months: v.months * n, days: v.days * n, ms: v.ms * n };
+  }
+  const x = toNumber(a);
+  const y = toNumber(b);
+  switch (op) {
+    case '+': return x + y;
+    case '-': return x - y;
+    case '*': return x * y;
+    case '/':
+    case '%': {
+      if (y === 0) throw sqlError('divisão por zero', '22012', token);
+      if (op === '%') return x % y;
+      return integerDivision ? Math.trunc(x / y) : x / y;
+    }
+    case '^': return Math.pow(x, y);
+  }
+  throw sqlError(`operador não existe: ${op}`, '42883', token);
+};
+
+const INTEGER_TYPES = /^(int|integer|int2|int4|int8|smallint|bigint|serial|bigserial|smallserial)$/;
+const INTEGER_FUNCTIONS = ['count', 'row_number', 'rank', 'dense_rank', 'ntile', 'length', 'char_length', 'strpos'];
+
+/** Tipo estático inteiro (literal sem casa decimal, coluna/cast inteiro, contagens...). */
+const isIntegerExpr = (expr: Expr, ctx: RowContext | undefined): boolean => {
+  switch (expr.kind) {
+    case 'literal': return !!expr.integer;
+    case 'column': {
+      for (let scope = ctx; scope; scope = scope.outer) {
+        const found = matchColumns(scope.columns, expr.parts);
+        if (found.length === 1) return INTEGER_TYPES.test((scope.columns[found[0]].type || '').toLowerCase());
+      }
+      return false;
+    }
+    case 'cast': return INTEGER_TYPES.test(expr.type.toLowerCase().replace(/\(.*\)/, '').trim());
+    case 'unary': return expr.op === '-' && isIntegerExpr(expr.operand, ctx);
+    case 'binary': return ['+', '-', '*', '/', '%'].includes(expr.op) && isIntegerExpr(expr.left, ctx) && isIntegerExpr(expr.right, ctx);
+    case 'case': return expr.whens.every(w => isIntegerExpr(w.then, ctx)) && (!expr.otherwise || isIntegerExpr(expr.otherwise, ctx));
+    case 'call':
+      if (INTEGER_FUNCTIONS.includes(expr.name)) return true;
+      return ['sum', 'min', 'max', 'abs', 'coalesce', 'lag', 'lead', 'first_value', 'last_value'].includes(expr.name)
+        && expr.args.length > 0 && isIntegerExpr(expr.args[0], ctx);
+    default: return false;
+  }
+};
+
+const compareOp = (op: string, a: any, b: any): boolean | null => {
+  if (a === null || a === undefined || b === null || b === undefined) return null;
+  const c = compareValues(a, b);
+  switch (op) {
+    case '=': return c === 0;
+    case '<>': return c !== 0;
+    case '<': return c < 0;
+    case '>': return c > 0;
+    case '<=': return c <= 0;
+    case '>=': return c >= 0;
+  }
+  return null;
+};
+
+const substringOf = ([s, from, count]: any[]) => {
+  if (s === null || from === null) return null;
+  const chars = [...toText(s)];
+  const start = toNumber(from) - 1;
+  const end = count === undefined || count === null ? chars.length : start + toNumber(count);
+  return chars.slice(Math.max(0, start), Math.max(0, end)).join('');
+};
+
+const SCALAR_FUNCTIONS: Record<string, (args: any[], token: SqlToken) => any> = {
+  coalesce: args => args.find(v => v !== null && v !== undefined) ?? null,
+  nullif: ([a, b]) => compareOp('=', a, b) ? null : a,
+  greatest: args => args.filter(v => v !== null).reduce((m, v) => m === null || compareValues(v, m) > 0 ? v : m, null),
+  least: args => args.filter(v => v !== null).reduce((m, v) => m === null || compareValues(v, m) < 0 ? v : m, null),
+  lower: ([s]) => s === null ? null : toText(s).toLowerCase(),
+  upper: ([s]) => s === null ? null : toText(s).toUpperCase(),
+  initcap: ([s]) => s === null ? null : toText(s).toLowerCase().replace(/(^|[^a-z0-9à-ú])([a-zà-ú])/g, (_, p, c) => p + c.toUpperCase()),
+  length: ([s]) => s === null ? null : [...toText(s)].length,
+  char_length: ([s]) => s === null ? null : [...toText(s)].length,
+  btrim: ([s, chars]) => s === null ? null : trimChars(toText(s), chars ?? ' ', true, true),
+  ltrim: ([s, chars]) => s === null ? null : trimChars(toText(s), chars ?? ' ', true, false),
+  rtrim: ([s, chars]) => s === null ? null : trimChars(toText(s), chars ?? ' ', false, true),
+  substring: substringOf,
+  substr: substringOf,
+  replace: ([s, from, to]) => s === null || from === null || to === null ? null : toText(s).split(toText(from)).join(toText(to)),
+  concat: args => args.filter(v => v !== null).map(toText).join(''),
+  concat_ws: ([sep, ...args]) => sep === null ? null : args.filter(v => v !== null).map(toText).join(toText(sep)),
+  split_part: ([s, sep, n]) => s === null ? null : toText(s).split(toText(sep))[toNumber(n) - 1] ?? '',
+  left: ([s, n]) => s === null ? null : (toNumber(n) >= 0 ? [...toText(s)].slice(0, toNumber(n)) : [...toText(s)].slice(0, toNumber(n))).join(''),
+  right: ([s, n]) => s === null ? null : (toNumber(n) >= 0 ? [...toText(s)].slice(-toNumber(n) || Infinity) : [...toText(s)].slice(-toNumber(n))).join(''),
+  strpos: ([s, needle]) => s === null || needle === null ? null : toText(s).indexOf(toText(needle)) + 1,
+  lpad: ([s, n, fill]) => s === null ? null : padText(toText(s), toNumber(n), fill ?? ' ', true),
+  rpad: ([s, n, fill]) => s === null ? null : padText(toText(s), toNumber(n), fill ?? ' ', false),
+  reverse: ([s]) => s === null ? null : [...toText(s)].reverse().join(''),
+  repeat: ([s, n]) => s === null ? null : toText(s).repeat(Math.max(0, toNumber(n))),
+  md5: () => { throw sqlError('função md5 não é suportada no modo simulado', '0A000'); },
+  round: ([n, places]) => {
+    if (n === null) return null;
+    const factor = Math.pow(10, places === undefined || places === null ? 0 : toNumber(places));
+    const x = toNumber(n) * factor;
+    return (x < 0 ? -Math.round(-x) : Math.round(x)) / factor;
+  },
+  trunc: ([n, places]) => {
+    if (n === null) return null;
+    const factor = Math.pow(10, places === undefined || places === null ? 0 : toNumber(places));
+    return Math.trunc(toNumber(n) * factor) / factor;
+  },
+  ceil: ([n]) => n === null ? null : Math.ceil(toNumber(n)),
+  ceiling: ([n]) => n === null ? null : Math.ceil(toNumber(n)),
+  floor: ([n]) => n === null ? null : Math.floor(toNumber(n)),
+  abs: ([n]) => n === null ? null : Math.abs(toNumber(n)),
+  sign: ([n]) => n === null ? null : Math.sign(toNumber(n)),
+  sqrt: ([n]) => n === null ? null : Math.sqrt(toNumber(n)),
+  power: ([a, b]) => a === null || b === null ? null : Math.pow(toNumber(a), toNumber(b)),
+  mod: ([a, b], token) => a === null || b === null ? null : arithmetic('%', toNumber(a), toNumber(b), token),
+  random: () => Math.random(),
+  now: () => formatTimestamp(new Date()),
+  current_timestamp: () => formatTimestamp(new Date()),
+  localtimestamp: () => formatTimestamp(new Date()),
+  current_date: () => formatDate(new Date()),
+  current_time: () => formatTimestamp(new Date()).slice(11),
+  current_user: () => 'simulado',
+  session_user: () => 'simulado',
+  date_trunc: ([field, v]) => {
+    if (field === null || v === null) return null;
+    const d = toDate(v);
+    if (!d) throw sqlError(`sintaxe de entrada é inválida para tipo timestamp: "${toText(v)}"`, '22007');
+    return formatTimestamp(dateTrunc(toText(field).toLowerCase(), d));
+  },
+  date_part: ([field, v]) => field === null || v === null ? null : datePart(toText(field).toLowerCase(), v),
+  age: ([a, b]) => {
+    if (a === null) return null;
+    const from = toDate(b === undefined ? formatDate(new Date()) : a);
+    const to = toDate(b === undefined ? a : b);
+    if (!from || !to) return null;
+    let months = (from.getUTCFullYear() - to.getUTCFullYear()) * 12 + from.getUTCMonth() - to.getUTCMonth();
+    let days = from.getUTCDate() - to.getUTCDate();
+    if (days < 0) { months--; days += new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), 0)).getUTCDate(); }
+    return { __interval: true, months, days, ms: 0 };
+  },
+  to_char: ([v, format]) => {
+    if (v === null || format === null) return null;
+    const d = toDate(v);
+    if (!d) return toText(v);
+    return TO_CHAR_PATTERNS.reduce((text, [re, fn]) => text.replace(re, () => fn(d)), toText(format));
+  },
+  to_date: ([v]) => v === null ? null : castValue(v, 'date'),
+  to_timestamp: ([v]) => v === null ? null : typeof v === 'number' ? formatTimestamp(new Date(v * 1000)) : castValue(v, 'timestamp'),
+  array_length: ([a]) => Array.isArray(a) && a.length > 0 ? a.length : null,
+  cardinality: ([a]) => Array.isArray(a) ? a.length : null,
+  json_build_object: args => buildObject(args),
+  jsonb_build_object: args => buildObject(args),
+  to_json: ([v]) => v,
+  to_jsonb: ([v]) => v,
+  __subscript: ([a, index]) => Array.isArray(a) && index !== null ? a[toNumber(index) - 1] ?? null : null,
+};
+
+const trimChars = (s: string, chars: string, start: boolean, end: boolean) => {
+  let a = 0;
+  let b = s.length;
+  while (start && a < b && chars.includes(s[a])) a++;
+  while (end && b > a && chars.includes(s[b - 1])) b--;
+  return s.slice(a, b);
+};
+
+const padText = (s: string, n: number, fill: string, left: boolean) => {
+  if (s.length >= n) return s.slice(0, n);
+  const padding = fill.repeat(Math.ceil((n - s.length) / Math.max(1, fill.length))).slice(0, n - s.length);
+  return left ? padding + s : s + padding;
+};
+
+const buildObject = (args: any[]) => {
+  const obj: Record<string, any> = {};
+  for (let k = 0; k + 1 < args.length; k += 2) obj[toText(args[k])] = args[k + 1];
+  return obj;
+};
+
+const runSubquery = (env: Env, query: Query, ctx: RowContext | undefined): Relation => runQuery(env, query, ctx);
+
+const evalExpr = (env: Env, expr: Expr, ctx: RowContext | undefined): any => {
+  switch (expr.kind) {
+    case 'literal': return expr.value;
+    case 'default': return null;
+    case 'column': return resolveColumn(expr, ctx);
+    case 'param': {
+      if (expr.index < 1 || expr.index > env.params.length) throw sqlError(`não há parâmetro $${expr.index}`, '42P02', expr.token);
+      const value = env.params[expr.index - 1];
+      return value === undefined ? null : value;
+    }
+    case 'unary': {
+      const v = evalExpr(env, expr.operand, ctx);
+      if (expr.op === 'not') { const b = truthy(v); return b === null ? null : !b; }
+      if (v === null) return null;
+      if (isInterval(v)) return { __interval: true, months: -v.months, days: -v.days, ms: -v.ms };
+      return -toNumber(v);
+    }
+    case 'binary': {
+      if (expr.op === 'and') {
+        const a = truthy(evalExpr(env, expr.left, ctx));
+        if (a === false) return false;
+        const b = truthy(evalExpr(env, expr.right, ctx));
+        if (b === false) return false;
+        return a === null || b === null ? null : true;
+      }
+      if (expr.op === 'or') {
+        const a = truthy(evalExpr(env, expr.left, ctx));
+        if (a === true) return true;
+        const b = truthy(evalExpr(env, expr.right, ctx));
+        if (b === true) return true;
+        return a === null || b === null ? null : false;
+      }
+      const a = evalExpr(env, expr.left, ctx);
+      const b = evalExpr(env, expr.right, ctx);
+      if (COMPARISON.includes(expr.op)) return compareOp(expr.op, a, b);
+      if (a === null || b === null) return null;
+      switch (expr.op) {
+        case '||': return Array.isArray(a) ? [...a, ...(Array.isArray(b) ? b : [b])] : toText(a) + toText(b);
+        case '->': case '->>': {
+          const json = parseJson(a);
+          const value = json === null || typeof json !== 'object' ? undefined : Array.isArray(json) ? json[toNumber(b)] : json[toText(b)];
+          if (value === undefined || value === null) return null;
+          return expr.op === '->>' ? (typeof value === 'object' ? JSON.stringify(value) : toText(value)) : value;
+        }
+        case '~': case '~*': case '!~': case '!~*': {
+          const matched = new RegExp(toText(b), expr.op.includes('*') ? 'i' : '').test(toText(a));
+          return expr.op.startsWith('!') ? !matched : matched;
+        }
+        case '@>': case '<@': {
+          const [outer, inner] = expr.op === '@>' ? [a, b] : [b, a];
+          if (Array.isArray(outer)) return (Array.isArray(inner) ? inner : [inner]).every(v => outer.some(o => compareValues(o, v) === 0));
+          const container = parseJson(outer);
+          const contained = parseJson(inner);
+          return Object.entries(contained || {}).every(([k, v]) => JSON.stringify(container?.[k]) === JSON.stringify(v));
+        }
+      }
+      // integer / integer trunca, como no PostgreSQL (decidido pelo tipo, não pelo valor)
+      return arithmetic(expr.op, a, b, expr.token, expr.op === '/' && isIntegerExpr(expr.left, ctx) && isIntegerExpr(expr.right, ctx));
+    }
+    case 'is': {
+      const v = evalExpr(env, expr.operand, ctx);
+      let result: boolean;
+      if (expr.test === 'null' || expr.test === 'unknown') result = v === null || v === undefined;
+      else result = truthy(v) === (expr.test === 'true');
+      return expr.negated ? !result : result;
+    }
+    case 'distinct': {
+      const a = evalExpr(env, expr.left, ctx);
+      const b = evalExpr(env, expr.right, ctx);
+      const equal = a === null || b === null ? a === b : compareValues(a, b) === 0;
+      return expr.negated ? equal : !equal;
+    }
+    case 'between': {
+      const v = evalExpr(env, expr.operand, ctx);
+      const low = compareOp('>=', v, evalExpr(env, expr.low, ctx));
+      const high = compareOp('<=', v, evalExpr(env, expr.high, ctx));
+      const result = low === false || high === false ? false : low === null || high === null ? null : true;
+      return result === null ? null : expr.negated ? !result : result;
+    }
+    case 'in': {
+      const v = evalExpr(env, expr.operand, ctx);
+      const candidates = expr.query
+        ? runSubquery(env, expr.query, ctx).rows.map(row => row[0])
+        : expr.list!.map(item => evalExpr(env, item, ctx));
+      if (v === null) return candidates.length === 0 ? expr.negated : null;
+      let sawNull = false;
+      for (const candidate of candidates) {
+        const eq = compareOp('=', v, candidate);
+        if (eq) return !expr.negated;
+        if (eq === null) sawNull = true;
+      }
+      return sawNull ? null : expr.negated;
+    }
+    case 'like': {
+      const v = evalExpr(env, expr.operand, ctx);
+      const pattern = evalExpr(env, expr.pattern, ctx);
+      if (v === null || pattern === null) return null;
+      const matched = likeToRegex(toText(pattern), expr.insensitive).test(toText(v));
+      return expr.negated ? !matched : matched;
+    }
+    case 'quantified': {
+      const v = evalExpr(env, expr.operand, ctx);
+      const candidates = expr.query ? runSubquery(env, expr.query, ctx).rows.map(row => row[0]) : evalExpr(env, expr.list!, ctx);
+      if (candidates === null) return null;
+      if (!Array.isArray(candidates)) throw sqlError('o argumento de ANY/ALL deve ser um array', '42809', expr.token);
+      let sawNull = false;
+      for (const candidate of candidates) {
+        const r = compareOp(expr.op, v, candidate);
+        if (r === null) sawNull = true;
+        else if (expr.all && !r) return false;
+        else if (!expr.all && r) return true;
+      }
+      return sawNull ? null : expr.all;
+    }
+    case 'case': {
+      const operand = expr.operand ? evalExpr(env, expr.operand, ctx) : undefined;
+      for (const { when, then } of expr.whens) {
+        const test = expr.operand ? compareOp('=', operand, evalExpr(env, when, ctx)) : truthy(evalExpr(env, when, ctx));
+        if (test === true) return evalExpr(env, then, ctx);
+      }
+      return expr.otherwise ? evalExpr(env, expr.otherwise, ctx) : null;
+    }
+    case 'cast': return castValue(evalExpr(env, expr.operand, ctx), expr.type, expr.token);
+    case 'exists': return runSubquery(env, expr.query, ctx).rows.length > 0;
+    case 'subquery': {
+      const result = runSubquery(env, expr.query, ctx);
+      if (result.columns.length !== 1) throw sqlError('subconsulta deve retornar apenas uma coluna', '42601', expr.token);
+      if (result.rows.length > 1) throw sqlError('mais de um registro foi retornado por uma subconsulta utilizada como uma expressão', '21000', expr.token);
+      return result.rows[0]?.[0] ?? null;
+    }
+    case 'array': return expr.items.map(item => evalExpr(env, item, ctx));
+    case 'call': return evalCall(env, expr, ctx);
+  }
+};
+
+const evalCall = (env: Env, call: Expr & { kind: 'call' }, ctx: RowContext | undefined): any => {
+  if (call.over) {
+    const values = ctx?.windows?.get(call);
+    if (!values || ctx!.windowIndex === undefined) throw sqlError('funções de janela não são permitidas aqui', '42P20', call.token);
+    return values[ctx!.windowIndex];
+  }
+  if (AGGREGATES.includes(call.name)) {
+    if (!ctx?.group) throw sqlError('funções de agregação não são permitidas aqui', '42803', call.token);
+    return computeAggregate(env, call, ctx.group.map(row => ({ ...ctx, row, group: undefined })));
+  }
+  if (WINDOW_ONLY.includes(call.name)) throw sqlError(`função de janela ${call.name} requer uma cláusula OVER`, '42809', call.token);
+  if (call.name === '__array_query') {
+    const sub = call.args[0] as Expr & { kind: 'subquery' };
+    return runSubquery(env, sub.query, ctx).rows.map(row => row[0]);
+  }
+  const fn = SCALAR_FUNCTIONS[call.name];
+  if (!fn) throw sqlError(`função ${call.name}() não existe`, '42883', call.token, { hint: 'Essa função não está disponível no modo simulado.' });
+  return fn(call.args.map(arg => evalExpr(env, arg, ctx)), call.token);
+};
+
+/** Agregado sobre as linhas (grupo do GROUP BY ou frame da janela). */
+const computeAggregate = (env: Env, call: Expr & { kind: 'call' }, contexts: RowContext[]): any => {
+  let rows = call.filter ? contexts.filter(c => truthy(evalExpr(env, call.filter!, c)) === true) : contexts;
+  if (call.star) return rows.length;
+  if (call.order.length > 0) rows = sortContexts(env, rows, call.order);
+  let values = rows.map(c => evalExpr(env, call.args[0], c));
+  const extra = call.name === 'string_agg' && rows.length > 0 ? evalExpr(env, call.args[1], rows[0]) : null;
+  if (call.distinct) {
+    const seen = new Set<string>();
+    values = values.filter(v => { const key = valueKey([v]); if (seen.has(key)) return false; seen.add(key); return true; });
+  }
+  const present = values.filter(v => v !== null && v !== undefined);
+  switch (call.name) {
+    case 'count': return present.length;
+    case 'sum': return present.length === 0 ? null : present.reduce((acc, v) => isInterval(acc) ? arithmetic('+', acc, v, call.token) : acc + toNumber(v), isInterval(present[0]) ? { __interval: true, months: 0, days: 0, ms: 0 } : 0);
+    case 'avg': return present.length === 0 ? null : present.reduce((acc, v) => acc + toNumber(v), 0) / present.length;
+    case 'min': return present.reduce((m, v) => m === null || compareValues(v, m) < 0 ? v : m, null);
+    case 'max': return present.reduce((m, v) => m === null || compareValues(v, m) > 0 ? v : m, null);
+    case 'string_agg': return present.length === 0 ? null : present.map(toText).join(extra === null ? '' : toText(extra));
+    case 'array_agg': return rows.length === 0 ? null : values;
+    case 'json_agg': case 'jsonb_agg': return rows.length === 0 ? null : values;
+    case 'bool_and': case 'every': return present.length === 0 ? null : present.every(v => truthy(v));
+    case 'bool_or': return present.length === 0 ? null : present.some(v => truthy(v));
+  }
+  return null;
+};
+
+const sortContexts = (env: Env, contexts: RowContext[], order: OrderItem[]): RowContext[] => {
+  const keyed = contexts.map(ctx => ({ ctx, keys: order.map(item => evalExpr(env, item.expr, ctx)) }));
+  keyed.sort((a, b) => {
+    for (let k = 0; k < order.length; k++) {
+      const c = compareForSort(a.keys[k], b.keys[k], order[k]);
+      if (c !== 0) return c;
+    }
+    return 0;
+  });
+  return keyed.map(entry => entry.ctx);
+};
+
+/** Valores de uma função de janela para cada contexto (mesma ordem da lista). */
+const computeWindow = (env: Env, call: Expr & { kind: 'call' }, contexts: RowContext[]): any[] => {
+  const spec = call.over!;
+  const values = new Array(contexts.length).fill(null);
+  const partitions = new Map<string, number[]>();
+  contexts.forEach((ctx, k) => {
+    const key = valueKey(spec.partitionBy.map(e => evalExpr(env, e, ctx)));
+    if (!partitions.has(key)) partitions.set(key, []);
+    partitions.get(key)!.push(k);
+  });
+
+  partitions.forEach(indexes => {
+    const orderKeys = new Map(indexes.map(k => [k, spec.orderBy.map(item => evalExpr(env, item.expr, contexts[k]))]));
+    const compare = (a: number, b: number) => {
+      for (let j = 0; j < spec.orderBy.length; j++) {
+        const c = compareForSort(orderKeys.get(a)![j], orderKeys.get(b)![j], spec.orderBy[j]);
+        if (c !== 0) return c;
+      }
+      return 0;
+    };
+    const sorted = [...indexes].sort(compare);
+    // Com ORDER BY o frame padrão vai do início da partição até o último par da linha atual
+    const frameEnd = (pos: number) => {
+      if (spec.orderBy.length === 0) return sorted.length - 1;
+      let end = pos;
+      while (end + 1 < sorted.length && compare(sorted[end + 1], sorted[pos]) === 0) end++;
+      return end;
+    };
+    let rank = 0;
+    let denseRank = 0;
+    sorted.forEach((k, pos) => {
+      const isPeer = pos > 0 && spec.orderBy.length > 0 && compare(sorted[pos - 1], k) === 0;
+      if (!isPeer) { rank = pos + 1; denseRank++; }
+      const ctx = contexts[k];
+      switch (call.name) {
+        case 'row_number': values[k] = pos + 1; break;
+        case 'rank': values[k] = spec.orderBy.length === 0 ? 1 : rank; break;
+        case 'dense_rank': values[k] = spec.orderBy.length === 0 ? 1 : denseRank; break;
+        case 'percent_rank': values[k] = sorted.length > 1 ? (rank - 1) / (sorted.length - 1) : 0; break;
+        case 'cume_dist': values[k] = (frameEnd(pos) + 1) / sorted.length; break;
+        case 'ntile': {
+          const buckets = toNumber(evalExpr(env, call.args[0], ctx));
+          values[k] = Math.floor(pos * buckets / sorted.length) + 1;
+          break;
+        }
+        case 'lag': case 'lead': {
+          const offset = call.args[1] ? toNumber(evalExpr(env, call.args[1], ctx)) : 1;
+          const target = call.name === 'lag' ? pos - offset : pos + offset;
+          values[k] = target >= 0 && target < sorted.length
+            ? evalExpr(env, call.args[0], contexts[sorted[target]])
+            : call.args[2] ? evalExpr(env, call.args[2], ctx) : null;
+          break;
+        }
+        case 'first_value': values[k] = evalExpr(env, call.args[0], contexts[sorted[0]]); break;
+        case 'last_value': values[k] = evalExpr(env, call.args[0], contexts[sorted[frameEnd(pos)]]); break;
+        default: {
+          if (!AGGREGATES.includes(call.name)) throw sqlError(`função ${call.name}() não existe`, '42883', call.token);
+          const frame = sorted.slice(0, frameEnd(pos) + 1).map(j => contexts[j]);
+          values[k] = computeAggregate(env, { ...call, over: undefined }, frame);
+        }
+      }
+    });
+  });
+  return values;
+};
+
+// --- FROM ---
+
+const tableLabels = (relation: Relation) =>
+  new Set(relation.columns.filter(c => c.table).map(c => `${(c.schema || '').toLowerCase()}.${c.table!.toLowerCase()}`));
+
+const assertDistinctTables = (left: Relation, right: Relation) => {
+  const labels = tableLabels(left);
+  const repeated = [...tableLabels(right)].find(label => labels.has(label));
+  if (repeated) throw sqlError(`nome da tabela "${repeated.split('.').pop()}" foi especificado mais de uma vez`, '42712');
+};
+
+const crossJoin = (left: Relation, right: Relation): Relation => {
+  assertDistinctTables(left, right);
+  return {
+    columns: [...left.columns, ...right.columns],
+    rows: left.rows.flatMap(l => right.rows.map(r => [...l, ...r]))
+  };
+};
+
+const renameColumns = (relation: Relation, alias: string | undefined, columnAliases?: string[]): Relation => ({
+  rows: relation.rows,
+  columns: relation.columns.map((col, k) => ({
+    ...col,
+    name: columnAliases?.[k] ?? col.name,
+    table: alias ?? col.table,
+    schema: alias ? undefined : col.schema
+  }))
+});
+
+const MAX_SERIES_ROWS = 100000;
+
+const evalFromItem = (env: Env, item: FromItem, outer: RowContext | undefined): Relation => {
+  switch (item.kind) {
+    case 'table': {
+      const cte = item.table.schema ? undefined : findCte(env, item.table.name);
+      if (cte) return renameColumns(cte, item.alias || item.table.name, item.columnAliases);
+      const table = findTable(env, item.table);
+      const relation = { columns: tableColumns(table, item.alias || table.name, !item.alias), rows: tableRows(env, table) };
+      return item.columnAliases ? renameColumns(relation, item.alias, item.columnAliases) : relation;
+    }
+    case 'subquery': {
+      const result = runQuery(env, item.query, outer);
+      return renameColumns({ columns: result.columns.map(c => ({ ...c, table: undefined, schema: undefined })), rows: result.rows }, item.alias, item.columnAliases);
+    }
+    case 'function': {
+      const { call } = item;
+      const args = call.args.map(arg => evalExpr(env, arg, outer));
+      const name = item.alias || call.name;
+      if (call.name === 'generate_series') {
+        const [start, stop, step] = args;
+        const rows: any[][] = [];
+        if (isDateLike(start)) {
+          const interval = isInterval(step) ? step : parseInterval(toText(step ?? '1 day'))!;
+          for (let d = toDate(start)!; d.getTime() <= toDate(stop)!.getTime() && rows.length < MAX_SERIES_ROWS; d = addInterval(d, interval, 1)) rows.push([formatTimestamp(d)]);
+        } else {
+          const by = step === undefined ? 1 : toNumber(step);
+          if (by === 0) throw sqlError('o passo não pode ser zero', '22023', call.token);
+          for (let n = toNumber(start); (by > 0 ? n <= toNumber(stop) : n >= toNumber(stop)) && rows.length < MAX_SERIES_ROWS; n += by) rows.push([n]);
+        }
+        return { columns: [{ name: item.columnAliases?.[0] || name, table: name }], rows };
+      }
+      if (call.name === 'unnest') {
+        const list = Array.isArray(args[0]) ? args[0] : [];
+        return { columns: [{ name: item.columnAliases?.[0] || name, table: name }], rows: list.map(v => [v]) };
+      }
+      throw sqlError(`função ${call.name}() não é suportada no FROM do modo simulado`, '0A000', call.token);
+    }
+    case 'join': {
+      const left = evalFromItem(env, item.left, outer);
+      const right = evalFromItem(env, item.right, outer);
+      if (item.type === 'cross') return crossJoin(left, right);
+      assertDistinctTables(left, right);
+      let using = item.using;
+      if (item.natural) using = left.columns.filter(l => !l.hidden && right.columns.some(r => same(r.name, l.name))).map(c => c.name);
+      const columns = [...left.columns, ...right.columns.map(col => using?.some(u => same(u, col.name)) ? { ...col, hidden: true } : col)];
+      const usingPairs = using?.map(name => {
+        const l = matchColumns(left.columns, [name]);
+        const r = matchColumns(right.columns, [name]);
+        if (l.length !== 1 || r.length !== 1) throw sqlError(`coluna "${name}" especificada na cláusula USING não existe em ambos os lados`, '42703');
+        return [l[0], left.columns.length + r[0]];
+      });
+      const matches = (row: any[]) => usingPairs
+        ? usingPairs.every(([a, b]) => compareOp('=', row[a], row[b]) === true)
+        : truthy(evalExpr(env, item.on!, { columns, row, outer })) === true;
+
+      const rows: any[][] = [];
+      const rightMatched = new Array(right.rows.length).fill(false);
+      const nullLeft = left.columns.map(() => null);
+      const nullRight = right.columns.map(() => null);
+      left.rows.forEach(l => {
+        let matched = false;
+        right.rows.forEach((r, k) => {
+          const row = [...l, ...r];
+          if (!matches(row)) return;
+          matched = true;
+          rightMatched[k] = true;
+          rows.push(row);
+        });
+        if (!matched && (item.type === 'left' || item.type === 'full')) rows.push([...l, ...nullRight]);
+      });
+      if (item.type === 'right' || item.type === 'full') {
+        right.rows.forEach((r, k) => { if (!rightMatched[k]) rows.push([...nullLeft, ...r]); });
+      }
+      // RIGHT/FULL JOIN USING: a coluna visível passa a ser a do lado que tem valor
+      if (usingPairs && (item.type === 'right' || item.type === 'full')) {
+        rows.forEach(row => usingPairs.forEach(([a, b]) => { if (row[a] === null) row[a] = row[b]; }));
+      }
+      return { columns, rows };
+    }
+  }
+};
+
+const evalFromList = (env: Env, from: FromItem[], outer: RowContext | undefined): Relation => {
+  if (from.length === 0) return { columns: [], rows: [[]] };
+  return from.map(item => evalFromItem(env, item, outer)).reduce(crossJoin);
+};
+
+// --- SELECT ---
+
+const outputName = (item: SelectItem & { kind: 'expr' }): string => {
+  if (item.alias) return item.alias;
+  const name = (expr: Expr): string => {
+    switch (expr.kind) {
+      case 'column': return expr.parts[expr.parts.length - 1];
+      case 'call': return expr.name.startsWith('__') ? 'array' : expr.name;
+      case 'cast': { const inner = name(expr.operand); return inner === '?column?' ? expr.type.split(/[ (]/)[0] : inner; }
+      case 'case': return 'case';
+      case 'exists': return 'exists';
+      case 'array': return 'array';
+      case 'subquery': return expr.query.body.kind === 'select' && expr.query.body.items[0]?.kind === 'expr' ? outputName(expr.query.body.items[0]) : '?column?';
+      default: return '?column?';
+    }
+  };
+  return name(item.expr);
+};
+
+const columnMeta = (expr: Expr, columns: RelColumn[]): Partial<RelColumn> => {
+  if (expr.kind === 'column') {
+    const found = matchColumns(columns, expr.parts);
+    if (found.length === 1) { const { type, source, pk } = columns[found[0]]; return { type, source, pk }; }
+  }
+  if (expr.kind === 'cast') return { type: expr.type };
+  if (expr.kind === 'call' && (expr.name === 'count' || expr.name === 'row_number' || expr.name === 'rank' || expr.name === 'dense_rank')) return { type: 'bigint' };
+  return {};
+};
+
+/** GROUP BY 1 / GROUP BY alias apontam para itens do SELECT. */
+const resolveOutputReference = (expr: Expr, items: SelectItem[], columns: RelColumn[]): Expr => {
+  const exprItems = items.filter((i): i is SelectItem & { kind: 'expr' } => i.kind === 'expr');
+  if (expr.kind === 'literal' && typeof expr.value === 'number' && Number.isInteger(expr.value)) {
+    const item = items[expr.value - 1];
+    if (!item || item.kind !== 'expr') throw sqlError(`posição ${expr.value} não está na lista de seleção`, '42P10');
+    return item.expr;
+  }
+  if (expr.kind === 'column' && expr.parts.length === 1 && matchColumns(columns, expr.parts).length === 0) {
+    const item = exprItems.find(i => i.alias && same(i.alias, expr.parts[0]));
+    if (item) return item.expr;
+  }
+  return expr;
+};
+
+/** Chave estrutural da expressão: colunas comparadas pela coluna resolvida, não pelo texto. */
+const exprKey = (expr: Expr, columns: RelColumn[]) => JSON.stringify(expr, (key, value) => {
+  if (key === 'token') return undefined;
+  if (value && value.kind === 'column') {
+    const found = matchColumns(columns, value.parts);
+    return found.length === 1 ? `#${found[0]}` : value.parts.join('.');
+  }
+  return value;
+});
+
+/**
+ * Com GROUP BY/agregação, colunas fora de agregados precisam estar agrupadas ou depender
+ * funcionalmente da PK agrupada (mesma regra do PostgreSQL).
+ */
+const createGroupingCheck = (columns: RelColumn[], groupExprs: Expr[]) => {
+  const groupKeys = new Set(groupExprs.map(e => exprKey(e, columns)));
+  const grouped = new Set<number>();
+  groupExprs.forEach(e => {
+    if (e.kind !== 'column') return;
+    const found = matchColumns(columns, e.parts);
+    if (found.length === 1) grouped.add(found[0]);
+  });
+  const isDependent = (k: number) => {
+    if (grouped.has(k)) return true;
+    const col = columns[k];
+    const pk = columns.map((c, j) => ({ c, j })).filter(({ c }) => c.pk && c.source && c.source === col.source && c.table === col.table);
+    return pk.length > 0 && pk.every(({ j }) => grouped.has(j));
+  };
+  return (expr: Expr, resolved?: number) => visitExpr(expr, e => {
+    if (groupKeys.has(exprKey(e, columns)) || isAggregateCall(e)) return false;
+    if (e.kind !== 'column') return;
+    const found = resolved !== undefined ? [resolved] : matchColumns(columns, e.parts);
+    if (found.length !== 1 || isDependent(found[0])) return;
+    const col = columns[found[0]];
+    const label = col.table ? `${col.table}.${col.name}` : col.name;
+    throw sqlError(`coluna "${label}" deve aparecer na cláusula GROUP BY ou ser utilizada em uma função de agregação`, '42803', e.token.text ? e.token : undefined);
+  });
+};
+
+interface Projected {
+  ctx: RowContext;
+  values: any[];
+}
+
+const runSelect = (env: Env, core: SelectCore, outer: RowContext | undefined, orderBy: OrderItem[]): Relation => {
+  const source = evalFromList(env, core.from, outer);
+  let contexts: RowContext[] = source.rows.map(row => ({ columns: source.columns, row, outer }));
+  if (core.where) {
+    if (containsAggregate(core.where)) throw sqlError('funções de agregação não são permitidas em WHERE', '42803');
+    contexts = contexts.filter(ctx => truthy(evalExpr(env, core.where!, ctx)) === true);
+  }
+
+  const itemExprs = core.items.filter((i): i is SelectItem & { kind: 'expr' } => i.kind === 'expr').map(i => i.expr);
+  const aggregated = core.groupBy.length > 0 || core.having !== undefined
+    || [...itemExprs, ...orderBy.map(o => o.expr)].some(containsAggregate);
+  if (aggregated) {
+    const groupExprs = core.groupBy.map(e => resolveOutputReference(e, core.items, source.columns));
+    const groups = new Map<string, any[][]>();
+    contexts.forEach(ctx => {
+      const key = valueKey(groupExprs.map(e => evalExpr(env, e, ctx)));
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(ctx.row);
+    });
+    if (groups.size === 0 && groupExprs.length === 0) groups.set('', []);
+    contexts = [...groups.values()].map(rows => ({
+      columns: source.columns,
+      row: rows[0] || source.columns.map(() => null),
+      group: rows,
+      outer
+    }));
+    if (core.having) contexts = contexts.filter(ctx => truthy(evalExpr(env, core.having!, ctx)) === true);
+    const assertGrouped = createGroupingCheck(source.columns, groupExprs);
+    itemExprs.forEach(e => assertGrouped(e));
+    if (core.having) assertGrouped(core.having);
+    core.items.forEach(item => {
+      if (item.kind !== 'star') return;
+      source.columns.forEach((col, k) => {
+        const visible = item.qualifier ? same(col.table, item.qualifier[item.qualifier.length - 1]) : !col.hidden;
+        if (visible) assertGrouped({ kind: 'column', parts: [col.table || '', col.name].filter(Boolean), token: { kind: 'word', text: '', value: '', start: 0, end: 0, line: 0 } }, k);
+      });
+    });
+  }
+
+  const windowCalls: (Expr & { kind: 'call' })[] = [];
+  itemExprs.forEach(e => collectWindowCalls(e, windowCalls));
+  orderBy.forEach(o => collectWindowCalls(o.expr, windowCalls));
+  if (windowCalls.length > 0) {
+    const windows = new Map<Expr, any[]>();
+    windowCalls.forEach(call => windows.set(call, computeWindow(env, call, contexts)));
+    contexts = contexts.map((ctx, k) => ({ ...ctx, windows, windowIndex: k }));
+  }
+
+  // Projeção
+  const columns: RelColumn[] = [];
+  const producers: ((ctx: RowContext) => any[])[] = [];
+  core.items.forEach(item => {
+    if (item.kind === 'star') {
+      const indexes = source.columns
+        .map((col, k) => ({ col, k }))
+        .filter(({ col }) => item.qualifier
+          ? same(col.table, item.qualifier[item.qualifier.length - 1]) && (item.qualifier.length < 2 || same(col.schema, item.qualifier[0]))
+          : !col.hidden);
+      if (item.qualifier && indexes.length === 0) {
+        throw sqlError(`faltando entrada para tabela "${item.qualifier.join('.')}" na cláusula FROM`, '42P01');
+      }
+      if (!item.qualifier && core.from.length === 0) throw sqlError('SELECT * sem tabelas não é válido', '42601');
+      indexes.forEach(({ col }) => columns.push({ name: col.name, type: col.type, source: col.source, pk: col.pk }));
+      producers.push(ctx => indexes.map(({ k }) => ctx.row[k]));
+      return;
+    }
+    columns.push({ name: outputName(item), ...columnMeta(item.expr, source.columns) });
+    producers.push(ctx => [evalExpr(env, item.expr, ctx)]);
+  });
+  let projected: Projected[] = contexts.map(ctx => ({ ctx, values: producers.flatMap(p => p(ctx)) }));
+
+  // ORDER BY: nome/posição de coluna de saída ou expressão sobre a entrada
+  if (orderBy.length > 0) {
+    const keyFns = orderBy.map(item => {
+      const e = item.expr;
+      if (e.kind === 'literal' && typeof e.value === 'number' && Number.isInteger(e.value)) {
+        if (e.value < 1 || e.value > columns.length) throw sqlError(`posição ${e.value} do ORDER BY não está na lista de seleção`, '42P10');
+        return (p: Projected) => p.values[e.value - 1];
+      }
+      if (e.kind === 'column' && e.parts.length === 1) {
+        const outputs = columns.map((c, k) => ({ c, k })).filter(({ c }) => same(c.name, e.parts[0]));
+        const isAlias = core.items.some(i => i.kind === 'expr' && i.alias && same(i.alias, e.parts[0]));
+        if (outputs.length === 1 && (isAlias || matchColumns(source.columns, e.parts).length !== 1)) return (p: Projected) => p.values[outputs[0].k];
+      }
+      if (aggregated) createGroupingCheck(source.columns, core.groupBy.map(g => resolveOutputReference(g, core.items, source.columns)))(e);
+      return (p: Projected) => evalExpr(env, e, p.ctx);
+    });
+    const keyed = projected.map(p => ({ p, keys: keyFns.map(fn => fn(p)) }));
+    keyed.sort((a, b) => {
+      for (let k = 0; k < orderBy.length; k++) {
+        const c = compareForSort(a.keys[k], b.keys[k], orderBy[k]);
+        if (c !== 0) return c;
+      }
+      return 0;
+    });
+    projected = keyed.map(entry => entry.p);
+  }
+
+  if (core.distinctOn) {
+    const seen = new Set<string>();
+    projected = projected.filter(p => {
+      const key = valueKey(core.distinctOn!.map(e => evalExpr(env, e, p.ctx)));
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  } else if (core.distinct) {
+    const seen = new Set<string>();
+    projected = projected.filter(p => {
+      const key = valueKey(p.values);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+  return { columns, rows: projected.map(p => p.values) };
+};
+
+const runBody = (env: Env, body: QueryBody, outer: RowContext | undefined, orderBy: OrderItem[]): { relation: Relation; sorted: boolean } => {
+  switch (body.kind) {
+    case 'select': return { relation: runSelect(env, body, outer, orderBy), sorted: true };
+    case 'nested': return { relation: runQuery(env, body.query, outer), sorted: false };
+    case 'values': {
+      const rows = body.rows.map(row => row.map(e => evalExpr(env, e, outer)));
+      const width = body.rows[0].length;
+      if (body.rows.some(row => row.length !== width)) throw sqlError('listas VALUES devem ter o mesmo tamanho', '42601');
+      return { relation: { columns: body.rows[0].map((_, k) => ({ name: `column${k + 1}` })), rows }, sorted: false };
+    }
+    case 'setop': {
+      const left = runBody(env, body.left, outer, []).relation;
+      const right = runBody(env, body.right, outer, []).relation;
+      if (left.columns.length !== right.columns.length) {
+        throw sqlError(`cada consulta ${body.op.toUpperCase()} deve ter o mesmo número de colunas`, '42601');
+      }
+      let rows: any[][];
+      const count = (list: any[][]) => {
+        const counts = new Map<string, number>();
+        list.forEach(row => { const key = valueKey(row); counts.set(key, (counts.get(key) || 0) + 1); });
+        return counts;
+      };
+      if (body.op === 'union') rows = [...left.rows, ...right.rows];
+      else {
+        const rightCounts = count(right.rows);
+        rows = left.rows.filter(row => {
+          const key = valueKey(row);
+          const n = rightCounts.get(key) || 0;
+          if (body.op === 'intersect') { if (n > 0) { rightCounts.set(key, n - 1); return true; } return false; }
+          if (n > 0) { rightCounts.set(key, n - 1); return false; }
+          return true;
+        });
+      }
+      if (!body.all) {
+        const seen = new Set<string>();
+        rows = rows.filter(row => { const key = valueKey(row); if (seen.has(key)) return false; seen.add(key); return true; });
+      }
+      return { relation: { columns: left.columns, rows }, sorted: false };
+    }
+  }
+};
+
+const runQuery = (env: Env, query: Query, outer: RowContext | undefined): Relation => {
+  const scope = new Map<string, Relation>();
+  env.ctes.push(scope);
+  try {
+    query.ctes.forEach(cte => {
+      const result = runQuery(env, cte.query, outer);
+      scope.set(cte.name, renameColumns({ columns: result.columns.map(c => ({ ...c, table: undefined, schema: undefined })), rows: result.rows }, cte.name, cte.columns));
+    });
+    const { relation, sorted } = runBody(env, query.body, outer, query.orderBy);
+    let rows = relation.rows;
+    if (!sorted && query.orderBy.length > 0) {
+      const keyed = rows.map(row => ({
+        row,
+        keys: query.orderBy.map(item => evalExpr(env, item.expr.kind === 'literal' && typeof item.expr.value === 'number'
+          ? { kind: 'column', parts: [relation.columns[item.expr.value - 1]?.name ?? '?'], token: { kind: 'word', text: '', value: '', start: 0, end: 0, line: 0 } }
+          : item.expr, { columns: relation.columns, row, outer }))
+      }));
+      keyed.sort((a, b) => {
+        for (let k = 0; k < query.orderBy.length; k++) {
+          const c = compareForSort(a.keys[k], b.keys[k], query.orderBy[k]);
+          if (c !== 0) return c;
+        }
+        return 0;
+      });
+      rows = keyed.map(entry => entry.row);
+    }
+    const offset = query.offset ? toNumber(evalExpr(env, query.offset, outer)) : 0;
+    const limitValue = query.limit ? evalExpr(env, query.limit, outer) : null;
+    if (offset < 0) throw sqlError('OFFSET não deve ser negativo', '2201X');
+    if (limitValue !== null && toNumber(limitValue) < 0) throw sqlError('LIMIT não deve ser negativo', '2201W');
+    rows = rows.slice(offset, limitValue === null ? undefined : offset + toNumber(limitValue));
+    return { columns: relation.columns, rows };
+  } finally {
+    env.ctes.pop();
+  }
+};
+
+// --- INSERT / UPDATE / DELETE ---
+
+const isSerialLike = (col: Column) => /serial/i.test(col.type) || (!!col.isPrimaryKey && /int/i.test(col.type));
+
+const primaryKey = (table: Table) => table.columns.filter(c => c.isPrimaryKey);
+
+const assertUniqueKeys = (table: Table, rows: Record<string, any>[]) => {
+  const pk = primaryKey(table);
+  if (pk.length === 0) return;
+  const seen = new Set<string>();
+  rows.forEach(row => {
+    const values = pk.map(c => row[c.name]);
+    const key = valueKey(values);
+    if (seen.has(key)) {
+      throw sqlError(`duplicar valor da chave viola a restrição de unicidade "${table.name}_pkey"`, '23505', undefined, {
+        detail: `Chave (${pk.map(c => c.name).join(', ')})=(${values.map(toText).join(', ')}) já existe.`,
+        schema: table.schema, table: table.name, constraint: `${table.name}_pkey`
+      });
+    }
+    seen.add(key);
+  });
+};
+
+// Column.references: o valor (quando não nulo) precisa existir na tabela referenciada.
+// tableRows é o conteúdo novo da própria tabela, para FKs que apontam para ela mesma.
+const assertForeignKeys = (env: Env, table: Table, rows: Record<string, any>[], tableRows: Record<string, any>[], columns: Column[] = table.columns) => {
+  columns.forEach(col => {
+    const ref = col.references ? resolveReference(env.schema, table, col.references) : null;
+    if (!ref) return;
+    const parentRows = ref.tableId === tableKey(table) ? tableRows : env.data[ref.tableId] || [];
+    rows.forEach(row => {
+      const value = row[col.name];
+      if (value === null || value === undefined || parentRows.some(parent => compareOp('=', parent[ref.column], value) === true)) return;
+      const constraint = `${table.name}_${col.name}_fkey`;
+      throw sqlError(`inserção ou atualização em tabela "${table.name}" viola restrição de chave estrangeira "${constraint}"`, '23503', undefined, {
+        detail: `Chave (${col.name})=(${toText(value)}) não está presente na tabela "${ref.tableId.split('.').pop()}".`,
+        schema: table.schema, table: table.name, constraint
+      });
+    });
+  });
+};
+
+/** Projeção de RETURNING sobre contextos já prontos (linhas afetadas). */
+const projectOver = (env: Env, items: SelectItem[], contexts: RowContext[]): Relation => {
+  const columns: RelColumn[] = [];
+  const base = contexts[0]?.columns || [];
+  items.forEach(item => {
+    if (item.kind === 'star') base.filter(c => !c.hidden && (!item.qualifier || same(c.table, item.qualifier[item.qualifier.length - 1])))
+      .forEach(c => columns.push({ name: c.name, type: c.type, source: c.source, pk: c.pk }));
+    else columns.push({ name: outputName(item), ...columnMeta(item.expr, base) });
+  });
+  const rows = contexts.map(ctx => items.flatMap(item => item.kind === 'star'
+    ? ctx.columns.map((c, k) => ({ c, k })).filter(({ c }) => !c.hidden && (!item.qualifier || same(c.table, item.qualifier[item.qualifier.length - 1]))).map(({ k }) => ctx.row[k])
+    : [evalExpr(env, item.expr, ctx)]));
+  return { columns, rows };
+};
+
+interface StatementOutcome {
+  command: string;
+  rowCount: number;
+  relation: Relation;
+}
+
+const withCtes = <T>(env: Env, ctes: Cte[], run: () => T): T => {
+  const scope = new Map<string, Relation>();
+  env.ctes.push(scope);
+  try {
+    ctes.forEach(cte => {
+      const result = runQuery(env, cte.query, undefined);
+      scope.set(cte.name, renameColumns({ columns: result.columns.map(c => ({ ...c, table: undefined, schema: undefined })), rows: result.rows }, cte.name, cte.columns));
+    });
+    return run();
+  } finally {
+    env.ctes.pop();
+  }
+};
+
+const targetColumn = (table: Table, name: string, token: SqlToken): Column => {
+  const col = table.columns.find(c => same(c.name, name));
+  if (!col) throw sqlError(`coluna "${name}" da relação "${table.name}" não existe`, '42703', token);
+  return col;
+};
+
+const runInsert = (env: Env, stmt: Statement & { kind: 'insert' }): StatementOutcome => withCtes(env, stmt.ctes, () => {
+  const table = findTable(env, stmt.table);
+  const key = tableKey(table);
+  const targets = stmt.columns ? stmt.columns.map(c => targetColumn(table, c.name, c.token)) : table.columns;
+  const label = stmt.alias || table.name;
+  const targetCols = tableColumns(table, label, !stmt.alias);
+
+  // VALUES com DEFAULT precisa ser avaliado aqui; o resto é uma consulta comum
+  let sourceRows: any[][];
+  const DEFAULT = Symbol('default');
+  if (!stmt.source) sourceRows = [targets.map(() => DEFAULT)];
+  else if (stmt.source.body.kind === 'values' && stmt.source.ctes.length === 0 && stmt.source.orderBy.length === 0) {
+    sourceRows = stmt.source.body.rows.map(row => row.map(e => e.kind === 'default' ? DEFAULT : evalExpr(env, e, undefined)));
+  } else sourceRows = runQuery(env, stmt.source, undefined).rows;
+
+  const rows = [...(env.data[key] || [])];
+  const affected: Record<string, any>[] = [];
+  const pk = primaryKey(table);
+  sourceRows.forEach(values => {
+    if (values.length > targets.length) throw sqlError('INSERT tem mais expressões do que colunas alvo', '42601');
+    if (values.length < targets.length && stmt.source?.body.kind === 'values') throw sqlError('INSERT tem mais colunas alvo do que expressões', '42601');
+    const row: Record<string, any> = {};
+    table.columns.forEach(col => {
+      const k = targets.indexOf(col);
+      const value = k === -1 || k >= values.length ? DEFAULT : values[k];
+      if (value === DEFAULT) {
+        row[col.name] = isSerialLike(col) ? rows.reduce((max, r) => Math.max(max, typeof r[col.name] === 'number' ? r[col.name] : 0), 0) + 1 : null;
+      } else row[col.name] = castValue(value, col.type);
+    });
+
+    const conflictIndex = pk.length > 0 ? rows.findIndex(r => pk.every(c => compareOp('=', r[c.name], row[c.name]) === true)) : -1;
+    if (conflictIndex !== -1 && stmt.conflict) {
+      if (stmt.conflict.action === 'nothing') return;
+      const existing = rows[conflictIndex];
+      const ctx: RowContext = {
+        columns: [...targetCols, ...tableColumns(table, 'excluded', false)],
+        row: [...table.columns.map(c => existing[c.name] ?? null), ...table.columns.map(c => row[c.name])]
+      };
+      if (stmt.conflict.where && truthy(evalExpr(env, stmt.conflict.where, ctx)) !== true) return;
+      const updated = { ...existing };
+      stmt.conflict.set.forEach(a => { const col = targetColumn(table, a.column, a.token); updated[col.name] = castValue(evalExpr(env, a.expr, ctx), col.type); });
+      rows[conflictIndex] = updated;
+      affected.push(updated);
+      return;
+    }
+    rows.push(row);
+    affected.push(row);
+  });
+  assertUniqueKeys(table, rows);
+  assertForeignKeys(env, table, affected, rows);
+  env.data = { ...env.data, [key]: rows };
+
+  const contexts = affected.map(row => ({ columns: targetCols, row: table.columns.map(c => row[c.name] ?? null) }));
+  return { command: 'INSERT', rowCount: affected.length, relation: stmt.returning ? projectOver(env, stmt.returning, contexts) : { columns: [], rows: [] } };
+});
+
+const runUpdate = (env: Env, stmt: Statement & { kind: 'update' }): StatementOutcome => withCtes(env, stmt.ctes, () => {
+  const table = findTable(env, stmt.table);
+  const key = tableKey(table);
+  const targetCols = tableColumns(table, stmt.alias || table.name, !stmt.alias);
+  const from = stmt.from.length > 0 ? evalFromList(env, stmt.from, undefined) : null;
+  const assignments = stmt.set.map(a => ({ ...a, col: targetColumn(table, a.column, a.token) }));
+  const rows = [...(env.data[key] || [])];
+  const affected: RowContext[] = [];
+  const updatedRows: Record<string, any>[] = [];
+
+  rows.forEach((existing, index) => {
+    const base = table.columns.map(c => existing[c.name] ?? null);
+    let ctx: RowContext | undefined;
+    if (from) {
+      const columns = [...targetCols, ...from.columns];
+      const match = from.rows.find(fromRow => !stmt.where || truthy(evalExpr(env, stmt.where, { columns, row: [...base, ...fromRow] })) === true);
+      if (match) ctx = { columns, row: [...base, ...match] };
+    } else if (!stmt.where || truthy(evalExpr(env, stmt.where, { columns: targetCols, row: base })) === true) {
+      ctx = { columns: targetCols, row: base };
+    }
+    if (!ctx) return;
+    const updated = { ...existing };
+    assignments.forEach(a => {
+      updated[a.col.name] = a.expr.kind === 'default' ? null : castValue(evalExpr(env, a.expr, ctx), a.col.type);
+    });
+    rows[index] = updated;
+    updatedRows.push(updated);
+    const newBase = table.columns.map(c => updated[c.name] ?? null);
+    affected.push({ columns: ctx.columns, row: [...newBase, ...ctx.row.slice(base.length)] });
+  });
+  assertUniqueKeys(table, rows);
+  // Como no PostgreSQL, só as colunas alteradas pelo SET são conferidas
+  assertForeignKeys(env, table, updatedRows, rows, assignments.map(a => a.col));
+  env.data = { ...env.data, [key]: rows };
+  return { command: 'UPDATE', rowCount: affected.length, relation: stmt.returning ? projectOver(env, stmt.returning, affected) : { columns: [], rows: [] } };
+});
+
+const runDelete = (env: Env, stmt: Statement & { kind: 'delete' }): StatementOutcome => withCtes(env, stmt.ctes, () => {
+  const table = findTable(env, stmt.table);
+  const key = tableKey(table);
+  const targetCols = tableColumns(table, stmt.alias || table.name, !stmt.alias);
+  const using = stmt.using.length > 0 ? evalFromList(env, stmt.using, undefined) : null;
+  const kept: Record<string, any>[] = [];
+  const affected: RowContext[] = [];
+
+  (env.data[key] || []).forEach(existing => {
+    const base = table.columns.map(c => existing[c.name] ?? null);
+    let ctx: RowContext | undefined;
+    if (using) {
+      const columns = [...targetCols, ...using.columns];
+      const match = using.rows.find(row => !stmt.where || truthy(evalExpr(env, stmt.where, { columns, row: [...base, ...row] })) === true);
+      if (match) ctx = { columns, row: [...base, ...match] };
+    } else if (!stmt.where || truthy(evalExpr(env, stmt.where, { columns: targetCols, row: base })) === true) {
+      ctx = { columns: targetCols, row: base };
+    }
+    if (ctx) affected.push(ctx);
+    else kept.push(existing);
+  });
+  env.data = { ...env.data, [key]: kept };
+  return { command: 'DELETE', rowCount: affected.length, relation: stmt.returning ? projectOver(env, stmt.returning, affected) : { columns: [], rows: [] } };
+});
+
+// ---------------------------------------------------------------------------
+// API
+// ---------------------------------------------------------------------------
+
+/** Comparação de valores com a semântica do interpretador (número x texto numérico, datas, booleanos). */
+export const compareSqlValues = (a: any, b: any): number => compareValues(a, b);
+
+/** Ordem do ORDER BY (NULLs por último no ASC e primeiro no DESC). */
+export const compareSqlSortValues = (a: any, b: any, desc: boolean): number => compareForSort(a, b, { desc });
+
+/** `valor::text LIKE padrão` / `ILIKE`. */
+export const matchesSqlLike = (value: any, pattern: string, insensitive: boolean): boolean =>
+  likeToRegex(pattern, insensitive).test(toText(value));
+
+export const toSqlText = (value: any): string => toText(value);
+
+export interface CompiledSqlExpression {
+  hasAggregate: boolean;
+  /** Avalia sobre uma linha com chaves "schema.tabela.coluna" (ou apelidos simples); com `group`, os agregados usam essas linhas. */
+  evaluate: (row: Record<string, any>, group?: Record<string, any>[]) => any;
+  /** Com GROUP BY: falha (42803) se a expressão usa, fora de agregados, uma chave não agrupada. */
+  assertGrouped: (keys: string[], isGrouped: (key: string) => boolean) => void;
+}
+
+/** Compila uma expressão SQL solta (colunas calculadas do builder) para avaliação em memória. */
+export const compileSqlExpression = (schema: DatabaseSchema, data: SimulationData, expression: string): CompiledSqlExpression => {
+  const expr = createParser(expression).parseExpression();
+  const toColumns = (keys: string[]): RelColumn[] => keys.map(key => {
+    const parts = key.split('.');
+    return parts.length >= 3
+      ? { name: parts.slice(2).join('.'), table: parts[1], schema: parts[0] }
+      : { name: parts[parts.length - 1], table: parts.length === 2 ? parts[0] : undefined };
+  });
+  return {
+    hasAggregate: containsAggregate(expr),
+    evaluate: (row, group) => {
+      const keys = Object.keys(row);
+      const env: Env = { schema, data, params: [], ctes: [] };
+      const toArray = (r: Record<string, any>) => keys.map(key => r[key] ?? null);
+      return toOutputValue(evalExpr(env, expr, { columns: toColumns(keys), row: toArray(row), group: group?.map(toArray) }));
+    },
+    assertGrouped: (keys, isGrouped) => {
+      const columns = toColumns(keys);
+      const groupExprs: Expr[] = keys
+        .map((key, k) => ({ key, col: columns[k] }))
+        .filter(({ key }) => isGrouped(key))
+        .map(({ col }) => ({ kind: 'column', parts: [col.schema, col.table, col.name].filter((p): p is string => !!p), token: { kind: 'word', text: '', value: '', start: 0, end: 0, line: 0 } }));
+      createGroupingCheck(columns, groupExprs)(expr);
+    }
+  };
+};
+
+export interface OfflineQueryResult {
+  command: string; // Command tag (SELECT, INSERT, UPDATE, DELETE, BEGIN...)
+  rowCount: number;
+  rows: any[];
+  fields: ResultField[];
+  data: SimulationData; // Dados após o comando (novos arrays só nas tabelas alteradas)
+}
+
+const TYPE_CATEGORIES: [RegExp, string][] = [
+  [NUMERIC_TYPES, 'N'], [/^bool/, 'B'], [/^(date|time|timestamp)/, 'D'], [/^interval/, 'T'], [/\[\]$/, 'A'], [/^json/, 'U']
+];
+
+const inferType = (value: any): string => {
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'numeric';
+  if (typeof value === 'boolean') return 'boolean';
+  if (isInterval(value)) return 'interval';
+  if (Array.isArray(value)) return 'text[]';
+  if (value !== null && typeof value === 'object') return 'jsonb';
+  if (isDateLike(value)) return String(value).length <= 10 ? 'date' : 'timestamp without time zone';
+  return 'text';
+};
+
+const toFields = (relation: Relation): ResultField[] => relation.columns.map((col, k) => {
+  const sample = relation.rows.find(row => row[k] !== null && row[k] !== undefined)?.[k];
+  const typeName = col.type || (sample === undefined ? 'text' : inferType(sample));
+  return {
+    name: col.name,
+    dataTypeID: 0,
+    typeName,
+    typeCategory: TYPE_CATEGORIES.find(([re]) => re.test(typeName.toLowerCase()))?.[1] || 'S',
+    tableID: null,
+    columnID: null,
+    tableName: col.source || null,
+    isPrimaryKey: !!col.pk
+  };
+});
+
+const toOutputValue = (v: any) => isInterval(v) ? formatInterval(v) : v === undefined ? null : v;
+
+/**
+ * Executa um comando SQL sobre os dados simulados. Não altera `data`: devolve o novo estado
+ * em `result.data`. Lança Error com `details` no formato de QueryErrorDetails.
+ */
+export const executeOfflineSql = (schema: DatabaseSchema, data: SimulationData, sql: string, params: any[] = []): OfflineQueryResult => {
+  const stmt = createParser(sql).parse();
+  const env: Env = { schema, data: { ...data }, params, ctes: [] };
+  if (stmt.kind === 'transaction') return { command: stmt.action, rowCount: 0, rows: [], fields: [], data };
+
+  let outcome: StatementOutcome;
+  if (stmt.kind === 'query') {
+    const relation = runQuery(env, stmt.query, undefined);
+    outcome = { command: 'SELECT', rowCount: relation.rows.length, relation };
+  } else if (stmt.kind === 'insert') outcome = runInsert(env, stmt);
+  else if (stmt.kind === 'update') outcome = runUpdate(env, stmt);
+  else outcome = runDelete(env, stmt);
+
+  const { columns, rows } = outcome.relation;
+  return {
+    command: outcome.command,
+    rowCount: outcome.rowCount,
+    // Nomes repetidos: vale o último, como nas linhas do driver pg
+    rows: rows.map(row => Object.fromEntries(columns.map((col, k) => [col.name, toOutputValue(row[k])]))),
+    fields: toFields(outcome.relation),
+    data: stmt.kind === 'query' ? data : env.data
+  };
+};
+
+/**
+ * Executa um script comando a comando, como o /api/execute-script faz na conexão real.
+ * BEGIN/COMMIT/ROLLBACK valem dentro do script; um erro dentro de transação desfaz o que ela alterou.
+ */
+export const executeOfflineScript = (
+  schema: DatabaseSchema,
+  data: SimulationData,
+  statements: string[],
+  onError: ScriptErrorMode = 'stop'
+): ScriptResult & { data: SimulationData } => {
+  let current = data;
+  let snapshot: SimulationData | null = null;
+  let halted = false;
+  const results: ScriptStatementResult[] = statements.map((sql, index) => {
+    const base = { index, sql, rows: [] as any[], fields: [] as ResultField[], notices: [], durationMs: 0 };
+    if (halted) return { ...base, status: 'skipped', command: null, rowCount: null };
+    const started = performance.now();
+    try {
+      const result = executeOfflineSql(schema, current, sql);
+      current = result.data;
+      if (result.command === 'BEGIN') snapshot = current;
+      else if (result.command === 'COMMIT') snapshot = null;
+      else if (result.command === 'ROLLBACK') { if (snapshot) current = snapshot; snapshot = null; }
+      return { ...base, status: 'success', command: result.command, rowCount: result.rowCount, rows: result.rows, fields: result.fields, durationMs: performance.now() - started };
+    } catch (e: any) {
+      if (snapshot) { current = snapshot; snapshot = null; }
+      if (onError === 'stop') halted = true;
+      return {
+        ...base, status: 'error', command: null, rowCount: null, durationMs: performance.now() - started,
+        error: e.message, errorCode: e.details?.code, errorDetails: e.details
+      };
+    }
+  });
+  return { statements: results, halted, data: current };
+};
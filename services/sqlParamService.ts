@@ -0,0 +1,176 @@
+import { QueryParamInput, QueryParamType } from "../types";
+import { skipLiteralOrComment } from "./sqlScriptService";
+
+/**
+ * Parâmetros de consulta: placeholders nomeados (:nome) ou posicionais ($1..$n) viram
+ * binds reais ($n + params) no PostgreSQL, sem concatenar valores no texto do SQL.
+ */
+export interface ParamOccurrence {
+  name: string; // Nome sem ':' ou o placeholder posicional ('$1')
+  start: number;
+  end: number;
+}
+
+export interface SqlParamScan {
+  mode: 'none' | 'named' | 'positional';
+  names: string[]; // Únicos, na ordem da primeira ocorrência (posicionais: '$1'..'$n')
+  occurrences: ParamOccurrence[];
+  error?: string;
+}
+
+export interface BoundQuery {
+  sql: string;
+  params: any[];
+  /** Converte a posição (1-based) de um erro no SQL enviado para a posição no texto original. */
+  toOriginalPosition: (position: number) => number;
+}
+
+const REMEMBERED_PARAMS_KEY = 'psqlBuddy-param-values';
+
+export const scanSqlParams = (sql: string): SqlParamScan => {
+  const named: ParamOccurrence[] = [];
+  const positional: ParamOccurrence[] = [];
+  let i = 0;
+  while (i < sql.length) {
+    const skipped = skipLiteralOrComment(sql, i);
+    if (skipped !== i) { i = skipped; continue; }
+    const ch = sql[i];
+    if (ch === ':') {
+      // '::' é cast; ':' precedido de identificador é slice de array (arr[1:n])
+      if (sql[i + 1] === ':') { i += 2; continue; }
+      const match = sql.slice(i + 1).match(/^[A-Za-z_][A-Za-z0-9_]*/);
+      if (match && !/[A-Za-z0-9_\]]/.test(sql[i - 1] || '')) {
+        named.push({ name: match[0], start: i, end: i + 1 + match[0].length });
+        i += 1 + match[0].length;
+        continue;
+      }
+    } else if (ch === '$' && !/[A-Za-z0-9_]/.test(sql[i - 1] || '')) {
+      const match = sql.slice(i + 1).match(/^\d+/);
+      if (match) {
+        positional.push({ name: `$${parseInt(match[0], 10)}`, start: i, end: i + 1 + match[0].length });
+        i += 1 + match[0].length;
+        continue;
+      }
+    }
+    i++;
+  }
+
+  if (named.length > 0 && positional.length > 0) {
+    return { mode: 'named', names: [], occurrences: named, error: 'Não misture parâmetros nomeados (:nome) com posicionais ($1).' };
+  }
+  if (named.length > 0) {
+    return { mode: 'named', names: Array.from(new Set(named.map(o => o.name))), occurrences: named };
+  }
+  if (positional.length > 0) {
+    const max = Math.max(...positional.map(o => Number(o.name.slice(1))));
+    return { mode: 'positional', names: Array.from({ length: max }, (_, k) => `$${k + 1}`), occurrences: positional };
+  }
+  return { mode: 'none', names: [], occurrences: [] };
+};
+
+/** Valor enviado ao driver; lança erro com mensagem amigável quando o texto não combina com o tipo. */
+export const parseParamValue = (name: string, input: QueryParamInput): any => {
+  const raw = (input.value ?? '').trim();
+  switch (input.type) {
+    case 'null':
+      return null;
+    case 'number':
+      if (raw === '' || isNaN(Number(raw))) throw new Error(`Parâmetro ${name}: "${input.value}" não é um número.`);
+      return raw; // Texto preserva a precisão de bigint/numeric
+    case 'boolean':
+      return /^(true|t|1|sim|yes)$/i.test(raw);
+    case 'date':
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(raw)) throw new Error(`Parâmetro ${name}: data inválida (use AAAA-MM-DD).`);
+      return raw;
+    case 'timestamp':
+      if (!/^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(raw)) throw new Error(`Parâmetro ${name}: data/hora inválida.`);
+      return raw;
+    case 'array': {
+      if (raw.startsWith('[')) {
+        try {
+          const parsed = JSON.parse(raw);
+          if (Array.isArray(parsed)) return parsed;
+        } catch (e) { /* cai na mensagem abaixo */ }
+        throw new Error(`Parâmetro ${name}: lista JSON inválida.`);
+      }
+      return raw === '' ? [] : raw.split(',').map(v => v.trim());
+    }
+    default:
+      return input.value ?? '';
+  }
+};
+
+/**
+ * Reescreve :nome como $n (o mesmo nome reaproveita o mesmo número) e monta a lista de
+ * valores na ordem dos binds. SQL já posicional ($1..$n) só tem os valores convertidos.
+ */
+export const bindSqlParams = (sql: string, inputs: Record<string, QueryParamInput>): BoundQuery => {
+  const scan = scanSqlParams(sql);
+  if (scan.error) throw new Error(scan.error);
+  const params = scan.names.map(name => {
+    const label = scan.mode === 'named' ? `:${name}` : name;
+    if (!inputs[name]) throw new Error(`Informe o valor do parâmetro ${label}.`);
+    return parseParamValue(label, inputs[name]);
+  });
+  if (scan.mode !== 'named') return { sql, params, toOriginalPosition: p => p };
+
+  const shifts: { at: number; delta: number }[] = [];
+  let result = '';
+  let last = 0;
+  scan.occurrences.forEach(occ => {
+    const placeholder = `$${scan.names.indexOf(occ.name) + 1}`;
+    result += sql.slice(last, occ.start) + placeholder;
+    shifts.push({ at: result.length, delta: (occ.end - occ.start) - placeholder.length });
+    last = occ.end;
+  });
+  result += sql.slice(last);
+
+  return {
+    sql: result,
+    params,
+    toOriginalPosition: (position) => {
+      let offset = 0;
+      for (const shift of shifts) {
+        if (position - 1 < shift.at) break;
+        offset += shift.delta;
+      }
+      return position + offset;
+    }
+  };
+};
+
+/** Tipo inicial para um parâmetro novo, pelo nome (ex: data_inicio, created_at, user_id). */
+export const guessParamType = (name: string): QueryParamType => {
+  const lower = name.toLowerCase();
+  if (/(^|_)(data|date|dt|dia)(_|$)|_at$|_em$/.test(lower)) return 'date';
+  if (/(^|_)(ids|lista|list)(_|$)/.test(lower)) return 'array';
+  if (/(^|_)(id|qtd|quantidade|limit|limite|offset|count|total|valor|num)(_|$)/.test(lower)) return 'number';
+  if (/^(is|has|ativo|flag)(_|$)/.test(lower)) return 'boolean';
+  return 'text';
+};
+
+export const loadRememberedParams = (): Record<string, QueryParamInput> => {
+  try {
+    const stored = localStorage.getItem(REMEMBERED_PARAMS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (e) {
+    return {};
+  }
+};
+
+/** Guarda os últimos valores usados por nome de parâmetro (compartilhados entre editor e templates). */
+export const rememberParams = (inputs: Record<string, QueryParamInput>) => {
+  const named = Object.fromEntries(Object.entries(inputs).filter(([name]) => !name.startsWith('$')));
+  localStorage.setItem(REMEMBERED_PARAMS_KEY, JSON.stringify({ ...loadRememberedParams(), ...named }));
+};
+
+/** Valores iniciais do formulário: o último usado para o nome, senão vazio com o tipo sugerido. */
+export const resolveParamInputs = (names: string[], current: Record<string, QueryParamInput> = {}): Record<string, QueryParamInput> => {
+  // Posicionais ($1) mudam de sentido a cada consulta: só nomes são lembrados
+  const remembered = loadRememberedParams();
+  const resolved: Record<string, QueryParamInput> = {};
+  names.forEach(name => {
+    resolved[name] = current[name] || (name.startsWith('$') ? null : remembered[name]) || { type: guessParamType(name), value: '' };
+  });
+  return resolved;
+};
@@ -0,0 +1,477 @@
+import { DatabaseSchema, Table } from "../types";
+import { SqlToken, tokenizeSql, splitTokenStatements, isWord, isPunct } from "./sqlTokenizer";
+
+/**
+ * Árvore sintática enxuta de comandos PostgreSQL, montada sobre o sqlTokenizer.
+ * Cobre o que as verificações do editor precisam: tipo do comando, CTEs, subconsultas,
+ * tabelas referenciadas (com alias), JOINs com suas igualdades e a presença de WHERE.
+ * Expressões não são interpretadas.
+ */
+export type SqlCommandKind =
+  | 'select' | 'insert' | 'update' | 'delete' | 'merge' | 'values'
+  | 'truncate' | 'drop' | 'create' | 'alter' | 'other';
+
+export interface SqlTableRef {
+  schema?: string;
+  name: string;
+  alias?: string;
+  start: number;
+  end: number;
+  nameStart: number; // Início da última parte do nome (sem o schema)
+}
+
+export interface SqlColumnRef {
+  qualifier?: string; // Tabela ou alias (ex: "u" em u.id)
+  name: string;
+}
+
+export interface SqlJoin {
+  table: SqlTableRef | null; // null para subconsulta/função no JOIN
+  alias?: string;
+  equalities: [SqlColumnRef, SqlColumnRef][]; // Pares a.x = b.y do ON (ou USING)
+  start: number;
+}
+
+export interface SqlStatementNode {
+  kind: SqlCommandKind;
+  name?: string; // Nome da CTE (WITH nome AS (...))
+  keyword: string; // Primeira palavra do comando, em minúsculas
+  start: number;
+  end: number;
+  line: number;
+  target: SqlTableRef | null; // Tabela alterada por INSERT/UPDATE/DELETE/MERGE
+  tables: SqlTableRef[]; // FROM, JOIN, USING e o alvo
+  aliases: string[]; // Aliases de subconsultas e funções no FROM/JOIN
+  joins: SqlJoin[];
+  hasWhere: boolean; // WHERE no nível do próprio comando (não em subconsultas)
+  ctes: SqlStatementNode[];
+  subqueries: SqlStatementNode[];
+  dropsObjects: boolean; // DROP, TRUNCATE ou ALTER ... DROP
+  opaque: boolean; // DO/CALL: o corpo não é analisado, pode alterar ou destruir qualquer coisa
+}
+
+const COMMAND_KINDS: Record<string, SqlCommandKind> = {
+  select: 'select', table: 'select', insert: 'insert', update: 'update', delete: 'delete',
+  merge: 'merge', values: 'values', truncate: 'truncate', drop: 'drop', create: 'create', alter: 'alter'
+};
+
+const DATA_MODIFYING: SqlCommandKind[] = ['insert', 'update', 'delete', 'merge'];
+const OPAQUE_COMMANDS = ['do', 'call'];
+
+// Palavras que encerram uma referência de tabela (não podem ser alias sem AS)
+const CLAUSE_WORDS = new Set([
+  'where', 'join', 'inner', 'left', 'right', 'full', 'cross', 'natural', 'on', 'using', 'group', 'order',
+  'limit', 'offset', 'union', 'intersect', 'except', 'set', 'returning', 'window', 'having', 'fetch',
+  'for', 'values', 'default', 'select', 'when', 'then', 'tablesample', 'overriding', 'do', 'lateral'
+]);
+
+const JOIN_PREFIX_WORDS = ['inner', 'left', 'right', 'full', 'cross', 'natural', 'outer'];
+
+const identifierValue = (token: SqlToken | undefined): string | null =>
+  token && (token.kind === 'word' || token.kind === 'quoted') ? token.value : null;
+
+/** Índice do ')' que fecha o '(' em `open`; tokens.length quando não fecha. */
+const matchingParen = (tokens: SqlToken[], open: number): number => {
+  let depth = 0;
+  for (let i = open; i < tokens.length; i++) {
+    if (isPunct(tokens[i], '(')) depth++;
+    else if (isPunct(tokens[i], ')') && --depth === 0) return i;
+  }
+  return tokens.length;
+};
+
+const startsQuery = (token: SqlToken | undefined) => isWord(token, 'select', 'with', 'values', 'insert', 'update', 'delete', 'table');
+
+/** Lê [ONLY] nome[.nome] [*] [[AS] alias] a partir de `i`; no FROM, nome seguido de '(' é função. */
+const readTableRef = (tokens: SqlToken[], i: number, inFrom = true): { ref: SqlTableRef | null; next: number; alias?: string } => {
+  if (isWord(tokens[i], 'only')) i++;
+  const startToken = tokens[i];
+  const parts: string[] = [];
+  while (i < tokens.length) {
+    const value = identifierValue(tokens[i]);
+    if (value === null || (tokens[i].kind === 'word' && parts.length === 0 && CLAUSE_WORDS.has(value))) break;
+    parts.push(value);
+    i++;
+    if (!isPunct(tokens[i], '.')) break;
+    i++;
+  }
+  if (parts.length === 0 || !startToken) return { ref: null, next: i };
+  const endToken = tokens[i - 1];
+  if (tokens[i]?.kind === 'operator' && tokens[i].text === '*') i++;
+  // Chamada de função no FROM (generate_series(...)): não é tabela
+  if (inFrom && isPunct(tokens[i], '(')) {
+    const alias = readAlias(tokens, matchingParen(tokens, i) + 1);
+    return { ref: null, next: alias.next, alias: alias.alias };
+  }
+
+  const ref: SqlTableRef = {
+    name: parts[parts.length - 1],
+    schema: parts.length > 1 ? parts[parts.length - 2] : undefined,
+    start: startToken.start,
+    end: endToken.end,
+    nameStart: endToken.start
+  };
+  const alias = readAlias(tokens, i);
+  if (alias.alias) ref.alias = alias.alias;
+  return { ref, next: alias.next };
+};
+
+const readAlias = (tokens: SqlToken[], i: number): { alias?: string; next: number } => {
+  const hasAs = isWord(tokens[i], 'as');
+  const j = hasAs ? i + 1 : i;
+  const value = identifierValue(tokens[j]);
+  if (value === null || (!hasAs && tokens[j].kind === 'word' && CLAUSE_WORDS.has(value))) return { next: i };
+  let next = j + 1;
+  // Lista de colunas do alias: AS t(a, b)
+  if (isPunct(tokens[next], '(')) next = matchingParen(tokens, next) + 1;
+  return { alias: value, next };
+};
+
+/** Referência a coluna em `i` (a.b, s.t.c ou apenas c) e o índice seguinte. */
+const readColumnRef = (tokens: SqlToken[], i: number): { ref: SqlColumnRef | null; next: number } => {
+  const parts: string[] = [];
+  while (i < tokens.length) {
+    const value = identifierValue(tokens[i]);
+    if (value === null) break;
+    parts.push(value);
+    i++;
+    if (!isPunct(tokens[i], '.')) break;
+    i++;
+  }
+  if (parts.length === 0) return { ref: null, next: i };
+  return {
+    ref: { name: parts[parts.length - 1], qualifier: parts.length > 1 ? parts[parts.length - 2] : undefined },
+    next: i
+  };
+};
+
+/** Igualdades coluna = coluna de uma condição de JOIN (no nível 0 de parênteses ou dentro deles). */
+const readEqualities = (tokens: SqlToken[]): [SqlColumnRef, SqlColumnRef][] => {
+  const pairs: [SqlColumnRef, SqlColumnRef][] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    if (!(tokens[i].kind === 'operator' && tokens[i].text === '=')) continue;
+    // Lado esquerdo: volta até o início da referência
+    let k = i - 1;
+    while (k > 0 && isPunct(tokens[k - 1], '.')) k -= 2;
+    const left = readColumnRef(tokens, k);
+    const right = readColumnRef(tokens, i + 1);
+    if (left.ref && left.next === i && right.ref && !isPunct(tokens[right.next], '(')) pairs.push([left.ref, right.ref]);
+  }
+  return pairs;
+};
+
+const isJoinStart = (tokens: SqlToken[], i: number) => {
+  if (isWord(tokens[i], 'join')) return true;
+  // left(nome, 3) é função, não LEFT JOIN
+  return isWord(tokens[i], ...JOIN_PREFIX_WORDS) && !isPunct(tokens[i + 1], '(') && tokens.slice(i, i + 4).some(t => isWord(t, 'join'));
+};
+
+const emptyNode = (kind: SqlCommandKind, keyword: string, first: SqlToken, last: SqlToken): SqlStatementNode => ({
+  kind, keyword, start: first.start, end: last.end, line: first.line,
+  target: null, tables: [], aliases: [], joins: [], hasWhere: false, ctes: [], subqueries: [], dropsObjects: false, opaque: false
+});
+
+/** Início do comando envolvido por EXPLAIN [ANALYZE] [VERBOSE] / EXPLAIN (...) ou PREPARE nome [(tipos)] AS; -1 se não houver. */
+const wrappedStatementStart = (tokens: SqlToken[], i: number): number => {
+  if (isWord(tokens[i], 'explain')) {
+    let k = i + 1;
+    if (isPunct(tokens[k], '(')) k = matchingParen(tokens, k) + 1;
+    else while (isWord(tokens[k], 'analyze', 'analyse', 'verbose')) k++;
+    return k < tokens.length ? k : -1;
+  }
+  if (isWord(tokens[i], 'prepare')) {
+    let k = i + 2;
+    if (isPunct(tokens[k], '(')) k = matchingParen(tokens, k) + 1;
+    return isWord(tokens[k], 'as') && k + 1 < tokens.length ? k + 1 : -1;
+  }
+  return -1;
+};
+
+/** Monta o nó de um comando (tokens sem comentários, sem o ';'). */
+const parseStatementTokens = (tokens: SqlToken[]): SqlStatementNode | null => {
+  if (tokens.length === 0) return null;
+  // (SELECT ...) entre parênteses: o comando é o de dentro
+  if (isPunct(tokens[0], '(') && matchingParen(tokens, 0) === tokens.length - 1) {
+    return parseStatementTokens(tokens.slice(1, -1));
+  }
+
+  const ctes: SqlStatementNode[] = [];
+  let i = 0;
+  if (isWord(tokens[0], 'with')) {
+    i = 1;
+    if (isWord(tokens[i], 'recursive')) i++;
+    while (i < tokens.length) {
+      // nome [(colunas)] AS [NOT] [MATERIALIZED] ( consulta )
+      const name = identifierValue(tokens[i]);
+      i++;
+      if (isPunct(tokens[i], '(')) i = matchingParen(tokens, i) + 1;
+      while (i < tokens.length && !isPunct(tokens[i], '(')) i++;
+      const close = matchingParen(tokens, i);
+      const cte = parseStatementTokens(tokens.slice(i + 1, close));
+      if (cte) ctes.push({ ...cte, name: name ?? undefined });
+      i = close + 1;
+      // SEARCH/CYCLE da CTE recursiva ficam entre o ')' e a vírgula
+      while (i < tokens.length && !isPunct(tokens[i], ',') && !startsQuery(tokens[i])) i++;
+      if (isPunct(tokens[i], ',')) { i++; continue; }
+      break;
+    }
+  }
+
+  const first = tokens[i];
+  if (!first) {
+    const node = emptyNode('other', 'with', tokens[0], tokens[tokens.length - 1]);
+    node.ctes = ctes;
+    return node;
+  }
+  const keyword = first.kind === 'word' ? first.value : first.text;
+  const node = emptyNode(COMMAND_KINDS[keyword] || 'other', keyword, tokens[0], tokens[tokens.length - 1]);
+  node.ctes = ctes;
+  node.dropsObjects = node.kind === 'drop' || node.kind === 'truncate';
+
+  // EXPLAIN ANALYZE executa o comando e PREPARE o guarda para EXECUTE: o de dentro vale como subconsulta
+  const wrapped = wrappedStatementStart(tokens, i);
+  if (wrapped !== -1) {
+    const inner = parseStatementTokens(tokens.slice(wrapped));
+    if (inner) node.subqueries.push(inner);
+    return node;
+  }
+  if (OPAQUE_COMMANDS.includes(keyword)) {
+    node.opaque = true;
+    return node;
+  }
+
+  const addTable = (ref: SqlTableRef | null) => { if (ref) node.tables.push(ref); };
+  const setTarget = (ref: SqlTableRef | null) => { node.target = ref; addTable(ref); };
+
+  // Alvo dos comandos que alteram dados
+  if (node.kind === 'update') {
+    const { ref, next } = readTableRef(tokens, i + 1, false);
+    setTarget(ref);
+    i = next;
+  } else if (node.kind === 'delete' && isWord(tokens[i + 1], 'from')) {
+    const { ref, next } = readTableRef(tokens, i + 2, false);
+    setTarget(ref);
+    i = next;
+  } else if ((node.kind === 'insert' || node.kind === 'merge') && isWord(tokens[i + 1], 'into')) {
+    const { ref, next } = readTableRef(tokens, i + 2, false);
+    setTarget(ref);
+    i = next;
+  } else if (node.kind === 'truncate') {
+    i++;
+    if (isWord(tokens[i], 'table')) i++;
+    while (i < tokens.length) {
+      const { ref, next } = readTableRef(tokens, i, false);
+      addTable(ref);
+      i = next;
+      if (!isPunct(tokens[i], ',')) break;
+      i++;
+    }
+  } else {
+    i++;
+  }
+
+  // Cláusula em que estamos: FROM/USING aceitam listas de tabelas separadas por vírgula
+  let clause = '';
+  let currentJoin: SqlJoin | null = null;
+  let joinCondition: SqlToken[] = [];
+  const closeJoin = () => {
+    if (currentJoin) {
+      currentJoin.equalities.push(...readEqualities(joinCondition));
+      node.joins.push(currentJoin);
+    }
+    currentJoin = null;
+    joinCondition = [];
+  };
+
+  while (i < tokens.length) {
+    const token = tokens[i];
+
+    if (isPunct(token, '(')) {
+      const close = matchingParen(tokens, i);
+      const inner = tokens.slice(i + 1, close);
+      if (startsQuery(inner[0]) || isPunct(inner[0], '(')) {
+        const sub = parseStatementTokens(inner);
+        if (sub) node.subqueries.push(sub);
+        // Subconsulta no FROM/JOIN: o alias vem depois do ')'
+        if (clause === 'from' || clause === 'using' || clause === 'join') {
+          const alias = readAlias(tokens, close + 1);
+          if (alias.alias) node.aliases.push(alias.alias);
+          if (currentJoin && clause === 'join') currentJoin.alias = alias.alias;
+          if (clause === 'join') clause = 'join-condition';
+          i = alias.next;
+          continue;
+        }
+      } else if (clause === 'join-condition') {
+        joinCondition.push(...tokens.slice(i, close + 1));
+      } else {
+        // Subconsultas aninhadas em expressões: IN (SELECT ...), EXISTS (...), funções
+        inner.forEach((t, k) => {
+          if (isPunct(t, '(') && startsQuery(inner[k + 1])) {
+            const sub = parseStatementTokens(inner.slice(k + 1, matchingParen(inner, k)));
+            if (sub) node.subqueries.push(sub);
+          }
+        });
+      }
+      i = close + 1;
+      continue;
+    }
+
+    if (token.kind === 'word') {
+      if (isJoinStart(tokens, i)) {
+        closeJoin();
+        while (!isWord(tokens[i], 'join')) i++;
+        i++;
+        if (isWord(tokens[i], 'lateral')) i++;
+        currentJoin = { table: null, equalities: [], start: token.start };
+        if (isPunct(tokens[i], '(')) { clause = 'join'; continue; }
+        const { ref, next, alias } = readTableRef(tokens, i);
+        currentJoin.table = ref;
+        currentJoin.alias = ref?.alias || alias;
+        if (alias) node.aliases.push(alias);
+        addTable(ref);
+        clause = 'join-condition';
+        i = next;
+        continue;
+      }
+      if (clause === 'join-condition' && token.value === 'using' && isPunct(tokens[i + 1], '(') && currentJoin) {
+        // USING (col): igualdade entre a tabela do JOIN e a anterior
+        const close = matchingParen(tokens, i + 1);
+        const joined = currentJoin as SqlJoin;
+        const previous = node.tables[node.tables.length - 2];
+        tokens.slice(i + 2, close).forEach(t => {
+          const name = identifierValue(t);
+          if (name === null) return;
+          joined.equalities.push([
+            { qualifier: previous?.alias || previous?.name, name },
+            { qualifier: joined.alias || joined.table?.name, name }
+          ]);
+        });
+        i = close + 1;
+        continue;
+      }
+      if (clause === 'join-condition' && (token.value === 'on' || !CLAUSE_WORDS.has(token.value))) {
+        if (token.value !== 'on') joinCondition.push(token);
+        i++;
+        continue;
+      }
+      if (token.value === 'from' || (token.value === 'using' && (node.kind === 'delete' || node.kind === 'merge'))) {
+        closeJoin();
+        clause = token.value;
+        const list = readTableList(tokens, i + 1);
+        list.refs.forEach(addTable);
+        node.aliases.push(...list.aliases);
+        i = list.next;
+        continue;
+      }
+      if (token.value === 'where') {
+        closeJoin();
+        node.hasWhere = true;
+        clause = 'where';
+      } else if (token.value === 'drop' && node.kind === 'alter') {
+        node.dropsObjects = true;
+      } else if (CLAUSE_WORDS.has(token.value)) {
+        closeJoin();
+        clause = token.value;
+      }
+    } else if (clause === 'join-condition') {
+      joinCondition.push(token);
+    } else if (isPunct(token, ',') && clause === 'from') {
+      const list = readTableList(tokens, i + 1);
+      list.refs.forEach(addTable);
+      node.aliases.push(...list.aliases);
+      i = list.next;
+      continue;
+    }
+    i++;
+  }
+  closeJoin();
+  return node;
+};
+
+/** Tabelas separadas por vírgula após FROM/USING; para em JOIN, subconsulta ou cláusula. */
+const readTableList = (tokens: SqlToken[], i: number): { refs: SqlTableRef[]; aliases: string[]; next: number } => {
+  const refs: SqlTableRef[] = [];
+  const aliases: string[] = [];
+  while (i < tokens.length) {
+    if (isWord(tokens[i], 'lateral')) i++;
+    if (isPunct(tokens[i], '(')) break;
+    const { ref, next, alias } = readTableRef(tokens, i);
+    if (ref) refs.push(ref);
+    if (alias) aliases.push(alias);
+    if (next === i) break;
+    i = next;
+    if (!isPunct(tokens[i], ',') || isPunct(tokens[i + 1], '(')) break;
+    i++;
+  }
+  return { refs, aliases, next: i };
+};
+
+export const parseSql = (sql: string): SqlStatementNode[] =>
+  splitTokenStatements(tokenizeSql(sql))
+    .map(parseStatementTokens)
+    .filter((node): node is SqlStatementNode => node !== null);
+
+/** Percorre o comando, suas CTEs e subconsultas (em profundidade). */
+export const walkStatements = (nodes: SqlStatementNode[], visit: (node: SqlStatementNode) => void) => {
+  nodes.forEach(node => {
+    visit(node);
+    walkStatements(node.ctes, visit);
+    walkStatements(node.subqueries, visit);
+  });
+};
+
+/** Há INSERT/UPDATE/DELETE/MERGE (ou DO/CALL) em algum ponto, inclusive dentro de CTEs e de EXPLAIN/PREPARE. */
+export const isDataModifying = (nodes: SqlStatementNode[]): boolean => {
+  let found = false;
+  walkStatements(nodes, node => { if (DATA_MODIFYING.includes(node.kind) || node.opaque) found = true; });
+  return found;
+};
+
+/** UPDATE/DELETE sem WHERE próprio (um WHERE de subconsulta não filtra o comando). */
+export const findUnfilteredWrites = (nodes: SqlStatementNode[]): SqlStatementNode[] => {
+  const found: SqlStatementNode[] = [];
+  walkStatements(nodes, node => {
+    if ((node.kind === 'update' || node.kind === 'delete') && !node.hasWhere) found.push(node);
+  });
+  return found;
+};
+
+/** DROP/TRUNCATE/ALTER ... DROP e DO/CALL, cujo corpo pode conter qualquer um deles. */
+export const findDestructiveStatements = (nodes: SqlStatementNode[]): SqlStatementNode[] => {
+  const found: SqlStatementNode[] = [];
+  walkStatements(nodes, node => { if (node.dropsObjects || node.opaque) found.push(node); });
+  return found;
+};
+
+export const findOpaqueStatements = (nodes: SqlStatementNode[]): SqlStatementNode[] => {
+  const found: SqlStatementNode[] = [];
+  walkStatements(nodes, node => { if (node.opaque) found.push(node); });
+  return found;
+};
+
+export const findSchemaTable = (schema: DatabaseSchema, ref: SqlTableRef): Table | undefined => {
+  const name = ref.name.toLowerCase();
+  const candidates = schema.tables.filter(t => t.name.toLowerCase() === name);
+  if (ref.schema) return candidates.find(t => t.schema.toLowerCase() === ref.schema!.toLowerCase());
+  return candidates.find(t => t.schema === 'public') || candidates[0];
+};
+
+/**
+ * Tabela do esquema a que uma coluna pertence no escopo do comando: pelo alias/nome
+ * qualificado ou, sem qualificador, pela única tabela do comando que tem a coluna.
+ */
+export const resolveColumnTable = (
+  schema: DatabaseSchema, node: SqlStatementNode, column: SqlColumnRef
+): { ref: SqlTableRef; table: Table } | null => {
+  const scope = node.tables
+    .map(ref => ({ ref, table: findSchemaTable(schema, ref) }))
+    .filter((entry): entry is { ref: SqlTableRef; table: Table } => !!entry.table);
+  if (column.qualifier) {
+    const qualifier = column.qualifier.toLowerCase();
+    return scope.find(e => e.ref.alias?.toLowerCase() === qualifier)
+      || scope.find(e => !e.ref.alias && e.ref.name.toLowerCase() === qualifier)
+      || null;
+  }
+  const owners = scope.filter(e => e.table.columns.some(c => c.name.toLowerCase() === column.name.toLowerCase()));
+  return owners.length === 1 ? owners[0] : null;
+};
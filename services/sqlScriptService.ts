@@ -0,0 +1,140 @@
+import { ScriptStatementResult } from "../types";
+
+/**
+ * Se `i` inicia um trecho que não é código (comentário de linha ou de bloco, inclusive
+ * aninhado) ou um literal ('...', E'...', "...", $tag$...$tag$), devolve o índice logo
+ * após o trecho; senão devolve o próprio `i`.
+ */
+export const skipLiteralOrComment = (sql: string, i: number): number => {
+  const ch = sql[i];
+  const next = sql[i + 1];
+
+  if (ch === '-' && next === '-') {
+    const end = sql.indexOf('\n', i);
+    return end === -1 ? sql.length : end + 1;
+  }
+  if (ch === '/' && next === '*') {
+    let level = 1;
+    i += 2;
+    while (i < sql.length && level > 0) {
+      if (sql[i] === '/' && sql[i + 1] === '*') { level++; i += 2; }
+      else if (sql[i] === '*' && sql[i + 1] === '/') { level--; i += 2; }
+      else i++;
+    }
+    return i;
+  }
+  if (ch === "'") {
+    // E'...' aceita escapes com barra invertida
+    const prev = sql[i - 1];
+    const backslashEscapes = (prev === 'E' || prev === 'e') && !/[A-Za-z0-9_]/.test(sql[i - 2] || '');
+    i++;
+    while (i < sql.length) {
+      if (backslashEscapes && sql[i] === '\\') { i += 2; continue; }
+      if (sql[i] === "'") {
+        if (sql[i + 1] === "'") { i += 2; continue; }
+        break;
+      }
+      i++;
+    }
+    return i + 1;
+  }
+  if (ch === '"') {
+    i++;
+    while (i < sql.length) {
+      if (sql[i] === '"') {
+        if (sql[i + 1] === '"') { i += 2; continue; }
+        break;
+      }
+      i++;
+    }
+    return i + 1;
+  }
+  if (ch === '$' && !/[A-Za-z0-9_]/.test(sql[i - 1] || '')) {
+    const tagMatch = sql.slice(i).match(/^\$([A-Za-z_][A-Za-z0-9_]*)?\$/);
+    if (tagMatch) {
+      const tag = tagMatch[0];
+      const end = sql.indexOf(tag, i + tag.length);
+      return end === -1 ? sql.length : end + tag.length;
+    }
+  }
+  return i;
+};
+
+const isCommentStart = (sql: string, i: number) =>
+  (sql[i] === '-' && sql[i + 1] === '-') || (sql[i] === '/' && sql[i + 1] === '*');
+
+/**
+ * Separação de scripts SQL em comandos individuais.
+ * Só divide em ';' fora de strings, identificadores, dollar-quotes, comentários e
+ * parênteses (ex: corpo de CREATE RULE). Trechos só com comentários/espaços são descartados.
+ */
+export const splitSqlStatements = (sql: string): string[] => {
+  const statements: string[] = [];
+  let start = 0;
+  let depth = 0;
+  let hasCode = false;
+  let i = 0;
+
+  const pushStatement = (end: number) => {
+    const text = sql.slice(start, end).trim();
+    if (text && hasCode) statements.push(text);
+    start = end + 1;
+    hasCode = false;
+  };
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const skipped = skipLiteralOrComment(sql, i);
+    if (skipped !== i) {
+      hasCode = hasCode || !isCommentStart(sql, i);
+      i = skipped;
+      continue;
+    }
+
+    hasCode = hasCode || (ch !== ';' && !/\s/.test(ch));
+
+    if (ch === '(') depth++;
+    else if (ch === ')') depth = Math.max(0, depth - 1);
+    else if (ch === ';' && depth === 0) {
+      pushStatement(i);
+      i++;
+      continue;
+    }
+    i++;
+  }
+  pushStatement(sql.length);
+  return statements;
+};
+
+/**
+ * Posição (0-based) de cada comando no texto original, para traduzir a posição de um
+ * erro do PostgreSQL (relativa ao comando) para o editor.
+ */
+export const locateStatements = (sql: string, statements: string[]): number[] => {
+  let cursor = 0;
+  return statements.map(stmt => {
+    const found = sql.indexOf(stmt, cursor);
+    if (found === -1) return cursor;
+    cursor = found + stmt.length;
+    return found;
+  });
+};
+
+/** Command tag no formato do psql, ex: "UPDATE 3", "SELECT 10". */
+export const formatCommandTag = (command?: string | null, rowCount?: number | null): string => {
+  if (!command) return '—';
+  if (rowCount === null || rowCount === undefined) return command;
+  if (command === 'INSERT') return `INSERT 0 ${rowCount}`;
+  return `${command} ${rowCount}`;
+};
+
+/**
+ * Comando exibido ao final de um script: o primeiro com erro, senão o último que
+ * retornou colunas (SELECT/RETURNING), senão o último comando.
+ */
+export const pickDefaultStatement = (results: ScriptStatementResult[]): number => {
+  const failed = results.find(r => r.status === 'error');
+  if (failed) return failed.index;
+  const withRows = [...results].reverse().find(r => r.fields.length > 0);
+  return withRows ? withRows.index : results.length - 1;
+};
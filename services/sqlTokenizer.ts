@@ -0,0 +1,216 @@
+/**
+ * Analisador léxico de SQL no dialeto do PostgreSQL.
+ * Reconhece identificadores (com e sem aspas), strings ('...', E'...', $tag$...$tag$),
+ * números, operadores, parâmetros ($1, :nome), comentários (inclusive aninhados) e
+ * linhas de meta-comando do psql (\connect). Não valida gramática: isso fica com quem consome.
+ */
+export type SqlTokenKind =
+  | 'word'          // Palavra-chave ou identificador sem aspas
+  | 'quoted'        // "Identificador com aspas"
+  | 'string'        // 'texto', E'texto', B'0101', U&'...'
+  | 'dollar'        // $tag$corpo$tag$
+  | 'number'
+  | 'param'         // $1 ou :nome
+  | 'operator'      // =, <>, ||, ->>, ::, etc.
+  | 'punct'         // ( ) [ ] , ; .
+  | 'comment'
+  | 'meta';         // \connect, \restrict... (saída do pg_dump)
+
+export interface SqlToken {
+  kind: SqlTokenKind;
+  text: string;   // Trecho original
+  value: string;  // Palavras em minúsculas, identificadores/strings sem aspas e escapes
+  start: number;
+  end: number;
+  line: number;   // 1-based
+  unterminated?: boolean; // String, identificador, dollar-quote ou comentário sem fechamento
+}
+
+const OPERATOR_CHARS = '+-*/<>=~!@#%^&|`?';
+const WORD_START = /[A-Za-z_\u0080-\uFFFF]/;
+const WORD_PART = /[A-Za-z0-9_$\u0080-\uFFFF]/;
+
+export const tokenizeSql = (sql: string): SqlToken[] => {
+  const tokens: SqlToken[] = [];
+  let i = 0;
+  let line = 1;
+
+  const push = (kind: SqlTokenKind, start: number, end: number, value?: string, unterminated = false) => {
+    const text = sql.slice(start, end);
+    tokens.push({ kind, text, value: value ?? text, start, end, line, ...(unterminated ? { unterminated } : {}) });
+    for (let k = start; k < end; k++) if (sql[k] === '\n') line++;
+  };
+
+  const atLineStart = (pos: number) => {
+    let k = pos - 1;
+    while (k >= 0 && (sql[k] === ' ' || sql[k] === '\t')) k--;
+    return k < 0 || sql[k] === '\n';
+  };
+
+  const readQuoted = (start: number, quote: string, backslashEscapes: boolean): { end: number; value: string; unterminated?: boolean } => {
+    let j = start + 1;
+    let value = '';
+    while (j < sql.length) {
+      const c = sql[j];
+      if (backslashEscapes && c === '\\' && j + 1 < sql.length) {
+        const n = sql[j + 1];
+        value += n === 'n' ? '\n' : n === 't' ? '\t' : n === 'r' ? '\r' : n;
+        j += 2;
+        continue;
+      }
+      if (c === quote) {
+        if (sql[j + 1] === quote) { value += quote; j += 2; continue; }
+        return { end: j + 1, value };
+      }
+      value += c;
+      j++;
+    }
+    return { end: sql.length, value, unterminated: true };
+  };
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+
+    if (ch === '\n') { line++; i++; continue; }
+    if (/\s/.test(ch)) { i++; continue; }
+
+    // Meta-comando do psql: só no início da linha
+    if (ch === '\\' && atLineStart(i)) {
+      const end = sql.indexOf('\n', i);
+      push('meta', i, end === -1 ? sql.length : end);
+      i = end === -1 ? sql.length : end;
+      continue;
+    }
+    if (ch === '-' && next === '-') {
+      const end = sql.indexOf('\n', i);
+      push('comment', i, end === -1 ? sql.length : end);
+      i = end === -1 ? sql.length : end;
+      continue;
+    }
+    if (ch === '/' && next === '*') {
+      let level = 1;
+      let j = i + 2;
+      while (j < sql.length && level > 0) {
+        if (sql[j] === '/' && sql[j + 1] === '*') { level++; j += 2; }
+        else if (sql[j] === '*' && sql[j + 1] === '/') { level--; j += 2; }
+        else j++;
+      }
+      push('comment', i, j, undefined, level > 0);
+      i = j;
+      continue;
+    }
+    // Prefixos de string: E'..', B'..', X'..', U&'..', N'..'
+    if (/[EeBbXxNn]/.test(ch) && next === "'" && !WORD_PART.test(sql[i - 1] || '')) {
+      const { end, value, unterminated } = readQuoted(i + 1, "'", ch === 'E' || ch === 'e');
+      push('string', i, end, value, unterminated);
+      i = end;
+      continue;
+    }
+    if ((ch === 'U' || ch === 'u') && next === '&' && (sql[i + 2] === "'" || sql[i + 2] === '"')) {
+      const quote = sql[i + 2];
+      const { end, value, unterminated } = readQuoted(i + 2, quote, false);
+      push(quote === "'" ? 'string' : 'quoted', i, end, value, unterminated);
+      i = end;
+      continue;
+    }
+    if (ch === "'") {
+      const { end, value, unterminated } = readQuoted(i, "'", false);
+      push('string', i, end, value, unterminated);
+      i = end;
+      continue;
+    }
+    if (ch === '"') {
+      const { end, value, unterminated } = readQuoted(i, '"', false);
+      push('quoted', i, end, value, unterminated);
+      i = end;
+      continue;
+    }
+    if (ch === '$') {
+      const param = sql.slice(i).match(/^\$\d+/);
+      if (param) {
+        push('param', i, i + param[0].length);
+        i += param[0].length;
+        continue;
+      }
+      const tag = sql.slice(i).match(/^\$([A-Za-z_\u0080-\uFFFF][A-Za-z0-9_\u0080-\uFFFF]*)?\$/);
+      if (tag) {
+        const close = sql.indexOf(tag[0], i + tag[0].length);
+        const end = close === -1 ? sql.length : close + tag[0].length;
+        push('dollar', i, end, sql.slice(i + tag[0].length, close === -1 ? sql.length : close), close === -1);
+        i = end;
+        continue;
+      }
+    }
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(next || ''))) {
+      const num = sql.slice(i).match(/^(0[xX][0-9A-Fa-f_]+|0[oO][0-7_]+|0[bB][01_]+|(\d[\d_]*)?\.?\d[\d_]*([eE][+-]?\d+)?|\d[\d_]*\.)/);
+      const len = num && num[0].length > 0 ? num[0].length : 1;
+      push('number', i, i + len);
+      i += len;
+      continue;
+    }
+    if (WORD_START.test(ch)) {
+      let j = i + 1;
+      while (j < sql.length && WORD_PART.test(sql[j])) j++;
+      push('word', i, j, sql.slice(i, j).toLowerCase());
+      i = j;
+      continue;
+    }
+    if (ch === ':' && next === ':') {
+      push('operator', i, i + 2);
+      i += 2;
+      continue;
+    }
+    if (ch === ':' && WORD_START.test(next || '') && !WORD_PART.test(sql[i - 1] || '') && sql[i - 1] !== ']') {
+      let j = i + 2;
+      while (j < sql.length && WORD_PART.test(sql[j])) j++;
+      push('param', i, j, sql.slice(i + 1, j));
+      i = j;
+      continue;
+    }
+    if ('()[],;.:'.includes(ch)) {
+      push('punct', i, i + 1);
+      i++;
+      continue;
+    }
+    if (OPERATOR_CHARS.includes(ch)) {
+      let j = i + 1;
+      // Operadores compostos param antes de um início de comentário (ex: "=--")
+      while (j < sql.length && OPERATOR_CHARS.includes(sql[j]) && !(sql[j] === '-' && sql[j + 1] === '-') && !(sql[j] === '/' && sql[j + 1] === '*')) j++;
+      push('operator', i, j);
+      i = j;
+      continue;
+    }
+    push('operator', i, i + 1);
+    i++;
+  }
+  return tokens;
+};
+
+/** Tokens sem comentários e meta-comandos, separados em comandos por ';' fora de parênteses. */
+export const splitTokenStatements = (tokens: SqlToken[]): SqlToken[][] => {
+  const statements: SqlToken[][] = [];
+  let current: SqlToken[] = [];
+  let depth = 0;
+  tokens.forEach(token => {
+    if (token.kind === 'comment' || token.kind === 'meta') return;
+    if (token.kind === 'punct') {
+      if (token.text === '(') depth++;
+      else if (token.text === ')') depth = Math.max(0, depth - 1);
+      else if (token.text === ';' && depth === 0) {
+        if (current.length > 0) statements.push(current);
+        current = [];
+        return;
+      }
+    }
+    current.push(token);
+  });
+  if (current.length > 0) statements.push(current);
+  return statements;
+};
+
+export const isWord = (token: SqlToken | undefined, ...words: string[]) =>
+  !!token && token.kind === 'word' && words.includes(token.value);
+
+export const isPunct = (token: SqlToken | undefined, punct: string) =>
+  !!token && token.kind === 'punct' && token.text === punct;
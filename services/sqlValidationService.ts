@@ -0,0 +1,472 @@
+import { DatabaseSchema, SqlValidationIssue, SqlValidationResult, Table } from "../types";
+import { SqlToken, tokenizeSql, splitTokenStatements, isWord, isPunct } from "./sqlTokenizer";
+import { SqlStatementNode, parseSql, findSchemaTable } from "./sqlParser";
+
+/**
+ * Validação offline: sintaxe básica (literais sem fechamento, parênteses, comando desconhecido)
+ * e referências a tabelas/colunas conferidas contra o DatabaseSchema, com sugestões por
+ * distância de edição. Não substitui o parser do PostgreSQL: o PREPARE no servidor completa.
+ */
+const KNOWN_COMMANDS = [
+  'select', 'insert', 'update', 'delete', 'with', 'values', 'table', 'merge', 'create', 'alter', 'drop', 'truncate',
+  'explain', 'analyze', 'vacuum', 'begin', 'start', 'commit', 'end', 'rollback', 'abort', 'savepoint', 'release',
+  'set', 'reset', 'show', 'grant', 'revoke', 'comment', 'copy', 'do', 'call', 'lock', 'listen', 'notify', 'unlisten',
+  'prepare', 'execute', 'deallocate', 'declare', 'fetch', 'move', 'close', 'refresh', 'reindex', 'cluster',
+  'discard', 'checkpoint', 'load', 'security', 'import', 'reassign'
+];
+
+// Comandos que o PostgreSQL aceita em PREPARE
+const PREPARABLE = ['select', 'insert', 'update', 'delete', 'with', 'values', 'table', 'merge'];
+
+const SYSTEM_SCHEMAS = ['pg_catalog', 'information_schema'];
+
+/** Distância de edição com transposição de letras vizinhas (emial -> email custa 1). */
+const editDistance = (a: string, b: string): number => {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+    }
+  }
+  return d[a.length][b.length];
+};
+
+/** Nome mais parecido entre os candidatos, dentro de uma distância proporcional ao tamanho. */
+export const closestName = (name: string, candidates: string[]): string | undefined => {
+  const target = name.toLowerCase();
+  const limit = Math.max(1, Math.floor(target.length / 3));
+  let best: { name: string; distance: number } | undefined;
+  candidates.forEach(candidate => {
+    const lower = candidate.toLowerCase();
+    const distance = lower.replace(/_/g, '') === target.replace(/_/g, '') ? 0.5 : editDistance(target, lower);
+    if (distance <= limit && (!best || distance < best.distance)) best = { name: candidate, distance };
+  });
+  return best?.name;
+};
+
+/** Identificador pronto para o SQL: sem aspas quando possível. */
+export const renderIdentifier = (name: string) => /^[a-z_][a-z0-9_$]*$/.test(name) ? name : `"${name.replace(/"/g, '""')}"`;
+
+interface Scope {
+  node: SqlStatementNode;
+  ancestors: SqlStatementNode[];
+}
+
+const collectScopes = (nodes: SqlStatementNode[], ancestors: SqlStatementNode[], out: Scope[]) => {
+  nodes.forEach(node => {
+    out.push({ node, ancestors });
+    collectScopes([...node.ctes, ...node.subqueries], [node, ...ancestors], out);
+  });
+};
+
+/** Comando mais interno que contém a posição (CTEs e subconsultas incluídas). */
+const innermostScope = (scopes: Scope[], position: number): Scope | undefined =>
+  scopes
+    .filter(scope => scope.node.start <= position && position < scope.node.end)
+    .sort((a, b) => (a.node.end - a.node.start) - (b.node.end - b.node.start))[0];
+
+const cteNames = (scope: Scope): string[] =>
+  [scope.node, ...scope.ancestors].flatMap(node => node.ctes.map(cte => cte.name).filter((n): n is string => !!n));
+
+const suggestion = (value: string | undefined) => value ? ` Você quis dizer "${value}"?` : '';
+
+const isIdent = (t?: SqlToken) => !!t && (t.kind === 'word' || t.kind === 'quoted');
+
+// Palavras que ocupam o lugar de uma coluna sem ser coluna
+const NON_COLUMN_WORDS = [
+  'true', 'false', 'null', 'default', 'unknown', 'end', 'user', 'current_user', 'session_user', 'current_role',
+  'current_catalog', 'current_schema', 'current_date', 'current_time', 'current_timestamp', 'localtime', 'localtimestamp'
+];
+const CLAUSE_BREAKS = ['from', 'join', 'on', 'using', 'limit', 'offset', 'fetch', 'window', 'union', 'intersect', 'except', 'for', 'into', 'returning', 'with', 'values'];
+const ORDER_MODIFIERS = ['asc', 'desc', 'nulls', 'first', 'last'];
+
+type Clause = 'list' | 'cond' | 'by' | null;
+
+/** Trechos do próprio comando (fora de parênteses) por cláusula: lista do SELECT, WHERE/HAVING, GROUP/ORDER BY. */
+const clauseSections = (node: SqlStatementNode, code: SqlToken[]): { clause: Clause; tokens: SqlToken[] }[] => {
+  const sections: { clause: Clause; tokens: SqlToken[] }[] = [];
+  let current: { clause: Clause; tokens: SqlToken[] } | undefined;
+  let depth = 0;
+  code.forEach((token, k) => {
+    if (token.start < node.start || token.end > node.end) return;
+    if (depth === 0 && token.kind === 'word') {
+      const clause: Clause | undefined = token.value === 'select' ? 'list'
+        : token.value === 'where' || token.value === 'having' ? 'cond'
+        : (token.value === 'group' || token.value === 'order') && isWord(code[k + 1], 'by') ? 'by'
+        : CLAUSE_BREAKS.includes(token.value) ? null : undefined;
+      if (clause !== undefined) {
+        current = { clause, tokens: [] };
+        sections.push(current);
+        return;
+      }
+      if (token.value === 'by' && current?.clause === 'by' && current.tokens.length === 0) return;
+    }
+    if (isPunct(token, '(')) depth++;
+    else if (isPunct(token, ')')) depth--;
+    current?.tokens.push(token);
+  });
+  return sections;
+};
+
+/** Separa uma lista pelas vírgulas do nível de fora. */
+const splitItems = (tokens: SqlToken[]): SqlToken[][] => {
+  const items: SqlToken[][] = [[]];
+  let depth = 0;
+  tokens.forEach(token => {
+    if (isPunct(token, '(')) depth++;
+    else if (isPunct(token, ')')) depth--;
+    if (depth === 0 && isPunct(token, ',')) items.push([]);
+    else items[items.length - 1].push(token);
+  });
+  return items.filter(item => item.length > 0);
+};
+
+const withoutDistinct = (item: SqlToken[]) => isWord(item[0], 'distinct', 'all') ? item.slice(1) : item;
+
+/** Nome de saída de um item do SELECT; undefined quando o PostgreSQL inventaria um (?column?, count...). */
+const outputName = (item: SqlToken[]): string | undefined => {
+  const last = item[item.length - 1];
+  if (!isIdent(last) || (last.kind === 'word' && NON_COLUMN_WORDS.includes(last.value))) return undefined;
+  const previous = item[item.length - 2];
+  if (item.length === 1 || isWord(previous, 'as') || isIdent(previous) || isPunct(previous, ')')) return last.value;
+  return item.length <= 5 && item.every(t => isIdent(t) || isPunct(t, '.')) ? last.value : undefined;
+};
+
+/** Colunas que uma CTE expõe: a lista WITH x (a, b) ou os nomes de saída do SELECT; null quando incertas. */
+const cteColumns = (cte: SqlStatementNode, code: SqlToken[]): string[] | null => {
+  let k = code.findIndex(t => t.start >= cte.start) - 2; // Antes do "(" que abre o corpo
+  while (isWord(code[k], 'materialized', 'not')) k--;
+  if (isWord(code[k], 'as') && isPunct(code[k - 1], ')')) {
+    const names: string[] = [];
+    for (k -= 2; k >= 0 && !isPunct(code[k], '('); k--) if (isIdent(code[k])) names.unshift(code[k].value);
+    return names;
+  }
+  if (cte.kind !== 'select') return null;
+  const list = clauseSections(cte, code).find(section => section.clause === 'list');
+  if (!list) return null;
+  const names = splitItems(list.tokens).map(item => outputName(withoutDistinct(item)));
+  return names.every((n): n is string => !!n) ? names : null;
+};
+
+const syntaxIssues = (tokens: SqlToken[]): SqlValidationIssue[] => {
+  const issues: SqlValidationIssue[] = [];
+  const add = (message: string, token: SqlToken, extra: Partial<SqlValidationIssue> = {}) =>
+    issues.push({ severity: 'error', message, start: token.start, end: token.end, source: 'local', ...extra });
+
+  tokens.forEach(token => {
+    if (!token.unterminated) return;
+    const what = token.kind === 'comment' ? 'Comentário' : token.kind === 'quoted' ? 'Identificador entre aspas' : 'Texto';
+    add(`${what} aberto na linha ${token.line} sem fechamento.`, { ...token, end: Math.min(token.end, token.start + 1) });
+  });
+
+  const open: SqlToken[] = [];
+  tokens.forEach((token, k) => {
+    if (isPunct(token, '(')) open.push(token);
+    else if (isPunct(token, ')')) {
+      if (open.length === 0) add('Parêntese ")" sem abertura correspondente.', token);
+      else open.pop();
+    } else if (isPunct(token, ',')) {
+      const next = tokens.slice(k + 1).find(t => t.kind !== 'comment');
+      if (isPunct(next, ')') || isWord(next, 'from')) {
+        add(`Vírgula sobrando antes de ${next!.text.toUpperCase()}.`, token, { suggestion: '' });
+      }
+    }
+  });
+  open.forEach(token => add('Parêntese "(" sem fechamento.', token));
+
+  splitTokenStatements(tokens).forEach(statement => {
+    const first = statement[0];
+    if (first.kind !== 'word' || KNOWN_COMMANDS.includes(first.value)) return;
+    const guess = closestName(first.value, KNOWN_COMMANDS);
+    add(`Comando desconhecido "${first.text}".${guess ? ` Você quis dizer ${guess.toUpperCase()}?` : ''}`, first,
+      guess ? { suggestion: first.text === first.text.toUpperCase() ? guess.toUpperCase() : guess } : {});
+  });
+  return issues;
+};
+
+const referenceIssues = (sql: string, tokens: SqlToken[], schema: DatabaseSchema): SqlValidationIssue[] => {
+  const issues: SqlValidationIssue[] = [];
+  const scopes: Scope[] = [];
+  collectScopes(parseSql(sql), [], scopes);
+  const tableNames = schema.tables.map(t => t.name);
+  const tableRanges: [number, number][] = [];
+  // Tabelas/views criadas pelo próprio script ainda não estão no schema
+  const createdInScript = new Set<string>();
+  splitTokenStatements(tokens).forEach(statement => {
+    if (!isWord(statement[0], 'create')) return;
+    const at = statement.findIndex(t => isWord(t, 'table', 'view'));
+    if (at === -1) return;
+    let k = at + 1;
+    if (isWord(statement[k], 'if')) k += 3;
+    while (isPunct(statement[k + 1], '.')) k += 2;
+    if (statement[k]) createdInScript.add(statement[k].value.toLowerCase());
+  });
+
+  const columnsOf = (table: Table) => table.columns.map(c => c.name);
+  const columnIssue = (columns: string[], name: string, token: SqlToken, label: string) => {
+    if (columns.some(c => c.toLowerCase() === name.toLowerCase())) return;
+    const guess = closestName(name, columns);
+    issues.push({
+      severity: 'error',
+      message: `Coluna "${name}" não existe em ${label}.${suggestion(guess)}`,
+      start: token.start, end: token.end, source: 'local',
+      ...(guess ? { suggestion: renderIdentifier(guess) } : {})
+    });
+  };
+
+  // 1. Tabelas do FROM/JOIN/alvo de DML
+  scopes.forEach(scope => {
+    const ctes = cteNames(scope).map(n => n.toLowerCase());
+    scope.node.tables.forEach(ref => {
+      tableRanges.push([ref.start, ref.end]);
+      if (ref.schema && SYSTEM_SCHEMAS.includes(ref.schema.toLowerCase())) return;
+      if (!ref.schema && (ctes.includes(ref.name.toLowerCase()) || ref.name.toLowerCase().startsWith('pg_'))) return;
+      if (createdInScript.has(ref.name.toLowerCase())) return;
+      if (findSchemaTable(schema, ref)) return;
+      const candidates = ref.schema ? schema.tables.filter(t => t.schema.toLowerCase() === ref.schema!.toLowerCase()).map(t => t.name) : tableNames;
+      const guess = closestName(ref.name, candidates);
+      issues.push({
+        severity: 'error',
+        message: `Tabela "${ref.schema ? `${ref.schema}.` : ''}${ref.name}" não encontrada no schema.${suggestion(guess)}`,
+        start: ref.nameStart, end: ref.end, source: 'local',
+        ...(guess ? { suggestion: renderIdentifier(guess) } : {})
+      });
+    });
+  });
+
+  // 2. Colunas qualificadas (alias.coluna, tabela.coluna, schema.tabela.coluna)
+  const code = tokens.filter(t => t.kind !== 'comment' && t.kind !== 'meta');
+  for (let k = 0; k + 2 < code.length; k++) {
+    const [qualifier, dot, column] = [code[k], code[k + 1], code[k + 2]];
+    if (!isIdent(qualifier) || !isPunct(dot, '.') || !isIdent(column)) continue;
+    if (isPunct(code[k - 1], '.') || isPunct(code[k + 3], '.') || isPunct(code[k + 3], '(')) continue;
+    if (code[k - 1]?.text === '::') continue;
+    if (tableRanges.some(([start, end]) => qualifier.start >= start && qualifier.start < end)) continue;
+    const scope = innermostScope(scopes, qualifier.start);
+    if (!scope || !['select', 'insert', 'update', 'delete', 'merge'].includes(scope.node.kind)) continue;
+
+    const name = qualifier.value.toLowerCase();
+    let resolved: { table?: Table; label: string } | null = null;
+    for (const node of [scope.node, ...scope.ancestors]) {
+      const ref = node.tables.find(r => r.alias?.toLowerCase() === name) || node.tables.find(r => !r.alias && r.name.toLowerCase() === name);
+      if (ref) { resolved = { table: findSchemaTable(schema, ref), label: ref.alias ? `${ref.name} (${ref.alias})` : ref.name }; break; }
+      if (node.aliases.some(a => a.toLowerCase() === name) || cteNames({ node, ancestors: [] }).some(c => c.toLowerCase() === name)) { resolved = { label: name }; break; }
+      // ON CONFLICT ... DO UPDATE SET col = excluded.col
+      if (name === 'excluded' && node.kind === 'insert' && node.target) { resolved = { table: findSchemaTable(schema, node.target), label: 'excluded' }; break; }
+    }
+    if (!resolved) {
+      const inScope = [scope.node, ...scope.ancestors].flatMap(n => [...n.tables.map(r => r.alias || r.name), ...n.aliases]);
+      const guess = closestName(qualifier.value, inScope);
+      issues.push({
+        severity: 'warning',
+        message: `"${qualifier.value}" não é tabela nem alias do FROM deste comando.${suggestion(guess)}`,
+        start: qualifier.start, end: qualifier.end, source: 'local',
+        ...(guess ? { suggestion: renderIdentifier(guess) } : {})
+      });
+      continue;
+    }
+    if (resolved.table && column.text !== '*') columnIssue(columnsOf(resolved.table), column.value, column, resolved.label);
+  }
+
+  // 3. Colunas sem ambiguidade: INSERT INTO t (a, b) e UPDATE t SET a = ...
+  scopes.forEach(({ node }) => {
+    if (!node.target || (node.kind !== 'insert' && node.kind !== 'update')) return;
+    const table = findSchemaTable(schema, node.target);
+    if (!table) return;
+    const inNode = code.filter(t => t.start >= node.target!.end && t.end <= node.end);
+    if (node.kind === 'insert') {
+      let k = 0;
+      if (isIdent(inNode[k]) && !isWord(inNode[k], 'values', 'select', 'default', 'overriding', 'with')) k++; // alias
+      if (!isPunct(inNode[k], '(') || isWord(inNode[k + 1], 'select', 'with', 'values')) return;
+      for (k++; k < inNode.length && !isPunct(inNode[k], ')'); k++) {
+        if (isIdent(inNode[k])) columnIssue(columnsOf(table), inNode[k].value, inNode[k], table.name);
+      }
+      return;
+    }
+    let depth = 0;
+    let inSet = false;
+    inNode.forEach((token, k) => {
+      if (isPunct(token, '(')) depth++;
+      else if (isPunct(token, ')')) depth--;
+      if (depth !== 0) return;
+      if (isWord(token, 'set')) { inSet = true; return; }
+      if (isWord(token, 'from', 'where', 'returning')) { inSet = false; return; }
+      const previous = inNode[k - 1];
+      if (inSet && isIdent(token) && inNode[k + 1]?.text === '=' && (isWord(previous, 'set') || isPunct(previous, ','))) {
+        columnIssue(columnsOf(table), token.value, token, table.name);
+      }
+    });
+  });
+
+  // 4. Colunas sem qualificador no SELECT: itens soltos da lista, GROUP/ORDER BY e comparações
+  //    simples do WHERE/HAVING. Só quando todas as fontes visíveis têm colunas conhecidas (tabelas do
+  //    schema ou CTEs com nomes de saída); expressões, argumentos de função e JOIN ... ON ficam para o PREPARE.
+  scopes.forEach(scope => {
+    if (scope.node.kind !== 'select') return;
+    const ctes = [scope.node, ...scope.ancestors].flatMap(node => node.ctes);
+    const sourcesOf = (node: SqlStatementNode) => {
+      if (node.aliases.length > 0) return null; // Subconsulta/função no FROM: colunas desconhecidas
+      const sources: { label: string; names: string[]; columns: string[] }[] = [];
+      for (const ref of node.tables) {
+        const cte = ref.schema ? undefined : ctes.find(c => c.name?.toLowerCase() === ref.name.toLowerCase());
+        const table = cte ? undefined : findSchemaTable(schema, ref);
+        const columns = cte ? cteColumns(cte, code) : table && columnsOf(table);
+        if (!columns) return null;
+        sources.push({ label: ref.alias ? `${ref.name} (${ref.alias})` : ref.name, names: [ref.alias || ref.name], columns });
+      }
+      return sources;
+    };
+    const own = sourcesOf(scope.node);
+    if (!own || own.length === 0) return;
+    // Subconsultas correlacionadas enxergam o FROM de fora; CTEs não
+    const outer: typeof own = [];
+    let child = scope.node;
+    for (const ancestor of scope.ancestors) {
+      if (ancestor.ctes.includes(child)) break;
+      const sources = sourcesOf(ancestor);
+      if (!sources) return;
+      outer.push(...sources);
+      child = ancestor;
+    }
+    const visible = [...own, ...outer];
+    const known = new Set(visible.flatMap(source => [...source.columns, ...source.names]).map(n => n.toLowerCase()));
+    const candidates = Array.from(new Set(visible.flatMap(source => source.columns)));
+    const label = own.length === 1 ? own[0].label : `nenhuma tabela do FROM (${own.map(source => source.label).join(', ')})`;
+    const sections = clauseSections(scope.node, code);
+    const outputNames = sections
+      .filter(section => section.clause === 'list')
+      .flatMap(section => splitItems(section.tokens).map(item => outputName(withoutDistinct(item))))
+      .filter((n): n is string => !!n)
+      .map(n => n.toLowerCase());
+
+    const check = (token: SqlToken, extra: string[] = []) => {
+      if (token.kind === 'word' && NON_COLUMN_WORDS.includes(token.value)) return;
+      const name = token.value.toLowerCase();
+      if (known.has(name) || extra.includes(name)) return;
+      columnIssue(candidates, token.value, token, label);
+    };
+
+    sections.forEach(({ clause, tokens: section }) => {
+      if (clause === 'list') {
+        splitItems(section).map(withoutDistinct).forEach(item => {
+          if (!isIdent(item[0])) return;
+          if (item.length === 1 || (item.length === 2 && isIdent(item[1])) || (item.length === 3 && isWord(item[1], 'as') && isIdent(item[2]))) check(item[0]);
+        });
+      } else if (clause === 'by') {
+        splitItems(section).forEach(item => {
+          if (isIdent(item[0]) && item.slice(1).every(t => isWord(t, ...ORDER_MODIFIERS))) check(item[0], outputNames);
+        });
+      } else if (clause === 'cond') {
+        let depth = 0;
+        section.forEach((token, k) => {
+          if (isPunct(token, '(')) depth++;
+          else if (isPunct(token, ')')) depth--;
+          if (depth !== 0 || !isIdent(token)) return;
+          const [previous, next] = [section[k - 1], section[k + 1]];
+          if (previous && !isWord(previous, 'and', 'or', 'not')) return;
+          if (next?.kind === 'operator' || isWord(next, 'is', 'in', 'like', 'ilike', 'between', 'similar', 'not')) check(token);
+        });
+      }
+    });
+  });
+  return issues;
+};
+
+/** Aplica as sugestões (de trás para frente, sem sobreposição). */
+export const applySuggestions = (sql: string, issues: SqlValidationIssue[]): string => {
+  let result = sql;
+  let limit = Infinity;
+  issues
+    .filter(issue => issue.suggestion !== undefined)
+    .sort((a, b) => b.start - a.start)
+    .forEach(issue => {
+      if (issue.end > limit) return;
+      result = result.slice(0, issue.start) + issue.suggestion + result.slice(issue.end);
+      limit = issue.start;
+    });
+  return result;
+};
+
+export const validateSqlOffline = (sql: string, schema?: DatabaseSchema): SqlValidationResult => {
+  const tokens = tokenizeSql(sql);
+  const issues = syntaxIssues(tokens);
+  // Sem sintaxe mínima a árvore não é confiável para checar referências
+  if (schema && schema.tables.length > 0 && !issues.some(i => i.severity === 'error')) {
+    issues.push(...referenceIssues(sql, tokens, schema));
+  }
+  issues.sort((a, b) => a.start - b.start);
+  const errors = issues.filter(i => i.severity === 'error');
+  const corrected = applySuggestions(sql, issues);
+  return {
+    isValid: errors.length === 0,
+    error: errors[0]?.message,
+    correctedSql: corrected !== sql ? corrected : undefined,
+    issues
+  };
+};
+
+/** Comandos do script que podem ir para PREPARE (até o primeiro DDL, que muda o catálogo). */
+export const preparableStatements = (sql: string): { sql: string; start: number }[] => {
+  const statements: { sql: string; start: number }[] = [];
+  for (const tokens of splitTokenStatements(tokenizeSql(sql))) {
+    const first = tokens[0];
+    if (!PREPARABLE.includes(first.value) && !isPunct(first, '(')) {
+      if (first.kind === 'word' && ['create', 'alter', 'drop', 'truncate', 'comment', 'grant', 'revoke'].includes(first.value)) break;
+      continue;
+    }
+    const end = tokens[tokens.length - 1].end;
+    statements.push({ sql: sql.slice(first.start, end), start: first.start });
+  }
+  return statements;
+};
+
+const ERROR_PATTERNS: { pattern: RegExp; kind: 'relation' | 'column' | 'column-of' }[] = [
+  { pattern: /(?:column|coluna) "([^"]+)" (?:of relation|da relação) "([^"]+)" (?:does not exist|não existe)/i, kind: 'column-of' },
+  { pattern: /(?:relation|relação) "([^"]+)" (?:does not exist|não existe)/i, kind: 'relation' },
+  { pattern: /(?:column|coluna) "?([^"\s]+)"? (?:does not exist|não existe)/i, kind: 'column' }
+];
+
+/**
+ * Correção a partir da mensagem de erro do PostgreSQL (tabela/coluna inexistente) ou das
+ * sugestões da validação offline. Devolve o SQL original quando não há o que sugerir.
+ */
+export const suggestSqlFix = (sql: string, errorMessage: string, schema?: DatabaseSchema): string => {
+  if (!schema || schema.tables.length === 0) return sql;
+  const offline = validateSqlOffline(sql, schema);
+  if (offline.correctedSql) return offline.correctedSql;
+
+  const tokens = tokenizeSql(sql).filter(t => t.kind === 'word' || t.kind === 'quoted');
+  const scopes: Scope[] = [];
+  collectScopes(parseSql(sql), [], scopes);
+  const referenced = scopes
+    .flatMap(({ node }) => node.tables)
+    .map(ref => findSchemaTable(schema, ref))
+    .filter((t): t is Table => !!t);
+  const replaceAll = (name: string, replacement: string | undefined) => {
+    if (!replacement) return sql;
+    const issues: SqlValidationIssue[] = tokens
+      .filter(t => t.value.toLowerCase() === name.toLowerCase())
+      .map(t => ({ severity: 'error', message: '', start: t.start, end: t.end, source: 'local', suggestion: renderIdentifier(replacement) }));
+    return applySuggestions(sql, issues);
+  };
+
+  for (const { pattern, kind } of ERROR_PATTERNS) {
+    const match = errorMessage.match(pattern);
+    if (!match) continue;
+    if (kind === 'relation') {
+      const name = match[1].split('.').pop()!;
+      return replaceAll(name, closestName(name, schema.tables.map(t => t.name)));
+    }
+    if (kind === 'column-of') {
+      const table = schema.tables.find(t => t.name.toLowerCase() === match[2].toLowerCase());
+      return replaceAll(match[1], table && closestName(match[1], table.columns.map(c => c.name)));
+    }
+    const name = match[1].split('.').pop()!;
+    const columns = (referenced.length > 0 ? referenced : schema.tables).flatMap(t => t.columns.map(c => c.name));
+    return replaceAll(name, closestName(name, Array.from(new Set(columns))));
+  }
+  return sql;
+};
@@ -5,6 +5,7 @@ export interface Column {
   isPrimaryKey?: boolean;
   isForeignKey?: boolean;
   references?: string; // e.g., "users.id"
+  description?: string; // COMMENT ON COLUMN
 }
 
 export interface Table {
@@ -20,6 +21,18 @@ export interface DatabaseSchema {
   connectionSource?: 'ai' | 'ddl' | 'simulated' | 'real';
 }
 
+export interface DdlParseWarning {
+  line: number; // Linha (1-based) do início do comando no DDL
+  statement: string; // Trecho inicial do comando
+  message: string;
+}
+
+export interface DdlParseResult {
+  schema: DatabaseSchema;
+  warnings: DdlParseWarning[]; // Comandos não suportados ou inconsistentes (não interrompem a importação)
+  ignoredStatements: number; // Comandos sem efeito no modelo (SET, GRANT, índices, sequences...)
+}
+
 export interface DatabaseObject {
   id: string;
   name: string;
@@ -32,6 +45,41 @@ export interface DatabaseObject {
   isSanitized?: boolean; // Indica se continha bytes inválidos
 }
 
+export type SslMode = 'disable' | 'prefer' | 'require' | 'verify-ca' | 'verify-full';
+
+/** TLS da conexão, com a mesma semântica do sslmode do libpq. Certificados são caminhos lidos pelo backend. */
+export interface SslOptions {
+  mode: SslMode;
+  caFile?: string; // sslrootcert
+  certFile?: string; // sslcert (certificado do cliente)
+  keyFile?: string; // sslkey
+  servername?: string; // SNI e nome verificado no verify-full, quando difere do host
+}
+
+/** Túnel SSH até o banco por um bastion. Senha e frase só seguem para o backend, nunca são salvas no perfil. */
+export interface SshTunnelOptions {
+  host: string;
+  port?: string; // Padrão 22
+  user: string;
+  authMethod: 'key' | 'password';
+  keyFile?: string; // Chave privada (OpenSSH/PEM), lida pelo backend
+  password?: string;
+  passphrase?: string; // Frase da chave
+  localPort?: string; // Porta local fixa; vazio = porta livre qualquer
+  secretInVault?: boolean; // Senha/frase guardada no cofre do perfil
+}
+
+export type SshTunnelState = 'connecting' | 'open' | 'reconnecting' | 'failed' | 'closed';
+
+export interface SshTunnelStatus {
+  label: string; // usuario@bastion:porta → host:porta
+  status: SshTunnelState;
+  localPort: number | null;
+  lastError: string | null;
+  reconnects: number;
+  openedAt: number | null;
+}
+
 export interface DbCredentials {
   host: string;
   port: string;
@@ -39,6 +87,11 @@ export interface DbCredentials {
   password?: string;
   database: string;
   color?: string; // Hex ou classe de cor para o contexto
+  profileId?: string; // Perfil salvo; a senha pode estar no cofre do processo principal
+  connectionToken?: string; // Emitido pelo backend em troca da senha (ver registerCredentials)
+  ssl?: SslOptions; // Ausente = sem TLS (disable)
+  ssh?: SshTunnelOptions; // Ausente = conexão direta
+  applicationName?: string; // application_name da sessão (pg_stat_activity)
 }
 
 export interface ServerStats {
@@ -104,6 +157,187 @@ export interface UnusedIndex {
   size: string;
 }
 
+export type MaintenanceAction = 'cancel' | 'terminate' | 'vacuum' | 'drop-index';
+
+export interface MaintenanceResult {
+  success: boolean;
+  action: MaintenanceAction;
+  target: string;
+  command: string;
+  message: string;
+  durationMs: number;
+}
+
+export interface VacuumOptions {
+  full?: boolean;
+  analyze?: boolean; // Padrão: true
+}
+
+export interface BackendSession {
+  id: string; // ID da aba de query dona da sessão
+  profile: string;
+  pid: number | null;
+  createdAt: number;
+  lastUsed: number;
+  busy: boolean;
+}
+
+export interface BackendPoolInfo {
+  profile: string;
+  totalCount: number;
+  idleCount: number;
+  waitingCount: number;
+  createdAt: number;
+  lastUsed: number;
+}
+
+export interface ExecuteOptions {
+  executionId?: string;
+  statementTimeoutMs?: number; // Ausente/0 = padrão do papel/banco
+  params?: any[]; // Valores de $1..$n (consulta parametrizada)
+}
+
+export interface ResultField {
+  name: string;
+  dataTypeID: number; // OID do tipo no PostgreSQL
+  typeName: string | null; // format_type(oid), ex: 'integer', 'timestamp with time zone'
+  typeCategory: string | null; // pg_type.typcategory (N, S, D, B, A, U...)
+  tableID: number | null; // OID da tabela de origem (null para expressões)
+  columnID: number | null; // attnum na tabela de origem
+  tableName: string | null; // schema.tabela de origem
+  isPrimaryKey: boolean;
+}
+
+export interface PageOptions extends ExecuteOptions {
+  pageSize?: number;
+  maxRows?: number;
+}
+
+export interface ResultPage {
+  rows: any[];
+  cursorId: string | null; // null quando não há mais páginas no servidor
+  fetched: number; // Total acumulado de linhas lidas do cursor
+  hasMore: boolean;
+  capped: boolean; // Leitura interrompida pelo teto de linhas (maxResultRows)
+  estimatedRows?: number | null; // Estimativa do planner (apenas na primeira página)
+  fields?: ResultField[]; // Metadados das colunas (apenas na primeira página)
+  notices?: ServerNotice[]; // NOTICE/WARNING emitidos durante a leitura desta página
+}
+
+export interface ResultPagination {
+  cursorId: string | null;
+  fetched: number;
+  hasMore: boolean;
+  capped: boolean;
+  estimatedRows: number | null;
+}
+
+export type ScriptErrorMode = 'stop' | 'continue';
+
+export type QueryParamType = 'text' | 'number' | 'date' | 'timestamp' | 'boolean' | 'array' | 'null';
+
+/** Valor de um parâmetro como digitado no formulário; convertido em parseParamValue. */
+export interface QueryParamInput {
+  type: QueryParamType;
+  value: string;
+}
+
+export interface ServerNotice {
+  severity: string; // NOTICE, WARNING, INFO, LOG, DEBUG
+  code?: string; // SQLSTATE
+  message: string;
+  detail?: string;
+  hint?: string;
+  context?: string; // Pilha de chamadas (ex: função PL/pgSQL e linha do RAISE)
+  position?: number; // Posição (1-based) no texto do comando, quando informada
+}
+
+/** ErrorResponse do PostgreSQL com os campos estruturados que o driver expõe. */
+export interface QueryErrorDetails {
+  message: string;
+  code?: string; // SQLSTATE (ex: 23505 unique_violation, 42P01 undefined_table)
+  severity?: string;
+  detail?: string;
+  hint?: string;
+  position?: number; // Caractere (1-based) do erro no texto enviado
+  internalPosition?: number; // Posição dentro de internalQuery (ex: SQL gerado por função PL/pgSQL)
+  internalQuery?: string;
+  context?: string;
+  schema?: string;
+  table?: string;
+  column?: string;
+  dataType?: string;
+  constraint?: string;
+}
+
+/** Erro da última execução da aba; a posição é relativa a `sql` (o texto inteiro do editor). */
+export interface TabExecutionError extends QueryErrorDetails {
+  sql: string;
+  statementIndex?: number; // Comando do script que falhou
+}
+
+export interface ConstraintInfo {
+  name: string;
+  type: string; // PRIMARY KEY, UNIQUE, FOREIGN KEY, CHECK...
+  definition: string; // pg_get_constraintdef
+  schema: string;
+  table: string;
+  columns: string[];
+  referencedSchema?: string | null;
+  referencedTable?: string | null;
+  referencedColumns?: string[];
+}
+
+/** Pedido para o SchemaViewer revelar uma tabela (e destacar colunas), ex: a partir de um erro. */
+export interface SchemaFocusRequest {
+  tableId: string; // schema.tabela
+  columns?: string[];
+  label?: string; // Ex: nome da constraint, exibido no destaque
+  requestId: number; // Muda a cada pedido para repetir o foco na mesma tabela
+}
+
+export interface ScriptStatementResult {
+  index: number;
+  sql: string;
+  status: 'success' | 'error' | 'skipped';
+  command: string | null; // Command tag do PostgreSQL (SELECT, UPDATE, CREATE TABLE...)
+  rowCount: number | null;
+  durationMs: number;
+  rows: any[];
+  fields: ResultField[];
+  truncated?: boolean; // Linhas cortadas pelo teto maxResultRows
+  notices: ServerNotice[];
+  error?: string;
+  errorCode?: string;
+  errorDetails?: QueryErrorDetails;
+}
+
+export interface ScriptResult {
+  statements: ScriptStatementResult[];
+  halted: boolean; // Execução interrompida (erro em modo 'stop' ou cancelamento)
+}
+
+export interface ScriptOptions extends ExecuteOptions {
+  onError?: ScriptErrorMode;
+  maxRows?: number;
+}
+
+export interface CancelResult {
+  success: boolean;
+  executionId: string;
+  pid: number;
+  message: string;
+}
+
+export type TransactionStatus = 'idle' | 'active' | 'failed';
+export type TransactionAction = 'begin' | 'savepoint' | 'rollback-to' | 'release' | 'commit' | 'rollback';
+
+export interface TransactionState {
+  status: TransactionStatus;
+  startedAt: number | null;
+  savepoints: string[];
+}
+
 export type AppStep = 'connection' | 'builder' | 'preview' | 'results' | 'datadiff' | 'dashboard' | 'serverhealth' | 'roadmap' | 'queryflow' | 'objects';
 
 export type ResultTab = 'table' | 'terminal' | 'chart' | 'analysis' | 'explain';
@@ -134,6 +368,7 @@ export interface TabResultsState {
   chatMessages: AnalysisMessage[];
   chatInput: string;
   chartConfig: ChartConfig;
+  activeStatement?: number; // Comando selecionado quando o resultado vem de um script
 }
 
 export interface QueryTab {
@@ -146,6 +381,15 @@ export interface QueryTab {
   isGenerating: boolean;
   isExecuting: boolean;
   resultsState: TabResultsState;
+  transaction?: TransactionState; // Estado da transação na sessão dedicada da aba
+  activeExecutionId?: string | null; // Execução em andamento no backend (permite Cancelar)
+  statementTimeoutMs?: number; // statement_timeout aplicado na sessão da aba (0 = padrão do papel/banco)
+  pagination?: ResultPagination | null; // Cursor do resultado atual (modo "próxima página")
+  resultFields?: ResultField[]; // Tipos reais das colunas do resultado atual
+  resultNotices?: ServerNotice[]; // Mensagens do servidor (RAISE NOTICE, avisos) da execução atual
+  scriptResults?: ScriptStatementResult[] | null; // Um resultado por comando quando a execução é um script
+  scriptErrorMode?: ScriptErrorMode; // Parar no primeiro erro ou continuar o script
+  executionError?: TabExecutionError | null; // Erro da última execução (marcador no editor)
 }
 
 export interface ConnectionGroup {
@@ -155,16 +399,91 @@ export interface ConnectionGroup {
   schema: DatabaseSchema | null;
   credentials: DbCredentials | null;
   simulationData: Record<string, any[]>;
+  simulationConfig?: SimulationConfig; // Como simulationData foi gerado (reproduzível pelo seed)
   tabs: QueryTab[];
   activeTabId: string;
 }
 
+export type SimulationDistribution = 'uniform' | 'normal' | 'skewed';
+
+// Gerador de uma coluna simulada. 'auto' usa as heurísticas de nome/tipo (ou a FK, se houver).
+export type SimulationColumnGenerator = (
+  | { kind: 'auto' }
+  | { kind: 'reference'; distribution?: SimulationDistribution } // Quantos filhos cada pai recebe
+  | { kind: 'enum'; values: (string | number | boolean)[]; weights?: number[] }
+  | { kind: 'range'; min: number | string; max: number | string; decimals?: number; distribution?: SimulationDistribution } // Números ou datas ISO
+  | { kind: 'sequence'; start?: number; step?: number }
+  | { kind: 'pattern'; template: string } // {n} = número da linha, {rand} = inteiro aleatório
+  | { kind: 'constant'; value: any }
+) & {
+  nullRatio?: number; // 0 a 1
+  unique?: boolean;
+};
+
+export interface SimulationTableConfig {
+  rowCount?: number;
+  columns?: Record<string, SimulationColumnGenerator>;
+}
+
+export interface SimulationConfig {
+  seed: number;
+  rowCount: number; // Padrão por tabela
+  referenceDate: string; // YYYY-MM-DD; datas geradas são relativas a ela para o seed reproduzir o mesmo conjunto
+  tables?: Record<string, SimulationTableConfig>; // Chave "schema.tabela"
+}
+
+// Conjunto de dados simulados salvo em arquivo (JSON); também exportável como dump SQL
+export interface SimulationFixture {
+  format: 'psqlbuddy-fixture';
+  version: number;
+  name: string;
+  exportedAt: string;
+  schema: DatabaseSchema;
+  config?: SimulationConfig; // Presente quando os dados vieram do gerador
+  data: Record<string, any[]>; // Chave "schema.tabela"
+}
+
+export interface SnapshotOptions {
+  rowsPerTable: number;
+  strategy: 'tablesample' | 'fk-closure'; // fk-closure traz também as linhas-pai referenciadas
+  tables: string[]; // "schema.tabela"; na fk-closure as tabelas referenciadas entram junto
+  maskSensitive: boolean;
+}
+
+export interface SnapshotProgress {
+  phase: 'sample' | 'closure';
+  table: string;
+  done: number;
+  total: number;
+}
+
+export interface OfflineSnapshot {
+  schema: DatabaseSchema;
+  data: Record<string, any[]>;
+  warnings: string[];
+  rowCount: number;
+}
+
+export interface FixtureImportResult {
+  schema: DatabaseSchema;
+  data: Record<string, any[]>;
+  config?: SimulationConfig;
+  warnings: string[]; // Tabelas/colunas ignoradas por não existirem no schema
+}
+
+export interface SqlFormatStyle {
+  keywordCase: 'upper' | 'lower' | 'preserve';
+  indentSize: number; // Espaços por nível
+  commaStyle: 'trailing' | 'leading';
+  lineWidth: number; // Acima disso as listas quebram um item por linha
+}
+
 export interface AppSettings {
   enableAiGeneration: boolean;
-  enableAiValidation: boolean;
   enableAiTips: boolean;
   beginnerMode: boolean; 
   advancedMode: boolean; 
+  enableSqlValidation: boolean; // Validação local no editor; não depende da IA
   enableDmlSafety: boolean;
   blockDestructiveCommands: boolean;
   enableDataMasking: boolean; 
@@ -177,17 +496,20 @@ export interface AppSettings {
   defaultLimit: number;
   defaultDiffLimit: number; 
   defaultRowsPerPage: number;
+  resultPageSize: number; // Linhas por página lidas do cursor no servidor
+  maxResultRows: number; // Teto rígido de linhas carregadas por resultado
   theme: 'light' | 'dark';
   updateBranch: 'stable' | 'main';
   storageQuotaTrigger: number; 
+  sqlFormat: SqlFormatStyle;
 }
 
 export const DEFAULT_SETTINGS: AppSettings = {
   enableAiGeneration: true,
-  enableAiValidation: true,
   enableAiTips: true,
   beginnerMode: true, 
   advancedMode: false, 
+  enableSqlValidation: true,
   enableDmlSafety: true,
   blockDestructiveCommands: true,
   enableDataMasking: true, 
@@ -200,9 +522,12 @@ export const DEFAULT_SETTINGS: AppSettings = {
   defaultLimit: 100,
   defaultDiffLimit: 500, 
   defaultRowsPerPage: 10,
+  resultPageSize: 1000,
+  maxResultRows: 50000,
   theme: 'dark',
   updateBranch: 'stable',
-  storageQuotaTrigger: 90
+  storageQuotaTrigger: 90,
+  sqlFormat: { keywordCase: 'upper', indentSize: 2, commaStyle: 'trailing', lineWidth: 80 }
 };
 
 export interface QueryProfilingSnapshot {
@@ -222,15 +547,30 @@ export interface QueryProfilingSnapshot {
   };
 }
 
+export interface SqlValidationIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  start: number; // Offset no SQL validado
+  end: number;
+  suggestion?: string; // Texto que substitui start..end ("você quis dizer")
+  source: 'local' | 'server';
+  code?: string; // SQLSTATE quando vem do PREPARE no servidor
+}
+
+export interface SqlValidationResult {
+  isValid: boolean;
+  error?: string; // Primeira mensagem de erro
+  correctedSql?: string; // SQL com as sugestões aplicadas
+  issues?: SqlValidationIssue[];
+  serverChecked?: boolean; // PREPARE executado na conexão real
+}
+
 export interface QueryResult {
   sql: string;
   explanation: string;
   tips?: string[];
-  validation?: {
-    isValid: boolean;
-    error?: string;
-    correctedSql?: string;
-  };
+  validation?: SqlValidationResult;
+  paramValues?: Record<string, QueryParamInput>; // Valores já preenchidos para os placeholders (ex: vindos de um template)
 }
 
 export type JoinType = 'INNER' | 'LEFT' | 'RIGHT' | 'FULL';
@@ -386,6 +726,7 @@ export interface QueryTemplate {
   sql: string;
   description?: string;
   parameters: string[];
+  lastParams?: Record<string, QueryParamInput>; // Últimos valores usados, inclusive os posicionais ($n)
 }
 
 export const SAMPLE_SCHEMA: DatabaseSchema = {